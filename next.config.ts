@@ -8,7 +8,7 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
-  serverExternalPackages: ['genkit', '@genkit-ai/google-genai', 'zod', 'mammoth', 'xlsx'],
+  serverExternalPackages: ['genkit', '@genkit-ai/google-genai', 'zod', 'mammoth', 'xlsx', 'pdf-parse', '@genkit-ai/compat-oai', 'genkitx-ollama'],
   images: {
     remotePatterns: [
       {
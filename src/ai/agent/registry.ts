@@ -0,0 +1,156 @@
+/**
+ * @fileOverview The tools the agent flow can plan with. Each entry says what it does, when it
+ * applies to a request, and how to run it; the runner (runner.ts) turns the entries that apply
+ * into Genkit tools for one request.
+ *
+ * - AgentContext - What a tool can read: the question, the attached files and the sources found so far.
+ * - AgentTool - A registry entry.
+ * - AGENT_TOOLS - The registry: documentation search, log parsing, expression validation,
+ *   spreadsheet profiling and, when the IDMC REST API is configured, org metadata lookup.
+ * - availableAgentTools - The entries that apply to a request.
+ */
+
+import { z } from 'genkit';
+import { formatChunksForPrompt, searchDocumentation, sourceUrls } from '@/ai/retrieval/search';
+import { digestLogs, parseLogFile } from '@/ai/logs/digest';
+import { looksLikeLog } from '@/ai/logs/parser';
+import { validateExpression } from '@/ai/expressions/validate';
+import { VALUE_TYPES } from '@/ai/expressions/catalog';
+import { describeWorkbookProfile, profileWorkbook } from '@/ai/extractors/spreadsheet';
+import { isIdmcApiConfigured } from '@/ai/idmc-api/config';
+import { IDMC_API_TOOLS } from '@/ai/idmc-api/tools';
+
+export interface AgentFile {
+  name: string;
+  type: string;
+  dataUri: string;
+}
+
+export interface AgentContext {
+  question: string;
+  files: AgentFile[];
+  /** Documentation URLs the tools have returned, in the order found. */
+  sources: string[];
+  /** Aborted when the user stops the request; tools that call out to other services pass it on. */
+  signal?: AbortSignal;
+}
+
+export interface AgentTool {
+  name: string;
+  /** What a call did, for the trace, e.g. "Searched the documentation". */
+  label: string;
+  description: string;
+  inputSchema: z.ZodTypeAny;
+  /** Whether the tool applies to the request; tools that do not are not offered to the model. */
+  available?: (context: AgentContext) => boolean;
+  /** Takes the input as the model sent it; each entry checks it against its own `inputSchema`. */
+  run: (input: unknown, context: AgentContext) => Promise<string>;
+}
+
+function defineAgentTool<I extends z.ZodTypeAny>(
+  tool: Omit<AgentTool, 'inputSchema' | 'run'> & { inputSchema: I; run: (input: z.infer<I>, context: AgentContext) => Promise<string> }
+): AgentTool {
+  return { ...tool, run: (input, context) => tool.run(tool.inputSchema.parse(input), context) };
+}
+
+function isSpreadsheetFile(file: AgentFile): boolean {
+  return /spreadsheet|excel|text\/csv/.test(file.type) || /\.(xlsx|xls|csv)$/i.test(file.name);
+}
+
+function decode(file: AgentFile): Buffer {
+  return Buffer.from(file.dataUri.split(',')[1] ?? '', 'base64');
+}
+
+function findFile(context: AgentContext, name: string): AgentFile | undefined {
+  const wanted = name.trim().toLowerCase();
+  return context.files.find((file) => file.name.toLowerCase() === wanted);
+}
+
+function noSuchFile(context: AgentContext, name: string): string {
+  return `No attached file named "${name}". Attached: ${context.files.map((file) => file.name).join(', ') || 'none'}.`;
+}
+
+const ORG_LABELS: Record<string, string> = {
+  listIdmcObjects: 'Listed org assets',
+  getIdmcActivityLog: 'Read the activity log',
+  getIdmcJobStatus: 'Checked a job',
+  listIdmcRuntimeEnvironments: 'Listed runtime environments',
+};
+
+export const AGENT_TOOLS: AgentTool[] = [
+  defineAgentTool({
+    name: 'searchIdmcDocumentation',
+    label: 'Searched the documentation',
+    description: 'Searches the IDMC documentation index and returns the best matching passages with their source URLs.',
+    inputSchema: z.object({ query: z.string().describe('What to look up, in the words the documentation would use.') }),
+    run: async ({ query }, context) => {
+      const chunks = await searchDocumentation(query);
+      if (!chunks.length) return `No IDMC documentation matched "${query}".`;
+      for (const url of sourceUrls(chunks)) if (!context.sources.includes(url)) context.sources.push(url);
+      return formatChunksForPrompt(chunks);
+    },
+  }),
+  defineAgentTool({
+    name: 'parseIdmcLog',
+    label: 'Parsed a log',
+    description:
+      'Parses an IDMC session, Secure Agent or error log into its errors, the known error signatures they match, and the lines leading up to the first failure.',
+    inputSchema: z.object({
+      file: z.string().optional().describe('Name of an attached log file; omit to parse the log pasted in the question.'),
+    }),
+    available: (context) => context.files.some((file) => !isSpreadsheetFile(file)) || looksLikeLog(context.question),
+    run: async ({ file }, context) => {
+      if (!file) return digestLogs([parseLogFile('question', context.question)]);
+      const found = findFile(context, file);
+      return found ? digestLogs([parseLogFile(found.name, decode(found).toString('utf-8'))]) : noSuchFile(context, file);
+    },
+  }),
+  defineAgentTool({
+    name: 'validateIdmcExpression',
+    label: 'Validated an expression',
+    description:
+      'Checks an IDMC transformation language expression without running it: syntax, functions and argument counts, date formats, and types against the given ports. Returns the inferred type and each problem by line and column.',
+    inputSchema: z.object({
+      code: z.string().describe('The expression.'),
+      ports: z.array(z.object({ name: z.string(), type: z.enum(VALUE_TYPES) })).optional().describe('Types of the ports the expression reads.'),
+      outputType: z.enum(VALUE_TYPES).optional().describe('Type of the output port the expression feeds.'),
+    }),
+    run: async ({ code, ports, outputType }) => {
+      const result = validateExpression(code, {
+        ports: ports && Object.fromEntries(ports.map((port) => [port.name, port.type])),
+        outputType,
+      });
+      const lines = [`${result.valid ? 'Valid' : 'Invalid'}${result.type ? `, returns ${result.type}` : ''}.`];
+      for (const d of result.diagnostics) lines.push(`- ${d.line}:${d.column} ${d.severity}: ${d.message}`);
+      return lines.join('\n');
+    },
+  }),
+  defineAgentTool({
+    name: 'profileSpreadsheet',
+    label: 'Profiled a spreadsheet',
+    description:
+      'Profiles an attached .xlsx, .xls or .csv file locally: sheets, row counts, and per column the type, null rate, distinct values, ranges, patterns and suspected PII.',
+    inputSchema: z.object({ file: z.string().describe('Name of the attached spreadsheet.') }),
+    available: (context) => context.files.some(isSpreadsheetFile),
+    run: async ({ file }, context) => {
+      const found = findFile(context, file);
+      if (!found) return noSuchFile(context, file);
+      if (!isSpreadsheetFile(found)) return `${found.name} is not a spreadsheet.`;
+      return describeWorkbookProfile(profileWorkbook(decode(found)));
+    },
+  }),
+  ...IDMC_API_TOOLS.map((tool) =>
+    defineAgentTool({
+      name: tool.name,
+      label: ORG_LABELS[tool.name] ?? tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      available: isIdmcApiConfigured,
+      run: (input, context) => tool.run(input, context.signal),
+    })
+  ),
+];
+
+export function availableAgentTools(context: AgentContext): AgentTool[] {
+  return AGENT_TOOLS.filter((tool) => tool.available?.(context) ?? true);
+}
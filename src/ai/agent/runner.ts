@@ -0,0 +1,74 @@
+/**
+ * @fileOverview Turns the registry entries that apply to a request into Genkit tools that record
+ * a trace of every call and enforce the request's step budget. Created per request.
+ *
+ * Once the budget is spent, further calls are not run: the model is told to answer with what it
+ * has, so the tool loop ends on the next turn.
+ *
+ * - agentRun - The tools for one request with their descriptions for the prompt, the trace they
+ *   fill, and whether the budget ran out.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import type { AgentStep } from '@/ai/streaming';
+import { availableAgentTools, type AgentContext } from './registry';
+
+/** Tool output handed to the model; longer output is cut. */
+const MAX_OUTPUT_CHARS = 12000;
+/** Tool output kept in the trace shown in the chat. */
+const MAX_TRACE_OUTPUT_CHARS = 1500;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n… (${text.length - max} more characters)` : text;
+}
+
+export function agentRun(context: AgentContext, { maxSteps, onStep }: { maxSteps: number; onStep: (step: AgentStep) => void }) {
+  const trace: AgentStep[] = [];
+  // Counted when a call starts, since the model may request several calls at once.
+  let calls = 0;
+  let limitReached = false;
+
+  const entries = availableAgentTools(context);
+  const tools = entries.map((entry) =>
+    ai.dynamicTool(
+      { name: entry.name, description: entry.description, inputSchema: entry.inputSchema, outputSchema: z.string() },
+      async (input) => {
+        if (calls >= maxSteps) {
+          limitReached = true;
+          return `Step limit of ${maxSteps} tool calls reached; this call was not run. Answer now with what you have found.`;
+        }
+        const number = ++calls;
+        const startTime = Date.now();
+        let output: string;
+        let status: AgentStep['status'] = 'ok';
+        try {
+          output = await entry.run(input, context);
+        } catch (error) {
+          console.error(`Agent tool ${entry.name} failed:`, error);
+          output = `The tool failed: ${error instanceof Error ? error.message : String(error)}`;
+          status = 'error';
+        }
+        const step: AgentStep = {
+          step: number,
+          tool: entry.name,
+          label: entry.label,
+          input: JSON.stringify(input ?? {}),
+          output: truncate(output, MAX_TRACE_OUTPUT_CHARS),
+          status,
+          durationMs: Date.now() - startTime,
+        };
+        trace.push(step);
+        onStep(step);
+        return truncate(output, MAX_OUTPUT_CHARS);
+      }
+    )
+  );
+
+  return {
+    tools,
+    descriptions: entries.map((entry) => `- ${entry.name}: ${entry.description}`),
+    trace,
+    limitReached: () => limitReached,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * @fileOverview Compares answers from several models to the same question.
+ *
+ * - compareAnswers - Scores how much the answers agree and lists key claims with the models
+ *   that support or contradict each one.
+ * - ModelComparisonSchema - The structured comparison, as returned to the UI and passed to synthesis.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import { modelFor } from '@/ai/models';
+import { tokenize } from '@/ai/retrieval/bm25';
+
+export const ClaimAgreementSchema = z.object({
+  claim: z.string().describe('A key factual claim or recommendation, stated in one sentence.'),
+  supportedBy: z.array(z.string()).describe('Ids of the models whose answers make or clearly imply this claim.'),
+  contradictedBy: z.array(z.string()).describe('Ids of the models whose answers state something incompatible with it.'),
+});
+export type ClaimAgreement = z.infer<typeof ClaimAgreementSchema>;
+
+export const ModelComparisonSchema = z.object({
+  panel: z.array(z.object({ id: z.string(), label: z.string(), model: z.string() })).describe('The models that answered.'),
+  agreementScore: z.number().describe('0..1, how strongly the answers agree overall.'),
+  pairwise: z
+    .array(z.object({ a: z.string(), b: z.string(), similarity: z.number() }))
+    .describe('Lexical similarity between every pair of answers, 0..1.'),
+  claims: z.array(ClaimAgreementSchema).describe('Key claims and which models agree or disagree on them.'),
+});
+export type ModelComparison = z.infer<typeof ModelComparisonSchema>;
+
+export interface PanelAnswer {
+  id: string;
+  label: string;
+  model: string;
+  answer: string;
+}
+
+const MAX_CLAIMS = 8;
+
+function termVector(text: string): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const token of tokenize(text)) vector.set(token, (vector.get(token) ?? 0) + 1);
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, count] of a) dot += count * (b.get(term) ?? 0);
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const claimComparisonPrompt = ai.definePrompt({
+  name: 'idmcClaimComparisonPrompt',
+  model: modelFor('synthesis'),
+  input: {
+    schema: z.object({
+      question: z.string(),
+      responses: z.array(z.object({ id: z.string(), label: z.string(), answer: z.string() })),
+      maxClaims: z.number(),
+    }),
+  },
+  output: { schema: z.object({ claims: z.array(ClaimAgreementSchema) }) },
+  prompt: `Several AI models answered the same question about Informatica Data Management Cloud (IDMC).
+Identify up to {{maxClaims}} key claims (facts, steps, limits, recommendations) that matter for answering the question.
+For each claim, list the ids of the models whose answers support it and the ids of the models whose answers contradict it.
+A model that simply does not mention a claim neither supports nor contradicts it. Prefer claims where the models disagree or where only some models mention them.
+
+Question: {{{question}}}
+
+{{#each responses}}
+--- Answer from model id "{{id}}" ({{label}}) ---
+{{{answer}}}
+
+{{/each}}`,
+});
+
+/**
+ * Compares panel answers. Lexical similarity is always computed locally; the claim-level
+ * comparison is model-generated and is simply left empty if that call fails, so a
+ * comparison failure never blocks the answer.
+ */
+export async function compareAnswers(
+  question: string,
+  answers: PanelAnswer[],
+  { abortSignal }: { abortSignal?: AbortSignal } = {}
+): Promise<ModelComparison> {
+  const vectors = answers.map((answer) => termVector(answer.answer));
+  const pairwise: ModelComparison['pairwise'] = [];
+  for (let i = 0; i < answers.length; i++) {
+    for (let j = i + 1; j < answers.length; j++) {
+      pairwise.push({ a: answers[i].id, b: answers[j].id, similarity: round(cosine(vectors[i], vectors[j])) });
+    }
+  }
+
+  let claims: ClaimAgreement[] = [];
+  if (answers.length > 1) {
+    try {
+      const { output } = await claimComparisonPrompt(
+        { question, responses: answers, maxClaims: MAX_CLAIMS },
+        { abortSignal }
+      );
+      const ids = new Set(answers.map((answer) => answer.id));
+      claims = (output?.claims ?? []).slice(0, MAX_CLAIMS).map((claim) => ({
+        claim: claim.claim,
+        supportedBy: claim.supportedBy.filter((id) => ids.has(id)),
+        contradictedBy: claim.contradictedBy.filter((id) => ids.has(id) && !claim.supportedBy.includes(id)),
+      }));
+    } catch (error) {
+      if (abortSignal?.aborted) throw error;
+      console.error('Claim comparison failed, continuing with lexical agreement only:', error);
+    }
+  }
+
+  // Claim-level agreement is the better signal when available; fall back to lexical overlap.
+  const agreementScore = claims.length
+    ? claims.reduce((sum, claim) => {
+        const voters = claim.supportedBy.length + claim.contradictedBy.length;
+        return sum + (voters ? claim.supportedBy.length / voters : 0);
+      }, 0) / claims.length
+    : pairwise.length
+      ? pairwise.reduce((sum, pair) => sum + pair.similarity, 0) / pairwise.length
+      : 1;
+
+  return {
+    panel: answers.map(({ id, label, model }) => ({ id, label, model })),
+    agreementScore: round(agreementScore),
+    pairwise,
+    claims,
+  };
+}
+
+/** Renders a comparison as plain text for the synthesis prompt. */
+export function formatComparison(comparison: ModelComparison): string {
+  const lines = [`Overall agreement: ${Math.round(comparison.agreementScore * 100)}%`];
+  for (const claim of comparison.claims) {
+    const support = claim.supportedBy.join(', ') || 'none';
+    const against = claim.contradictedBy.length ? `; contradicted by: ${claim.contradictedBy.join(', ')}` : '';
+    lines.push(`- ${claim.claim} (supported by: ${support}${against})`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,180 @@
+/**
+ * @fileOverview Typed component graphs extracted from architecture diagrams, and checks for the
+ * pieces an IDMC deployment needs that a diagram leaves out.
+ *
+ * - ArchitectureGraphSchema - Systems, IDMC services, agents and connections, and the flows between them.
+ * - ArchitectureExtractionSchema - What the model is asked to extract from a diagram.
+ * - buildArchitectureGraph - Cleans up an extracted graph and adds the gaps found by `findGaps`.
+ */
+
+import { z } from 'genkit';
+
+export const NODE_KINDS = [
+  'system',
+  'database',
+  'application',
+  'file-storage',
+  'cloud-storage',
+  'idmc-service',
+  'secure-agent-group',
+  'runtime-environment',
+  'connection',
+  'user',
+  'other',
+] as const;
+
+export const IDMC_SERVICES = ['CDI', 'CDI-E', 'CAI', 'CDQ', 'CDGC', 'MDM', 'Mass Ingestion', 'Data Marketplace', 'Other'] as const;
+
+const NodeSchema = z.object({
+  id: z.string().describe('Short unique id, e.g. "sap_ecc" or "cdi".'),
+  label: z.string().describe('The name shown in the diagram.'),
+  kind: z.enum(NODE_KINDS),
+  service: z.enum(IDMC_SERVICES).optional().describe('For idmc-service nodes: which IDMC service.'),
+  technology: z.string().optional().describe('Product or platform, e.g. "Oracle 19c", "Snowflake", "Salesforce".'),
+  location: z.enum(['on-premises', 'cloud', 'unknown']).optional().describe('Where the component runs, if the diagram says.'),
+});
+
+const EdgeSchema = z.object({
+  from: z.string().describe('Id of the node data or control comes from.'),
+  to: z.string().describe('Id of the node it goes to.'),
+  kind: z.enum(['data-flow', 'runs-on', 'uses-connection', 'governs', 'other']),
+  label: z.string().optional().describe('The label on the arrow, e.g. "nightly batch".'),
+  connector: z.string().optional().describe('IDMC connector used, e.g. "Oracle", "Snowflake Data Cloud", "Salesforce".'),
+});
+
+const GapSchema = z.object({
+  severity: z.enum(['high', 'medium', 'low']),
+  issue: z.string().describe('What is missing or unclear.'),
+  nodes: z.array(z.string()).optional().describe('Ids of the nodes concerned.'),
+  recommendation: z.string(),
+});
+
+export const ArchitectureExtractionSchema = z.object({
+  title: z.string().optional(),
+  nodes: z.array(NodeSchema),
+  edges: z.array(EdgeSchema),
+  gaps: z.array(GapSchema).describe('Missing or ambiguous pieces you noticed in the diagram.'),
+});
+export type ArchitectureExtraction = z.infer<typeof ArchitectureExtractionSchema>;
+
+export const ArchitectureGraphSchema = ArchitectureExtractionSchema.extend({
+  warnings: z.array(z.string()).describe('Problems with the extracted graph itself, e.g. arrows to unknown components.'),
+});
+export type ArchitectureGraph = z.infer<typeof ArchitectureGraphSchema>;
+
+type Node = z.infer<typeof NodeSchema>;
+type Gap = z.infer<typeof GapSchema>;
+
+const ENDPOINT_KINDS = new Set<Node['kind']>(['system', 'database', 'application', 'file-storage', 'cloud-storage']);
+/** Services that run jobs on a runtime environment (a Secure Agent group or serverless). */
+const RUNTIME_SERVICES = new Set<string>(['CDI', 'CDI-E', 'CAI', 'CDQ', 'MDM', 'Mass Ingestion']);
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'node';
+}
+
+/** Deterministic checks for what an IDMC deployment needs; complements the gaps the model reports. */
+export function findGaps(graph: Pick<ArchitectureGraph, 'nodes' | 'edges'>): Gap[] {
+  const gaps: Gap[] = [];
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const services = graph.nodes.filter((node) => node.kind === 'idmc-service');
+  const runtimes = graph.nodes.filter((node) => node.kind === 'secure-agent-group' || node.kind === 'runtime-environment');
+  const connected = new Set(graph.edges.flatMap((edge) => [edge.from, edge.to]));
+
+  const jobServices = services.filter((node) => !node.service || RUNTIME_SERVICES.has(node.service));
+  if (jobServices.length && !runtimes.length) {
+    const onPremises = graph.nodes.filter((node) => node.location === 'on-premises' && ENDPOINT_KINDS.has(node.kind));
+    gaps.push({
+      severity: onPremises.length ? 'high' : 'medium',
+      issue: onPremises.length
+        ? `No Secure Agent group is shown, but on-premises systems (${onPremises.map((n) => n.label).join(', ')}) exchange data with IDMC.`
+        : 'No Secure Agent group or runtime environment is shown for the IDMC services that run jobs.',
+      nodes: jobServices.map((node) => node.id),
+      recommendation: onPremises.length
+        ? 'Add a Secure Agent group inside the network that can reach the on-premises systems, and assign it as the runtime environment of the tasks.'
+        : 'Show which runtime environment runs the tasks: a Secure Agent group, or the serverless runtime environment if all endpoints are cloud services.',
+    });
+  }
+
+  // Data moving between an endpoint and IDMC needs a connection of some connector type.
+  for (const edge of graph.edges.filter((e) => e.kind === 'data-flow')) {
+    const [from, to] = [byId.get(edge.from), byId.get(edge.to)];
+    if (!from || !to) continue;
+    const endpoint = ENDPOINT_KINDS.has(from.kind) ? from : ENDPOINT_KINDS.has(to.kind) ? to : undefined;
+    const touchesIdmc = [from, to].some((node) => node.kind === 'idmc-service');
+    if (!endpoint || !touchesIdmc || edge.connector) continue;
+    const hasConnection = graph.edges.some(
+      (e) => e.kind === 'uses-connection' && (e.from === endpoint.id || e.to === endpoint.id)
+    );
+    if (!hasConnection) {
+      gaps.push({
+        severity: 'medium',
+        issue: `The connection used for ${endpoint.label} (${from.label} → ${to.label}) is not identified.`,
+        nodes: [endpoint.id],
+        recommendation: `Name the IDMC connector${endpoint.technology ? ` for ${endpoint.technology}` : ''} and the connection that reads or writes ${endpoint.label}.`,
+      });
+    }
+  }
+
+  for (const node of graph.nodes) {
+    // Unconnected CDGC is reported by the governance check below.
+    if (!connected.has(node.id) && node.kind !== 'user' && node.service !== 'CDGC') {
+      gaps.push({
+        severity: 'low',
+        issue: `${node.label} is not connected to anything in the diagram.`,
+        nodes: [node.id],
+        recommendation: 'Add the data flows or dependencies it takes part in, or remove it if it is out of scope.',
+      });
+    }
+  }
+
+  if (services.some((node) => node.service === 'CDGC') && !graph.edges.some((edge) => edge.kind === 'governs')) {
+    gaps.push({
+      severity: 'low',
+      issue: 'Data governance (CDGC) is shown, but not which systems it catalogs.',
+      nodes: services.filter((node) => node.service === 'CDGC').map((node) => node.id),
+      recommendation: 'Show the catalog sources CDGC scans and the runtime environment that runs the scanners.',
+    });
+  }
+  return gaps;
+}
+
+/**
+ * Makes node ids unique and well formed, drops edges to unknown nodes (reported as warnings),
+ * and merges the model's gaps with the deterministic ones.
+ */
+export function buildArchitectureGraph(extraction: ArchitectureExtraction): ArchitectureGraph {
+  const warnings: string[] = [];
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  const nodes = extraction.nodes.map((node) => {
+    let id = slug(node.id || node.label);
+    for (let n = 2; taken.has(id); n++) id = `${slug(node.id || node.label)}_${n}`;
+    taken.add(id);
+    if (!ids.has(node.id)) ids.set(node.id, id);
+    ids.set(node.label.toLowerCase(), ids.get(node.label.toLowerCase()) ?? id);
+    return { ...node, id };
+  });
+  const resolve = (reference: string) => ids.get(reference) ?? ids.get(reference.toLowerCase()) ?? (taken.has(slug(reference)) ? slug(reference) : undefined);
+
+  const edges = extraction.edges.flatMap((edge) => {
+    const [from, to] = [resolve(edge.from), resolve(edge.to)];
+    if (!from || !to) {
+      warnings.push(`Dropped the ${edge.kind} link from "${edge.from}" to "${edge.to}": ${!from ? edge.from : edge.to} is not a component.`);
+      return [];
+    }
+    return [{ ...edge, from, to }];
+  });
+
+  const modelGaps = extraction.gaps.map((gap) => ({
+    ...gap,
+    nodes: gap.nodes?.map((id) => resolve(id)).filter((id): id is string => !!id),
+  }));
+  const found = findGaps({ nodes, edges }).filter(
+    (gap) => !modelGaps.some((g) => g.nodes?.length && gap.nodes?.every((id) => g.nodes?.includes(id)) && g.severity === gap.severity)
+  );
+  const order = { high: 0, medium: 1, low: 2 };
+  const gaps = [...modelGaps, ...found].sort((a, b) => order[a.severity] - order[b.severity]);
+
+  return { title: extraction.title, nodes, edges, gaps, warnings };
+}
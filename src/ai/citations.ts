@@ -0,0 +1,116 @@
+/**
+ * @fileOverview Inline citations for documentation-grounded answers.
+ *
+ * Answers cite retrieved chunks with numbered markers like `[2]`, matching the numbering of
+ * `formatChunksForPrompt`. After generation, every sentence is checked against the chunks so
+ * claims that no retrieved documentation backs up can be flagged to the user.
+ *
+ * - CitationSchema - A numbered reference to a retrieved chunk, with title and snippet.
+ * - buildCitations - Citations for the chunks an answer actually cites.
+ * - findUnsupportedSentences - Sentences not supported by any retrieved chunk.
+ */
+
+import { z } from 'genkit';
+import { tokenize } from '@/ai/retrieval/bm25';
+import type { DocumentChunk } from '@/ai/retrieval/types';
+
+export const CitationSchema = z.object({
+  n: z.number().describe('The marker number used inline in the answer, e.g. 2 for [2].'),
+  chunkId: z.string(),
+  title: z.string(),
+  heading: z.string().optional(),
+  url: z.string(),
+  snippet: z.string().describe('A short excerpt of the cited chunk.'),
+});
+export type Citation = z.infer<typeof CitationSchema>;
+
+/** Chunk fields needed to cite and verify; a subset of DocumentChunk so tool output can carry it. */
+export const CitableChunkSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  url: z.string(),
+  heading: z.string().optional(),
+  text: z.string(),
+  verified: z.boolean().optional().describe('Set on curated answers approved by the IDMC team.'),
+});
+export type CitableChunk = Pick<DocumentChunk, 'id' | 'title' | 'url' | 'heading' | 'text' | 'verified'>;
+
+const SNIPPET_LENGTH = 240;
+
+/** Share of a sentence's content words that must appear in one chunk for it to count as supported. */
+const SUPPORT_THRESHOLD = Number(process.env.IDMC_CITATION_SUPPORT_THRESHOLD || 0.5);
+
+/** Sentences with fewer content words than this (headings, "Yes.", transitions) are not checked. */
+const MIN_CHECKED_TOKENS = 4;
+
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/** Marker numbers cited in `text`, e.g. "[1]" and "[2, 3]" give 1, 2, 3. */
+export function citedNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of text.matchAll(MARKER)) {
+    for (const n of match[1].split(',')) numbers.add(Number(n.trim()));
+  }
+  return [...numbers];
+}
+
+function snippetOf(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= SNIPPET_LENGTH) return flat;
+  const cut = flat.lastIndexOf(' ', SNIPPET_LENGTH);
+  return `${flat.slice(0, cut > 0 ? cut : SNIPPET_LENGTH)}…`;
+}
+
+/**
+ * Citations for every chunk the answer cites, numbered as in the prompt context
+ * (chunk i is marker i + 1). Markers that point at no chunk are ignored.
+ */
+export function buildCitations(answer: string, chunks: CitableChunk[]): Citation[] {
+  return citedNumbers(answer)
+    .filter((n) => n >= 1 && n <= chunks.length)
+    .sort((a, b) => a - b)
+    .map((n) => {
+      const chunk = chunks[n - 1];
+      return {
+        n,
+        chunkId: chunk.id,
+        title: chunk.title,
+        heading: chunk.heading,
+        url: chunk.url,
+        snippet: snippetOf(chunk.text),
+      };
+    });
+}
+
+/** Splits prose into sentences, keeping trailing citation markers with their sentence. */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((line) => line.match(/[^.!?]+(?:[.!?]+(?:\s*\[[\d,\s]+\])*|$)/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function coverage(sentenceTokens: string[], chunkTokens: Set<string>): number {
+  const hits = sentenceTokens.filter((token) => chunkTokens.has(token)).length;
+  return hits / sentenceTokens.length;
+}
+
+/**
+ * Lexical grounding check: a sentence is supported when enough of its content words occur in
+ * a retrieved chunk. Cited chunks are checked first, then any other retrieved chunk, so a
+ * claim with a wrong marker but real backing is not flagged. This is deliberately cheap and
+ * conservative; it catches invented specifics, not subtle paraphrase errors.
+ */
+export function findUnsupportedSentences(answer: string, chunks: CitableChunk[]): string[] {
+  if (chunks.length === 0) return [];
+  const chunkTokens = chunks.map((chunk) => new Set(tokenize(`${chunk.title} ${chunk.heading ?? ''} ${chunk.text}`)));
+
+  return splitSentences(answer).filter((sentence) => {
+    const tokens = tokenize(sentence.replace(MARKER, ' '));
+    if (tokens.length < MIN_CHECKED_TOKENS) return false;
+    const cited = citedNumbers(sentence).filter((n) => n >= 1 && n <= chunks.length);
+    const order = [...cited.map((n) => n - 1), ...chunks.keys()];
+    return !order.some((i) => coverage(tokens, chunkTokens[i]) >= SUPPORT_THRESHOLD);
+  });
+}
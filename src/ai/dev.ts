@@ -5,3 +5,7 @@ import '@/ai/flows/idmc-question-answering.ts';
 import '@/ai/flows/contextual-idmc-answers.ts';
 import '@/ai/flows/comprehensive-idmc-insights.ts';
 import '@/ai/flows/attachment-analysis.ts';
+import '@/ai/flows/log-diagnosis.ts';
+import '@/ai/flows/mapping-design.ts';
+import '@/ai/flows/expression-helper.ts';
+import '@/ai/flows/idmc-agent.ts';
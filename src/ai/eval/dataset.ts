@@ -0,0 +1,115 @@
+/**
+ * @fileOverview The golden dataset format for offline evaluation of the answer flows.
+ *
+ * A dataset is a JSON file with a list of cases. Each case is a question, optionally with an
+ * attachment fixture, plus what a good answer contains: facts it should state, sources it
+ * should cite, and whether it should decline to answer. Fixture paths are relative to the file.
+ *
+ * - EVAL_FLOWS - The flows a case can be run against.
+ * - GoldenCase - One question and what a good answer to it looks like.
+ * - loadGoldenDataset - Reads and validates a dataset, resolving attachment fixtures.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'genkit';
+
+export const EVAL_FLOWS = ['standard', 'contextual', 'comprehensive', 'attachment', 'troubleshooting'] as const;
+export type EvalFlow = (typeof EVAL_FLOWS)[number];
+
+const GoldenCaseSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/, 'Case ids may only contain letters, digits, "_", "." and "-".'),
+  question: z.string(),
+  flows: z
+    .array(z.enum(EVAL_FLOWS))
+    .optional()
+    .describe('Flows to run the case against; by default every text flow, or the attachment flow when there is a fixture.'),
+  attachment: z
+    .object({
+      fixture: z.string().describe('Path of the file to attach, relative to the dataset file.'),
+      type: z.string().optional().describe('MIME type; guessed from the extension when absent.'),
+    })
+    .optional(),
+  expectedFacts: z
+    .array(z.union([z.string(), z.array(z.string()).min(1)]))
+    .default([])
+    .describe('Facts a good answer states. A list of strings is one fact with alternative wordings.'),
+  mustCite: z
+    .array(z.string())
+    .default([])
+    .describe('Sources a good answer cites, matched as substrings of the cited URLs.'),
+  expectRefusal: z.boolean().default(false).describe('Whether a good answer says it cannot answer.'),
+});
+export type GoldenCase = z.infer<typeof GoldenCaseSchema>;
+
+const GoldenDatasetSchema = z.object({
+  name: z.string().optional(),
+  cases: z.array(GoldenCaseSchema).min(1),
+});
+
+/** A file attached to a case, read into the form the attachment flow takes. */
+export interface CaseAttachment {
+  name: string;
+  type: string;
+  dataUri: string;
+}
+
+export interface LoadedCase extends GoldenCase {
+  flows: EvalFlow[];
+  file?: CaseAttachment;
+}
+
+export interface GoldenDataset {
+  name: string;
+  path: string;
+  cases: LoadedCase[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.zip': 'application/zip',
+};
+
+async function readFixture(datasetDir: string, fixture: { fixture: string; type?: string }): Promise<CaseAttachment> {
+  const file = path.resolve(datasetDir, fixture.fixture);
+  const type = fixture.type ?? MIME_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+  const data = await fs.readFile(file);
+  return { name: path.basename(file), type, dataUri: `data:${type};base64,${data.toString('base64')}` };
+}
+
+export async function loadGoldenDataset(datasetPath: string): Promise<GoldenDataset> {
+  const file = path.resolve(datasetPath);
+  const parsed = GoldenDatasetSchema.safeParse(JSON.parse(await fs.readFile(file, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid golden dataset ${file}: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+
+  const ids = new Set<string>();
+  const cases: LoadedCase[] = [];
+  for (const golden of parsed.data.cases) {
+    if (ids.has(golden.id)) throw new Error(`Duplicate case id "${golden.id}" in ${file}.`);
+    ids.add(golden.id);
+    const flows = golden.flows ?? (golden.attachment ? ['attachment' as const] : ['standard' as const, 'contextual' as const, 'comprehensive' as const]);
+    const needsFixture = flows.find((flow) => flow === 'attachment' || flow === 'troubleshooting');
+    if (needsFixture && !golden.attachment) {
+      throw new Error(`Case "${golden.id}" runs the ${needsFixture} flow but has no attachment fixture.`);
+    }
+    cases.push({
+      ...golden,
+      flows,
+      file: golden.attachment ? await readFixture(path.dirname(file), golden.attachment) : undefined,
+    });
+  }
+  return { name: parsed.data.name ?? path.basename(file, '.json'), path: file, cases };
+}
@@ -0,0 +1,241 @@
+/**
+ * @fileOverview Evaluation reports: per-flow averages, every scored answer, and the change
+ * against an earlier report, as JSON for diffing and as a self-contained HTML page.
+ *
+ * - EvalReport - The JSON report written by `npm run eval`.
+ * - buildEvalReport - Summarizes results, optionally against a baseline report.
+ * - renderEvalReportHtml - The report as an HTML page.
+ */
+
+import type { CaseResult } from './runner';
+import type { EvalFlow } from './dataset';
+
+export interface FlowSummary {
+  flow: EvalFlow;
+  models: string[];
+  cases: number;
+  errors: number;
+  factualRecall: number | null;
+  groundedness: number | null;
+  citationRecall: number | null;
+  refusalAccuracy: number | null;
+  latencyMs: { mean: number; p50: number; p95: number };
+}
+
+type Metric = 'factualRecall' | 'groundedness' | 'citationRecall' | 'refusalAccuracy';
+const METRICS: Metric[] = ['factualRecall', 'groundedness', 'citationRecall', 'refusalAccuracy'];
+
+/** A case whose score went down since the baseline. */
+export interface Regression {
+  caseId: string;
+  flow: EvalFlow;
+  metric: Metric;
+  baseline: number;
+  current: number;
+}
+
+export interface EvalReport {
+  dataset: string;
+  generatedAt: string;
+  summary: FlowSummary[];
+  results: CaseResult[];
+  baseline?: {
+    generatedAt: string;
+    /** Change of each flow's averages; null where either report has no score. */
+    deltas: { flow: EvalFlow; factualRecall: number | null; groundedness: number | null; citationRecall: number | null; refusalAccuracy: number | null; latencyP50Ms: number | null }[];
+    regressions: Regression[];
+  };
+}
+
+const FLOW_ORDER: EvalFlow[] = ['standard', 'contextual', 'comprehensive', 'attachment', 'troubleshooting'];
+
+function mean(values: (number | null)[]): number | null {
+  const scored = values.filter((value): value is number => value !== null);
+  return scored.length ? scored.reduce((sum, value) => sum + value, 0) / scored.length : null;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 1000) / 1000;
+}
+
+/** Refusal correctness of one answer, scored like the other metrics. Errors are not scored. */
+function refusalScore(result: CaseResult): number | null {
+  return result.error ? null : Number(result.refused === result.expectRefusal);
+}
+
+function summarize(flow: EvalFlow, results: CaseResult[]): FlowSummary {
+  const latencies = results.filter((result) => !result.error).map((result) => result.latencyMs).sort((a, b) => a - b);
+  return {
+    flow,
+    models: [...new Set(results.flatMap((result) => result.models))].sort(),
+    cases: results.length,
+    errors: results.filter((result) => result.error).length,
+    factualRecall: round(mean(results.map((result) => result.factualRecall))),
+    groundedness: round(mean(results.map((result) => result.groundedness))),
+    citationRecall: round(mean(results.map((result) => result.citationRecall))),
+    refusalAccuracy: round(mean(results.map(refusalScore))),
+    latencyMs: {
+      mean: Math.round(mean(latencies) ?? 0),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+  };
+}
+
+function delta(current: number | null, baseline: number | null | undefined): number | null {
+  return current === null || baseline === null || baseline === undefined ? null : round(current - baseline);
+}
+
+function metricOf(result: CaseResult, metric: Metric): number | null {
+  return metric === 'refusalAccuracy' ? refusalScore(result) : result[metric];
+}
+
+function compare(summary: FlowSummary[], results: CaseResult[], baseline: EvalReport): EvalReport['baseline'] {
+  const deltas = summary.map((current) => {
+    const before = baseline.summary.find((s) => s.flow === current.flow);
+    return {
+      flow: current.flow,
+      factualRecall: delta(current.factualRecall, before?.factualRecall),
+      groundedness: delta(current.groundedness, before?.groundedness),
+      citationRecall: delta(current.citationRecall, before?.citationRecall),
+      refusalAccuracy: delta(current.refusalAccuracy, before?.refusalAccuracy),
+      latencyP50Ms: before ? current.latencyMs.p50 - before.latencyMs.p50 : null,
+    };
+  });
+
+  const regressions: Regression[] = [];
+  for (const result of results) {
+    const before = baseline.results.find((b) => b.caseId === result.caseId && b.flow === result.flow);
+    if (!before) continue;
+    for (const metric of METRICS) {
+      const was = metricOf(before, metric);
+      const now = metricOf(result, metric);
+      if (was !== null && now !== null && now < was) {
+        regressions.push({ caseId: result.caseId, flow: result.flow, metric, baseline: round(was)!, current: round(now)! });
+      }
+    }
+  }
+  return { generatedAt: baseline.generatedAt, deltas, regressions };
+}
+
+/** Results are ordered by case id and flow, so two reports line up line by line in a diff. */
+export function buildEvalReport(
+  dataset: string,
+  results: CaseResult[],
+  baseline?: EvalReport
+): EvalReport {
+  const sorted = [...results].sort(
+    (a, b) => a.caseId.localeCompare(b.caseId) || FLOW_ORDER.indexOf(a.flow) - FLOW_ORDER.indexOf(b.flow)
+  );
+  const summary = FLOW_ORDER.filter((flow) => sorted.some((result) => result.flow === flow)).map((flow) =>
+    summarize(flow, sorted.filter((result) => result.flow === flow))
+  );
+  return {
+    dataset,
+    generatedAt: new Date().toISOString(),
+    summary,
+    results: sorted,
+    baseline: baseline ? compare(summary, sorted, baseline) : undefined,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '–' : `${Math.round(value * 100)}%`;
+}
+
+function formatDelta(value: number | null | undefined, unit: '%' | 'ms' = '%'): string {
+  if (value === null || value === undefined || value === 0) return '';
+  const shown = unit === '%' ? `${Math.round(value * 100)} pts` : `${value} ms`;
+  // Lower latency is better, higher scores are better.
+  const better = unit === 'ms' ? value < 0 : value > 0;
+  return ` <span class="${better ? 'up' : 'down'}">${value > 0 ? '+' : ''}${shown}</span>`;
+}
+
+function scoreCell(value: number | null): string {
+  const tone = value === null ? '' : value >= 0.8 ? 'good' : value >= 0.5 ? 'fair' : 'poor';
+  return `<td class="${tone}">${formatScore(value)}</td>`;
+}
+
+function list(title: string, items: string[]): string {
+  if (items.length === 0) return '';
+  return `<p><strong>${title}</strong></p><ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+}
+
+export function renderEvalReportHtml(report: EvalReport): string {
+  const summaryRows = report.summary
+    .map((s) => {
+      const d = report.baseline?.deltas.find((entry) => entry.flow === s.flow);
+      return `<tr><th>${s.flow}</th><td>${escapeHtml(s.models.join(', '))}</td><td>${s.cases}</td><td>${s.errors}</td>
+<td>${formatScore(s.factualRecall)}${formatDelta(d?.factualRecall)}</td>
+<td>${formatScore(s.groundedness)}${formatDelta(d?.groundedness)}</td>
+<td>${formatScore(s.citationRecall)}${formatDelta(d?.citationRecall)}</td>
+<td>${formatScore(s.refusalAccuracy)}${formatDelta(d?.refusalAccuracy)}</td>
+<td>${s.latencyMs.p50} / ${s.latencyMs.p95} ms${formatDelta(d?.latencyP50Ms, 'ms')}</td></tr>`;
+    })
+    .join('\n');
+
+  const regressions = report.baseline?.regressions.length
+    ? `<h2>Regressions since ${escapeHtml(report.baseline.generatedAt)}</h2><ul>${report.baseline.regressions
+        .map((r) => `<li><a href="#${r.caseId}-${r.flow}">${escapeHtml(r.caseId)}</a> (${r.flow}): ${r.metric} ${formatScore(r.baseline)} → ${formatScore(r.current)}</li>`)
+        .join('')}</ul>`
+    : '';
+
+  const caseRows = report.results
+    .map(
+      (r) => `<tr id="${r.caseId}-${r.flow}"><td>${escapeHtml(r.caseId)}</td><td>${r.flow}</td>
+${scoreCell(r.factualRecall)}${scoreCell(r.groundedness)}${scoreCell(r.citationRecall)}
+<td class="${r.error ? '' : r.refused === r.expectRefusal ? 'good' : 'poor'}">${r.error ? '–' : r.refused ? 'refused' : 'answered'}${r.expectRefusal ? ' (should refuse)' : ''}</td>
+<td>${r.latencyMs} ms</td>
+<td><details><summary>${escapeHtml(r.question)}</summary>
+${r.error ? `<p class="poor">Error: ${escapeHtml(r.error)}</p>` : `<pre>${escapeHtml(r.answer)}</pre>`}
+${list('Missing facts', r.missingFacts)}${list('Missing citations', r.missingCitations)}${list('Unsupported sentences', r.unsupportedSentences)}${list('Sources', r.sources)}
+</details></td></tr>`
+    )
+    .join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>IDMC evaluation: ${escapeHtml(report.dataset)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; font-size: 0.9rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+thead th { background: #f3f4f6; }
+.good { background: #ecfdf5; } .fair { background: #fffbeb; } .poor { background: #fef2f2; }
+.up { color: #047857; } .down { color: #b91c1c; }
+pre { white-space: pre-wrap; background: #f9fafb; padding: 0.5rem; }
+summary { cursor: pointer; }
+</style>
+</head>
+<body>
+<h1>IDMC evaluation: ${escapeHtml(report.dataset)}</h1>
+<p>Generated ${escapeHtml(report.generatedAt)}${report.baseline ? `, compared with the run of ${escapeHtml(report.baseline.generatedAt)}` : ''}.</p>
+<table>
+<thead><tr><th>Flow</th><th>Models</th><th>Cases</th><th>Errors</th><th>Factual recall</th><th>Groundedness</th><th>Citation recall</th><th>Refusal accuracy</th><th>Latency p50 / p95</th></tr></thead>
+<tbody>
+${summaryRows}
+</tbody>
+</table>
+${regressions}
+<h2>Cases</h2>
+<table>
+<thead><tr><th>Case</th><th>Flow</th><th>Facts</th><th>Grounded</th><th>Cited</th><th>Refusal</th><th>Latency</th><th>Answer</th></tr></thead>
+<tbody>
+${caseRows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
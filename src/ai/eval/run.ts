@@ -0,0 +1,91 @@
+/**
+ * @fileOverview Command-line offline evaluation of the answer flows against a golden dataset.
+ *
+ * Usage: npm run eval -- [dataset] [--flows standard,contextual,...] [--model <name>] [--record]
+ *                        [--out <dir>] [--baseline <report.json>]
+ *
+ * Answers every case, scores the answers and writes `report.json` and `report.html` to the output
+ * directory (default `eval-results/`). `--model` answers with one model in every role, e.g.
+ * `fake/idmc` or `recorded/googleai/gemini-2.5-flash`; `--record` fills the recorded model's
+ * cassette from the real model.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { EVAL_FLOWS, type EvalFlow } from './dataset';
+
+function parseArgs(argv: string[]) {
+  const args = {
+    dataset: path.resolve('eval/golden.json'),
+    flows: undefined as EvalFlow[] | undefined,
+    model: undefined as string | undefined,
+    record: false,
+    outDir: path.resolve('eval-results'),
+    baseline: undefined as string | undefined,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--flows') {
+      const flows = argv[++i].split(',').map((flow) => flow.trim());
+      const unknown = flows.filter((flow) => !(EVAL_FLOWS as readonly string[]).includes(flow));
+      if (unknown.length) throw new Error(`Unknown flows: ${unknown.join(', ')}. Expected ${EVAL_FLOWS.join(', ')}.`);
+      args.flows = flows as EvalFlow[];
+    } else if (arg === '--model') args.model = argv[++i];
+    else if (arg === '--record') args.record = true;
+    else if (arg === '--out') args.outDir = path.resolve(argv[++i]);
+    else if (arg === '--baseline') args.baseline = path.resolve(argv[++i]);
+    else if (!arg.startsWith('--')) args.dataset = path.resolve(arg);
+  }
+  return args;
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '–' : `${Math.round(value * 100)}%`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Models are resolved when models.ts is first imported, so the environment is set up before that.
+  if (args.model) process.env.IDMC_MODEL_OVERRIDE = args.model;
+  if (args.record) process.env.IDMC_EVAL_RECORD = '1';
+
+  const { loadGoldenDataset } = await import('./dataset');
+  const { runEvaluation } = await import('./runner');
+  const { buildEvalReport, renderEvalReportHtml } = await import('./report');
+
+  const dataset = await loadGoldenDataset(args.dataset);
+  const baseline = args.baseline ? JSON.parse(await fs.readFile(args.baseline, 'utf-8')) : undefined;
+
+  console.log(`Evaluating ${dataset.cases.length} cases from ${dataset.path}...`);
+  const results = await runEvaluation(dataset, {
+    flows: args.flows,
+    onResult: (result) =>
+      console.log(
+        `  ${result.caseId} [${result.flow}] ${result.error ? `error: ${result.error}` : `facts ${formatScore(result.factualRecall)}, grounded ${formatScore(result.groundedness)}, cited ${formatScore(result.citationRecall)}, ${result.refused ? 'refused' : 'answered'}, ${result.latencyMs} ms`}`
+      ),
+  });
+
+  const report = buildEvalReport(dataset.name, results, baseline);
+  await fs.mkdir(args.outDir, { recursive: true });
+  await fs.writeFile(path.join(args.outDir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+  await fs.writeFile(path.join(args.outDir, 'report.html'), renderEvalReportHtml(report));
+
+  for (const s of report.summary) {
+    console.log(
+      `${s.flow}: facts ${formatScore(s.factualRecall)}, grounded ${formatScore(s.groundedness)}, cited ${formatScore(s.citationRecall)}, refusals ${formatScore(s.refusalAccuracy)}, p50 ${s.latencyMs.p50} ms, ${s.errors} errors`
+    );
+  }
+  if (report.baseline?.regressions.length) {
+    console.log(`${report.baseline.regressions.length} regressions since the baseline.`);
+  }
+  console.log(`Wrote ${path.join(args.outDir, 'report.json')} and report.html`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
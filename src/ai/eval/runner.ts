@@ -0,0 +1,140 @@
+/**
+ * @fileOverview Runs golden cases through the answer flows and scores each answer.
+ *
+ * Flows run one at a time, so latencies are comparable, and with an empty history. Models come
+ * from the usual configuration (see models.ts), which is how a fake or recorded model is plugged in.
+ *
+ * - CaseResult - One case answered by one flow, with its scores.
+ * - runEvaluation - Answers and scores every case of a dataset.
+ */
+
+import { idmcQuestionAnswering } from '@/ai/flows/idmc-question-answering';
+import { contextualIDMCAnswers } from '@/ai/flows/contextual-idmc-answers';
+import { comprehensiveIDMCInsights } from '@/ai/flows/comprehensive-idmc-insights';
+import { idmcAttachmentAnalysis } from '@/ai/flows/attachment-analysis';
+import { logDiagnosis } from '@/ai/flows/log-diagnosis';
+import { searchDocumentation } from '@/ai/retrieval/search';
+import type { RetrievedChunk } from '@/ai/retrieval/types';
+import { citationRecall, factualRecall, groundedness, isRefusal } from './scoring';
+import type { EvalFlow, GoldenDataset, LoadedCase } from './dataset';
+
+export interface CaseResult {
+  caseId: string;
+  flow: EvalFlow;
+  question: string;
+  answer: string;
+  /** The models that wrote the answer, as the flow reports them. */
+  models: string[];
+  /**
+   * Documentation URLs the answer cites, linked or inline. For the troubleshooting flow, also the
+   * error signatures found in the log, as `signature:<id>`.
+   */
+  sources: string[];
+  latencyMs: number;
+  error?: string;
+  factualRecall: number | null;
+  missingFacts: string[];
+  /** Null for the attachment and troubleshooting flows, which answer from the file rather than the documentation. */
+  groundedness: number | null;
+  unsupportedSentences: string[];
+  citationRecall: number | null;
+  missingCitations: string[];
+  refused: boolean;
+  expectRefusal: boolean;
+}
+
+interface FlowAnswer {
+  answer: string;
+  models: string[];
+  sources: string[];
+}
+
+const URL_PATTERN = /https?:\/\/[^\s)\]>"']+/g;
+
+async function answerWith(flow: EvalFlow, golden: LoadedCase): Promise<FlowAnswer> {
+  const { question } = golden;
+  switch (flow) {
+    case 'standard':
+      return { ...(await idmcQuestionAnswering({ question, history: [] })), sources: [] };
+    case 'contextual': {
+      const output = await contextualIDMCAnswers({ question, history: [] });
+      return {
+        answer: output.answer,
+        models: output.models,
+        sources: [...(output.sourceLinks ?? []), ...(output.citations ?? []).map((citation) => citation.url)],
+      };
+    }
+    case 'comprehensive': {
+      const { answer, models } = await comprehensiveIDMCInsights({ question, history: [] });
+      return { answer, models, sources: [] };
+    }
+    case 'attachment': {
+      const { answer, models } = await idmcAttachmentAnalysis({ question, attachments: [golden.file!], history: [] });
+      return { answer, models, sources: [] };
+    }
+    case 'troubleshooting': {
+      const { answer, models, diagnosis } = await logDiagnosis({
+        question,
+        files: [{ name: golden.file!.name, dataUri: golden.file!.dataUri }],
+        history: [],
+      });
+      return { answer, models, sources: (diagnosis?.matchedSignatures ?? []).map((signature) => `signature:${signature.id}`) };
+    }
+  }
+}
+
+/** Flows that answer from the attached file; their answers are not checked against the documentation. */
+const FILE_FLOWS: EvalFlow[] = ['attachment', 'troubleshooting'];
+
+function score(golden: LoadedCase, flow: EvalFlow, result: FlowAnswer, chunks: RetrievedChunk[], latencyMs: number, error?: string): CaseResult {
+  const sources = [...new Set([...result.sources, ...(result.answer.match(URL_PATTERN) ?? [])])].sort();
+  const facts = factualRecall(result.answer, golden.expectedFacts);
+  const grounded = FILE_FLOWS.includes(flow) || error ? { score: null, unsupported: [] } : groundedness(result.answer, chunks);
+  const cited = citationRecall(sources, golden.mustCite);
+  return {
+    caseId: golden.id,
+    flow,
+    question: golden.question,
+    answer: result.answer,
+    models: result.models,
+    sources,
+    latencyMs,
+    error,
+    factualRecall: facts.score,
+    missingFacts: facts.missing,
+    groundedness: grounded.score,
+    unsupportedSentences: grounded.unsupported,
+    citationRecall: cited.score,
+    missingCitations: cited.missing,
+    refused: !error && isRefusal(result.answer),
+    expectRefusal: golden.expectRefusal,
+  };
+}
+
+export async function runEvaluation(
+  dataset: GoldenDataset,
+  options: { flows?: EvalFlow[]; onResult?: (result: CaseResult) => void } = {}
+): Promise<CaseResult[]> {
+  const results: CaseResult[] = [];
+  for (const golden of dataset.cases) {
+    const flows = golden.flows.filter((flow) => !options.flows || options.flows.includes(flow));
+    if (flows.length === 0) continue;
+    // Answers are checked against what retrieval finds for the question, the same for every flow.
+    const chunks = flows.some((flow) => !FILE_FLOWS.includes(flow)) ? await searchDocumentation(golden.question) : [];
+
+    for (const flow of flows) {
+      const started = performance.now();
+      let answer: FlowAnswer = { answer: '', models: [], sources: [] };
+      let error: string | undefined;
+      try {
+        answer = await answerWith(flow, golden);
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+      const result = score(golden, flow, answer, chunks, Math.round(performance.now() - started), error);
+      results.push(result);
+      options.onResult?.(result);
+    }
+  }
+  return results;
+}
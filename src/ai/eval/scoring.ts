@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Scores for one answer to a golden case. All checks are lexical and deterministic,
+ * so two runs with the same answers score the same and reports can be diffed.
+ *
+ * - factualRecall - Share of the expected facts the answer states.
+ * - groundedness - Share of the answer's sentences that the documentation supports.
+ * - citationRecall - Share of the must-cite sources among the answer's sources.
+ * - isRefusal - Whether the answer declines to answer.
+ */
+
+import { findUnsupportedSentences, splitSentences, type CitableChunk } from '@/ai/citations';
+import { tokenize } from '@/ai/retrieval/bm25';
+
+/** Share of a fact's content words that must appear in the answer when it is not quoted verbatim. */
+const FACT_COVERAGE = Number(process.env.IDMC_EVAL_FACT_COVERAGE || 0.8);
+
+/** Ways the flows say they cannot answer, including the contextual flow's fixed reply. */
+const REFUSAL_PATTERNS = [
+  /\bI don['’]t have enough information\b/i,
+  /\b(?:cannot|can['’]t|can not|am unable to|am not able to) (?:answer|find|determine|help with)\b/i,
+  /\b(?:no|not enough) (?:information|documentation) (?:about|on|to answer)\b/i,
+  /\boutside (?:the|my) (?:scope|knowledge)\b/i,
+  /\bnot (?:covered|mentioned) in the (?:provided )?(?:documentation|context)\b/i,
+];
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function statesFact(answer: string, answerTokens: Set<string>, wording: string): boolean {
+  if (normalize(answer).includes(normalize(wording))) return true;
+  const tokens = tokenize(wording);
+  if (tokens.length === 0) return false;
+  return tokens.filter((token) => answerTokens.has(token)).length / tokens.length >= FACT_COVERAGE;
+}
+
+/** Null when the case expects no facts. */
+export function factualRecall(answer: string, facts: (string | string[])[]): { score: number | null; missing: string[] } {
+  if (facts.length === 0) return { score: null, missing: [] };
+  const answerTokens = new Set(tokenize(answer));
+  const missing = facts
+    .filter((fact) => !(Array.isArray(fact) ? fact : [fact]).some((wording) => statesFact(answer, answerTokens, wording)))
+    .map((fact) => (Array.isArray(fact) ? fact.join(' | ') : fact));
+  return { score: (facts.length - missing.length) / facts.length, missing };
+}
+
+/** Null when there is no documentation to check against or nothing to check. */
+export function groundedness(answer: string, chunks: CitableChunk[]): { score: number | null; unsupported: string[] } {
+  const sentences = splitSentences(answer);
+  if (chunks.length === 0 || sentences.length === 0) return { score: null, unsupported: [] };
+  const unsupported = findUnsupportedSentences(answer, chunks);
+  return { score: (sentences.length - unsupported.length) / sentences.length, unsupported };
+}
+
+/** Null when the case names no sources to cite. */
+export function citationRecall(sources: string[], mustCite: string[]): { score: number | null; missing: string[] } {
+  if (mustCite.length === 0) return { score: null, missing: [] };
+  const missing = mustCite.filter((expected) => !sources.some((source) => source.includes(expected)));
+  return { score: (mustCite.length - missing.length) / mustCite.length, missing };
+}
+
+export function isRefusal(answer: string): boolean {
+  return REFUSAL_PATTERNS.some((pattern) => pattern.test(answer));
+}
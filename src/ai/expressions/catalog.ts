@@ -0,0 +1,191 @@
+/**
+ * @fileOverview Catalog of IDMC transformation language functions with their signatures.
+ *
+ * Signatures are written the way the Informatica reference prints them, e.g.
+ * "TO_DATE(string: string, format?: string): date". A parameter type may list alternatives
+ * ("number|date"); "?" marks an optional parameter and "..." one that may repeat. A return
+ * type of "$1" means "the type of the first argument".
+ *
+ * - VALUE_TYPES / ValueType - Data types of ports and expression values.
+ * - FUNCTIONS - The function catalog, keyed by upper-case name.
+ * - toValueType - Maps a declared port type ("varchar(50)", "date/time", ...) to a ValueType.
+ * - parsePortDeclarations - Port types the user spelled out, e.g. "ORDER_DT: string" or "AMOUNT (decimal)".
+ * - describeCatalog - The catalog as compact text for prompts.
+ */
+
+export const VALUE_TYPES = ['string', 'integer', 'bigint', 'decimal', 'double', 'date', 'binary', 'boolean', 'null', 'any'] as const;
+export type ValueType = (typeof VALUE_TYPES)[number];
+
+/** A parameter's accepted types; "number" stands for any numeric type. */
+export type ParamType = ValueType | 'number';
+
+export interface FunctionParam {
+  name: string;
+  types: ParamType[];
+  optional: boolean;
+  repeats: boolean;
+}
+
+export interface FunctionSignature {
+  name: string;
+  category: 'character' | 'conversion' | 'date' | 'numeric' | 'test' | 'special' | 'encoding' | 'aggregate';
+  params: FunctionParam[];
+  /** A type, or "$n" for the type of the n-th argument. */
+  returns: ValueType | `$${number}`;
+  signature: string;
+  description: string;
+}
+
+const CATALOG: [FunctionSignature['category'], string, string][] = [
+  // Character
+  ['character', 'ASCII(string: string): integer', 'Numeric code of the first character.'],
+  ['character', 'CHR(code: integer): string', 'Character for a numeric code; CHR(39) is a single quote.'],
+  ['character', 'CONCAT(first: string, second: string): string', 'Concatenates two strings; || is usually clearer.'],
+  ['character', 'INITCAP(string: string): string', 'Capitalizes the first letter of each word.'],
+  ['character', 'INSTR(string: string, search: string, start?: integer, occurrence?: integer, comparison?: integer): integer', 'Position of a substring, 0 if absent.'],
+  ['character', 'LENGTH(string: string): integer', 'Number of characters.'],
+  ['character', 'LOWER(string: string): string', 'Converts to lower case.'],
+  ['character', 'LPAD(string: string, length: integer, pad?: string): string', 'Pads on the left to a length.'],
+  ['character', 'LTRIM(string: string, trim?: string): string', 'Removes leading blanks or characters.'],
+  ['character', 'METAPHONE(string: string, length?: integer): string', 'Metaphone encoding.'],
+  ['character', 'REG_EXTRACT(string: string, pattern: string, group?: integer): string', 'The part of a string matching a regular expression group.'],
+  ['character', 'REG_MATCH(string: string, pattern: string): boolean', 'Whether a string matches a regular expression.'],
+  ['character', 'REG_REPLACE(string: string, pattern: string, replacement: string, count?: integer): string', 'Replaces regular expression matches.'],
+  ['character', 'REPLACECHR(caseFlag: integer, string: string, old: string, new: string): string', 'Replaces single characters.'],
+  ['character', 'REPLACESTR(caseFlag: integer, string: string, old...: string, new: string): string', 'Replaces substrings.'],
+  ['character', 'REVERSE(string: string): string', 'Reverses a string.'],
+  ['character', 'RPAD(string: string, length: integer, pad?: string): string', 'Pads on the right to a length.'],
+  ['character', 'RTRIM(string: string, trim?: string): string', 'Removes trailing blanks or characters.'],
+  ['character', 'SOUNDEX(string: string): string', 'Soundex encoding.'],
+  ['character', 'SUBSTR(string: string, start: integer, length?: integer): string', 'Substring from a 1-based position.'],
+  ['character', 'UPPER(string: string): string', 'Converts to upper case.'],
+  // Conversion
+  ['conversion', 'TO_BIGINT(value: string|number, truncate?: integer): bigint', 'Converts to a 64-bit integer.'],
+  ['conversion', 'TO_CHAR(value: any, format?: string): string', 'Converts a number or date to a string; dates use the format.'],
+  ['conversion', 'TO_DATE(string: string, format?: string): date', 'Converts a string to a date using the format.'],
+  ['conversion', 'TO_DECIMAL(value: string|number, scale?: integer): decimal', 'Converts to a decimal.'],
+  ['conversion', 'TO_FLOAT(value: string|number): double', 'Converts to a double.'],
+  ['conversion', 'TO_INTEGER(value: string|number, truncate?: integer): integer', 'Converts to an integer.'],
+  // Date
+  ['date', "ADD_TO_DATE(date: date, format: string, amount: number): date", "Adds an amount of a unit ('DD', 'MM', 'YYYY', 'HH24'...) to a date."],
+  ['date', 'DATE_COMPARE(date1: date, date2: date): integer', '-1, 0 or 1.'],
+  ['date', "DATE_DIFF(date1: date, date2: date, format: string): double", "Difference between two dates in a unit ('DD', 'MM', 'HH'...)."],
+  ['date', "GET_DATE_PART(date: date, format: string): integer", "A part of a date ('YYYY', 'MM', 'DD', 'HH24'...)."],
+  ['date', 'LAST_DAY(date: date): date', 'Last day of the month.'],
+  ['date', 'MAKE_DATE_TIME(year: number, month: number, day: number, hour?: number, minute?: number, second?: number, nanosecond?: number): date', 'Builds a date from parts.'],
+  ['date', "SET_DATE_PART(date: date, format: string, value: number): date", 'Sets one part of a date.'],
+  ['date', 'SYSTIMESTAMP(format?: string): date', 'Current date and time.'],
+  ['date', 'ROUND(value: number|date, precision?: any): $1', 'Rounds a number to a precision, or a date to a unit.'],
+  ['date', 'TRUNC(value: number|date, precision?: any): $1', 'Truncates a number to a precision, or a date to a unit.'],
+  // Numeric
+  ['numeric', 'ABS(number: number): $1', 'Absolute value.'],
+  ['numeric', 'CEIL(number: number): $1', 'Smallest integer not below the number.'],
+  ['numeric', 'EXP(number: number): double', 'e raised to a power.'],
+  ['numeric', 'FLOOR(number: number): $1', 'Largest integer not above the number.'],
+  ['numeric', 'LN(number: number): double', 'Natural logarithm.'],
+  ['numeric', 'LOG(base: number, number: number): double', 'Logarithm in a base.'],
+  ['numeric', 'MOD(number: number, divisor: number): $1', 'Remainder of a division.'],
+  ['numeric', 'POWER(base: number, exponent: number): double', 'A number raised to a power.'],
+  ['numeric', 'RAND(seed?: integer): double', 'Random number between 0 and 1.'],
+  ['numeric', 'SIGN(number: number): integer', '-1, 0 or 1.'],
+  ['numeric', 'SQRT(number: number): double', 'Square root.'],
+  // Test
+  ['test', 'IN(value: any, values...: any, caseFlag?: integer): boolean', 'Whether a value is one of a list.'],
+  ['test', 'ISNULL(value: any): boolean', 'Whether a value is NULL. Empty strings are not NULL.'],
+  ['test', 'IS_DATE(string: string, format?: string): boolean', 'Whether a string converts to a date with the format.'],
+  ['test', 'IS_NUMBER(string: string): boolean', 'Whether a string is a valid number.'],
+  ['test', 'IS_SPACES(string: string): boolean', 'Whether a string is only spaces.'],
+  // Special
+  ['special', 'ABORT(message: string): any', 'Stops the session with a message.'],
+  ['special', 'CHOOSE(index: integer, values...: any): $2', 'The n-th value of a list.'],
+  ['special', 'DECODE(value: any, search: any, result: any, more...: any): $3', 'Returns the result of the first matching search value, or the default.'],
+  ['special', 'ERROR(message: string): any', 'Rejects the row with a message.'],
+  ['special', 'GREATEST(value: any, values...: any): $1', 'Largest of the values.'],
+  ['special', 'IIF(condition: boolean, then: any, else?: any): $2', 'The second argument if the condition holds, otherwise the third.'],
+  ['special', 'LEAST(value: any, values...: any): $1', 'Smallest of the values.'],
+  // Encoding
+  ['encoding', 'CRC32(value: string|binary): bigint', 'CRC32 checksum.'],
+  ['encoding', 'DEC_BASE64(value: string): binary', 'Decodes Base64.'],
+  ['encoding', 'ENC_BASE64(value: string|binary): string', 'Encodes as Base64.'],
+  ['encoding', 'MD5(value: string|binary): string', 'MD5 hash as 32 hex characters.'],
+  ['encoding', 'UUID4(): binary', 'A random UUID.'],
+  ['encoding', 'UUID_UNPARSE(uuid: binary): string', 'A UUID as text.'],
+  // Aggregate (Aggregator transformation only)
+  ['aggregate', 'AVG(number: number, filter?: boolean): double', 'Average of a group.'],
+  ['aggregate', 'COUNT(value: any, filter?: boolean): integer', 'Count of non-NULL values in a group.'],
+  ['aggregate', 'FIRST(value: any, filter?: boolean): $1', 'First value of a group.'],
+  ['aggregate', 'LAST(value: any, filter?: boolean): $1', 'Last value of a group.'],
+  ['aggregate', 'MAX(value: any, filter?: boolean): $1', 'Largest value of a group.'],
+  ['aggregate', 'MEDIAN(number: number, filter?: boolean): double', 'Median of a group.'],
+  ['aggregate', 'MIN(value: any, filter?: boolean): $1', 'Smallest value of a group.'],
+  ['aggregate', 'PERCENTILE(number: number, percentile: number, filter?: boolean): double', 'Percentile of a group.'],
+  ['aggregate', 'STDDEV(number: number, filter?: boolean): double', 'Standard deviation of a group.'],
+  ['aggregate', 'SUM(number: number, filter?: boolean): $1', 'Sum of a group.'],
+  ['aggregate', 'VARIANCE(number: number, filter?: boolean): double', 'Variance of a group.'],
+];
+
+/** Built-in variables, usable where a port is. */
+export const BUILT_IN_VARIABLES: Record<string, ValueType> = {
+  SYSDATE: 'date',
+  SESSSTARTTIME: 'date',
+  DD_INSERT: 'integer',
+  DD_UPDATE: 'integer',
+  DD_DELETE: 'integer',
+  DD_REJECT: 'integer',
+  PROC_RESULT: 'any',
+};
+
+function parseSignature(category: FunctionSignature['category'], signature: string, description: string): FunctionSignature {
+  const match = /^(\w+)\((.*)\):\s*(\S+)$/.exec(signature);
+  if (!match) throw new Error(`Malformed signature: ${signature}`);
+  const [, name, list, returns] = match;
+  const params = list
+    ? list.split(',').map((param) => {
+        const [, paramName, flags, types] = /^\s*(\w+)(\?|\.\.\.)?:\s*([\w|]+)\s*$/.exec(param)!;
+        return { name: paramName, types: types.split('|') as ParamType[], optional: flags === '?', repeats: flags === '...' };
+      })
+    : [];
+  return { name, category, params, returns: returns as FunctionSignature['returns'], signature, description };
+}
+
+export const FUNCTIONS: ReadonlyMap<string, FunctionSignature> = new Map(
+  CATALOG.map(([category, signature, description]) => {
+    const parsed = parseSignature(category, signature, description);
+    return [parsed.name, parsed];
+  })
+);
+
+const TYPE_NAMES: [RegExp, ValueType][] = [
+  [/^(n?varchar2?|n?string|n?char|text|nclob|clob)\b/i, 'string'],
+  [/^(bigint|long)\b/i, 'bigint'],
+  [/^(int|integer|small\s*integer|smallint|tinyint)\b/i, 'integer'],
+  [/^(decimal|numeric|number|money)\b/i, 'decimal'],
+  [/^(double|float|real)\b/i, 'double'],
+  [/^(date\/time|datetime|date|timestamp|time)\b/i, 'date'],
+  [/^(binary|blob|varbinary|raw)\b/i, 'binary'],
+  [/^(bool|boolean|bit)\b/i, 'boolean'],
+];
+
+export function toValueType(declared: string): ValueType | undefined {
+  return TYPE_NAMES.find(([pattern]) => pattern.test(declared.trim()))?.[1];
+}
+
+const DECLARATION = /\b([A-Za-z_][\w#$@]*)\s*(?::\s*|\(\s*)(n?varchar2?|n?string|n?char|text|bigint|long|int|integer|small\s*integer|smallint|decimal|numeric|number|money|double|float|real|date\/time|datetime|date|timestamp|binary|boolean)\b/gi;
+
+export function parsePortDeclarations(text: string): Record<string, ValueType> {
+  const ports: Record<string, ValueType> = {};
+  for (const [, name, declared] of text.matchAll(DECLARATION)) {
+    const type = toValueType(declared);
+    if (type) ports[name] = type;
+  }
+  return ports;
+}
+
+/** One signature per line, grouped by category, for prompts. */
+export function describeCatalog(): string {
+  const byCategory = new Map<string, string[]>();
+  for (const fn of FUNCTIONS.values()) {
+    byCategory.set(fn.category, [...(byCategory.get(fn.category) ?? []), `${fn.signature} - ${fn.description}`]);
+  }
+  return [...byCategory].map(([category, lines]) => `${category.toUpperCase()}:\n${lines.join('\n')}`).join('\n\n');
+}
@@ -0,0 +1,276 @@
+/**
+ * @fileOverview Parser for the IDMC transformation language (the expression language of
+ * Expression, Filter, Router and Aggregator transformations).
+ *
+ * Operator precedence follows the Informatica reference, highest first: unary + and -;
+ * * / %; + -; ||; < <= > >=; = <> != ^=; NOT; AND; OR. Comments start with -- or //.
+ * Every node records the character range it came from, so problems can be pointed at.
+ *
+ * - parseExpression - Parses an expression into a syntax tree, collecting syntax errors.
+ */
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type TokenKind = 'number' | 'string' | 'identifier' | 'parameter' | 'lookup' | 'operator' | 'paren' | 'comma' | 'eof';
+
+export interface Token extends Span {
+  kind: TokenKind;
+  text: string;
+}
+
+export type ExpressionNode = Span &
+  (
+    | { kind: 'number'; value: number; integer: boolean }
+    | { kind: 'string'; value: string }
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'null' }
+    /** A port, variable port, or built-in variable such as SYSDATE. */
+    | { kind: 'port'; name: string }
+    /** A mapping parameter ($$Name) or system parameter ($Name). */
+    | { kind: 'parameter'; name: string }
+    | { kind: 'call'; name: string; nameSpan: Span; args: ExpressionNode[] }
+    /** An unconnected lookup, :LKP.lkp_Name(args). */
+    | { kind: 'lookup'; name: string; args: ExpressionNode[] }
+    | { kind: 'unary'; operator: string; operand: ExpressionNode }
+    | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  );
+
+export interface SyntaxProblem extends Span {
+  message: string;
+}
+
+export interface ParseResult {
+  ast?: ExpressionNode;
+  errors: SyntaxProblem[];
+}
+
+const OPERATORS = ['||', '<=', '>=', '<>', '!=', '^=', '+', '-', '*', '/', '%', '=', '<', '>'];
+const WORD_OPERATORS = new Set(['AND', 'OR', 'NOT']);
+
+class ParseError extends Error {
+  constructor(
+    message: string,
+    readonly span: Span
+  ) {
+    super(message);
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (text.startsWith('--', i) || text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+    const start = i;
+    if (char === "'") {
+      const close = text.indexOf("'", i + 1);
+      if (close < 0) throw new ParseError('Unterminated string: add the closing single quote.', { start, end: text.length });
+      tokens.push({ kind: 'string', text: text.slice(i + 1, close), start, end: close + 1 });
+      i = close + 1;
+      continue;
+    }
+    if (char === '"') {
+      const close = text.indexOf('"', i + 1);
+      throw new ParseError('String literals use single quotes, not double quotes.', { start, end: close < 0 ? i + 1 : close + 1 });
+    }
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(text.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], start, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+    const lookup = /^:lkp\.([A-Za-z_][\w#$@]*)/i.exec(text.slice(i));
+    if (lookup) {
+      tokens.push({ kind: 'lookup', text: lookup[1], start, end: i + lookup[0].length });
+      i += lookup[0].length;
+      continue;
+    }
+    const parameter = /^\$\$?[A-Za-z_][\w#$@]*/.exec(text.slice(i));
+    if (parameter) {
+      tokens.push({ kind: 'parameter', text: parameter[0], start, end: i + parameter[0].length });
+      i += parameter[0].length;
+      continue;
+    }
+    const word = /^[A-Za-z_][\w#$@]*/.exec(text.slice(i));
+    if (word) {
+      const upper = word[0].toUpperCase();
+      tokens.push({ kind: WORD_OPERATORS.has(upper) ? 'operator' : 'identifier', text: WORD_OPERATORS.has(upper) ? upper : word[0], start, end: i + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+    const operator = OPERATORS.find((op) => text.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, start, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', text: char, start, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === ',') {
+      tokens.push({ kind: 'comma', text: char, start, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === ';') throw new ParseError('Expressions do not end with a semicolon.', { start, end: i + 1 });
+    if (char === '&' || char === '|') {
+      throw new ParseError(`Unexpected "${char}": use AND / OR for logic and || to concatenate strings.`, { start, end: i + 1 });
+    }
+    throw new ParseError(`Unexpected character "${char}".`, { start, end: i + 1 });
+  }
+  tokens.push({ kind: 'eof', text: '', start: text.length, end: text.length });
+  return tokens;
+}
+
+/** Binary operator levels, lowest precedence first. NOT sits between AND and the comparisons. */
+const LEVELS: string[][] = [['OR'], ['AND'], ['=', '<>', '!=', '^='], ['<', '<=', '>', '>='], ['||'], ['+', '-'], ['*', '/', '%']];
+const NOT_LEVEL = 2;
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private get current(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  /** A method rather than a property check, so TypeScript does not narrow `current` across `next()` calls. */
+  private at(kind: TokenKind): boolean {
+    return this.current.kind === kind;
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    return this.at('operator') && operators.includes(this.current.text);
+  }
+
+  private expect(kind: TokenKind, text: string, message: string): Token {
+    if (this.current.kind !== kind || this.current.text !== text) throw new ParseError(message, this.current);
+    return this.next();
+  }
+
+  parse(): ExpressionNode {
+    if (this.at('eof')) throw new ParseError('The expression is empty.', this.current);
+    const node = this.parseLevel(0);
+    if (!this.at('eof')) {
+      const message =
+        this.current.text === ')'
+          ? 'Unmatched closing parenthesis.'
+          : `Unexpected "${this.current.text}" after a complete expression; is an operator or comma missing?`;
+      throw new ParseError(message, this.current);
+    }
+    return node;
+  }
+
+  private parseLevel(level: number): ExpressionNode {
+    if (level === NOT_LEVEL && this.isOperator('NOT')) {
+      const operator = this.next();
+      const operand = this.parseLevel(NOT_LEVEL);
+      return { kind: 'unary', operator: 'NOT', operand, start: operator.start, end: operand.end };
+    }
+    if (level === LEVELS.length) return this.parseUnary();
+    let left = this.parseLevel(level + 1);
+    while (this.isOperator(...LEVELS[level])) {
+      const operator = this.next().text;
+      const right = this.parseLevel(level + 1);
+      left = { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('+', '-')) {
+      const operator = this.next();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: operator.text, operand, start: operator.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parseArguments(): { args: ExpressionNode[]; end: number } {
+    const open = this.expect('paren', '(', 'Expected "(".');
+    const args: ExpressionNode[] = [];
+    if (this.current.text !== ')') {
+      for (;;) {
+        if (this.at('comma') || this.current.text === ')') throw new ParseError('Missing argument.', this.current);
+        args.push(this.parseLevel(0));
+        if (!this.at('comma')) break;
+        this.next();
+      }
+    }
+    if (this.at('eof')) throw new ParseError('Missing closing parenthesis.', { start: open.start, end: open.end });
+    const close = this.expect('paren', ')', `Expected "," or ")" but found "${this.current.text}".`);
+    return { args, end: close.end };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.current;
+    switch (token.kind) {
+      case 'number':
+        this.next();
+        return { kind: 'number', value: Number(token.text), integer: /^\d+$/.test(token.text), start: token.start, end: token.end };
+      case 'string':
+        this.next();
+        return { kind: 'string', value: token.text, start: token.start, end: token.end };
+      case 'parameter':
+        this.next();
+        return { kind: 'parameter', name: token.text, start: token.start, end: token.end };
+      case 'lookup': {
+        this.next();
+        const { args, end } = this.parseArguments();
+        return { kind: 'lookup', name: token.text, args, start: token.start, end };
+      }
+      case 'identifier': {
+        this.next();
+        const upper = token.text.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') return { kind: 'boolean', value: upper === 'TRUE', start: token.start, end: token.end };
+        if (upper === 'NULL') return { kind: 'null', start: token.start, end: token.end };
+        if (this.current.text === '(' && this.at('paren')) {
+          const { args, end } = this.parseArguments();
+          return { kind: 'call', name: upper, nameSpan: { start: token.start, end: token.end }, args, start: token.start, end };
+        }
+        return { kind: 'port', name: token.text, start: token.start, end: token.end };
+      }
+      case 'paren':
+        if (token.text === '(') {
+          this.next();
+          const inner = this.parseLevel(0);
+          if (this.at('eof')) throw new ParseError('Missing closing parenthesis.', token);
+          this.expect('paren', ')', `Expected ")" but found "${this.current.text}".`);
+          return inner;
+        }
+        throw new ParseError('Unexpected ")".', token);
+      case 'eof':
+        throw new ParseError('The expression ends too early; an operand is missing.', token);
+      default:
+        throw new ParseError(`Unexpected "${token.text}"; an operand is missing.`, token);
+    }
+  }
+}
+
+/** Parses an expression. The tree is absent when there is a syntax error; the first one is reported. */
+export function parseExpression(text: string): ParseResult {
+  try {
+    return { ast: new Parser(tokenize(text)).parse(), errors: [] };
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+    return { errors: [{ message: error.message, start: error.span.start, end: Math.max(error.span.end, error.span.start + 1) }] };
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * @fileOverview Validates IDMC transformation language expressions without running them:
+ * syntax, function names and argument counts (against the catalog), date format strings, and
+ * types, given the types of the ports the expression reads.
+ *
+ * Types are checked the way the Data Integration service converts them: numbers of any kind mix
+ * freely, strings used as numbers are converted (a warning, since bad values fail at run time),
+ * but strings never become dates implicitly, and dates take no arithmetic.
+ *
+ * - ExpressionDiagnostic - A problem found in an expression, with its position.
+ * - validateExpression - Checks an expression and infers its result type.
+ */
+
+import { parseExpression, type ExpressionNode, type Span } from './parser';
+import { BUILT_IN_VARIABLES, FUNCTIONS, type FunctionSignature, type ParamType, type ValueType } from './catalog';
+
+export interface ExpressionDiagnostic extends Span {
+  severity: 'error' | 'warning';
+  message: string;
+  /** 1-based line and column of `start`. */
+  line: number;
+  column: number;
+}
+
+export interface ExpressionValidation {
+  valid: boolean;
+  /** The inferred result type; absent when the expression does not parse. */
+  type?: ValueType;
+  diagnostics: ExpressionDiagnostic[];
+  /** Ports the expression reads, as written. */
+  ports: string[];
+}
+
+export interface ValidationOptions {
+  /** Port types by name (case-insensitive). When given, unknown names are errors. */
+  ports?: Record<string, ValueType>;
+  /** The type of the output port the expression feeds. */
+  outputType?: ValueType;
+}
+
+const NUMERIC: ValueType[] = ['integer', 'bigint', 'decimal', 'double', 'boolean'];
+const ARITHMETIC = new Set(['+', '-', '*', '/', '%']);
+const COMPARISON = new Set(['=', '<>', '!=', '^=', '<', '<=', '>', '>=']);
+
+/** Names from SQL and other languages, with the IDMC equivalent. */
+const ALIASES: Record<string, string> = {
+  NVL: 'IIF(ISNULL(x), default, x)',
+  COALESCE: 'IIF(ISNULL(a), b, a)',
+  ISNUMERIC: 'IS_NUMBER',
+  SUBSTRING: 'SUBSTR',
+  LEN: 'LENGTH',
+  TRIM: 'LTRIM(RTRIM(x))',
+  GETDATE: 'SYSDATE',
+  NOW: 'SYSTIMESTAMP()',
+  CURRENT_DATE: 'SYSDATE',
+  DATEADD: 'ADD_TO_DATE',
+  DATEDIFF: 'DATE_DIFF',
+  CAST: 'TO_CHAR, TO_DATE, TO_INTEGER or TO_DECIMAL',
+  CONVERT: 'TO_CHAR, TO_DATE, TO_INTEGER or TO_DECIMAL',
+  REPLACE: 'REPLACESTR',
+  REGEXP_REPLACE: 'REG_REPLACE',
+  REGEXP_SUBSTR: 'REG_EXTRACT',
+  CASE: 'DECODE(TRUE, condition1, value1, ..., default)',
+  IF: 'IIF',
+  NULLIF: 'IIF(a = b, NULL, a)',
+};
+
+/** Tokens of TO_DATE / TO_CHAR format strings, longest first. */
+const FORMAT_TOKENS = ['SSSSS', 'MONTH', 'YYYY', 'RRRR', 'HH24', 'HH12', 'A.M.', 'P.M.', 'YYY', 'MON', 'DDD', 'DAY', 'YY', 'RR', 'MM', 'DD', 'DY', 'HH', 'MI', 'SS', 'MS', 'US', 'NS', 'AM', 'PM', 'WW', 'Y', 'D', 'J', 'Q', 'W'];
+/** Units accepted by ADD_TO_DATE, DATE_DIFF, GET_DATE_PART and SET_DATE_PART. */
+const DATE_UNITS = new Set(['Y', 'YY', 'YYY', 'YYYY', 'MM', 'MON', 'MONTH', 'D', 'DD', 'DDD', 'DY', 'DAY', 'HH', 'HH12', 'HH24', 'MI', 'SS', 'MS', 'US', 'NS']);
+const UNIT_FUNCTIONS = new Set(['ADD_TO_DATE', 'DATE_DIFF', 'GET_DATE_PART', 'SET_DATE_PART']);
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function closest(name: string, candidates: Iterable<string>): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 4)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toUpperCase(), candidate.toUpperCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function isNumeric(type: ValueType): boolean {
+  return NUMERIC.includes(type);
+}
+
+function isUnknown(type: ValueType): boolean {
+  return type === 'any' || type === 'null';
+}
+
+/** The wider of two numeric types. */
+function widen(a: ValueType, b: ValueType): ValueType {
+  const order: ValueType[] = ['boolean', 'integer', 'bigint', 'decimal', 'double'];
+  if (isUnknown(a) || isUnknown(b)) return isUnknown(a) ? b : a;
+  return order[Math.max(order.indexOf(a), order.indexOf(b), 1)];
+}
+
+/** Returns a problem when `actual` does not fit `expected`, or undefined when it does. */
+function mismatch(expected: ParamType[], actual: ValueType): { severity: 'error' | 'warning'; hint: string } | undefined {
+  if (isUnknown(actual) || expected.includes('any') || expected.includes(actual)) return undefined;
+  if (expected.includes('number') && isNumeric(actual)) return undefined;
+  if (expected.some((t) => t === 'number' || isNumeric(t as ValueType)) && isNumeric(actual)) return undefined;
+  if (expected.includes('date')) {
+    return { severity: 'error', hint: actual === 'string' ? ' Convert it with TO_DATE(value, format).' : '' };
+  }
+  if (expected.includes('string')) {
+    return actual === 'date'
+      ? { severity: 'warning', hint: ' It is converted with the default date format; use TO_CHAR(date, format) to control it.' }
+      : actual === 'binary'
+        ? { severity: 'error', hint: '' }
+        : undefined;
+  }
+  if (expected.includes('boolean') && actual === 'string') {
+    return { severity: 'warning', hint: ' Write the condition explicitly, e.g. FLAG = \'Y\'.' };
+  }
+  if ((expected.includes('number') || expected.some((t) => isNumeric(t as ValueType))) && actual === 'string') {
+    return { severity: 'warning', hint: ' It is converted at run time and rows with non-numeric values fail; consider TO_DECIMAL or TO_INTEGER.' };
+  }
+  return { severity: 'error', hint: '' };
+}
+
+function describeTypes(types: ParamType[]): string {
+  return types.join(' or ');
+}
+
+/** The catalog parameter an argument binds to, with repeating parameters absorbing the middle. */
+function paramAt(fn: FunctionSignature, index: number, count: number) {
+  const repeat = fn.params.findIndex((p) => p.repeats);
+  if (repeat < 0 || index < repeat) return fn.params[index];
+  const trailing = fn.params.slice(repeat + 1).filter((p) => !p.optional);
+  const fromEnd = count - index;
+  if (fromEnd <= trailing.length) return trailing[trailing.length - fromEnd];
+  return fn.params[repeat];
+}
+
+function arity(fn: FunctionSignature): { min: number; max: number } {
+  const min = fn.params.filter((p) => !p.optional).length;
+  return { min, max: fn.params.some((p) => p.repeats) ? Infinity : fn.params.length };
+}
+
+class Checker {
+  readonly diagnostics: Omit<ExpressionDiagnostic, 'line' | 'column'>[] = [];
+  readonly ports = new Set<string>();
+  private readonly portTypes?: Map<string, { name: string; type: ValueType }>;
+
+  constructor(ports?: Record<string, ValueType>) {
+    this.portTypes = ports && new Map(Object.entries(ports).map(([name, type]) => [name.toUpperCase(), { name, type }]));
+  }
+
+  report(severity: 'error' | 'warning', span: Span, message: string) {
+    this.diagnostics.push({ severity, message, start: span.start, end: span.end });
+  }
+
+  check(node: ExpressionNode): ValueType {
+    switch (node.kind) {
+      case 'number':
+        return node.integer ? 'integer' : 'decimal';
+      case 'string':
+        return 'string';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'parameter':
+        return 'any';
+      case 'port':
+        return this.checkPort(node);
+      case 'lookup':
+        node.args.forEach((arg) => this.check(arg));
+        return 'any';
+      case 'call':
+        return this.checkCall(node);
+      case 'unary': {
+        const type = this.check(node.operand);
+        if (node.operator === 'NOT') {
+          if (type === 'string' || type === 'date') this.report('warning', node.operand, `NOT expects a condition, not a ${type}.`);
+          return 'boolean';
+        }
+        if (!isUnknown(type) && !isNumeric(type)) this.report('error', node, `Unary ${node.operator} needs a number, not a ${type}.`);
+        return type === 'boolean' ? 'integer' : type;
+      }
+      case 'binary':
+        return this.checkBinary(node);
+    }
+  }
+
+  private checkPort(node: Extract<ExpressionNode, { kind: 'port' }>): ValueType {
+    const upper = node.name.toUpperCase();
+    if (upper in BUILT_IN_VARIABLES) return BUILT_IN_VARIABLES[upper];
+    this.ports.add(node.name);
+    if (!this.portTypes) return 'any';
+    const port = this.portTypes.get(upper);
+    if (port) return port.type;
+    const suggestion = closest(node.name, [...this.portTypes.values()].map((p) => p.name));
+    const known = ALIASES[upper] ?? (FUNCTIONS.has(upper) ? `${upper}(...)` : undefined);
+    this.report(
+      'error',
+      node,
+      `Unknown port ${node.name}.${suggestion ? ` Did you mean ${suggestion}?` : known ? ` Did you mean ${known}?` : ''}`
+    );
+    return 'any';
+  }
+
+  private checkCall(node: Extract<ExpressionNode, { kind: 'call' }>): ValueType {
+    const types = node.args.map((arg) => this.check(arg));
+    const fn = FUNCTIONS.get(node.name);
+    if (!fn) {
+      const alias = ALIASES[node.name];
+      const suggestion = alias ? ` Use ${alias} instead.` : closest(node.name, FUNCTIONS.keys()) ? ` Did you mean ${closest(node.name, FUNCTIONS.keys())}?` : '';
+      this.report('error', node.nameSpan, `${node.name} is not an IDMC function.${suggestion}`);
+      return 'any';
+    }
+
+    const { min, max } = arity(fn);
+    if (node.args.length < min || node.args.length > max) {
+      const expected = max === Infinity ? `at least ${min}` : min === max ? `${min}` : `${min} to ${max}`;
+      this.report('error', node, `${fn.name} takes ${expected} argument${max === 1 ? '' : 's'}, not ${node.args.length}: ${fn.signature}`);
+      return this.returnType(fn, types);
+    }
+
+    if (fn.name === 'DECODE') this.checkDecode(node, types);
+    else {
+      node.args.forEach((arg, i) => {
+        const param = paramAt(fn, i, node.args.length);
+        const problem = mismatch(param.types, types[i]);
+        if (problem) {
+          this.report(
+            problem.severity,
+            arg,
+            `Argument ${i + 1} (${param.name}) of ${fn.name} should be ${describeTypes(param.types)}, not ${types[i]}.${problem.hint}`
+          );
+        }
+      });
+    }
+    if (fn.name === 'IIF' && node.args.length === 3) this.checkBranches(fn.name, [node.args[1], node.args[2]], [types[1], types[2]]);
+    this.checkFormats(fn, node, types);
+    return this.returnType(fn, types);
+  }
+
+  private checkDecode(node: Extract<ExpressionNode, { kind: 'call' }>, types: ValueType[]) {
+    // DECODE(value, search1, result1, search2, result2, ..., default)
+    for (let i = 1; i + 1 < node.args.length; i += 2) {
+      const [value, search] = [types[0], types[i]];
+      if (this.incomparable(value, search)) {
+        this.report('warning', node.args[i], `DECODE compares a ${value} with a ${search}; the search value never matches without conversion.`);
+      }
+    }
+    const results = node.args.flatMap((arg, i) => (i >= 2 && (i % 2 === 0 || i === node.args.length - 1) ? [{ arg, type: types[i] }] : []));
+    this.checkBranches('DECODE', results.map((r) => r.arg), results.map((r) => r.type));
+  }
+
+  /** Results of IIF and DECODE are converted to the first result's type; dates and strings do not convert. */
+  private checkBranches(name: string, args: ExpressionNode[], types: ValueType[]) {
+    const first = types.find((type) => !isUnknown(type));
+    if (!first) return;
+    args.forEach((arg, i) => {
+      const type = types[i];
+      if (isUnknown(type) || type === first || (isNumeric(type) && isNumeric(first))) return;
+      if (type === 'date' || first === 'date' || type === 'binary' || first === 'binary') {
+        this.report('error', arg, `${name} returns ${first} (the type of its first result), but this result is ${type}.`);
+      }
+    });
+  }
+
+  private checkFormats(fn: FunctionSignature, node: Extract<ExpressionNode, { kind: 'call' }>, types: ValueType[]) {
+    const format = (index: number) => {
+      const arg = node.args[index];
+      return arg?.kind === 'string' ? arg : undefined;
+    };
+    if (UNIT_FUNCTIONS.has(fn.name)) {
+      const unit = format(fn.name === 'DATE_DIFF' ? 2 : 1);
+      if (unit && !DATE_UNITS.has(unit.value.toUpperCase())) {
+        this.report('error', unit, `'${unit.value}' is not a date unit. Use one of 'YYYY', 'MM', 'DD', 'HH24', 'MI', 'SS', 'MS'.`);
+      }
+      return;
+    }
+    const isDateFormat = fn.name === 'TO_DATE' || fn.name === 'IS_DATE' || (fn.name === 'TO_CHAR' && types[0] === 'date');
+    const literal = format(1);
+    if (!isDateFormat || !literal) return;
+    const unknown = this.unknownFormatPart(literal.value);
+    if (unknown) this.report('error', literal, `'${literal.value}' is not a valid date format: "${unknown}" is not a format element.`);
+  }
+
+  /** The first part of a date format that is neither a format element, a separator, nor quoted text. */
+  private unknownFormatPart(format: string): string | undefined {
+    const upper = format.toUpperCase();
+    let i = 0;
+    while (i < upper.length) {
+      if (upper[i] === '"') {
+        const close = upper.indexOf('"', i + 1);
+        i = close < 0 ? upper.length : close + 1;
+        continue;
+      }
+      if (!/[A-Z0-9]/.test(upper[i])) {
+        i++;
+        continue;
+      }
+      const token = FORMAT_TOKENS.find((t) => upper.startsWith(t, i));
+      if (!token) return /^[A-Z0-9]+/.exec(upper.slice(i))![0];
+      i += token.length;
+    }
+    return undefined;
+  }
+
+  private returnType(fn: FunctionSignature, types: ValueType[]): ValueType {
+    if (!fn.returns.startsWith('$')) return fn.returns as ValueType;
+    const type = types[Number(fn.returns.slice(1)) - 1];
+    return type === undefined || type === 'null' ? 'any' : type;
+  }
+
+  private incomparable(a: ValueType, b: ValueType): boolean {
+    if (isUnknown(a) || isUnknown(b) || a === b) return false;
+    if (isNumeric(a) && isNumeric(b)) return false;
+    return true;
+  }
+
+  private checkBinary(node: Extract<ExpressionNode, { kind: 'binary' }>): ValueType {
+    const left = this.check(node.left);
+    const right = this.check(node.right);
+    const { operator } = node;
+
+    if (operator === '||') {
+      for (const [side, type] of [[node.left, left], [node.right, right]] as const) {
+        if (type === 'binary') this.report('error', side, '|| cannot concatenate binary values.');
+      }
+      return 'string';
+    }
+
+    if (ARITHMETIC.has(operator)) {
+      if (left === 'date' || right === 'date') {
+        const hint = operator === '-' && left === 'date' && right === 'date' ? 'Use DATE_DIFF(date1, date2, unit).' : 'Use ADD_TO_DATE(date, unit, amount).';
+        this.report('error', node, `Dates do not support ${operator}. ${hint}`);
+        return left === 'date' && right === 'date' ? 'double' : 'date';
+      }
+      if (left === 'string' || right === 'string') {
+        const side = left === 'string' ? node.left : node.right;
+        if (operator === '+') this.report('error', side, 'Strings cannot be added; concatenate them with ||.');
+        else this.report('warning', side, `A string is used in arithmetic (${operator}); it is converted at run time and non-numeric values fail.`);
+        return 'decimal';
+      }
+      if (left === 'binary' || right === 'binary') this.report('error', node, `Binary values do not support ${operator}.`);
+      return operator === '/' ? widen(widen(left, right), 'decimal') : widen(left, right);
+    }
+
+    if (COMPARISON.has(operator)) {
+      if (node.left.kind === 'null' || node.right.kind === 'null') {
+        const other = node.left.kind === 'null' ? node.right : node.left;
+        this.report('warning', node, `Comparing with NULL is never true; use ISNULL(${other.kind === 'port' ? other.name : '...'}) instead.`);
+      } else if ((left === 'date' && right === 'string') || (left === 'string' && right === 'date')) {
+        this.report('error', node, 'A date is compared with a string. Convert the string with TO_DATE(value, format).');
+      } else if (this.incomparable(left, right)) {
+        const severity = left === 'date' || right === 'date' || left === 'binary' || right === 'binary' ? 'error' : 'warning';
+        this.report(severity, node, `A ${left} is compared with a ${right}.`);
+      }
+      return 'boolean';
+    }
+
+    // AND, OR
+    for (const [side, type] of [[node.left, left], [node.right, right]] as const) {
+      if (type === 'string' || type === 'date' || type === 'binary') this.report('warning', side, `${operator} expects conditions, not a ${type}.`);
+    }
+    return 'boolean';
+  }
+}
+
+function position(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+export function validateExpression(code: string, { ports, outputType }: ValidationOptions = {}): ExpressionValidation {
+  const withPosition = (d: Omit<ExpressionDiagnostic, 'line' | 'column'>): ExpressionDiagnostic => ({ ...d, ...position(code, d.start) });
+  const { ast, errors } = parseExpression(code);
+  if (!ast) {
+    return { valid: false, diagnostics: errors.map((e) => withPosition({ ...e, severity: 'error' })), ports: [] };
+  }
+
+  const checker = new Checker(ports);
+  const type = checker.check(ast);
+  if (outputType && outputType !== 'any') {
+    const problem = mismatch([outputType], type);
+    if (problem) checker.report(problem.severity, ast, `The expression returns ${type} but the output port is ${outputType}.${problem.hint}`);
+  }
+  const diagnostics = checker.diagnostics.map(withPosition).sort((a, b) => a.start - b.start);
+  return {
+    valid: !diagnostics.some((d) => d.severity === 'error'),
+    type: type === 'null' ? 'any' : type,
+    diagnostics,
+    ports: [...checker.ports],
+  };
+}
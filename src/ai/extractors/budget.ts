@@ -0,0 +1,239 @@
+/**
+ * @fileOverview Fits extracted file content into a prompt's token budget. Content that fits is
+ * passed through whole. Larger content is split into parts (row ranges, slides, sections) and
+ * either narrowed to the parts most relevant to the question, or, when the question is about
+ * the file as a whole, summarized batch by batch with the summaries taking the file's place in
+ * the answer prompt (map-reduce). Either way the result records which parts were considered.
+ *
+ * - ContentPart - A contiguous piece of a file: a range of rows, slides or sections.
+ * - ContentCoverage - Which parts of a file reached the prompt, and how.
+ * - splitDocument - Splits extracted document text into parts.
+ * - fitToBudget - Fits a file's content into a token budget.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/models';
+import { z } from 'genkit';
+import { estimateTokens } from '@/ai/history';
+import { buildBm25Index, searchBm25, tokenize } from '@/ai/retrieval/bm25';
+import { chunkText } from '@/ai/retrieval/chunker';
+import { runBranch } from '@/ai/resilience';
+
+export interface ContentPart {
+  /** Sheet name for spreadsheets; empty for documents and decks. */
+  group: string;
+  unit: 'rows' | 'slides' | 'sections';
+  from: number;
+  to: number;
+  text: string;
+}
+
+export interface ContentCoverage {
+  method: 'full' | 'ranked' | 'summarized';
+  /** Ranges that reached the prompt, e.g. "Orders: rows 2-480, 9120-9300". */
+  considered: string[];
+  omitted: string[];
+}
+
+export interface FittedContent {
+  text: string;
+  coverage: ContentCoverage;
+}
+
+const SECTION_CHARS = 4000;
+const MAP_BATCH_TOKENS = Number(process.env.IDMC_MAP_BATCH_TOKENS || 6000);
+const MAX_MAP_CALLS = Number(process.env.IDMC_MAP_MAX_CALLS || 12);
+const MAP_TIMEOUT_MS = 60_000;
+const MAP_CONCURRENCY = 4;
+
+/** Words of requests about a file as a whole; a question made only of these has no specific focus. */
+const BROAD_TERMS = new Set(
+  'analyze analyse analysis summarize summarise summary overview explain describe review file files document documents attached attachment content contents relevance relevant compare them idmc informatica please tell me about main key points give us'.split(
+    ' '
+  )
+);
+
+const filePartSummaryPrompt = ai.definePrompt({
+  name: 'idmcFilePartSummaryPrompt',
+  model: modelFor('attachment'),
+  input: { schema: z.object({ question: z.string(), fileName: z.string(), range: z.string(), excerpt: z.string(), maxWords: z.number() }) },
+  output: { schema: z.object({ summary: z.string() }) },
+  prompt: `You are reading part of a large file ("{{fileName}}", {{range}}) on behalf of an Informatica Data Management Cloud (IDMC) expert who will answer this question from your notes:
+Question: {{{question}}}
+
+Summarize this part in at most {{maxWords}} words. Keep every concrete detail the question might need: object, table, field and connection names, rules, numbers, decisions and open issues. Do not add anything that is not in the excerpt.
+
+EXCERPT:
+{{{excerpt}}}`,
+});
+
+function partsText(parts: ContentPart[]): string {
+  return parts.map((part) => part.text).join('\n\n');
+}
+
+/** Splits text along "[Slide n]" markers when present, otherwise into sections of a few thousand characters. */
+export function splitDocument(text: string): ContentPart[] {
+  const slides = text.split(/\n{2,}(?=\[Slide \d+\])/);
+  if (slides.length > 1 && slides.every((slide) => /^\[Slide \d+\]/.test(slide))) {
+    return slides.map((slide) => {
+      const n = Number(/^\[Slide (\d+)\]/.exec(slide)![1]);
+      return { group: '', unit: 'slides', from: n, to: n, text: slide };
+    });
+  }
+  const sections = chunkText(text, { chunkSize: SECTION_CHARS, chunkOverlap: 0 });
+  return sections.map((section, i) => ({
+    group: '',
+    unit: 'sections',
+    from: i + 1,
+    to: i + 1,
+    text: `[Section ${i + 1} of ${sections.length}]\n${section}`,
+  }));
+}
+
+/** Contiguous parts merged into ranges, per sheet: ["Orders: rows 2-480, 9120-9300"]. */
+function describeRanges(all: ContentPart[], selected: Set<ContentPart>): string[] {
+  const byGroup = new Map<string, { unit: string; ranges: [number, number][] }>();
+  let previous: ContentPart | undefined;
+  for (const part of all) {
+    if (!selected.has(part)) {
+      previous = undefined;
+      continue;
+    }
+    const entry = byGroup.get(part.group) ?? { unit: part.unit, ranges: [] };
+    byGroup.set(part.group, entry);
+    const last = entry.ranges[entry.ranges.length - 1];
+    if (previous?.group === part.group && last) last[1] = part.to;
+    else entry.ranges.push([part.from, part.to]);
+    previous = part;
+  }
+  return [...byGroup].map(([group, { unit, ranges }]) => {
+    const list = ranges.map(([from, to]) => (from === to ? `${from}` : `${from}-${to}`)).join(', ');
+    return `${group ? `${group}: ` : ''}${unit} ${list}`;
+  });
+}
+
+function coverageOf(method: ContentCoverage['method'], parts: ContentPart[], considered: Set<ContentPart>): ContentCoverage {
+  const omitted = new Set(parts.filter((part) => !considered.has(part)));
+  return { method, considered: describeRanges(parts, considered), omitted: describeRanges(parts, omitted) };
+}
+
+function isBroadQuestion(question: string): boolean {
+  return tokenize(question).every((token) => BROAD_TERMS.has(token));
+}
+
+/**
+ * The most relevant parts that fit `budget` tokens, in file order. Parts the question does
+ * not touch are taken from the start of the file to fill what is left.
+ */
+function selectRelevant(parts: ContentPart[], question: string, budget: number): Set<ContentPart> {
+  const ranked = new Set(searchBm25(buildBm25Index(parts.map((part) => part.text)), question, parts.length).map(([i]) => parts[i]));
+  const order = [...ranked, ...parts.filter((part) => !ranked.has(part))];
+  const selected = new Set<ContentPart>();
+  let used = 0;
+  for (const part of order) {
+    const cost = estimateTokens(part.text);
+    if (used + cost > budget) continue;
+    selected.add(part);
+    used += cost;
+  }
+  return selected;
+}
+
+/** Consecutive parts grouped into batches of about `MAP_BATCH_TOKENS`. */
+function batch(parts: ContentPart[]): ContentPart[][] {
+  const batches: ContentPart[][] = [];
+  let current: ContentPart[] = [];
+  let used = 0;
+  for (const part of parts) {
+    const cost = estimateTokens(part.text);
+    if (current.length && used + cost > MAP_BATCH_TOKENS) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(part);
+    used += cost;
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+async function summarize(
+  fileName: string,
+  parts: ContentPart[],
+  question: string,
+  budget: number,
+  abortSignal?: AbortSignal
+): Promise<FittedContent | undefined> {
+  let batches = batch(parts);
+  // Too long to read in full even in batches: spread the reading evenly over the file.
+  if (batches.length > MAX_MAP_CALLS) {
+    const step = batches.length / MAX_MAP_CALLS;
+    batches = Array.from({ length: MAX_MAP_CALLS }, (_, i) => batches[Math.floor(i * step)]);
+  }
+
+  const maxWords = Math.max(80, Math.floor((budget * 0.75) / batches.length));
+  const summarizeBatch = (group: ContentPart[], i: number) =>
+    runBranch(
+      `part ${i + 1}`,
+      async (signal) => {
+        const range = describeRanges(parts, new Set(group)).join('; ');
+        const { output } = await filePartSummaryPrompt(
+          { question, fileName, range, excerpt: partsText(group), maxWords },
+          { abortSignal: signal }
+        );
+        if (!output?.summary) throw new Error('empty summary');
+        return `[Summary of ${range}]\n${output.summary}`;
+      },
+      { timeoutMs: MAP_TIMEOUT_MS, signal: abortSignal }
+    );
+  // A few calls at a time, so a large file does not flood the model provider.
+  const results: Awaited<ReturnType<typeof summarizeBatch>>[] = [];
+  for (let start = 0; start < batches.length; start += MAP_CONCURRENCY) {
+    const wave = batches.slice(start, start + MAP_CONCURRENCY);
+    results.push(...(await Promise.all(wave.map((group, i) => summarizeBatch(group, start + i)))));
+  }
+
+  const considered = new Set<ContentPart>();
+  const summaries: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status !== 'fulfilled') return;
+    batches[i].forEach((part) => considered.add(part));
+    summaries.push(result.value);
+  });
+  if (!summaries.length) return undefined;
+  return { text: summaries.join('\n\n'), coverage: coverageOf('summarized', parts, considered) };
+}
+
+/**
+ * Fits a file's content into `budget` tokens. The preamble (e.g. a spreadsheet profile) is
+ * always kept. Row-oriented content is always narrowed by relevance, since summarizing rows
+ * loses the values questions ask about; documents are summarized when the question is broad.
+ */
+export async function fitToBudget(
+  fileName: string,
+  content: { preamble?: string; parts: ContentPart[] },
+  question: string,
+  budget: number,
+  { abortSignal, onSummarize }: { abortSignal?: AbortSignal; onSummarize?: () => void } = {}
+): Promise<FittedContent> {
+  const { preamble, parts } = content;
+  const withPreamble = (text: string) => [preamble, text].filter(Boolean).join('\n\n');
+  const full = withPreamble(partsText(parts));
+  if (estimateTokens(full) <= budget) {
+    return { text: full, coverage: coverageOf('full', parts, new Set(parts)) };
+  }
+
+  const remaining = Math.max(budget - estimateTokens(preamble ?? ''), 0);
+  if (isBroadQuestion(question) && !parts.some((part) => part.unit === 'rows')) {
+    onSummarize?.();
+    const summarized = await summarize(fileName, parts, question, remaining, abortSignal);
+    if (summarized) return { ...summarized, text: withPreamble(summarized.text) };
+  }
+
+  const selected = selectRelevant(parts, question, remaining);
+  return {
+    text: withPreamble(partsText(parts.filter((part) => selected.has(part)))),
+    coverage: coverageOf('ranked', parts, selected),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileOverview Data quality measures for profiled spreadsheet columns, computed locally the way
+ * a Cloud Data Quality profile would: character patterns, suspected PII, and the structured
+ * profile returned to the chat.
+ *
+ * - valuePattern - The character pattern of a value, e.g. "AA-9999" for "NY-1042".
+ * - detectPii - The kind of personal data a column seems to hold, if any.
+ * - maskValue - Hides most of a value of a PII column.
+ * - DataProfileSchema - The structured profile of one uploaded file.
+ * - RuleSuggestionSchema - A proposed CDQ rule or cleansing step for a column.
+ */
+
+import { z } from 'genkit';
+
+const MAX_PATTERN_LENGTH = 24;
+/** Share of sampled values that must match a PII format for the column to be flagged. */
+const PII_MATCH_SHARE = 0.6;
+
+/** Letters become A/a, digits 9, everything else stays; long values are cut with "…". */
+export function valuePattern(value: string): string {
+  const pattern = value.replace(/[A-Z]/g, 'A').replace(/[a-z]/g, 'a').replace(/[0-9]/g, '9');
+  return pattern.length > MAX_PATTERN_LENGTH ? `${pattern.slice(0, MAX_PATTERN_LENGTH)}…` : pattern;
+}
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const VALUE_DETECTORS: [string, (value: string) => boolean][] = [
+  ['email address', (v) => /^[^@\s]+@[^@\s]+\.[a-z]{2,}$/i.test(v)],
+  ['US social security number', (v) => /^\d{3}-\d{2}-\d{4}$/.test(v)],
+  ['payment card number', (v) => /^[\d -]{13,23}$/.test(v) && /^\d{13,19}$/.test(v.replace(/[ -]/g, '')) && luhn(v.replace(/[ -]/g, ''))],
+  ['IBAN', (v) => /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(v.replace(/\s/g, ''))],
+  ['IP address', (v) => /^(\d{1,3}\.){3}\d{1,3}$/.test(v)],
+  ['phone number', (v) => /^\+?[\d\s().-]{7,20}$/.test(v) && !/^\d{4}-\d{2}-\d{2}$/.test(v) && (v.match(/\d/g) ?? []).length >= 7 && /[\s().+-]/.test(v)],
+];
+
+const NAME_HINTS: [string, RegExp][] = [
+  ['email address', /e-?mail/i],
+  ['phone number', /phone|mobile|\bfax\b|\btel\b/i],
+  ['US social security number', /\bssn\b|social_?security/i],
+  ['national identifier', /national_?id|passport|tax_?id|\bnin\b|\btin\b|driver_?licen[cs]e/i],
+  ['date of birth', /\bdob\b|birth/i],
+  ['person name', /(first|last|middle|full|given|family|sur)_?name|^name$|customer_?name|contact_?name/i],
+  ['postal address', /address|street|\bzip\b|postal|post_?code/i],
+  ['payment card number', /card_?(number|no|num)|\bpan\b|credit_?card/i],
+  ['IBAN', /\biban\b|account_?number|bank_?account/i],
+];
+
+/**
+ * A column is flagged when most sampled values match a PII format, or when its name suggests
+ * personal data and its values do not contradict that (e.g. a "phone" column of booleans).
+ */
+export function detectPii(name: string, values: string[]): string | undefined {
+  const normalized = name.replace(/[\s-]+/g, '_');
+  if (values.length) {
+    for (const [kind, matches] of VALUE_DETECTORS) {
+      if (values.filter(matches).length / values.length >= PII_MATCH_SHARE) return kind;
+    }
+  }
+  const hinted = NAME_HINTS.find(([, pattern]) => pattern.test(normalized))?.[0];
+  if (!hinted) return undefined;
+  const booleanLike = values.length > 0 && values.every((v) => /^(true|false|yes|no|y|n|0|1)$/i.test(v));
+  return booleanLike ? undefined : hinted;
+}
+
+export function maskValue(value: string): string {
+  if (value.length <= 2) return '*'.repeat(value.length);
+  const at = value.indexOf('@');
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+  return `${value.slice(0, 1)}${value.slice(1, -2).replace(/[^\s.-]/g, '*')}${value.slice(-2)}`;
+}
+
+export const ColumnDataProfileSchema = z.object({
+  name: z.string(),
+  type: z.string().describe('Inferred type; several joined by "/" when values are mixed.'),
+  nullRate: z.number().describe('Share of rows with no value, 0..1.'),
+  distinct: z.number(),
+  distinctCapped: z.boolean().describe('True when distinct values were only counted up to a limit.'),
+  min: z.string().optional(),
+  max: z.string().optional(),
+  minLength: z.number().optional(),
+  maxLength: z.number().optional(),
+  patterns: z.array(z.object({ pattern: z.string(), share: z.number() })).describe('Most common value patterns.'),
+  pii: z.string().optional().describe('Suspected kind of personal data.'),
+});
+
+export const DataProfileSchema = z.object({
+  file: z.string(),
+  sheets: z.array(z.object({ name: z.string(), rowCount: z.number(), columns: z.array(ColumnDataProfileSchema) })),
+});
+export type DataProfile = z.infer<typeof DataProfileSchema>;
+
+export const RuleSuggestionSchema = z.object({
+  column: z.string(),
+  dimension: z
+    .enum(['completeness', 'validity', 'uniqueness', 'consistency', 'accuracy', 'conformity'])
+    .describe('The data quality dimension the rule measures.'),
+  rule: z.string().describe('What the rule checks or fixes, in one sentence.'),
+  asset: z
+    .string()
+    .describe('CDQ asset that implements it: Rule Specification, Cleanse, Verifier, Dictionary, Parse, Labeler or Deduplicate.'),
+  logic: z.string().describe('The condition or transformation, e.g. an expression or the cleanse steps.'),
+});
+export type RuleSuggestion = z.infer<typeof RuleSuggestionSchema>;
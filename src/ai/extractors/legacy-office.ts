@@ -0,0 +1,177 @@
+/**
+ * @fileOverview Best-effort text extraction from binary Office 97-2003 files (.doc, .ppt).
+ *
+ * Both formats are OLE compound files, opened with the CFB reader bundled in `xlsx`.
+ * - Word keeps its text in the `WordDocument` stream, laid out by the piece table (CLX)
+ *   in the `0Table`/`1Table` stream. We follow the piece table and strip field codes.
+ * - PowerPoint keeps slide and notes text in TextCharsAtom/TextBytesAtom records inside the
+ *   `PowerPoint Document` stream, which we walk record by record. The same text can be
+ *   stored both in the slide list and in the slide's drawing, so repeats are dropped; slide
+ *   boundaries are not recovered.
+ * When the structured route fails (encrypted, fast-saved or damaged files) both fall back
+ * to collecting readable runs of UTF-16 text from the raw streams.
+ *
+ * - extractDoc - Text of a Word 97-2003 document.
+ * - extractPpt - Text of a PowerPoint 97-2003 deck.
+ */
+
+import * as xlsx from 'xlsx';
+
+interface CfbEntry {
+  content: Uint8Array | number[];
+}
+
+// `xlsx` types its bundled CFB library as `any`; this is the part we use.
+const CFB: {
+  read(data: Buffer, options: { type: 'buffer' }): unknown;
+  find(container: unknown, path: string): CfbEntry | null;
+} = xlsx.CFB;
+
+function stream(container: unknown, name: string): Buffer | null {
+  const entry = CFB.find(container, name);
+  return entry ? Buffer.from(entry.content) : null;
+}
+
+/** Readable UTF-16LE runs of at least `minLength` characters, for files we cannot parse properly. */
+function utf16Runs(buffer: Buffer, minLength = 8): string {
+  const runs: string[] = [];
+  let current = '';
+  for (let i = 0; i + 1 < buffer.length; i += 2) {
+    const code = buffer.readUInt16LE(i);
+    const printable = (code >= 0x20 && code < 0xd800) || code === 0x09 || code === 0x0d || code === 0x0a;
+    if (printable) {
+      current += String.fromCharCode(code);
+    } else {
+      if (current.trim().length >= minLength) runs.push(current.trim());
+      current = '';
+    }
+  }
+  if (current.trim().length >= minLength) runs.push(current.trim());
+  return runs.join('\n');
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Word special characters: paragraph/cell marks become breaks, field codes are dropped. */
+function cleanWordText(raw: string): string {
+  let text = '';
+  let fieldDepth = 0;
+  let inInstruction = false;
+  for (const char of raw) {
+    const code = char.charCodeAt(0);
+    if (code === 0x13) {
+      fieldDepth++;
+      inInstruction = true;
+    } else if (code === 0x14) {
+      inInstruction = false;
+    } else if (code === 0x15) {
+      fieldDepth = Math.max(0, fieldDepth - 1);
+      inInstruction = false;
+    } else if (fieldDepth > 0 && inInstruction) {
+      continue;
+    } else if (code === 0x0d || code === 0x0b || code === 0x0c) {
+      text += '\n';
+    } else if (code === 0x07) {
+      text += '\t';
+    } else if (code === 0x1e) {
+      text += '-';
+    } else if (code >= 0x20 || code === 0x09) {
+      text += char;
+    }
+  }
+  return tidy(text);
+}
+
+function readPieceTable(wordDocument: Buffer, table: Buffer): string {
+  const fcClx = wordDocument.readUInt32LE(0x01a2);
+  const lcbClx = wordDocument.readUInt32LE(0x01a6);
+  let offset = fcClx;
+  const end = fcClx + lcbClx;
+
+  // Skip any Prc (formatting) entries that precede the piece table.
+  while (offset < end && table[offset] === 0x01) {
+    offset += 3 + table.readUInt16LE(offset + 1);
+  }
+  if (table[offset] !== 0x02) throw new Error('piece table not found');
+  const lcb = table.readUInt32LE(offset + 1);
+  const plc = offset + 5;
+  const pieces = (lcb - 4) / 12;
+
+  let text = '';
+  for (let i = 0; i < pieces; i++) {
+    const cpStart = table.readUInt32LE(plc + i * 4);
+    const cpEnd = table.readUInt32LE(plc + (i + 1) * 4);
+    const pcd = plc + (pieces + 1) * 4 + i * 8;
+    const fcValue = table.readUInt32LE(pcd + 2);
+    const compressed = (fcValue & 0x40000000) !== 0;
+    const fc = fcValue & 0x3fffffff;
+    const length = cpEnd - cpStart;
+    text += compressed
+      ? wordDocument.subarray(fc / 2, fc / 2 + length).toString('latin1')
+      : wordDocument.subarray(fc, fc + length * 2).toString('utf16le');
+  }
+  return text;
+}
+
+export function extractDoc(buffer: Buffer): string {
+  const container = CFB.read(buffer, { type: 'buffer' });
+  const wordDocument = stream(container, 'WordDocument');
+  if (!wordDocument) throw new Error('Not a Word 97-2003 document (no WordDocument stream).');
+
+  const flags = wordDocument.readUInt16LE(0x0a);
+  if (flags & 0x0100) throw new Error('The Word document is password protected.');
+  const table = stream(container, flags & 0x0200 ? '1Table' : '0Table');
+
+  if (table) {
+    try {
+      const text = cleanWordText(readPieceTable(wordDocument, table));
+      if (text) return text;
+    } catch (error) {
+      console.error('Word piece table could not be read, falling back to raw text:', error);
+    }
+  }
+  return tidy(utf16Runs(wordDocument));
+}
+
+const TEXT_CHARS_ATOM = 0x0fa0;
+const TEXT_BYTES_ATOM = 0x0fa8;
+
+export function extractPpt(buffer: Buffer): string {
+  const container = CFB.read(buffer, { type: 'buffer' });
+  const document = stream(container, 'PowerPoint Document');
+  if (!document) throw new Error('Not a PowerPoint 97-2003 deck (no PowerPoint Document stream).');
+
+  const lines = new Set<string>();
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const version = document.readUInt16LE(offset) & 0x0f;
+      const type = document.readUInt16LE(offset + 2);
+      const length = document.readUInt32LE(offset + 4);
+      const body = offset + 8;
+      if (body + length > end) break;
+      if (version === 0x0f) {
+        walk(body, body + length);
+      } else if (type === TEXT_CHARS_ATOM) {
+        lines.add(document.subarray(body, body + length).toString('utf16le').trim());
+      } else if (type === TEXT_BYTES_ATOM) {
+        lines.add(document.subarray(body, body + length).toString('latin1').trim());
+      }
+      offset = body + length;
+    }
+  };
+
+  try {
+    walk(0, document.length);
+  } catch (error) {
+    console.error('PowerPoint records could not be walked, falling back to raw text:', error);
+  }
+  const text = tidy([...lines].filter(Boolean).join('\n\n').replace(/\r/g, '\n'));
+  return text || tidy(utf16Runs(document));
+}
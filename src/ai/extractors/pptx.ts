@@ -0,0 +1,132 @@
+/**
+ * @fileOverview Text, speaker notes and embedded images from PowerPoint (.pptx) decks.
+ *
+ * A .pptx file is a zip of XML parts: `ppt/presentation.xml` lists the slides in order,
+ * each slide's relationships point at its notes page and media, and all visible text
+ * sits in `<a:t>` runs grouped into `<a:p>` paragraphs.
+ *
+ * - extractPptx - Returns the deck as text (one section per slide) plus its raster images.
+ */
+
+import JSZip from 'jszip';
+import path from 'node:path';
+import { decodeEntities } from '@/ai/retrieval/loaders';
+
+export interface ExtractedImage {
+  /** Where the image appears, e.g. "Slide 3: image2.png". */
+  label: string;
+  dataUri: string;
+}
+
+export interface PptxContent {
+  text: string;
+  images: ExtractedImage[];
+}
+
+/** Formats models accept as media; EMF/WMF/TIFF clip art is skipped. */
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+const MAX_IMAGES = Number(process.env.IDMC_MAX_ATTACHMENT_IMAGES || 8);
+
+/** Images below this size are almost always logos, bullets or icons. */
+const MIN_IMAGE_BYTES = 8 * 1024;
+
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+/** Relationships of `partPath`, with targets resolved to zip paths. */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const relsPath = path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`);
+  const xml = await zip.file(relsPath)?.async('string');
+  const rels = new Map<string, Relationship>();
+  if (!xml) return rels;
+  for (const match of xml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attrs = match[1];
+    const id = /\bId="([^"]+)"/.exec(attrs)?.[1];
+    const type = /\bType="([^"]+)"/.exec(attrs)?.[1] ?? '';
+    const target = /\bTarget="([^"]+)"/.exec(attrs)?.[1];
+    if (!id || !target || /\bTargetMode="External"/.test(attrs)) continue;
+    rels.set(id, { type, target: path.posix.normalize(path.posix.join(path.posix.dirname(partPath), target)) });
+  }
+  return rels;
+}
+
+/** Paragraph text of a slide or notes part; empty paragraphs are dropped. */
+function paragraphs(xml: string): string[] {
+  return [...xml.matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g)]
+    .map((p) => [...p[1].matchAll(/<a:t>([^<]*)<\/a:t>/g)].map((t) => decodeEntities(t[1])).join(''))
+    .map((text) => text.trim())
+    .filter(Boolean);
+}
+
+/** Notes pages repeat the slide number in a placeholder; keep only the body placeholder text. */
+function notesText(xml: string): string[] {
+  const bodies = [...xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)]
+    .map((shape) => shape[0])
+    .filter((shape) => /<p:ph\b[^>]*type="body"/.test(shape));
+  return (bodies.length ? bodies : [xml]).flatMap(paragraphs);
+}
+
+async function slideOrder(zip: JSZip): Promise<string[]> {
+  const presentationPath = 'ppt/presentation.xml';
+  const xml = (await zip.file(presentationPath)?.async('string')) ?? '';
+  const rels = await readRelationships(zip, presentationPath);
+  const ordered = [...xml.matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g)]
+    .map((match) => rels.get(match[1])?.target)
+    .filter((target): target is string => !!target && !!zip.file(target));
+  if (ordered.length) return ordered;
+
+  // Fall back to file names when the presentation part is missing or unusual.
+  const slideNumber = (name: string) => Number(/slide(\d+)\.xml$/.exec(name)?.[1] ?? 0);
+  return Object.keys(zip.files)
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+export async function extractPptx(buffer: Buffer): Promise<PptxContent> {
+  const zip = await JSZip.loadAsync(buffer);
+  const sections: string[] = [];
+  const images: ExtractedImage[] = [];
+  const seenImages = new Set<string>();
+
+  const slides = await slideOrder(zip);
+  for (const [i, slidePath] of slides.entries()) {
+    const slideNumber = i + 1;
+    const xml = (await zip.file(slidePath)?.async('string')) ?? '';
+    const rels = await readRelationships(zip, slidePath);
+    const lines = [`[Slide ${slideNumber}]`, ...paragraphs(xml)];
+
+    const notes = [...rels.values()].find((rel) => rel.type.endsWith('/notesSlide'));
+    const notesXml = notes && (await zip.file(notes.target)?.async('string'));
+    const noteLines = notesXml ? notesText(notesXml) : [];
+    if (noteLines.length) lines.push('Speaker notes:', ...noteLines);
+
+    // Only images the slide actually places (r:embed), in the order they appear.
+    for (const match of xml.matchAll(/r:embed="([^"]+)"/g)) {
+      const rel = rels.get(match[1]);
+      if (!rel || !rel.type.endsWith('/image') || seenImages.has(rel.target)) continue;
+      seenImages.add(rel.target);
+      const name = path.posix.basename(rel.target);
+      const mimeType = IMAGE_TYPES[path.posix.extname(name).toLowerCase()];
+      const file = zip.file(rel.target);
+      if (!mimeType || !file) continue;
+      lines.push(`[Image: ${name}]`);
+      if (images.length >= MAX_IMAGES) continue;
+      const data = await file.async('nodebuffer');
+      if (data.length < MIN_IMAGE_BYTES) continue;
+      images.push({ label: `Slide ${slideNumber}: ${name}`, dataUri: `data:${mimeType};base64,${data.toString('base64')}` });
+    }
+
+    sections.push(lines.join('\n'));
+  }
+
+  return { text: sections.join('\n\n'), images };
+}
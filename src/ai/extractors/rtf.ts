@@ -0,0 +1,141 @@
+/**
+ * @fileOverview Best-effort plain text from Rich Text Format (.rtf) documents.
+ *
+ * Walks the RTF token stream, keeping text and a few structural control words (paragraphs,
+ * line breaks, tabs, table cells), decoding `\'hh` and `\uN` escapes, and skipping
+ * destinations that hold no readable body text (font tables, pictures, metadata, ...).
+ *
+ * - extractRtf - Returns the text of an RTF document.
+ */
+
+/** Destinations whose content is not document text. */
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'info', 'pict', 'object',
+  'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'rsidtbl', 'generator', 'xmlnstbl',
+  'mmathPr', 'header', 'footer', 'headerl', 'headerr', 'footerl', 'footerr', 'fldinst', 'filetbl',
+  'revtbl', 'pgdsctbl', 'bkmkstart', 'bkmkend',
+]);
+
+const BREAKS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+interface GroupState {
+  skip: boolean;
+  /** Number of fallback characters to drop after a \uN escape (\ucN). */
+  unicodeSkip: number;
+}
+
+export function extractRtf(source: string): string {
+  if (!source.startsWith('{\\rtf')) throw new Error('Not an RTF document.');
+
+  let text = '';
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+  // The first token of a group decides whether it is a destination to skip.
+  let groupStart = false;
+
+  const emit = (value: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) text += value;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      i++;
+      continue;
+    }
+    if (char === '}') {
+      state = stack.pop() ?? state;
+      groupStart = false;
+      i++;
+      continue;
+    }
+    if (char === '\\') {
+      const next = source[i + 1];
+      if (next === '*' && groupStart) {
+        // \* marks an optional destination the reader may ignore; we always do.
+        state.skip = true;
+        i += 2;
+        continue;
+      }
+      if (next === "'") {
+        emit(String.fromCharCode(parseInt(source.slice(i + 2, i + 4), 16)));
+        i += 4;
+        groupStart = false;
+        continue;
+      }
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+        groupStart = false;
+        continue;
+      }
+      if (next === '~') {
+        emit(' ');
+        i += 2;
+        continue;
+      }
+      if (next === '\n' || next === '\r') {
+        emit('\n');
+        i += 2;
+        continue;
+      }
+
+      const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(source.slice(i + 1, i + 40));
+      if (!match) {
+        i += 2;
+        continue;
+      }
+      const [token, word, param] = match;
+      i += 1 + token.length;
+
+      if (groupStart && SKIPPED_DESTINATIONS.has(word)) state.skip = true;
+      groupStart = false;
+
+      if (word === 'uc') {
+        state.unicodeSkip = Number(param ?? 1);
+      } else if (word === 'u' && param !== undefined) {
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = state.unicodeSkip;
+      } else if (word === 'bin' && param !== undefined) {
+        i += Number(param);
+      } else if (BREAKS[word]) {
+        emit(BREAKS[word]);
+      }
+      continue;
+    }
+
+    groupStart = false;
+    if (char !== '\n' && char !== '\r') emit(char);
+    i++;
+  }
+
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
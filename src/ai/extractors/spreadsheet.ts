@@ -0,0 +1,265 @@
+/**
+ * @fileOverview Reads spreadsheets (.xlsx, .xls, .csv) as a profile plus row chunks, so a large
+ * workbook can be described in full while only the rows that matter reach the prompt. The
+ * column profile covers what a data quality profile would: null rates, distinct counts, value
+ * ranges, patterns and suspected PII (whose sample values are masked).
+ *
+ * - profileWorkbook - Profiles every sheet and splits its rows into CSV chunks.
+ * - describeWorkbookProfile - The profile as text: sheets, row counts, column statistics and samples.
+ * - toDataProfile - The profile in the structured form returned to the chat.
+ */
+
+import * as xlsx from 'xlsx';
+import type { ContentPart } from './budget';
+import { detectPii, maskValue, valuePattern, type DataProfile } from './data-quality';
+
+export type ColumnType = 'integer' | 'number' | 'date' | 'boolean' | 'text' | 'empty';
+
+export interface ColumnProfile {
+  name: string;
+  /** The column's type, or several when values are mixed (most common first). */
+  types: ColumnType[];
+  nonEmpty: number;
+  nulls: number;
+  distinct: number;
+  /** Smallest and largest number or date, for numeric and date columns. */
+  min?: string;
+  max?: string;
+  /** Shortest and longest text value. */
+  minLength?: number;
+  maxLength?: number;
+  /** Most common value patterns with their share of non-empty values. */
+  patterns: { pattern: string; share: number }[];
+  /** Suspected kind of personal data; examples are masked when set. */
+  pii?: string;
+  examples: string[];
+}
+
+export interface SheetProfile {
+  name: string;
+  /** Data rows, excluding the header. */
+  rowCount: number;
+  columns: ColumnProfile[];
+  sampleRows: string[];
+}
+
+export interface WorkbookProfile {
+  sheets: SheetProfile[];
+  /** Data rows as CSV, a few thousand characters per part, each with the header repeated. */
+  parts: ContentPart[];
+}
+
+const SAMPLE_ROWS = 5;
+const MAX_EXAMPLES = 3;
+const TOP_PATTERNS = 3;
+/** Pattern counting stops adding new patterns past this many, to bound memory on free text. */
+const MAX_PATTERNS_TRACKED = 1000;
+/** Values checked against PII formats, per column. */
+const PII_SAMPLE_SIZE = 1000;
+const PART_CHARS = 3000;
+/** Distinct values are counted up to this many per column, then reported as "at least". */
+const MAX_DISTINCT_TRACKED = 10000;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString().replace('T00:00:00.000Z', '') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(row: unknown[]): string {
+  return row.map(csvCell).join(',');
+}
+
+function typeOf(value: unknown): ColumnType {
+  if (value === null || value === undefined || value === '') return 'empty';
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return 'text';
+}
+
+/** The first row is a header when every non-empty cell in it is text and no name repeats. */
+function hasHeader(first: unknown[]): boolean {
+  const names = first.filter((cell) => typeOf(cell) !== 'empty');
+  return names.length > 0 && names.every((cell) => typeOf(cell) === 'text') && new Set(names).size === names.length;
+}
+
+function profileColumns(header: string[], rows: unknown[][]): ColumnProfile[] {
+  return header.map((name, column) => {
+    const typeCounts = new Map<ColumnType, number>();
+    const distinct = new Set<string>();
+    const patterns = new Map<string, number>();
+    const examples: string[] = [];
+    const piiSample: string[] = [];
+    let nonEmpty = 0;
+    let minNumber = Infinity;
+    let maxNumber = -Infinity;
+    let minDate: Date | undefined;
+    let maxDate: Date | undefined;
+    let minLength = Infinity;
+    let maxLength = 0;
+    for (const row of rows) {
+      const value = row[column];
+      const type = typeOf(value);
+      if (type === 'empty') continue;
+      nonEmpty++;
+      typeCounts.set(type, (typeCounts.get(type) ?? 0) + 1);
+      const text = value instanceof Date ? csvCell(value) : String(value);
+      if (distinct.size < MAX_DISTINCT_TRACKED) distinct.add(text);
+      const example = text.slice(0, 60);
+      if (examples.length < MAX_EXAMPLES && !examples.includes(example)) examples.push(example);
+      if (typeof value === 'number') {
+        minNumber = Math.min(minNumber, value);
+        maxNumber = Math.max(maxNumber, value);
+      } else if (value instanceof Date) {
+        if (!minDate || value < minDate) minDate = value;
+        if (!maxDate || value > maxDate) maxDate = value;
+      } else {
+        minLength = Math.min(minLength, text.length);
+        maxLength = Math.max(maxLength, text.length);
+      }
+      const pattern = valuePattern(text);
+      if (patterns.has(pattern) || patterns.size < MAX_PATTERNS_TRACKED) patterns.set(pattern, (patterns.get(pattern) ?? 0) + 1);
+      // Numbers and dates are checked by column name only; formatted text is where PII formats show.
+      if (typeof value === 'string' && piiSample.length < PII_SAMPLE_SIZE) piiSample.push(text);
+    }
+    const types = [...typeCounts].sort((a, b) => b[1] - a[1]).map(([type]) => type);
+    // Integers mixed with decimals are just numbers.
+    const merged = types.includes('number') ? types.filter((t) => t !== 'integer') : types;
+    const main = merged[0];
+    const pii = detectPii(name, piiSample);
+    return {
+      name,
+      types: merged.length ? merged : ['empty'],
+      nonEmpty,
+      nulls: rows.length - nonEmpty,
+      distinct: distinct.size,
+      ...(main === 'integer' || main === 'number' ? { min: String(minNumber), max: String(maxNumber) } : {}),
+      ...(main === 'date' && minDate && maxDate ? { min: csvCell(minDate), max: csvCell(maxDate) } : {}),
+      ...(maxLength > 0 ? { minLength, maxLength } : {}),
+      patterns: [...patterns]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_PATTERNS)
+        .map(([pattern, count]) => ({ pattern, share: count / nonEmpty })),
+      pii,
+      examples: pii ? examples.map(maskValue) : examples,
+    };
+  });
+}
+
+function columnName(index: number): string {
+  return `Column ${xlsx.utils.encode_col(index)}`;
+}
+
+export function profileWorkbook(buffer: Buffer): WorkbookProfile {
+  const workbook = xlsx.read(buffer, { type: 'buffer', cellDates: true });
+  const sheets: SheetProfile[] = [];
+  const parts: ContentPart[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    const range = sheet['!ref'] ? xlsx.utils.decode_range(sheet['!ref']) : undefined;
+    const allRows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, blankrows: true, defval: null });
+    // Keep sheet row numbers so chunks can be reported as "rows 120–240".
+    const firstRowNumber = (range?.s.r ?? 0) + 1;
+    const numbered = allRows
+      .map((row, i) => ({ row, number: firstRowNumber + i }))
+      .filter(({ row }) => row.some((cell) => typeOf(cell) !== 'empty'));
+    if (!numbered.length) {
+      sheets.push({ name: sheetName, rowCount: 0, columns: [], sampleRows: [] });
+      continue;
+    }
+
+    const width = numbered.reduce((max, { row }) => Math.max(max, row.length), 0);
+    const headed = hasHeader(numbered[0].row);
+    const header = Array.from({ length: width }, (_, i) =>
+      headed ? String(numbered[0].row[i] ?? '').trim() || columnName(i) : columnName(i)
+    );
+    const data = headed ? numbered.slice(1) : numbered;
+    const headerLine = csvRow(header);
+
+    const columns = profileColumns(header, data.map(({ row }) => row));
+    sheets.push({
+      name: sheetName,
+      rowCount: data.length,
+      columns,
+      sampleRows: data
+        .slice(0, SAMPLE_ROWS)
+        .map(({ row }) => csvRow(row.map((cell, i) => (columns[i]?.pii && typeOf(cell) !== 'empty' ? maskValue(csvCell(cell)) : cell)))),
+    });
+
+    let lines: string[] = [];
+    let size = 0;
+    let from = 0;
+    const flush = (to: number) => {
+      if (!lines.length) return;
+      parts.push({ group: sheetName, unit: 'rows', from, to, text: `[Sheet: ${sheetName}, rows ${from}-${to}]\n${headerLine}\n${lines.join('\n')}` });
+      lines = [];
+      size = 0;
+    };
+    data.forEach(({ row, number }, i) => {
+      const line = csvRow(row);
+      if (size && size + line.length > PART_CHARS) flush(data[i - 1].number);
+      if (!lines.length) from = number;
+      lines.push(line);
+      size += line.length + 1;
+    });
+    if (data.length) flush(data[data.length - 1].number);
+  }
+
+  return { sheets, parts };
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+export function describeWorkbookProfile(profile: WorkbookProfile): string {
+  return profile.sheets
+    .map((sheet) => {
+      if (!sheet.rowCount) return `[Sheet: ${sheet.name}] empty`;
+      const lines = [`[Sheet: ${sheet.name}] ${sheet.rowCount} rows x ${sheet.columns.length} columns`, 'Columns:'];
+      for (const column of sheet.columns) {
+        const distinct = column.distinct >= MAX_DISTINCT_TRACKED ? `${MAX_DISTINCT_TRACKED}+` : column.distinct;
+        const stats = [
+          `${column.types.join('/')}`,
+          `${percent(column.nulls / sheet.rowCount)} null`,
+          `${distinct} distinct`,
+          column.min !== undefined && `range ${column.min} to ${column.max}`,
+          column.minLength !== undefined && `length ${column.minLength}-${column.maxLength}`,
+          column.patterns.length && `patterns ${column.patterns.map((p) => `${p.pattern} (${percent(p.share)})`).join(', ')}`,
+          column.pii && `suspected PII: ${column.pii}`,
+          column.examples.length && `e.g. ${column.examples.join(' | ')}`,
+        ].filter(Boolean);
+        lines.push(`- ${column.name}: ${stats.join('; ')}`);
+      }
+      lines.push('Sample rows:', csvRow(sheet.columns.map((c) => c.name)), ...sheet.sampleRows);
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+export function toDataProfile(file: string, profile: WorkbookProfile): DataProfile {
+  return {
+    file,
+    sheets: profile.sheets
+      .filter((sheet) => sheet.rowCount > 0)
+      .map((sheet) => ({
+        name: sheet.name,
+        rowCount: sheet.rowCount,
+        columns: sheet.columns.map(({ name, types, nulls, distinct, min, max, minLength, maxLength, patterns, pii }) => ({
+          name,
+          type: types.join('/'),
+          nullRate: nulls / sheet.rowCount,
+          distinct,
+          distinctCapped: distinct >= MAX_DISTINCT_TRACKED,
+          min,
+          max,
+          minLength,
+          maxLength,
+          patterns,
+          pii,
+        })),
+      })),
+  };
+}
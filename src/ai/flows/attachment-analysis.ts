@@ -1,72 +1,264 @@
 'use server';
 /**
  * @fileOverview A Genkit flow for answering user questions about Informatica Data Management Cloud (IDMC)
- * using provided attachments (images, PDFs, Word, or Excel) as context.
+ * using one or more provided attachments (images, PDFs, Word, Excel, PowerPoint, RTF or text) as context.
+ * Slide decks contribute their slide text, speaker notes and embedded images. With several files the
+ * model is asked to cross-reference them and to name the file each detail comes from.
+ * IDMC asset exports (ZIP bundles or JSON/XML definitions) are parsed into a structured model of
+ * mappings, tasks, taskflows and connections, which the model can query through tools.
+ * Extracted text shares a token budget (IDMC_ATTACHMENT_TOKEN_BUDGET); files over their share are
+ * narrowed to the parts relevant to the question or summarized (see extractors/budget.ts), and the
+ * answer says which parts were considered.
+ * Spreadsheets and CSV files are profiled locally (null rates, distinct counts, ranges, patterns,
+ * suspected PII); the profile is returned as structured data, and for sample data extracts the
+ * model proposes Cloud Data Quality rules and cleansing steps.
+ * With `extractArchitecture`, architecture diagrams are turned into a typed graph of systems,
+ * connectors, data flows, IDMC services and Secure Agent groups, with the pieces a deployment
+ * would need but the diagram leaves out flagged as gaps (see architecture.ts).
+ * PowerCenter repository XML exports are parsed into their mappings, mapplets, sessions and
+ * workflows, and assessed for migration to CDI (see powercenter/assessment.ts); the report is
+ * returned as structured data and the model answers from it, with tools for per-object detail.
  *
  * - idmcAttachmentAnalysis - A function that handles the IDMC attachment analysis process.
  * - IDMCAttachmentAnalysisInput - The input type for the idmcAttachmentAnalysis function.
  * - IDMCAttachmentAnalysisOutput - The return type for the idmcAttachmentAnalysis function.
+ * - idmcAttachmentAnalysisFlow - The streaming flow, served at /api/flows/attachment-analysis.
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/models';
 import { z } from 'genkit';
+import { ConversationHistorySchema, condenseHistory } from '@/ai/history';
+import { AnswerStreamChunkSchema, requireOutput, streamAnswer } from '@/ai/streaming';
 import mammoth from 'mammoth';
-import * as xlsx from 'xlsx';
+import { extractPptx, type ExtractedImage } from '@/ai/extractors/pptx';
+import { extractDoc, extractPpt } from '@/ai/extractors/legacy-office';
+import { extractRtf } from '@/ai/extractors/rtf';
+import { describeWorkbookProfile, profileWorkbook, toDataProfile, type WorkbookProfile } from '@/ai/extractors/spreadsheet';
+import { DataProfileSchema, RuleSuggestionSchema, type DataProfile } from '@/ai/extractors/data-quality';
+import { fitToBudget, splitDocument, type ContentPart } from '@/ai/extractors/budget';
+import { MAX_ATTACHMENTS } from '@/lib/attachments';
+import { isAssetExport, parseAssetExport } from '@/ai/idmc-assets/model';
+import { describeAssetModel } from '@/ai/idmc-assets/query';
+import { assetTools } from '@/ai/idmc-assets/tools';
+import type { AssetModel } from '@/ai/idmc-assets/types';
+import { ArchitectureExtractionSchema, ArchitectureGraphSchema, buildArchitectureGraph } from '@/ai/architecture';
+import { isPowerCenterExport, parsePowerCenterExport, type PowerCenterExport } from '@/ai/powercenter/repository';
+import { MigrationAssessmentSchema, assessMigration, describeMigrationAssessment } from '@/ai/powercenter/assessment';
+import { migrationTools } from '@/ai/powercenter/tools';
+
+const AttachmentSchema = z.object({
+  name: z.string().describe('The file name, used to refer to the file in the answer.'),
+  dataUri: z.string().describe('The attachment as a data URI.'),
+  type: z.string().optional().describe('The MIME type of the attachment.'),
+});
+export type Attachment = z.infer<typeof AttachmentSchema>;
 
 const IDMCAttachmentAnalysisInputSchema = z.object({
   question: z.string().describe('The user\'s question about Informatica Data Management Cloud (IDMC).'),
-  attachmentDataUri: z.string().describe('The attachment as a data URI.'),
-  attachmentType: z.string().optional().describe('The MIME type of the attachment.'),
+  attachments: z.array(AttachmentSchema).min(1).max(MAX_ATTACHMENTS).describe('The files to analyze.'),
+  history: ConversationHistorySchema,
+  extractArchitecture: z
+    .boolean()
+    .optional()
+    .describe('Extract a component inventory from the architecture diagrams in the attachments.'),
 });
 export type IDMCAttachmentAnalysisInput = z.infer<typeof IDMCAttachmentAnalysisInputSchema>;
 
+const FileCoverageSchema = z.object({
+  file: z.string(),
+  method: z.enum(['full', 'ranked', 'summarized']).describe('Read in full, narrowed to relevant parts, or summarized.'),
+  considered: z.array(z.string()).describe('Parts of the file the answer is based on, e.g. "Orders: rows 2-480".'),
+  omitted: z.array(z.string()).describe('Parts of the file that were left out.'),
+});
+export type FileCoverage = z.infer<typeof FileCoverageSchema>;
+
 const IDMCAttachmentAnalysisOutputSchema = z.object({
   answer: z.string().describe('The AI-generated answer based on the question and the attachment content.'),
+  models: z.array(z.string()).describe('The models that wrote the answer.'),
+  coverage: z
+    .array(FileCoverageSchema)
+    .optional()
+    .describe('For files too large to read in full: which parts were considered.'),
+  dataProfiles: z.array(DataProfileSchema).optional().describe('Column profiles of the attached spreadsheets and CSV files.'),
+  ruleSuggestions: z
+    .array(RuleSuggestionSchema)
+    .optional()
+    .describe('Cloud Data Quality rules and cleansing steps proposed for profiled data extracts.'),
+  architecture: ArchitectureGraphSchema.optional().describe('The component inventory, when extractArchitecture was requested.'),
+  migrationAssessment: MigrationAssessmentSchema.optional().describe('The migration assessment of the attached PowerCenter exports.'),
 });
 export type IDMCAttachmentAnalysisOutput = z.infer<typeof IDMCAttachmentAnalysisOutputSchema>;
 
+// One attachment after extraction: text for documents, the original data URI for images and PDFs.
+const PreparedFileSchema = z.object({
+  number: z.number(),
+  name: z.string(),
+  type: z.string(),
+  text: z.string().optional(),
+  coverage: z.string().optional().describe('Which parts of a large file the text covers.'),
+  media: z.string().optional(),
+  images: z.array(z.object({ label: z.string(), url: z.string() })).optional(),
+});
+type PreparedFile = z.infer<typeof PreparedFileSchema>;
+
 const attachmentPrompt = ai.definePrompt({
   name: 'idmcAttachmentAnalysisPrompt',
+  model: modelFor('attachment'),
   input: {
     schema: z.object({
       question: z.string(),
-      attachmentDataUri: z.string().optional(),
-      extractedText: z.string().optional(),
-      isMediaSupported: z.boolean(),
+      conversation: z.string().optional(),
+      files: z.array(PreparedFileSchema),
+      multiple: z.boolean(),
+      hasAssetExports: z.boolean(),
+      partial: z.boolean(),
+      hasDataProfiles: z.boolean(),
+      extractArchitecture: z.boolean(),
+      migrationAssessment: z.string().optional(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      answer: z.string(),
+      ruleSuggestions: z.array(RuleSuggestionSchema).optional(),
+      architecture: ArchitectureExtractionSchema.optional(),
     }),
   },
-  output: { schema: IDMCAttachmentAnalysisOutputSchema },
   prompt: `You are an expert on Informatica Data Management Cloud (IDMC).
-The user has provided an attachment and a question.
+The user has provided {{#if multiple}}several attachments{{else}}an attachment{{/if}} and a question.
 
 Your task is to:
-1. Analyze the content of the attached file.
-2. Answer the user's question accurately using both your general IDMC knowledge and the specific details found in the attachment.
+1. Analyze the content of {{#if multiple}}each attached file{{else}}the attached file{{/if}}.
+2. Answer the user's question accurately using both your general IDMC knowledge and the specific details found in the {{#if multiple}}attachments{{else}}attachment{{/if}}.
+{{#if multiple}}
+3. Cross-reference the files where the question calls for it (for example a mapping spec against an architecture diagram): point out what matches, what is missing from one file, and what conflicts.
+4. Refer to each file by its name in double quotes, e.g. "mapping-spec.xlsx", whenever you use a detail from it.
+{{/if}}
+{{#if hasAssetExports}}
+Some attachments are IDMC asset exports. Their content below is a structured summary of the mappings, mapping tasks, taskflows and connections they contain.
+Use the describeIdmcAsset, traceIdmcField and listIdmcDependencies tools for details the summary leaves out, such as where a field comes from or everything a taskflow calls.
+When explaining what a mapping does, walk through its transformations in data flow order.
+{{/if}}
+{{#if migrationAssessment}}
+Some attachments are PowerCenter repository exports. They were parsed and assessed for migration to IDMC Cloud Data Integration (CDI); the assessment is below.
+- Answer from the assessment, quoting its counts and object names rather than estimating. Use listMigrationObjects and describePowerCenterObject for objects or details the assessment text leaves out, such as the custom SQL of a mapping.
+- When asked for an assessment or an overview, summarize: the object counts by complexity, the main blockers (unsupported transformations, custom SQL, mapplets, parameter files, commands), and a suggested order of migration waves, simple objects first and shared mapplets before the mappings that use them.
+- Objects are scored by their findings; any unsupported transformation makes an object complex.
+
+MIGRATION ASSESSMENT:
+{{{migrationAssessment}}}
 
-{{#if extractedText}}
-EXTRACTED CONTENT FROM DOCUMENT (Word/Excel/Text):
+{{/if}}
+{{#if hasDataProfiles}}
+Spreadsheet and CSV content starts with a column profile computed from every row: null rates, distinct counts, ranges, lengths, value patterns and suspected PII (sample values of PII columns are masked).
+When a file is a sample data extract (rows of business data rather than a specification or documentation), act as IDMC Cloud Data Quality:
+- Summarize the data quality findings, quoting the profile's numbers rather than estimating them: completeness, duplicates on likely keys, out-of-pattern values, suspicious ranges and PII.
+- Propose Cloud Data Quality rules (rule specifications, verifiers, dictionaries, deduplication) and cleansing transformations (cleanse assets, parse, standardization, Data Masking for PII columns), and list each in "ruleSuggestions" with the column, the data quality dimension, the CDQ asset and its logic.
+{{/if}}
+{{#if extractArchitecture}}
+The user wants an inventory of the architecture shown in the attachments. Fill "architecture" with:
+- nodes: every system, database, application, file or cloud storage, IDMC service (CDI, CAI, CDQ, CDGC, MDM, Mass Ingestion...), Secure Agent group, runtime environment, connection and user group shown. Give each a short unique id, its label as written, and its technology and location (on-premises or cloud) when the diagram shows them.
+- edges: the arrows between them, using the node ids. Use "data-flow" for data movement (with the IDMC connector, if known), "runs-on" for a service or task running on an agent group or runtime environment, "uses-connection" for an endpoint reached through a connection, and "governs" for governance or cataloging.
+- gaps: what an IDMC deployment of this architecture needs but the diagram does not show or leaves ambiguous, such as a Secure Agent group for on-premises sources, runtime environments, connections or connectors, and security or network paths. Give each a severity and a recommendation.
+Only include components that are actually in the attachments; do not invent any. In "answer", describe the architecture in a few paragraphs and summarize the gaps.
+{{/if}}
+{{#if partial}}
+Some files are too large to include in full. For those, the content below is a profile of the file plus the parts most relevant to the question, or summaries of its parts; a NOTE says which. Base your answer on what you are shown, and end it with a short "Parts considered" note naming the parts of each large file you used, so the user knows what was not read.
+{{/if}}
+
+{{#each files}}
+=== FILE {{number}}: "{{name}}" ({{type}}) ===
+{{#if coverage}}
+NOTE: {{{coverage}}}
+{{/if}}
+{{#if text}}
+EXTRACTED CONTENT (Word/Excel/PowerPoint/RTF/Text):
 --- START OF CONTENT ---
-{{{extractedText}}}
+{{{text}}}
 --- END OF CONTENT ---
 {{/if}}
-
-{{#if isMediaSupported}}
-MEDIA ATTACHMENT (Image/PDF): {{media url=attachmentDataUri}}
+{{#if images}}
+IMAGES EMBEDDED IN "{{name}}" (architecture diagrams are often among them):
+{{#each images}}
+{{label}}: {{media url=url}}
+{{/each}}
+{{/if}}
+{{#if media}}
+MEDIA CONTENT (Image/PDF): {{media url=media}}
 {{/if}}
 
-Question: {{{question}}}`,
+{{/each}}
+
+{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}Question: {{{question}}}`,
 });
 
+interface ExtractedContent {
+  text: string;
+  images?: ExtractedImage[];
+  workbook?: WorkbookProfile;
+  /** Spreadsheets: a profile of every sheet, always kept, with the rows as `parts`. */
+  preamble?: string;
+  parts?: ContentPart[];
+}
+
+/** A prepared file whose extracted text still has to be fitted into the prompt budget. */
+interface PreparedAttachment {
+  file: PreparedFile;
+  content?: { preamble?: string; parts: ContentPart[] };
+  dataProfile?: DataProfile;
+}
+
+/** Token budget shared by the extracted text of all attachments in a request. */
+const ATTACHMENT_TOKEN_BUDGET = Number(process.env.IDMC_ATTACHMENT_TOKEN_BUDGET || 24000);
+
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+/** OLE compound file signature shared by .doc, .ppt and .xls. */
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
 /**
- * Parses base64 data URI and extracts text for Office documents.
+ * Parses base64 data URI and extracts text (and, for slide decks, images) for Office documents.
  */
-async function extractTextFromOffice(dataUri: string, mimeType: string): Promise<string> {
+async function extractTextFromOffice(dataUri: string, mimeType: string): Promise<ExtractedContent> {
   const base64Data = dataUri.split(',')[1];
-  if (!base64Data) return 'Error: Invalid file data.';
+  if (!base64Data) return { text: 'Error: Invalid file data.' };
   
   const buffer = Buffer.from(base64Data, 'base64');
 
   try {
+    // PowerPoint decks (.pptx): slide text, speaker notes and embedded images
+    if (mimeType === PPTX_MIME || mimeType.includes('presentationml')) {
+      const deck = await extractPptx(buffer);
+      return { text: deck.text || 'The presentation appears to have no text.', images: deck.images };
+    }
+
+    // Legacy PowerPoint (.ppt), best effort
+    if (mimeType === 'application/vnd.ms-powerpoint') {
+      return { text: extractPpt(buffer) || 'No text could be recovered from this .ppt file.' };
+    }
+
+    // Rich Text Format (.rtf), best effort
+    if (mimeType === 'application/rtf' || mimeType === 'text/rtf') {
+      return { text: extractRtf(buffer.toString('latin1')) || 'The RTF document appears to be empty.' };
+    }
+
+    // Legacy Word (.doc), best effort; some .doc files are really RTF or .docx with the wrong extension
+    if (mimeType === 'application/msword') {
+      if (buffer.subarray(0, 5).toString('latin1') === '{\\rtf') {
+        return { text: extractRtf(buffer.toString('latin1')) || 'The Word document appears to be empty.' };
+      }
+      if (buffer.subarray(0, 8).equals(CFB_SIGNATURE)) {
+        return { text: extractDoc(buffer) || 'No text could be recovered from this .doc file.' };
+      }
+      const result = await mammoth.extractRawText({ buffer });
+      return { text: result.value || 'The Word document appears to be empty.' };
+    }
+
     // Word Documents (.docx)
     if (
       mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || 
@@ -74,7 +266,7 @@ async function extractTextFromOffice(dataUri: string, mimeType: string): Promise
       mimeType.includes('officedocument.word')
     ) {
       const result = await mammoth.extractRawText({ buffer });
-      return result.value || 'The Word document appears to be empty.';
+      return { text: result.value || 'The Word document appears to be empty.' };
     } 
     
     // Excel Spreadsheets (.xlsx, .xls, .csv)
@@ -85,67 +277,186 @@ async function extractTextFromOffice(dataUri: string, mimeType: string): Promise
       mimeType.includes('excel') ||
       mimeType === 'text/csv'
     ) {
-      const workbook = xlsx.read(buffer, { type: 'buffer' });
-      let text = '';
-      workbook.SheetNames.forEach((sheetName) => {
-        text += `\n[Sheet: ${sheetName}]\n`;
-        const sheet = workbook.Sheets[sheetName];
-        text += xlsx.utils.sheet_to_csv(sheet);
-      });
-      return text || 'The spreadsheet appears to be empty.';
-    }
-
-    // Fallback for .doc (Mammoth doesn't support .doc, only .docx)
-    if (mimeType === 'application/msword') {
-      return 'Notice: This appears to be an older .doc format. Please convert it to .docx for full text extraction support.';
+      const profile = profileWorkbook(buffer);
+      if (!profile.parts.length) return { text: 'The spreadsheet appears to be empty.' };
+      return { text: '', workbook: profile, preamble: describeWorkbookProfile(profile), parts: profile.parts };
     }
 
   } catch (error) {
     console.error('Error extracting text from office document:', error);
-    return `Error: Could not extract text from this ${mimeType} document.`;
+    return { text: `Error: Could not extract text from this ${mimeType} document.` };
   }
-  return '';
+  return { text: '' };
+}
+
+/** Extensions read as plain text whatever the browser reports; `.log` files often arrive with no MIME type. */
+const TEXT_EXTENSIONS = ['.txt', '.log', '.out', '.err', '.json', '.xml', '.md', '.yaml', '.yml', '.properties', '.ini', '.cfg', '.sql'];
+
+function isTextLike(name: string, mimeType: string): boolean {
+  if (mimeType.startsWith('text/') || /[/+](json|xml|x-yaml|yaml|sql)$/.test(mimeType)) return true;
+  const lowerName = name.toLowerCase();
+  return TEXT_EXTENSIONS.some((extension) => lowerName.endsWith(extension));
 }
 
-const idmcAttachmentAnalysisFlow = ai.defineFlow(
+async function prepareAttachment(
+  attachment: Attachment,
+  number: number,
+  assetModels: AssetModel[],
+  powerCenterExports: PowerCenterExport[]
+): Promise<PreparedAttachment> {
+  const mimeType = attachment.type || '';
+  const file: PreparedFile = { number, name: attachment.name, type: mimeType || 'unknown type' };
+  const base64Data = attachment.dataUri.split(',')[1] ?? '';
+  const buffer = Buffer.from(base64Data, 'base64');
+
+  // PowerCenter repository exports: assessed together after all files are read, see the flow
+  if (isPowerCenterExport(attachment.name, mimeType, buffer)) {
+    const exported = parsePowerCenterExport(attachment.name, buffer.toString('utf-8'));
+    powerCenterExports.push(exported);
+    file.type = 'PowerCenter repository export';
+    const count = (kind: string, n: number) => (n ? [`${n} ${kind}${n === 1 ? '' : 's'}`] : []);
+    const mapplets = exported.mappings.filter((m) => m.kind === 'mapplet').length;
+    file.text = [
+      `Repository ${exported.repository ?? 'unknown'}, folders ${exported.folders.join(', ') || 'none'}:`,
+      [
+        ...count('mapping', exported.mappings.length - mapplets),
+        ...count('mapplet', mapplets),
+        ...count('session', exported.sessions.length),
+        ...count('workflow or worklet', exported.workflows.length),
+      ].join(', ') || 'no objects',
+      '(See the migration assessment above.)',
+    ].join(' ');
+    return { file };
+  }
+
+  // IDMC asset exports: ZIP bundles, or single JSON/XML definitions of mappings, tasks and taskflows
+  if (isAssetExport(attachment.name, mimeType, buffer)) {
+    try {
+      const model = await parseAssetExport(attachment.name, buffer);
+      assetModels.push(model);
+      file.type = 'IDMC asset export';
+      file.text = describeAssetModel(model);
+    } catch (error) {
+      console.error('Error parsing IDMC asset export:', error);
+      file.text = `Error: Could not unpack ${attachment.name} as an IDMC asset export.`;
+    }
+    // The asset summary bounds itself (IDMC_ASSET_SUMMARY_CHARS) and the tools reach the rest.
+    return { file };
+  }
+
+  // Gemini supports Images and PDFs directly
+  if (mimeType.startsWith('image/') || mimeType === 'application/pdf') {
+    file.media = attachment.dataUri;
+    return { file };
+  }
+
+  // For Office files and Plain Text, we extract text manually
+  const isOffice = mimeType.includes('word') || 
+                   mimeType.includes('excel') || 
+                   mimeType.includes('spreadsheet') || 
+                   mimeType.includes('officedocument') ||
+                   mimeType.includes('powerpoint') ||
+                   mimeType.includes('rtf') ||
+                   mimeType === 'application/msword' ||
+                   mimeType === 'text/csv';
+
+  if (!isOffice && isTextLike(attachment.name, mimeType)) {
+    return { file, content: { parts: splitDocument(buffer.toString('utf-8')) } };
+  }
+  if (!isOffice) {
+    file.text = `Notice: ${mimeType || 'this file type'} is not supported for analysis.`;
+    return { file };
+  }
+
+  const { text, images, workbook, preamble, parts } = await extractTextFromOffice(attachment.dataUri, mimeType);
+  if (images?.length) file.images = images.map((image) => ({ label: image.label, url: image.dataUri }));
+  if (parts) {
+    return { file, content: { preamble, parts }, dataProfile: workbook && toDataProfile(attachment.name, workbook) };
+  }
+  return text ? { file, content: { parts: splitDocument(text) } } : { file };
+}
+
+function describeCoverage(coverage: z.infer<typeof FileCoverageSchema>): string {
+  const considered = coverage.considered.join('; ') || 'nothing';
+  const omitted = coverage.omitted.length ? ` Not included: ${coverage.omitted.join('; ')}.` : '';
+  return coverage.method === 'summarized'
+    ? `This file is too long to include; below are summaries of ${considered}.${omitted}`
+    : `This file is too long to include in full; only these parts are shown: ${considered}.${omitted}`;
+}
+
+export const idmcAttachmentAnalysisFlow = ai.defineFlow(
   {
     name: 'idmcAttachmentAnalysisFlow',
     inputSchema: IDMCAttachmentAnalysisInputSchema,
     outputSchema: IDMCAttachmentAnalysisOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
   },
-  async (input) => {
-    const mimeType = input.attachmentType || '';
-    
-    // Gemini supports Images and PDFs directly
-    const isImageOrPdf = mimeType.startsWith('image/') || mimeType === 'application/pdf';
-    
-    let extractedText = '';
-    let isMediaSupported = isImageOrPdf;
-
-    // For Office files and Plain Text, we extract text manually
-    const isOffice = mimeType.includes('word') || 
-                     mimeType.includes('excel') || 
-                     mimeType.includes('spreadsheet') || 
-                     mimeType.includes('officedocument') ||
-                     mimeType === 'application/msword';
-    
-    const isPlainText = mimeType === 'text/plain';
+  async (input, { sendChunk, abortSignal }) => {
+    // Extraction is CPU-bound and sequential anyway; keeping it in order keeps file numbers stable.
+    const prepared: PreparedAttachment[] = [];
+    const assetModels: AssetModel[] = [];
+    const powerCenterExports: PowerCenterExport[] = [];
+    for (const [i, attachment] of input.attachments.entries()) {
+      prepared.push(await prepareAttachment(attachment, i + 1, assetModels, powerCenterExports));
+    }
+    const migrationAssessment = powerCenterExports.length ? assessMigration(powerCenterExports) : undefined;
+    const tools = [
+      ...(assetModels.length ? assetTools(assetModels) : []),
+      ...(migrationAssessment ? migrationTools(migrationAssessment, powerCenterExports) : []),
+    ];
 
-    if (isPlainText) {
-      const base64Data = input.attachmentDataUri.split(',')[1];
-      extractedText = Buffer.from(base64Data, 'base64').toString('utf-8');
-    } else if (isOffice) {
-      extractedText = await extractTextFromOffice(input.attachmentDataUri, mimeType);
+    // Fit extracted text into an equal share of the budget per file; large files are narrowed or summarized.
+    const withText = prepared.filter((p) => p.content);
+    const share = Math.floor(ATTACHMENT_TOKEN_BUDGET / Math.max(withText.length, 1));
+    const coverage: z.infer<typeof FileCoverageSchema>[] = [];
+    let reading = false;
+    for (const { file, content } of withText) {
+      const fitted = await fitToBudget(file.name, content!, input.question, share, {
+        abortSignal,
+        onSummarize: () => {
+          if (!reading) sendChunk({ stage: 'reading' });
+          reading = true;
+        },
+      });
+      file.text = fitted.text || undefined;
+      if (fitted.coverage.method !== 'full') {
+        const entry = { file: file.name, ...fitted.coverage };
+        coverage.push(entry);
+        file.coverage = describeCoverage(entry);
+      }
     }
+    const files = prepared.map((p) => p.file);
+    const dataProfiles = prepared.flatMap((p) => (p.dataProfile?.sheets.length ? [p.dataProfile] : []));
 
-    const { output } = await attachmentPrompt({
-      question: input.question,
-      attachmentDataUri: isMediaSupported ? input.attachmentDataUri : undefined,
-      extractedText: extractedText || undefined,
-      isMediaSupported,
-    });
-    
-    return output!;
+    const output = await streamAnswer(
+      attachmentPrompt.stream(
+        {
+          question: input.question,
+          conversation: await condenseHistory(input.history),
+          files,
+          multiple: files.length > 1,
+          hasAssetExports: assetModels.length > 0,
+          partial: coverage.length > 0,
+          hasDataProfiles: dataProfiles.length > 0,
+          extractArchitecture: input.extractArchitecture ?? false,
+          migrationAssessment: migrationAssessment && describeMigrationAssessment(migrationAssessment),
+        },
+        { abortSignal, tools: tools.length ? tools : undefined }
+      ),
+      sendChunk
+    );
+    const result = requireOutput(output, 'answer');
+
+    return {
+      answer: result.answer,
+      models: [modelFor('attachment')],
+      coverage: coverage.length ? coverage : undefined,
+      dataProfiles: dataProfiles.length ? dataProfiles : undefined,
+      ruleSuggestions: dataProfiles.length && result.ruleSuggestions?.length ? result.ruleSuggestions : undefined,
+      architecture:
+        input.extractArchitecture && result.architecture ? buildArchitectureGraph(result.architecture) : undefined,
+      migrationAssessment,
+    };
   }
 );
 
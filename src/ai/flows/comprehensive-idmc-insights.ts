@@ -2,32 +2,58 @@
 /**
  * @fileOverview This file implements a Genkit flow for the IDMC CogniAssistant,
  * enabling comprehensive question answering about Informatica Data Management Cloud (IDMC).
- * It orchestrates multiple AI models and simulates dynamic knowledge retrieval to provide
- * well-rounded and accurate insights.
+ * It fans the question out to a configurable panel of AI models (Gemini, OpenAI-compatible, Ollama, ...),
+ * grounds them in the local IDMC documentation index, scores how much their answers agree, and
+ * synthesizes a final answer from a structured comparison of what each model said.
+ * Curated answers approved by the IDMC team are looked up first and given to every model as
+ * verified knowledge; an answer that cites one is marked as verified.
  *
  * - comprehensiveIDMCInsights - The main function to answer IDMC questions.
  * - ComprehensiveIDMCInsightsInput - The input type for the comprehensiveIDMCInsights function.
  * - ComprehensiveIDMCInsightsOutput - The return type for the comprehensiveIDMCInsights function.
+ * - comprehensiveIDMCInsightsFlow - The streaming flow, served at /api/flows/comprehensive-idmc-insights.
+ *   Besides answer deltas it emits `stage` chunks as it moves through answering, comparison and synthesis.
  */
 
 import { ai } from '@/ai/genkit';
+import { comprehensivePanel, modelFor, type PanelMember } from '@/ai/models';
+import { ModelComparisonSchema, compareAnswers, formatComparison, type PanelAnswer } from '@/ai/agreement';
 import { z } from 'genkit';
+import { ConversationHistorySchema, condenseHistory, rewriteStandaloneQuestion } from '@/ai/history';
+import { runBranch } from '@/ai/resilience';
+import { AnswerStreamChunkSchema, streamAnswer } from '@/ai/streaming';
+import { formatChunksForPrompt, searchDocumentation } from '@/ai/retrieval/search';
+import { VerifiedAnswerSchema, searchCuratedAnswers, verifiedAnswersIn, type VerifiedAnswer } from '@/ai/retrieval/curated';
+import type { RetrievedChunk } from '@/ai/retrieval/types';
 
 // Input schema for the IDMC question
 const ComprehensiveIDMCInsightsInputSchema = z.object({
   question: z.string().describe('The user\'s question about Informatica Data Management Cloud (IDMC).'),
+  history: ConversationHistorySchema,
 });
 export type ComprehensiveIDMCInsightsInput = z.infer<typeof ComprehensiveIDMCInsightsInputSchema>;
 
+const FailedBranchSchema = z.object({ branch: z.string(), reason: z.string() });
+export type FailedBranch = z.infer<typeof FailedBranchSchema>;
+
 // Output schema for the comprehensive answer
 const ComprehensiveIDMCInsightsOutputSchema = z.object({
   answer: z.string().describe('A comprehensive and synthesized answer to the IDMC question.'),
+  contributors: z.array(z.string()).describe('Ids of the panel models whose responses made it into the answer.'),
+  models: z.array(z.string()).describe('The models that wrote the answer: the panel and synthesis models, or the panel model standing in for a failed synthesis.'),
+  failedBranches: z
+    .array(FailedBranchSchema)
+    .optional()
+    .describe('Panel models that failed or timed out and were left out of the answer.'),
+  comparison: ModelComparisonSchema.optional().describe('How the panel models agreed or disagreed on key claims.'),
+  verified: z
+    .array(VerifiedAnswerSchema)
+    .optional()
+    .describe('Curated answers approved by the IDMC team that the answer cites.'),
 });
 export type ComprehensiveIDMCInsightsOutput = z.infer<typeof ComprehensiveIDMCInsightsOutputSchema>;
 
-// Placeholder tool for dynamic knowledge retrieval
-// In a real application, this would integrate with a vector database,
-// RAG system, or external IDMC documentation APIs.
+// Tool backed by the local IDMC documentation index shared with the contextual flow.
 const retrieveIDMCDocumentation = ai.defineTool(
   {
     name: 'retrieveIDMCDocumentation',
@@ -38,113 +64,226 @@ const retrieveIDMCDocumentation = ai.defineTool(
     outputSchema: z.string().describe('The retrieved documentation snippets.'),
   },
   async (input) => {
-    // Simulate documentation retrieval.
-    // In a production system, this would call a real search service or RAG pipeline.
-    const mockDocumentation = `
-      Documentation for "${input.query}":
+    // Documentation only: curated answers reach the models through the [Vn] block, where citing them counts.
+    const chunks = await searchDocumentation(input.query, { curated: false });
+    if (chunks.length === 0) {
+      return `No IDMC documentation matched "${input.query}".`;
+    }
+    return formatChunksForPrompt(chunks);
+  }
+);
+
+// Input shared by the overview and detailed prompts, with history already condensed to text
+const InsightsPromptInputSchema = z.object({
+  question: z.string(),
+  conversation: z.string().optional(),
+  verified: z.string().optional(),
+});
+
+/**
+ * Verified answers are cited as [V1], [V2], ... because plain [n] markers already number the
+ * documentation excerpts the retrieval tool returns.
+ */
+const VERIFIED_MARKER = /\[V(\d+)\]/g;
 
-      If the query is about "data integration", here's some mock data:
-      "Informatica Data Management Cloud (IDMC) offers robust data integration services, allowing users to connect to various data sources, transform data, and load it into target systems. Key features include cloud-native ETL, ELT, and replication capabilities, supporting both batch and real-time data movement. It also provides pre-built connectors for popular enterprise applications and databases."
+function formatVerifiedForPrompt(curated: RetrievedChunk[]): string {
+  return curated.map((chunk, i) => `[V${i + 1}] ${chunk.heading}\n${chunk.text}`).join('\n\n');
+}
 
-      If the query is about "data governance", here's some mock data:
-      "IDMC's data governance capabilities are provided through modules like Cloud Data Governance and Catalog (CDGC). CDGC helps organizations discover, classify, and catalog their data assets across hybrid and multi-cloud environments. It enables data stewardship, lineage tracking, and policy enforcement to ensure data quality, compliance, and trustworthiness."
+/** The curated answers an answer cites by their [Vn] markers. */
+function citedVerifiedAnswers(answer: string, curated: RetrievedChunk[]): VerifiedAnswer[] {
+  const cited = new Set([...answer.matchAll(VERIFIED_MARKER)].map((match) => Number(match[1]) - 1));
+  return verifiedAnswersIn(curated.filter((_, i) => cited.has(i)));
+}
 
-      If the query is about "cloud data warehousing", here's some mock data:
-      "IDMC supports integration with various cloud data warehouses like Snowflake, Amazon Redshift, Google BigQuery, and Azure Synapse Analytics. It optimizes data loading and transformation processes for these platforms, leveraging their native compute capabilities for high performance and scalability."
+/** Shared by every prompt of the flow; curated answers outrank the models' own knowledge and the docs. */
+const VERIFIED_BLOCK = `{{#if verified}}
+Verified answers from the IDMC team, numbered [V1], [V2], ... These are corrections approved by IDMC experts for the questions in their headings. When one answers the question, build your answer on it; it takes precedence over anything else you know or retrieve that contradicts it. Cite every verified answer you rely on with its marker, e.g. [V1], and keep such markers when combining other answers.
+{{{verified}}}
 
-      For any other query, assume relevant documentation is found.
-      "General documentation snippet relevant to ${input.query}: IDMC provides a unified platform for data integration, data governance, data quality, and master data management in the cloud, helping businesses unlock the value of their data assets with AI-powered capabilities and a microservices-based architecture."
-    `;
-    return mockDocumentation;
-  }
-);
+{{/if}}`;
 
 // Prompt for a general overview using a faster model
 const generalOverviewPrompt = ai.definePrompt({
   name: 'idmcGeneralOverviewPrompt',
-  input: { schema: ComprehensiveIDMCInsightsInputSchema },
-  output: { schema: z.string() }, // Output a string directly for this prompt
+  input: { schema: InsightsPromptInputSchema },
+  output: { format: 'text' }, // Plain text; a JSON-wrapped string schema does not parse back
   prompt: `You are an AI assistant specializing in Informatica Data Management Cloud (IDMC).
 Please provide a concise, high-level overview or initial answer to the following question about IDMC.
 Be factual and directly address the core of the question without excessive detail.
 
-Question: {{{question}}} `,
-  config: {
-    model: 'googleai/gemini-1.5-flash', // Use a faster model for initial overview
-  },
+${VERIFIED_BLOCK}{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}Question: {{{question}}} `,
+  model: modelFor('overview'), // Use a faster model for initial overview
 });
 
 // Prompt for deeper insights, potentially using the documentation retrieval tool
 const detailedInsightsPrompt = ai.definePrompt({
   name: 'idmcDetailedInsightsPrompt',
-  input: { schema: ComprehensiveIDMCInsightsInputSchema },
-  output: { schema: z.string() }, // Output a string directly for this prompt
+  input: { schema: InsightsPromptInputSchema },
+  output: { format: 'text' }, // Plain text; a JSON-wrapped string schema does not parse back
   tools: [retrieveIDMCDocumentation], // Make the documentation tool available
   prompt: `You are an expert AI assistant specializing in Informatica Data Management Cloud (IDMC).
 Your goal is to provide a comprehensive and detailed answer to the user's question.
 If necessary, use the 'retrieveIDMCDocumentation' tool to find relevant information from IDMC documentation to ground your answer.
 After gathering information (if any), synthesize a thorough response.
 
-Question: {{{question}}} `,
-  config: {
-    model: 'googleai/gemini-1.5-pro', // Use a more capable model for detailed analysis
-  },
+${VERIFIED_BLOCK}{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}Question: {{{question}}} `,
+  model: modelFor('detailed'), // Use a more capable model for detailed analysis
 });
 
+/** Per-model time limit; branches run concurrently, so this must fit well inside the route's 60s budget. */
+const BRANCH_TIMEOUT_MS = Number(process.env.IDMC_BRANCH_TIMEOUT_MS || 30000);
+
 // Prompt to synthesize responses from multiple models
 const synthesisPrompt = ai.definePrompt({
   name: 'idmcSynthesisPrompt',
   input: {
     schema: z.object({
       question: z.string(),
-      overview: z.string(),
-      detailed: z.string(),
+      conversation: z.string().optional(),
+      verified: z.string().optional(),
+      responses: z.array(z.object({ id: z.string(), label: z.string(), answer: z.string() })),
+      comparison: z.string().optional(),
     }),
   },
-  output: { schema: ComprehensiveIDMCInsightsOutputSchema },
+  output: { schema: z.object({ answer: z.string() }) },
   prompt: `You are an advanced AI tasked with synthesizing information from different AI models to provide the most comprehensive answer to an IDMC question.
-Below are two responses to the user's question: one general overview and one more detailed insight.
-Combine these responses, resolving any inconsistencies, enhancing clarity, and ensuring all relevant aspects of the question are addressed.
+Below are the responses from the models that answered, followed by a comparison of the key claims they made and which models agreed or disagreed.
+Combine the responses, resolving any inconsistencies, enhancing clarity, and ensuring all relevant aspects of the question are addressed.
+Prefer claims that several models agree on. Where models contradict each other, favor answers grounded in retrieved documentation, and say so briefly if the point stays uncertain.
 Format the final answer clearly and professionally.
 
-User's Question: {{{question}}}
+${VERIFIED_BLOCK}{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}User's Question: {{{question}}}
 
-General Overview:
-{{{overview}}}
+{{#each responses}}
+--- Response from {{label}} (id "{{id}}") ---
+{{{answer}}}
 
-Detailed Insights:
-{{{detailed}}}
+{{/each}}
+{{#if comparison}}
+Comparison of key claims:
+{{{comparison}}}
 
+{{/if}}
 Provide the synthesized, comprehensive answer:`,
-  config: {
-    model: 'googleai/gemini-1.5-pro', // Use a capable model for synthesis
-  },
+  model: modelFor('synthesis'), // Use a capable model for synthesis
 });
 
 // The main Genkit flow
-const comprehensiveIDMCInsightsFlow = ai.defineFlow(
+export const comprehensiveIDMCInsightsFlow = ai.defineFlow(
   {
     name: 'comprehensiveIDMCInsightsFlow',
     inputSchema: ComprehensiveIDMCInsightsInputSchema,
     outputSchema: ComprehensiveIDMCInsightsOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
   },
-  async (input) => {
-    // Step 1: Get a general overview from a faster model
-    const overviewResponse = await generalOverviewPrompt(input);
-    const overview = overviewResponse.output!;
-
-    // Step 2: Get detailed insights from a more capable model, potentially using the documentation tool
-    const detailedResponse = await detailedInsightsPrompt(input);
-    const detailed = detailedResponse.output!;
-
-    // Step 3: Synthesize the responses from both models
-    const synthesizedResponse = await synthesisPrompt({
-      question: input.question,
-      overview: overview,
-      detailed: detailed,
+  async (input, { sendChunk, abortSignal }) => {
+    const history = await condenseHistory(input.history);
+    // Curated answers are matched on the standalone question, so follow-ups find them too.
+    const curated = await searchCuratedAnswers(await rewriteStandaloneQuestion(input.question, history));
+    const verified = curated.length ? formatVerifiedForPrompt(curated) : undefined;
+    const promptInput = { question: input.question, conversation: history, verified };
+
+    const panel = comprehensivePanel();
+    const askPanelist = async (member: PanelMember, signal: AbortSignal) => {
+      // Overview-style members use the faster, concise prompt; the rest get the documentation tool.
+      const prompt = member.style === 'overview' ? generalOverviewPrompt : detailedInsightsPrompt;
+      const { text } = await prompt(promptInput, { model: member.model, abortSignal: signal });
+      if (!text.trim()) throw new Error('empty response');
+      return text;
+    };
+
+    // Step 1: Ask every panel model concurrently, each under its own timeout.
+    sendChunk({ stage: 'answering' });
+    const branches = await Promise.all(
+      panel.map((member) =>
+        runBranch(member.id, (signal) => askPanelist(member, signal), {
+          timeoutMs: BRANCH_TIMEOUT_MS,
+          signal: abortSignal,
+        })
+      )
+    );
+
+    const answers: PanelAnswer[] = [];
+    const failedBranches: FailedBranch[] = [];
+    branches.forEach((branch, i) => {
+      const { id, label, model } = panel[i];
+      if (branch.status === 'fulfilled') answers.push({ id, label, model, answer: branch.value });
+      else failedBranches.push({ branch: id, reason: branch.reason });
     });
 
-    return synthesizedResponse.output!;
+    if (answers.length === 0) {
+      throw new Error(
+        `All model branches failed: ${failedBranches.map((f) => `${f.branch} (${f.reason})`).join(', ')}`
+      );
+    }
+
+    // Step 2: Score agreement between the surviving answers.
+    sendChunk({ stage: 'comparing' });
+    const comparison = await compareAnswers(input.question, answers, { abortSignal });
+
+    // Step 3: Synthesize from the answers and their comparison, streaming the final answer.
+    sendChunk({ stage: 'synthesizing' });
+    let answer: string | undefined;
+    let streamedSynthesis = false;
+    try {
+      const synthesized = await streamAnswer(
+        synthesisPrompt.stream(
+          {
+            question: input.question,
+            conversation: history,
+            verified,
+            responses: answers.map(({ id, label, answer }) => ({ id, label, answer })),
+            comparison: answers.length > 1 ? formatComparison(comparison) : undefined,
+          },
+          { abortSignal }
+        ),
+        (chunk) => {
+          streamedSynthesis = true;
+          sendChunk(chunk);
+        }
+      );
+      answer = synthesized?.answer;
+    } catch (error) {
+      if (abortSignal.aborted) throw error;
+      console.error('Synthesis failed, returning the best single answer instead:', error);
+    }
+
+    let models: string[];
+    if (answer) {
+      models = [...new Set([...answers.map((a) => a.model), modelFor('synthesis')])];
+    } else {
+      // Prefer a detailed-style answer; it is grounded in documentation when the tool was used.
+      const best =
+        answers.find((a) => panel.find((member) => member.id === a.id)?.style === 'detailed') ?? answers[0];
+      answer = best.answer;
+      models = [best.model];
+      // Replace any synthesis text that streamed before the failure rather than appending to it.
+      if (streamedSynthesis) sendChunk({ reset: true });
+      sendChunk({ delta: answer });
+    }
+
+    const cited = citedVerifiedAnswers(answer, curated);
+    return {
+      answer,
+      contributors: answers.map((a) => a.id),
+      models,
+      failedBranches: failedBranches.length ? failedBranches : undefined,
+      comparison: answers.length > 1 ? comparison : undefined,
+      verified: cited.length ? cited : undefined,
+    };
   }
 );
 
@@ -1,30 +1,49 @@
 'use server';
 /**
  * @fileOverview This file implements a Genkit flow that provides answers to IDMC-related questions.
- * The answers are grounded in retrieved documentation to ensure factual accuracy and relevance.
+ * The answers are grounded in retrieved documentation to ensure factual accuracy and relevance,
+ * cite the chunks they rely on with inline markers like [1], and report sentences that no
+ * retrieved chunk supports. Curated answers approved by the IDMC team are retrieved ahead of the
+ * documentation; an answer that cites one is marked as verified.
  *
  * - contextualIDMCAnswers - An exported function that orchestrates the documentation retrieval and answer generation.
  * - ContextualIDMCAnswersInput - The input type for the contextualIDMCAnswers function.
  * - ContextualIDMCAnswersOutput - The return type for the contextualIDMCAnswers function.
+ * - contextualIDMCAnswersFlow - The streaming flow, served at /api/flows/contextual-idmc-answers.
  */
 
 import {ai} from '@/ai/genkit';
+import {modelFor} from '@/ai/models';
 import {z} from 'genkit';
+import {ConversationHistorySchema, condenseHistory, rewriteStandaloneQuestion} from '@/ai/history';
+import {AnswerStreamChunkSchema, requireOutput, streamAnswer} from '@/ai/streaming';
+import {formatChunksForPrompt, searchDocumentation, sourceUrls} from '@/ai/retrieval/search';
+import {CitableChunkSchema, CitationSchema, buildCitations, findUnsupportedSentences} from '@/ai/citations';
+import {VerifiedAnswerSchema, verifiedAnswersIn} from '@/ai/retrieval/curated';
 
 const ContextualIDMCAnswersInputSchema = z.object({
   question: z.string().describe('The user\'s question about Informatica Data Management Cloud (IDMC).'),
+  history: ConversationHistorySchema,
 });
 export type ContextualIDMCAnswersInput = z.infer<typeof ContextualIDMCAnswersInputSchema>;
 
 const ContextualIDMCAnswersOutputSchema = z.object({
   answer: z.string().describe('The AI-generated answer to the question, grounded in IDMC documentation.'),
+  models: z.array(z.string()).describe('The models that wrote the answer.'),
   sourceLinks: z.array(z.string()).optional().describe('Optional links to the official IDMC documentation sources used.'),
+  citations: z.array(CitationSchema).optional().describe('The documentation chunks cited inline in the answer, by marker number.'),
+  unsupportedSentences: z
+    .array(z.string())
+    .optional()
+    .describe('Sentences of the answer that no retrieved documentation chunk supports.'),
+  verified: z
+    .array(VerifiedAnswerSchema)
+    .optional()
+    .describe('Curated answers approved by the IDMC team that the answer cites.'),
 });
 export type ContextualIDMCAnswersOutput = z.infer<typeof ContextualIDMCAnswersOutputSchema>;
 
-// Define a tool to simulate retrieving IDMC documentation.
-// In a real application, this would integrate with a vector database
-// or a search service indexing official IDMC documentation.
+// Tool backed by the local IDMC documentation index (see `npm run docs:ingest`).
 const getDocumentationTool = ai.defineTool(
   {
     name: 'getDocumentation',
@@ -35,74 +54,99 @@ const getDocumentationTool = ai.defineTool(
     outputSchema: z.object({
       documentation: z.string().describe('The retrieved IDMC documentation snippets.'),
       links: z.array(z.string()).describe('URLs to the official IDMC documentation sources.'),
+      chunks: z.array(CitableChunkSchema).describe('The retrieved chunks, in the order they are numbered in `documentation`.'),
     }),
   },
   async (input) => {
-    // This is a mocked implementation. In a real scenario, this would
-    // perform a search against actual IDMC documentation.
-    console.log(`Simulating documentation retrieval for query: "${input.query}"`);
-    // Placeholder documentation
-    const mockDocumentation = `Informatica Data Management Cloud (IDMC) is a comprehensive, cloud-native, end-to-end data management platform. It offers various services including Data Integration, Data Quality, Master Data Management (MDM), Data Catalog, and Data Governance. IDMC is designed to help organizations manage, govern, and derive insights from their data across various cloud and on-premises environments. Key features include AI-powered automation (CLAIRE AI), metadata-driven data management, and a unified platform for all data initiatives. It supports multi-cloud and hybrid environments, ensuring flexibility and scalability for modern data ecosystems.`;
-
-    const mockLinks = [
-      'https://www.informatica.com/products/data-management-cloud.html',
-      'https://docs.informatica.com/cloud-common-services/cloud-data-integration/current-version/getting-started/getting-started/informatica-intelligent-cloud-services--iics--overview.html',
-    ];
-
+    const chunks = await searchDocumentation(input.query, {curated: true});
     return {
-      documentation: mockDocumentation,
-      links: mockLinks,
+      documentation: formatChunksForPrompt(chunks),
+      links: sourceUrls(chunks),
+      chunks: chunks.map(({id, title, url, heading, text, verified}) => ({id, title, url, heading, text, verified})),
     };
   }
 );
 
+/** The fixed reply for questions the documentation does not cover; it is exempt from verification. */
+const NOT_IN_DOCUMENTATION = "I don't have enough information from the provided documentation to answer this question.";
+
 // Define the prompt for the AI to generate an answer based on provided context.
 const answerQuestionPrompt = ai.definePrompt({
   name: 'answerQuestionPrompt',
-  input: { schema: z.object({ question: z.string(), context: z.string() }) },
+  model: modelFor('contextual'),
+  input: { schema: z.object({ question: z.string(), context: z.string(), conversation: z.string().optional() }) },
   output: { schema: z.object({ answer: z.string() }) }, // The source links will be handled by the flow directly.
   prompt: `You are an expert on Informatica Data Management Cloud (IDMC). Your task is to answer the user's question accurately and concisely.
 
 Critically, you must answer the question based ONLY on the provided CONTEXT. Do not use any outside knowledge.
-If the answer cannot be found within the provided CONTEXT, you must explicitly state: "I don't have enough information from the provided documentation to answer this question." Do not attempt to guess or infer.
+If the answer cannot be found within the provided CONTEXT, you must explicitly state: "${NOT_IN_DOCUMENTATION}" Do not attempt to guess or infer.
+The CONTEXT is a numbered list of documentation excerpts. After every sentence that uses information from an excerpt, cite it with its number in square brackets, e.g. "Secure Agents run on Windows or Linux [2]." Cite several excerpts as [1, 3]. Only cite numbers that appear in the CONTEXT.
+Excerpts titled "Verified answer from the IDMC team" are corrections approved by IDMC experts for the question in their heading. When one answers the question, base your answer on it and cite it; it takes precedence over any other excerpt that contradicts it.
+The conversation so far is only there to tell you what the question refers to; it is not a source of facts.
 
-Question: {{{question}}}
+{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}Question: {{{question}}}
 
 CONTEXT:
 {{{context}}}`,
 });
 
 // Define the main Genkit flow for contextual IDMC answers.
-const contextualIDMCAnswersFlow = ai.defineFlow(
+export const contextualIDMCAnswersFlow = ai.defineFlow(
   {
     name: 'contextualIDMCAnswersFlow',
     inputSchema: ContextualIDMCAnswersInputSchema,
     outputSchema: ContextualIDMCAnswersOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
   },
-  async (input) => {
-    // Step 1: Retrieve relevant documentation using the defined tool.
-    const { documentation, links } = await getDocumentationTool.run({
-      query: input.question,
-    });
-
-    // Step 2: Use the retrieved documentation and the user's question to generate an answer.
-    const { output } = await answerQuestionPrompt({
-      question: input.question,
-      context: documentation,
-    });
-
-    // Return the generated answer along with the source links.
+  async (input, { sendChunk, abortSignal }) => {
+    // Step 1: Condense prior turns and turn a follow-up into a standalone search query.
+    const history = await condenseHistory(input.history);
+    const query = await rewriteStandaloneQuestion(input.question, history);
+
+    // Step 2: Retrieve curated answers and relevant documentation using the defined tool.
+    const { documentation, links, chunks } = await getDocumentationTool({ query });
+
+    // Step 3: Use the retrieved documentation and the user's question to generate an answer.
+    const output = await streamAnswer(
+      answerQuestionPrompt.stream(
+        {
+          question: input.question,
+          context: documentation,
+          conversation: history,
+        },
+        { abortSignal }
+      ),
+      sendChunk
+    );
+
+    // Step 4: Resolve the inline markers and flag sentences no retrieved chunk backs up.
+    const {answer} = requireOutput(output, 'answer');
+    const unsupportedSentences = findUnsupportedSentences(answer, chunks).filter(
+      (sentence) => !sentence.includes(NOT_IN_DOCUMENTATION)
+    );
+
+    const citations = buildCitations(answer, chunks);
+    const verified = verifiedAnswersIn(chunks.filter((chunk) => citations.some((citation) => citation.chunkId === chunk.id)));
+
     return {
-      answer: output!.answer,
+      answer,
+      models: [modelFor('contextual')],
       sourceLinks: links,
+      citations,
+      unsupportedSentences: unsupportedSentences.length ? unsupportedSentences : undefined,
+      verified: verified.length ? verified : undefined,
     };
   }
 );
 
 /**
  * Provides an AI-generated answer to an IDMC-related question, grounded in official documentation.
- * @param input - An object containing the user's question.
- * @returns An object containing the AI's answer and optional links to source documentation.
+ * @param input - An object containing the user's question and any earlier turns of the conversation.
+ * @returns An object containing the AI's answer, its citations and optional links to source documentation.
  */
 export async function contextualIDMCAnswers(
   input: ContextualIDMCAnswersInput
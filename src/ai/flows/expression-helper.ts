@@ -0,0 +1,236 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow that writes IDMC transformation language expressions and checks
+ * them before they reach the user. The model drafts the expressions; each one is then parsed and
+ * type-checked locally (see expressions/validate.ts) against the port types the user gave. Drafts
+ * with errors get one repair round with the diagnostics, and whatever is still wrong is returned
+ * with its problems marked, so no unchecked expression is presented as working.
+ *
+ * - expressionHelper - A function that handles the expression writing process.
+ * - ExpressionHelperInput - The input type for the expressionHelper function.
+ * - ExpressionHelperOutput - The return type for the expressionHelper function.
+ * - expressionHelperFlow - The streaming flow, served at /api/flows/expression-helper.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/models';
+import { z } from 'genkit';
+import { ConversationHistorySchema, condenseHistory } from '@/ai/history';
+import { AnswerStreamChunkSchema, streamAnswer } from '@/ai/streaming';
+import { VALUE_TYPES, describeCatalog, parsePortDeclarations, toValueType, type ValueType } from '@/ai/expressions/catalog';
+import { validateExpression, type ExpressionValidation } from '@/ai/expressions/validate';
+
+const ExpressionHelperInputSchema = z.object({
+  question: z.string().describe('What the expression should do, ideally with the ports and their types.'),
+  history: ConversationHistorySchema,
+});
+export type ExpressionHelperInput = z.infer<typeof ExpressionHelperInputSchema>;
+
+const ExpressionDiagnosticSchema = z.object({
+  severity: z.enum(['error', 'warning']),
+  message: z.string(),
+  start: z.number().describe('Offset of the first character the problem covers.'),
+  end: z.number().describe('Offset just past the last character the problem covers.'),
+  line: z.number(),
+  column: z.number(),
+});
+
+const CheckedExpressionSchema = z.object({
+  title: z.string().describe('What the expression computes.'),
+  code: z.string(),
+  outputPort: z.string().optional(),
+  outputType: z.enum(VALUE_TYPES).optional(),
+  type: z.enum(VALUE_TYPES).optional().describe('The inferred result type; absent when the expression does not parse.'),
+  valid: z.boolean().describe('True when local validation found no errors.'),
+  diagnostics: z.array(ExpressionDiagnosticSchema),
+  repaired: z.boolean().describe('True when the first draft had errors and was rewritten.'),
+});
+export type CheckedExpression = z.infer<typeof CheckedExpressionSchema>;
+
+const ExpressionHelperOutputSchema = z.object({
+  answer: z.string().describe('The explanation, for the chat.'),
+  models: z.array(z.string()).describe('The models that wrote the answer.'),
+  ports: z.array(z.object({ name: z.string(), type: z.enum(VALUE_TYPES) })).describe('The port types the expressions were checked against.'),
+  expressions: z.array(CheckedExpressionSchema),
+});
+export type ExpressionHelperOutput = z.infer<typeof ExpressionHelperOutputSchema>;
+
+const DraftExpressionSchema = z.object({
+  title: z.string().describe('What the expression computes, in a few words.'),
+  code: z.string().describe('The expression only: no port name, "=" or semicolon in front of it.'),
+  outputPort: z.string().optional().describe('The output port the expression feeds, if known.'),
+  outputType: z.string().optional().describe('That port\'s type, e.g. "string", "decimal", "date/time".'),
+});
+
+const expressionPrompt = ai.definePrompt({
+  name: 'idmcExpressionPrompt',
+  model: modelFor('expression'),
+  input: {
+    schema: z.object({
+      question: z.string(),
+      ports: z.string(),
+      catalog: z.string(),
+      conversation: z.string().optional(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      answer: z.string(),
+      ports: z.array(z.object({ name: z.string(), type: z.string() })),
+      expressions: z.array(DraftExpressionSchema),
+    }),
+  },
+  prompt: `You are an Informatica Data Management Cloud (IDMC) Cloud Data Integration developer who writes transformation language expressions for Expression, Filter, Router and Aggregator transformations.
+
+Your task is to:
+1. Write the expression(s) the user needs in "expressions", one entry per output port or condition. Use only the functions listed below, single-quoted string literals, || for concatenation, AND / OR / NOT for logic, IIF or DECODE for conditions, ISNULL for NULL checks, ADD_TO_DATE / DATE_DIFF for date arithmetic, and TO_DATE / TO_CHAR with explicit format strings.
+2. List in "ports" every input port the expressions read, with its type (string, integer, bigint, decimal, double, date, binary). Keep the names and types the user gave; assume the most likely type for others and say so in "answer".
+3. Write "answer": explain what each expression does and any assumption you made. Do not repeat the expressions in full; they are shown to the user separately after being validated.
+
+Port types the user gave: {{ports}}
+
+FUNCTIONS:
+{{{catalog}}}
+
+{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+{{/if}}
+
+User's request: {{{question}}}`,
+});
+
+const repairPrompt = ai.definePrompt({
+  name: 'idmcExpressionRepairPrompt',
+  model: modelFor('expression'),
+  input: {
+    schema: z.object({
+      ports: z.string(),
+      problems: z.string(),
+      catalog: z.string(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      fixes: z.array(z.object({ index: z.number().describe('The [n] of the expression being fixed.'), code: z.string() })),
+    }),
+  },
+  prompt: `You wrote the IDMC transformation language expressions below, and a validator found errors in them.
+Rewrite each one so that it keeps its meaning and the errors are gone. Return one entry in "fixes" per expression, with its [n] as "index" and the corrected expression as "code".
+
+Port types: {{ports}}
+
+{{{problems}}}
+
+FUNCTIONS:
+{{{catalog}}}`,
+});
+
+type Draft = z.infer<typeof DraftExpressionSchema>;
+
+function describePorts(ports: Record<string, ValueType>): string {
+  const entries = Object.entries(ports);
+  return entries.length ? entries.map(([name, type]) => `${name} (${type})`).join(', ') : 'none given';
+}
+
+function errorCount(validation: ExpressionValidation): number {
+  return validation.diagnostics.filter((d) => d.severity === 'error').length;
+}
+
+export const expressionHelperFlow = ai.defineFlow(
+  {
+    name: 'expressionHelperFlow',
+    inputSchema: ExpressionHelperInputSchema,
+    outputSchema: ExpressionHelperOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    // Step 1: Draft the expressions.
+    const declared = parsePortDeclarations(input.question);
+    const catalog = describeCatalog();
+    const output = await streamAnswer(
+      expressionPrompt.stream(
+        {
+          question: input.question,
+          ports: describePorts(declared),
+          catalog,
+          conversation: await condenseHistory(input.history),
+        },
+        { abortSignal }
+      ),
+      sendChunk
+    );
+    let answer = output?.answer ?? '';
+
+    // Step 2: Validate them against the port types; what the user declared wins over the model's guesses.
+    const ports: Record<string, ValueType> = {};
+    for (const port of output?.ports ?? []) {
+      const type = toValueType(port.type);
+      if (port.name && type) ports[port.name] = type;
+    }
+    Object.assign(ports, declared);
+    const portOptions = Object.keys(ports).length ? ports : undefined;
+    const check = (draft: Draft) =>
+      validateExpression(draft.code, { ports: portOptions, outputType: draft.outputType ? toValueType(draft.outputType) : undefined });
+
+    const drafts = (output?.expressions ?? []).filter((draft) => draft.code.trim());
+    const validations = drafts.map(check);
+
+    // Step 3: One repair round for drafts with errors. A fix is kept only if it has fewer errors.
+    const broken = drafts.map((_, i) => i).filter((i) => !validations[i].valid);
+    const repaired = new Set<number>();
+    if (broken.length) {
+      sendChunk({ stage: 'validating' });
+      const problems = broken
+        .map((i) => {
+          const diagnostics = validations[i].diagnostics.map((d) => `  - line ${d.line}, column ${d.column} (${d.severity}): ${d.message}`);
+          return [`[${i}] ${drafts[i].title}:`, drafts[i].code, 'Problems:', ...diagnostics].join('\n');
+        })
+        .join('\n\n');
+      try {
+        const { output: repair } = await repairPrompt({ ports: describePorts(ports), problems, catalog }, { abortSignal });
+        for (const fix of repair?.fixes ?? []) {
+          if (!broken.includes(fix.index) || !fix.code.trim()) continue;
+          const draft = { ...drafts[fix.index], code: fix.code };
+          const validation = check(draft);
+          if (errorCount(validation) < errorCount(validations[fix.index])) {
+            drafts[fix.index] = draft;
+            validations[fix.index] = validation;
+            repaired.add(fix.index);
+          }
+        }
+      } catch (error) {
+        if (abortSignal.aborted) throw error;
+        console.error('Error repairing expressions:', error);
+      }
+    }
+
+    const expressions: CheckedExpression[] = drafts.map((draft, i) => ({
+      title: draft.title,
+      code: draft.code,
+      outputPort: draft.outputPort || undefined,
+      outputType: draft.outputType ? toValueType(draft.outputType) : undefined,
+      type: validations[i].type,
+      valid: validations[i].valid,
+      diagnostics: validations[i].diagnostics,
+      repaired: repaired.has(i),
+    }));
+
+    const invalid = expressions.filter((expression) => !expression.valid).length;
+    if (invalid) {
+      const note = `\n\n**Note:** ${invalid === 1 ? 'one expression still has' : `${invalid} expressions still have`} errors after validation; they are marked below and need fixing before use.`;
+      sendChunk({ delta: note });
+      answer += note;
+    }
+    return {
+      answer,
+      models: [modelFor('expression')],
+      ports: Object.entries(ports).map(([name, type]) => ({ name, type })),
+      expressions,
+    };
+  }
+);
+
+export async function expressionHelper(input: ExpressionHelperInput): Promise<ExpressionHelperOutput> {
+  return expressionHelperFlow(input);
+}
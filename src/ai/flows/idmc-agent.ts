@@ -0,0 +1,138 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow that answers IDMC questions by planning with tools from the agent
+ * registry (see agent/registry.ts): documentation search, log parsing, expression validation,
+ * spreadsheet profiling and org metadata lookup. The model decides which tools to call and in
+ * what order; the loop is bounded by a step budget (`IDMC_AGENT_MAX_STEPS`, default 6), and every
+ * call is returned as a trace so the user can see how the answer was derived.
+ *
+ * - idmcAgent - A function that handles the agent answering process.
+ * - IDMCAgentInput - The input type for the idmcAgent function.
+ * - IDMCAgentOutput - The return type for the idmcAgent function.
+ * - idmcAgentFlow - The streaming flow, served at /api/flows/idmc-agent.
+ *   Besides answer deltas it emits a `step` chunk after every tool call.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/models';
+import { z } from 'genkit';
+import { ConversationHistorySchema, condenseHistory } from '@/ai/history';
+import { AgentStepSchema, AnswerStreamChunkSchema, streamAnswer } from '@/ai/streaming';
+import { MAX_ATTACHMENTS } from '@/lib/attachments';
+import { agentRun } from '@/ai/agent/runner';
+import type { AgentContext } from '@/ai/agent/registry';
+
+/** Tool calls per request. */
+const MAX_STEPS = Number(process.env.IDMC_AGENT_MAX_STEPS || 6);
+
+const IDMCAgentInputSchema = z.object({
+  question: z.string().describe('The user\'s question or task; may include a pasted log.'),
+  files: z
+    .array(z.object({ name: z.string(), type: z.string(), dataUri: z.string().describe('The file as a data URI.') }))
+    .max(MAX_ATTACHMENTS)
+    .optional()
+    .describe('Attached logs and spreadsheets the tools can read.'),
+  history: ConversationHistorySchema,
+});
+export type IDMCAgentInput = z.infer<typeof IDMCAgentInputSchema>;
+
+const IDMCAgentOutputSchema = z.object({
+  answer: z.string().describe('The answer, for the chat.'),
+  models: z.array(z.string()).describe('The models that wrote the answer.'),
+  trace: z.array(AgentStepSchema).describe('The tool calls made, in order.'),
+  stepLimitReached: z.boolean().describe('True when the model wanted more tool calls than the step budget allowed.'),
+  sources: z.array(z.string()).describe('Documentation URLs the tools returned.'),
+});
+export type IDMCAgentOutput = z.infer<typeof IDMCAgentOutputSchema>;
+
+const agentPrompt = ai.definePrompt({
+  name: 'idmcAgentPrompt',
+  model: modelFor('agent'),
+  input: {
+    schema: z.object({
+      question: z.string(),
+      tools: z.string(),
+      files: z.string().optional(),
+      maxSteps: z.number(),
+      conversation: z.string().optional(),
+    }),
+  },
+  output: { schema: z.object({ answer: z.string() }) },
+  prompt: `You are an Informatica Data Management Cloud (IDMC) expert who works through a question with tools before answering.
+
+Tools available for this request:
+{{{tools}}}
+
+How to work:
+1. Plan: decide what facts the answer depends on and which tools can establish them.
+2. Act: call the tools. Use the results of one call to decide the next. You have at most {{maxSteps}} tool calls, so do not repeat a call with the same input.
+3. Answer: once you have what you need, or a tool says the step limit is reached, write "answer". Base it on what the tools returned and say which tool showed what. If the tools could not establish something, say so instead of guessing.
+
+{{#if files}}
+Attached files: {{files}}
+
+{{/if}}{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}Question: {{{question}}}`,
+});
+
+/** Says why there is no answer, so the chat does not show an empty message. */
+function noAnswerMessage(calls: number, stepLimitReached: boolean): string {
+  return stepLimitReached
+    ? `The agent reached its step limit of ${MAX_STEPS} tool calls (IDMC_AGENT_MAX_STEPS) after ${calls} call(s) and stopped before writing an answer. The steps above show what the tools found; ask a narrower question to continue from there.`
+    : `The model returned no answer after ${calls} tool call(s). The steps above show what the tools found; please try again or rephrase the question.`;
+}
+
+export const idmcAgentFlow = ai.defineFlow(
+  {
+    name: 'idmcAgentFlow',
+    inputSchema: IDMCAgentInputSchema,
+    outputSchema: IDMCAgentOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const context: AgentContext = { question: input.question, files: input.files ?? [], sources: [], signal: abortSignal };
+    const run = agentRun(context, { maxSteps: MAX_STEPS, onStep: (step) => sendChunk({ step }) });
+    let outOfTurns = false;
+    const output = await streamAnswer(
+      agentPrompt.stream(
+        {
+          question: input.question,
+          tools: run.descriptions.join('\n'),
+          files: context.files.map((file) => file.name).join(', ') || undefined,
+          maxSteps: MAX_STEPS,
+          conversation: await condenseHistory(input.history),
+        },
+        // Refused calls past the budget still take a turn; the extra turns let the model answer after them.
+        { abortSignal, tools: run.tools, maxTurns: MAX_STEPS + 2 }
+      ),
+      sendChunk
+    ).catch((error) => {
+      // Genkit gives up when the model keeps calling tools after the extra turns.
+      if (abortSignal.aborted || !/maximum tool call iterations/i.test(String(error))) throw error;
+      outOfTurns = true;
+      return null;
+    });
+
+    const stepLimitReached = run.limitReached() || outOfTurns;
+    let answer = output?.answer ?? '';
+    if (!answer.trim()) {
+      answer = noAnswerMessage(run.trace.length, stepLimitReached);
+      sendChunk({ reset: true });
+      sendChunk({ delta: answer });
+    }
+    return {
+      answer,
+      models: [modelFor('agent')],
+      trace: [...run.trace].sort((a, b) => a.step - b.step),
+      stepLimitReached,
+      sources: context.sources,
+    };
+  }
+);
+
+export async function idmcAgent(input: IDMCAgentInput): Promise<IDMCAgentOutput> {
+  return idmcAgentFlow(input);
+}
@@ -1,14 +1,22 @@
 'use server';
 /**
  * @fileOverview A Genkit flow for answering user questions about Informatica Data Management Cloud (IDMC).
+ * When the IDMC REST API is configured (see idmc-api/config.ts), the model can also read the user's
+ * org, so questions like "which of my taskflows failed last night" get answers from live data.
  *
  * - idmcQuestionAnswering - A function that handles the IDMC question answering process.
  * - IDMCQuestionAnsweringInput - The input type for the idmcQuestionAnswering function.
  * - IDMCQuestionAnsweringOutput - The return type for the idmcQuestionAnswering function.
+ * - idmcQuestionAnsweringFlow - The streaming flow, served at /api/flows/idmc-question-answering.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {modelFor} from '@/ai/models';
+import {ConversationHistorySchema, condenseHistory} from '@/ai/history';
+import {AnswerStreamChunkSchema, requireOutput, streamAnswer} from '@/ai/streaming';
+import {isIdmcApiConfigured} from '@/ai/idmc-api/config';
+import {idmcApiTools} from '@/ai/idmc-api/tools';
 
 const IDMCQuestionAnsweringInputSchema = z.object({
   question: z
@@ -16,6 +24,7 @@ const IDMCQuestionAnsweringInputSchema = z.object({
     .describe(
       'The user\'s question about Informatica Data Management Cloud (IDMC).'
     ),
+  history: ConversationHistorySchema,
 });
 export type IDMCQuestionAnsweringInput = z.infer<
   typeof IDMCQuestionAnsweringInputSchema
@@ -23,6 +32,7 @@ export type IDMCQuestionAnsweringInput = z.infer<
 
 const IDMCQuestionAnsweringOutputSchema = z.object({
   answer: z.string().describe('The AI-generated answer to the IDMC question.'),
+  models: z.array(z.string()).describe('The models that wrote the answer.'),
 });
 export type IDMCQuestionAnsweringOutput = z.infer<
   typeof IDMCQuestionAnsweringOutputSchema
@@ -36,22 +46,40 @@ export async function idmcQuestionAnswering(
 
 const idmcQuestionAnsweringPrompt = ai.definePrompt({
   name: 'idmcQuestionAnsweringPrompt',
-  input: {schema: IDMCQuestionAnsweringInputSchema},
-  output: {schema: IDMCQuestionAnsweringOutputSchema},
+  input: {schema: z.object({question: z.string(), conversation: z.string().optional(), liveOrg: z.boolean()})},
+  output: {schema: z.object({answer: z.string()})},
   prompt: `You are an expert assistant specialized in Informatica Data Management Cloud (IDMC). Your goal is to provide accurate, comprehensive, and relevant answers to user questions about IDMC.
 
-Answer the following question about IDMC:
+{{#if liveOrg}}
+You can read the user's IDMC org with tools: listIdmcObjects for assets, getIdmcActivityLog for completed job runs, getIdmcJobStatus for one job, and listIdmcRuntimeEnvironments for Secure Agents. When the question is about the user's own assets, jobs or agents ("my taskflows", "last night", "is the agent up"), call the tools and answer from what they return: name the tasks, run ids, times and error messages, and never guess at data the tools did not return. Resolve relative times like "last night" against the current time the tools report. If a tool reports an error, say that the org could not be read and why.
+
+{{/if}}{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}Answer the following question about IDMC, taking the conversation so far into account:
 Question: {{{question}}}`,
 });
 
-const idmcQuestionAnsweringFlow = ai.defineFlow(
+export const idmcQuestionAnsweringFlow = ai.defineFlow(
   {
     name: 'idmcQuestionAnsweringFlow',
     inputSchema: IDMCQuestionAnsweringInputSchema,
     outputSchema: IDMCQuestionAnsweringOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
   },
-  async input => {
-    const {output} = await idmcQuestionAnsweringPrompt(input);
-    return output!;
+  async (input, {sendChunk, abortSignal}) => {
+    const output = await streamAnswer(
+      idmcQuestionAnsweringPrompt.stream(
+        {
+          question: input.question,
+          conversation: await condenseHistory(input.history),
+          liveOrg: isIdmcApiConfigured(),
+        },
+        {abortSignal, tools: isIdmcApiConfigured() ? idmcApiTools(abortSignal) : undefined}
+      ),
+      sendChunk
+    );
+    return {answer: requireOutput(output, 'answer').answer, models: [modelFor('default')]};
   }
 );
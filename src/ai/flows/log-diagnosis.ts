@@ -0,0 +1,199 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow that troubleshoots IDMC session logs, Secure Agent logs and error logs.
+ * The logs are parsed into timestamped events, matched against the library of known error
+ * signatures (src/ai/logs/error-signatures.json), and digested for the model, which returns a
+ * structured diagnosis: root cause, evidence lines and remediation steps. Evidence lines are
+ * checked against the actual logs, so the card never shows a line the log does not contain.
+ *
+ * - logDiagnosis - A function that handles the log troubleshooting process.
+ * - LogDiagnosisInput - The input type for the logDiagnosis function.
+ * - LogDiagnosisOutput - The return type for the logDiagnosis function.
+ * - logDiagnosisFlow - The streaming flow, served at /api/flows/log-diagnosis.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/models';
+import { z } from 'genkit';
+import { ConversationHistorySchema, condenseHistory } from '@/ai/history';
+import { AnswerStreamChunkSchema, requireOutput, streamAnswer } from '@/ai/streaming';
+import { MAX_ATTACHMENTS } from '@/lib/attachments';
+import { digestLogs, findEvent, parseLogFile, type ParsedLog } from '@/ai/logs/digest';
+
+const LogFileSchema = z.object({
+  name: z.string().describe('The file name, used to refer to the log in evidence.'),
+  dataUri: z.string().describe('The log file as a data URI.'),
+});
+
+const LogDiagnosisInputSchema = z.object({
+  question: z.string().describe('What the user wants to know about the failure; may be empty.'),
+  log: z.string().optional().describe('Log text pasted into the chat.'),
+  files: z.array(LogFileSchema).max(MAX_ATTACHMENTS).optional().describe('Attached log files.'),
+  history: ConversationHistorySchema,
+});
+export type LogDiagnosisInput = z.infer<typeof LogDiagnosisInputSchema>;
+
+const DiagnosisSchema = z.object({
+  summary: z.string().describe('One sentence on what failed.'),
+  rootCause: z.string().describe('The most likely root cause.'),
+  category: z.string().describe('connection, database, data, resources, runtime, configuration or other.'),
+  confidence: z.enum(['high', 'medium', 'low']),
+  evidence: z
+    .array(
+      z.object({
+        file: z.string(),
+        line: z.number(),
+        timestamp: z.string().optional(),
+        text: z.string(),
+        note: z.string().optional().describe('What this line shows.'),
+      })
+    )
+    .describe('Log lines that support the root cause, as they appear in the log.'),
+  remediation: z.array(z.string()).describe('Ordered steps to fix the problem.'),
+  matchedSignatures: z
+    .array(z.object({ id: z.string(), title: z.string(), category: z.string() }))
+    .describe('Known error signatures found in the logs.'),
+});
+export type LogDiagnosis = z.infer<typeof DiagnosisSchema>;
+
+const LogDiagnosisOutputSchema = z.object({
+  answer: z.string().describe('The explanation of the failure, for the chat.'),
+  models: z.array(z.string()).describe('The models that wrote the answer.'),
+  diagnosis: DiagnosisSchema.optional().describe('The structured diagnosis; absent when no log content was provided.'),
+});
+export type LogDiagnosisOutput = z.infer<typeof LogDiagnosisOutputSchema>;
+
+const diagnosisPrompt = ai.definePrompt({
+  name: 'idmcLogDiagnosisPrompt',
+  model: modelFor('troubleshooting'),
+  input: {
+    schema: z.object({
+      question: z.string(),
+      digest: z.string(),
+      signatures: z.string(),
+      conversation: z.string().optional(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      answer: z.string(),
+      summary: z.string(),
+      rootCause: z.string(),
+      category: z.string(),
+      confidence: z.enum(['high', 'medium', 'low']),
+      evidence: z.array(z.object({ file: z.string(), line: z.number(), note: z.string().optional() })),
+      remediation: z.array(z.string()),
+    }),
+  },
+  prompt: `You are an Informatica Data Management Cloud (IDMC) support engineer troubleshooting a failed job.
+Below is a digest of the user's logs. Every log line is prefixed with [file:line].
+
+Your task is to:
+1. Find the root cause. The first error is usually the cause and later errors its consequences; say so when that is the case.
+2. Prefer the known error signatures below when they fit the evidence, but do not force a match.
+3. Write "answer": a short explanation for the user of what failed, why, and how to fix it.
+4. Fill in "summary" (one sentence), "rootCause", "category" (connection, database, data, resources, runtime, configuration or other) and "confidence" (high only when the log states the cause directly).
+5. List in "evidence" the 1 to 5 log lines that best support the root cause, by the file and line number shown in their [file:line] prefix. Never invent line numbers.
+6. List concrete "remediation" steps in order, specific to the objects, connections and values named in the log.
+
+KNOWN ERROR SIGNATURES MATCHED IN THE LOGS:
+{{{signatures}}}
+
+LOG DIGEST:
+{{{digest}}}
+
+{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+
+{{/if}}Question: {{{question}}}`,
+});
+
+function decodeLog(dataUri: string): string {
+  return Buffer.from(dataUri.split(',')[1] ?? '', 'base64').toString('utf-8');
+}
+
+function describeSignatures(logs: ParsedLog[]): string {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const { signature } of logs.flatMap((log) => log.matches)) {
+    if (seen.has(signature.id)) continue;
+    seen.add(signature.id);
+    lines.push(
+      `- ${signature.id}: ${signature.title} [${signature.category}]`,
+      `  Usual cause: ${signature.rootCause}`,
+      ...signature.remediation.map((step, i) => `  Fix ${i + 1}: ${step}`)
+    );
+  }
+  return lines.join('\n') || 'None.';
+}
+
+export const logDiagnosisFlow = ai.defineFlow(
+  {
+    name: 'logDiagnosisFlow',
+    inputSchema: LogDiagnosisInputSchema,
+    outputSchema: LogDiagnosisOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    // Step 1: Parse every log and match it against the known signatures.
+    const logs: ParsedLog[] = [];
+    if (input.log?.trim()) logs.push(parseLogFile('pasted log', input.log));
+    for (const file of input.files ?? []) logs.push(parseLogFile(file.name, decodeLog(file.dataUri)));
+    const hasEvents = logs.some((log) => log.events.length > 0);
+
+    // Step 2: Diagnose from the digest.
+    const output = await streamAnswer(
+      diagnosisPrompt.stream(
+        {
+          question: input.question || 'Why did this job fail, and how do I fix it?',
+          digest: hasEvents ? digestLogs(logs) : 'No log content was provided.',
+          signatures: describeSignatures(logs),
+          conversation: await condenseHistory(input.history),
+        },
+        { abortSignal }
+      ),
+      sendChunk
+    );
+    const result = requireOutput(output, 'diagnosis');
+    const models = [modelFor('troubleshooting')];
+    if (!hasEvents) return { answer: result.answer, models };
+
+    // Step 3: Keep only evidence that exists, quoted from the log rather than from the model.
+    const evidence: z.infer<typeof DiagnosisSchema>['evidence'] = result.evidence.flatMap(({ file, line, note }) => {
+      const log = logs.find((l) => l.name === file) ?? (logs.length === 1 ? logs[0] : undefined);
+      const event = log && findEvent(log, line);
+      return event ? [{ file: log.name, line: event.line, timestamp: event.timestamp, text: event.text, note }] : [];
+    });
+    // Fall back to the lines the signatures matched when the model's references did not resolve.
+    if (!evidence.length) {
+      for (const log of logs) {
+        for (const event of log.matches[0]?.events.slice(0, 3) ?? []) {
+          evidence.push({ file: log.name, line: event.line, timestamp: event.timestamp, text: event.text });
+        }
+      }
+    }
+
+    const matchedSignatures = [
+      ...new Map(logs.flatMap((log) => log.matches).map(({ signature }) => [signature.id, signature])).values(),
+    ].map(({ id, title, category }) => ({ id, title, category }));
+
+    return {
+      answer: result.answer,
+      models,
+      diagnosis: {
+        summary: result.summary,
+        rootCause: result.rootCause,
+        category: result.category,
+        confidence: result.confidence,
+        evidence,
+        remediation: result.remediation,
+        matchedSignatures,
+      },
+    };
+  }
+);
+
+export async function logDiagnosis(input: LogDiagnosisInput): Promise<LogDiagnosisOutput> {
+  return logDiagnosisFlow(input);
+}
@@ -0,0 +1,135 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow that turns a source-to-target mapping specification into a proposed
+ * IDMC mapping design. The spec spreadsheet is read row by row (see mapping-spec/spec.ts); the
+ * model proposes the ordered transformations and an expression for every target column; and the
+ * design is then checked against the spec, so columns that are unmapped, ambiguous or mapped
+ * twice are reported whether or not the model noticed them.
+ *
+ * - mappingDesign - A function that handles the mapping design process.
+ * - MappingDesignInput - The input type for the mappingDesign function.
+ * - MappingDesignOutput - The return type for the mappingDesign function.
+ * - mappingDesignFlow - The streaming flow, served at /api/flows/mapping-design.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/models';
+import { z } from 'genkit';
+import { ConversationHistorySchema, condenseHistory } from '@/ai/history';
+import { AnswerStreamChunkSchema, requireOutput, streamAnswer } from '@/ai/streaming';
+import { describeMappingSpec, findSpecIssues, parseMappingSpec, type MappingSpec } from '@/ai/mapping-spec/spec';
+import { MappingDesignDraftSchema, MappingDesignSchema, TRANSFORMATION_TYPES, buildMappingDesign } from '@/ai/mapping-spec/design';
+
+const MappingDesignInputSchema = z.object({
+  question: z.string().describe('Extra instructions for the design, e.g. naming standards; may be empty.'),
+  spec: z.object({
+    name: z.string().describe('The spec file name.'),
+    dataUri: z.string().describe('The spec spreadsheet (.xlsx, .xls or .csv) as a data URI.'),
+  }),
+  history: ConversationHistorySchema,
+});
+export type MappingDesignInput = z.infer<typeof MappingDesignInputSchema>;
+
+const MappingDesignOutputSchema = z.object({
+  answer: z.string().describe('The design walkthrough, for the chat.'),
+  models: z.array(z.string()).describe('The models that wrote the answer.'),
+  design: MappingDesignSchema.optional().describe('The structured design; absent when no mapping rows were found.'),
+});
+export type MappingDesignOutput = z.infer<typeof MappingDesignOutputSchema>;
+
+/** Spec rows included in the prompt; longer specs are designed from their first rows. */
+const MAX_SPEC_ROWS = Number(process.env.IDMC_MAPPING_SPEC_ROWS || 400);
+
+const designPrompt = ai.definePrompt({
+  name: 'idmcMappingDesignPrompt',
+  model: modelFor('design'),
+  input: {
+    schema: z.object({
+      question: z.string().optional(),
+      fileName: z.string(),
+      spec: z.string(),
+      issues: z.string(),
+      transformationTypes: z.string(),
+      conversation: z.string().optional(),
+    }),
+  },
+  output: { schema: MappingDesignDraftSchema.extend({ answer: z.string() }) },
+  prompt: `You are an Informatica Data Management Cloud (IDMC) Cloud Data Integration developer.
+The user has a source-to-target mapping specification ("{{fileName}}") and wants a proposed mapping design.
+Each spec row below is prefixed with its [Sheet!row].
+
+Your task is to:
+1. Design one mapping (or say in "answer" why it needs several) with transformations of these types: {{transformationTypes}}. List them in data flow order in "transformations", starting with Source and ending with Target, with each one's "inputs" naming the transformations that feed it. Use Filter for row selection, Lookup for code and key lookups, Joiner for joining sources, Aggregator for grouping, and Expression for derived fields. Put conditions, lookup and join conditions, group-by ports and target operations in "properties".
+2. For every target column in the spec, add an entry to "fields" with the transformation that derives it and its value in the IDMC expression language (e.g. IIF, DECODE, LTRIM/RTRIM, TO_DATE, TO_CHAR, SUBSTR, ISNULL, :LKP). Straight moves are just the port name.
+3. Do not guess the intent of rows that are unclear, contradictory or marked TBD: design what you can and add a question for the spec author to "openQuestions".
+4. Write "answer": a short walkthrough of the design for the user: the data flow, the notable derivations, and the open questions.
+
+{{#if question}}
+The user also asked: {{{question}}}
+
+{{/if}}
+SPECIFICATION ROWS:
+{{{spec}}}
+
+ISSUES ALREADY FOUND IN THE SPEC:
+{{{issues}}}
+
+{{#if conversation}}
+Conversation so far:
+{{{conversation}}}
+{{/if}}`,
+});
+
+export const mappingDesignFlow = ai.defineFlow(
+  {
+    name: 'mappingDesignFlow',
+    inputSchema: MappingDesignInputSchema,
+    outputSchema: MappingDesignOutputSchema,
+    streamSchema: AnswerStreamChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    // Step 1: Read the spec's mapping rows.
+    const buffer = Buffer.from(input.spec.dataUri.split(',')[1] ?? '', 'base64');
+    let spec: MappingSpec;
+    try {
+      spec = parseMappingSpec(input.spec.name, buffer);
+    } catch (error) {
+      console.error('Error reading mapping specification:', error);
+      return {
+        answer: `I could not read ${input.spec.name} as a spreadsheet. Please attach the spec as .xlsx, .xls or .csv.`,
+        models: [],
+      };
+    }
+    if (!spec.rows.length) {
+      return {
+        answer: `I could not find source-to-target rows in ${input.spec.name}. The spec needs a header row with a target column (e.g. "Target Column") and a source column or rule (e.g. "Source Column", "Transformation Rule") near the top of a sheet.`,
+        models: [],
+      };
+    }
+
+    // Step 2: Propose the design.
+    const issues = findSpecIssues(spec);
+    const output = await streamAnswer(
+      designPrompt.stream(
+        {
+          question: input.question || undefined,
+          fileName: spec.file,
+          spec: describeMappingSpec(spec, MAX_SPEC_ROWS),
+          issues: issues.map((issue) => `- [${issue.location ?? 'spec'}] ${issue.message}`).join('\n') || 'None.',
+          transformationTypes: TRANSFORMATION_TYPES.join(', '),
+          conversation: await condenseHistory(input.history),
+        },
+        { abortSignal }
+      ),
+      sendChunk
+    );
+
+    // Step 3: Check the design against the spec.
+    const { answer, ...draft } = requireOutput(output, 'mapping design');
+    return { answer, models: [modelFor('design')], design: buildMappingDesign(spec, draft) };
+  }
+);
+
+export async function mappingDesign(input: MappingDesignInput): Promise<MappingDesignOutput> {
+  return mappingDesignFlow(input);
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileOverview Conversation-history support shared by every IDMC flow.
+ *
+ * - ConversationHistorySchema - Schema for the prior turns a flow input may carry.
+ * - condenseHistory - Fits prior turns into a token budget, summarizing the oldest ones.
+ * - rewriteStandaloneQuestion - Turns a follow-up into a self-contained search query.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+
+export const ConversationTurnSchema = z.object({
+  role: z.enum(['user', 'ai']).describe('Who produced this turn.'),
+  content: z.string().describe('The text of the turn.'),
+});
+export type ConversationTurn = z.infer<typeof ConversationTurnSchema>;
+
+export const ConversationHistorySchema = z
+  .array(ConversationTurnSchema)
+  .optional()
+  .describe('Earlier turns of the conversation, oldest first, excluding the current question.');
+
+/** Default budget for the history block of a prompt, in (estimated) tokens. */
+const DEFAULT_HISTORY_TOKEN_BUDGET = Number(process.env.IDMC_HISTORY_TOKEN_BUDGET || 2000);
+
+/** Share of the budget reserved for recent turns kept verbatim; the rest holds the summary. */
+const VERBATIM_SHARE = 0.75;
+
+/** Rough token estimate (~4 characters per token for English text). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatTurns(turns: ConversationTurn[]): string {
+  return turns.map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n\n');
+}
+
+const historySummaryPrompt = ai.definePrompt({
+  name: 'idmcHistorySummaryPrompt',
+  input: { schema: z.object({ transcript: z.string(), maxWords: z.number() }) },
+  output: { schema: z.object({ summary: z.string() }) },
+  prompt: `Summarize the following conversation between a user and an Informatica Data Management Cloud (IDMC) assistant.
+Keep every detail a follow-up question might depend on: product and service names (CDI, CDQ, CDGC, MDM, ...), connectors, object names, error codes, versions, decisions and open questions.
+Use at most {{maxWords}} words.
+
+CONVERSATION:
+{{{transcript}}}`,
+});
+
+/**
+ * Renders prior turns as a transcript that fits `tokenBudget`. The most recent turns are
+ * kept verbatim; anything older is condensed into a model-written summary.
+ * Returns undefined when there is no history so prompts can skip the section entirely.
+ */
+export async function condenseHistory(
+  history: ConversationTurn[] | undefined,
+  tokenBudget = DEFAULT_HISTORY_TOKEN_BUDGET
+): Promise<string | undefined> {
+  const turns = (history ?? []).filter((turn) => turn.content.trim());
+  if (turns.length === 0) return undefined;
+
+  const full = formatTurns(turns);
+  if (estimateTokens(full) <= tokenBudget) return full;
+
+  const verbatimBudget = Math.floor(tokenBudget * VERBATIM_SHARE);
+  const recent: ConversationTurn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(formatTurns([turns[i]]));
+    if (used + cost > verbatimBudget) break;
+    recent.unshift(turns[i]);
+    used += cost;
+  }
+
+  // A single huge turn can exceed the verbatim budget on its own; keep its tail.
+  if (recent.length === 0) {
+    const last = turns[turns.length - 1];
+    recent.push({ ...last, content: `…${last.content.slice(-verbatimBudget * 4)}` });
+  }
+
+  const older = turns.slice(0, turns.length - recent.length);
+  if (older.length === 0) return formatTurns(recent);
+
+  const summaryTokens = tokenBudget - used;
+  try {
+    const { output } = await historySummaryPrompt({
+      transcript: formatTurns(older),
+      maxWords: Math.max(50, Math.floor(summaryTokens * 0.75)),
+    });
+    if (output?.summary) {
+      return `Summary of earlier conversation: ${output.summary}\n\n${formatTurns(recent)}`;
+    }
+  } catch (error) {
+    console.error('Could not summarize conversation history, dropping older turns:', error);
+  }
+  return `(${older.length} earlier turns omitted)\n\n${formatTurns(recent)}`;
+}
+
+const standaloneQuestionPrompt = ai.definePrompt({
+  name: 'idmcStandaloneQuestionPrompt',
+  // Named `conversation` because `history` is a reserved dotprompt helper.
+  input: { schema: z.object({ question: z.string(), conversation: z.string() }) },
+  output: { schema: z.object({ standaloneQuestion: z.string() }) },
+  prompt: `Given the conversation below and a follow-up question, rewrite the follow-up as a standalone question about Informatica Data Management Cloud (IDMC) that can be understood and searched for without the conversation.
+Resolve pronouns and references like "that", "it" or "the same thing" using the conversation. If the question is already standalone, return it unchanged.
+
+CONVERSATION:
+{{{conversation}}}
+
+Follow-up question: {{{question}}}`,
+});
+
+/**
+ * Rewrites a follow-up question into a self-contained query for retrieval. Falls back to
+ * the original question when there is no history or the rewrite fails.
+ */
+export async function rewriteStandaloneQuestion(question: string, history: string | undefined): Promise<string> {
+  if (!history) return question;
+  try {
+    const { output } = await standaloneQuestionPrompt({ question, conversation: history });
+    return output?.standaloneQuestion?.trim() || question;
+  } catch (error) {
+    console.error('Could not rewrite follow-up question, searching with the original:', error);
+    return question;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * @fileOverview A small client for the IDMC REST API calls the assistant's tools need.
+ *
+ * Logs in with the v3 login resource and reuses the session for both v3 resources (header
+ * INFA-SESSION-ID) and v2 resources (header icSessionId) under the returned base API URL. An
+ * expired session (401) triggers one fresh login and a retry. Concurrent calls share one login,
+ * which only its timeout can cancel; each caller's abort signal applies to its own wait and request.
+ *
+ * - IdmcApiError - A failed call, with the HTTP status and IDMC error code when known.
+ * - listObjects - Assets in the org (v3 objects), filtered by type and location.
+ * - getActivityLog - Completed job runs, newest first, paged back to a start time (v2 activity log).
+ * - getActivityMonitor - Jobs running now (v2 activity monitor).
+ * - listRuntimeEnvironments - Runtime environments with their Secure Agents.
+ */
+
+import { idmcApiConfig } from './config';
+
+export class IdmcApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = 'IdmcApiError';
+  }
+}
+
+export interface IdmcObject {
+  id: string;
+  path: string;
+  type: string;
+  description?: string;
+  updatedBy?: string;
+  updateTime?: string;
+}
+
+export interface ActivityLogEntry {
+  id: string;
+  runId: number;
+  taskId: string;
+  taskName: string;
+  /** MTT (mapping task), DSS (synchronization task), WORKFLOW (linear taskflow), TASKFLOW... */
+  taskType: string;
+  startTime: string;
+  endTime?: string;
+  /** 1 success, 2 warning, 3 failed. */
+  state: number;
+  successSourceRows?: number;
+  failedSourceRows?: number;
+  successTargetRows?: number;
+  failedTargetRows?: number;
+  errorMsg?: string;
+  runtimeEnvironmentId?: string;
+  /** Subtasks of taskflows and linear taskflows. */
+  entries?: ActivityLogEntry[];
+}
+
+export interface ActivityMonitorEntry {
+  id: string;
+  runId: number;
+  taskId: string;
+  taskName: string;
+  taskType: string;
+  startTime: string;
+  executionState: string;
+  agentName?: string;
+  runtimeEnvironmentName?: string;
+  rowsProcessed?: number;
+}
+
+export interface RuntimeEnvironment {
+  id: string;
+  name: string;
+  isShared?: boolean;
+  agents: { id: string; name: string; active: boolean; readyToRun?: boolean; platform?: string; agentHost?: string }[];
+}
+
+interface Session {
+  id: string;
+  baseApiUrl: string;
+}
+
+let session: Promise<Session> | undefined;
+
+function withTimeout(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(idmcApiConfig.timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/** IDMC reports errors as {error: {code, message}} (v3) or {code, description} (v2). */
+async function toError(response: Response, what: string): Promise<IdmcApiError> {
+  const body = await response.json().catch(() => undefined);
+  const error = body?.error ?? body;
+  const detail = error?.message ?? error?.description;
+  return new IdmcApiError(`${what} failed with HTTP ${response.status}${detail ? `: ${detail}` : ''}`, response.status, error?.code);
+}
+
+async function login(): Promise<Session> {
+  const response = await fetch(`${idmcApiConfig.baseUrl}/saas/public/core/v3/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({ username: idmcApiConfig.username, password: idmcApiConfig.password }),
+    signal: withTimeout(),
+  });
+  if (!response.ok) throw await toError(response, 'IDMC login');
+  const body = await response.json();
+  const product = body.products?.find((p: { name: string }) => /integration cloud/i.test(p.name)) ?? body.products?.[0];
+  if (!body.userInfo?.sessionId || !product?.baseApiUrl) throw new IdmcApiError('IDMC login returned no session.');
+  return { id: body.userInfo.sessionId, baseApiUrl: product.baseApiUrl.replace(/\/+$/, '') };
+}
+
+function sharedSession(): Promise<Session> {
+  if (!session) {
+    const pending = login();
+    session = pending;
+    // A failed login is not cached; the next call tries again.
+    pending.catch(() => {
+      if (session === pending) session = undefined;
+    });
+  }
+  return session;
+}
+
+/** Waits for `promise` until `signal` aborts, without cancelling the work other callers wait on. */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function request<T>(
+  api: 'v2' | 'v3',
+  resource: string,
+  query: Record<string, string | number | undefined>,
+  signal?: AbortSignal,
+  retried = false
+): Promise<T> {
+  const pending = sharedSession();
+  const current = await untilAborted(pending, signal);
+
+  const path = api === 'v3' ? `/public/core/v3/${resource}` : `/api/v2/${resource}`;
+  const url = new URL(`${current.baseApiUrl}${path}`);
+  for (const [key, value] of Object.entries(query)) if (value !== undefined) url.searchParams.set(key, String(value));
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', [api === 'v3' ? 'INFA-SESSION-ID' : 'icSessionId']: current.id },
+    signal: withTimeout(signal),
+  });
+  if (response.status === 401 && !retried) {
+    if (session === pending) session = undefined;
+    return request(api, resource, query, signal, true);
+  }
+  if (!response.ok) throw await toError(response, `GET ${path}`);
+  return response.json();
+}
+
+export async function listObjects(
+  { type, location, limit = 100 }: { type?: string; location?: string; limit?: number },
+  signal?: AbortSignal
+): Promise<IdmcObject[]> {
+  const q = [type && `type=='${type.toUpperCase()}'`, location && `location=='${location}'`].filter(Boolean).join(' and ');
+  const body = await request<{ objects?: IdmcObject[] }>('v3', 'objects', { q: q || undefined, limit }, signal);
+  return body.objects ?? [];
+}
+
+/**
+ * Reads one page of `IDMC_API_MAX_ROWS` runs, or with `since` (epoch ms) as many pages as it takes
+ * to reach a run that started before it. `truncated` means the page limit was hit first, so runs
+ * in the window may be missing.
+ */
+export async function getActivityLog(
+  { since, runId, taskId }: { since?: number; runId?: number; taskId?: string },
+  signal?: AbortSignal
+): Promise<{ entries: ActivityLogEntry[]; truncated: boolean }> {
+  const rowLimit = idmcApiConfig.maxRows;
+  const entries: ActivityLogEntry[] = [];
+  for (let page = 0; page < idmcApiConfig.maxPages; page++) {
+    const rows = await request<ActivityLogEntry[]>('v2', 'activity/activityLog', { offset: page * rowLimit, rowLimit, runId, taskId }, signal);
+    entries.push(...rows);
+    const oldest = rows[rows.length - 1];
+    if (rows.length < rowLimit || since === undefined || Date.parse(oldest.startTime) < since) {
+      return { entries, truncated: false };
+    }
+  }
+  return { entries, truncated: true };
+}
+
+export async function getActivityMonitor(signal?: AbortSignal): Promise<ActivityMonitorEntry[]> {
+  return request<ActivityMonitorEntry[]>('v2', 'activity/activityMonitor', { details: 'true' }, signal);
+}
+
+export async function listRuntimeEnvironments(signal?: AbortSignal): Promise<RuntimeEnvironment[]> {
+  return request<RuntimeEnvironment[]>('v2', 'runtimeEnvironment', {}, signal);
+}
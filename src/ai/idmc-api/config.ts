@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Connection settings for the IDMC REST API tools, all from the environment.
+ * The tools are only offered to the model when a base URL and credentials are set; point the
+ * base URL at `npm run idmc:mock` to try them offline.
+ */
+
+export const idmcApiConfig = {
+  /** The login host of the org's POD, e.g. https://dm-us.informaticacloud.com, or the mock server. */
+  baseUrl: (process.env.IDMC_API_BASE_URL || '').replace(/\/+$/, ''),
+  username: process.env.IDMC_API_USERNAME || '',
+  password: process.env.IDMC_API_PASSWORD || '',
+  /** Per-request timeout. */
+  timeoutMs: Number(process.env.IDMC_API_TIMEOUT_MS || 15000),
+  /** Activity log rows read per API call. */
+  maxRows: Number(process.env.IDMC_API_MAX_ROWS || 200),
+  /** Most activity log pages a tool reads to cover the time window it was asked about. */
+  maxPages: Number(process.env.IDMC_API_MAX_PAGES || 10),
+};
+
+export function isIdmcApiConfigured(): boolean {
+  return Boolean(idmcApiConfig.baseUrl && idmcApiConfig.username && idmcApiConfig.password);
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Command-line entry point for the mock IDMC REST API.
+ *
+ * Usage: npm run idmc:mock -- [--port <port>]
+ *
+ * Then set IDMC_API_BASE_URL=http://127.0.0.1:<port>, IDMC_API_USERNAME=demo@example.com and
+ * IDMC_API_PASSWORD=demo so the assistant's IDMC API tools read the fixture org.
+ */
+
+import { createMockIdmcServer } from './mock';
+
+function parseArgs(argv: string[]) {
+  const args = { port: Number(process.env.IDMC_MOCK_PORT || 9077) };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') args.port = Number(argv[++i]);
+  }
+  return args;
+}
+
+const { port } = parseArgs(process.argv.slice(2));
+createMockIdmcServer().listen(port, '127.0.0.1', () => {
+  console.log(`Mock IDMC API listening on http://127.0.0.1:${port} (user demo@example.com, password demo)`);
+});
@@ -0,0 +1,113 @@
+/**
+ * @fileOverview A local stand-in for the IDMC REST API, serving the resources the tools call
+ * from fixture data (fixtures.json) so the tools can be exercised without an org.
+ *
+ * Fixture times are given as minutes before "now" and resolved on every request, so a fixture
+ * run from "last night" stays last night. Sessions are checked like the real API: calls without
+ * a session from the login resource get a 401.
+ *
+ * - createMockIdmcServer - An HTTP server for the mock API; listen on any port.
+ */
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import defaultFixtures from './fixtures.json';
+
+export type MockFixtures = typeof defaultFixtures;
+
+type Timed = { minutesAgo: number; durationMinutes?: number; entries?: Timed[] } & Record<string, unknown>;
+
+function isoMinutesAgo(minutes: number): string {
+  return new Date(Date.now() - minutes * 60_000).toISOString();
+}
+
+/** Replaces minutesAgo/durationMinutes with the startTime/endTime the API returns. */
+function resolveTimes(entry: Timed): Record<string, unknown> {
+  const { minutesAgo, durationMinutes, entries, ...rest } = entry;
+  return {
+    ...rest,
+    startTime: isoMinutesAgo(minutesAgo),
+    ...(durationMinutes !== undefined && { endTime: isoMinutesAgo(minutesAgo - durationMinutes) }),
+    ...(entries && { entries: entries.map(resolveTimes) }),
+  };
+}
+
+/** Reads the v3 query syntax the tools use: field=='value' clauses joined by "and". */
+function parseQuery(q: string | null): Record<string, string> {
+  const filters: Record<string, string> = {};
+  for (const [, field, value] of (q ?? '').matchAll(/(\w+)\s*==\s*'([^']*)'/g)) filters[field] = value;
+  return filters;
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of request) body += chunk;
+  return body;
+}
+
+export function createMockIdmcServer(fixtures: MockFixtures = defaultFixtures): http.Server {
+  const sessions = new Set<string>();
+
+  return http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+    try {
+      if (request.method === 'POST' && url.pathname === '/saas/public/core/v3/login') {
+        const { username, password } = JSON.parse((await readBody(request)) || '{}');
+        if (username !== fixtures.user.username || password !== fixtures.user.password) {
+          return send(response, 401, { error: { code: 'AUTH_01', message: 'Invalid username or password.' } });
+        }
+        const sessionId = randomUUID().replace(/-/g, '');
+        sessions.add(sessionId);
+        return send(response, 200, {
+          products: [{ name: 'Integration Cloud', baseApiUrl: `${url.origin}/saas` }],
+          userInfo: { sessionId, id: 'mock-user', name: fixtures.user.name, orgId: fixtures.org.id, orgName: fixtures.org.name, status: 'Active' },
+        });
+      }
+
+      const v3 = url.pathname.startsWith('/saas/public/core/v3/');
+      const sessionId = request.headers[v3 ? 'infa-session-id' : 'icsessionid'];
+      if (typeof sessionId !== 'string' || !sessions.has(sessionId)) {
+        return v3
+          ? send(response, 401, { error: { code: 'AUTH_01', message: 'Missing or invalid INFA-SESSION-ID.' } })
+          : send(response, 401, { '@type': 'error', code: 'UI_10000', description: 'Invalid or expired session.', statusCode: 401 });
+      }
+
+      switch (`${request.method} ${url.pathname}`) {
+        case 'GET /saas/public/core/v3/objects': {
+          const { type, location } = parseQuery(url.searchParams.get('q'));
+          const limit = Number(url.searchParams.get('limit') ?? 200);
+          const objects = fixtures.objects
+            .filter((o) => (!type || o.type.toUpperCase() === type.toUpperCase()) && (!location || o.path.startsWith(`${location}/`)))
+            .slice(0, limit)
+            .map(({ updateMinutesAgo, ...o }) => ({ ...o, updateTime: isoMinutesAgo(updateMinutesAgo) }));
+          return send(response, 200, { count: objects.length, objects });
+        }
+        case 'GET /saas/api/v2/activity/activityLog': {
+          const runId = url.searchParams.get('runId');
+          const taskId = url.searchParams.get('taskId');
+          const offset = Number(url.searchParams.get('offset') ?? 0);
+          const rowLimit = Number(url.searchParams.get('rowLimit') ?? 200);
+          const entries = [...(fixtures.activityLog as Timed[])]
+            .filter((e) => (!runId || String(e.runId) === runId) && (!taskId || e.taskId === taskId))
+            .sort((a, b) => a.minutesAgo - b.minutesAgo)
+            .slice(offset, offset + rowLimit)
+            .map(resolveTimes);
+          return send(response, 200, entries);
+        }
+        case 'GET /saas/api/v2/activity/activityMonitor':
+          return send(response, 200, (fixtures.activityMonitor as Timed[]).map(resolveTimes));
+        case 'GET /saas/api/v2/runtimeEnvironment':
+          return send(response, 200, fixtures.runtimeEnvironments);
+        default:
+          return send(response, 404, { error: { code: 'APP_404', message: `No mock for ${request.method} ${url.pathname}.` } });
+      }
+    } catch (error) {
+      send(response, 500, { error: { code: 'APP_500', message: (error as Error).message } });
+    }
+  });
+}
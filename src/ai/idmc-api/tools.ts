@@ -0,0 +1,174 @@
+/**
+ * @fileOverview Genkit tools that read live metadata from the user's IDMC org through the REST
+ * API: assets, job runs, running jobs and runtime environments. Each tool returns plain text for
+ * the model; API failures are returned as text too, so the model can say what went wrong.
+ * The tools are created per request so the request's abort signal cancels their API calls.
+ *
+ * - IdmcApiTool - One org tool: name, description, input schema and a body that takes an abort signal.
+ * - IDMC_API_TOOLS - The org tools, for the agent registry.
+ * - idmcApiTools - The org tools as Genkit tools for one request.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z, type ToolAction } from 'genkit';
+import { getActivityLog, getActivityMonitor, listObjects, listRuntimeEnvironments, type ActivityLogEntry } from './client';
+
+const STATES: Record<number, 'success' | 'warning' | 'failed'> = { 1: 'success', 2: 'warning', 3: 'failed' };
+
+/** Lines a tool returns before summarizing the rest as a count. */
+const MAX_LINES = 50;
+
+function now(): string {
+  return `Now: ${new Date().toISOString()} (all times UTC).`;
+}
+
+function limitLines(lines: string[]): string[] {
+  return lines.length > MAX_LINES ? [...lines.slice(0, MAX_LINES), `(${lines.length - MAX_LINES} more not shown; narrow the filters.)`] : lines;
+}
+
+function describeRun(entry: ActivityLogEntry, indent = ''): string[] {
+  const rows =
+    entry.successTargetRows !== undefined || entry.failedTargetRows !== undefined
+      ? `, target rows ${entry.successTargetRows ?? 0} ok / ${entry.failedTargetRows ?? 0} failed`
+      : '';
+  const error = entry.errorMsg ? `; error: ${entry.errorMsg}` : '';
+  return [
+    `${indent}- ${entry.taskName} (${entry.taskType}, run ${entry.runId}): ${STATES[entry.state] ?? `state ${entry.state}`}, started ${entry.startTime}${entry.endTime ? `, ended ${entry.endTime}` : ''}${rows}${error}`,
+    ...(entry.entries ?? []).flatMap((child) => describeRun(child, `${indent}  `)),
+  ];
+}
+
+/** Runs a tool body, turning API errors into a message the model can relay. */
+async function guarded(what: string, body: () => Promise<string>): Promise<string> {
+  try {
+    return await body();
+  } catch (error) {
+    console.error(`IDMC API call for ${what} failed:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    return `Could not read ${what} from IDMC: ${reason}`;
+  }
+}
+
+export interface IdmcApiTool {
+  name: string;
+  description: string;
+  inputSchema: z.ZodTypeAny;
+  /** Takes the input as the model sent it and checks it against `inputSchema`. */
+  run: (input: unknown, signal?: AbortSignal) => Promise<string>;
+}
+
+function defineIdmcApiTool<I extends z.ZodTypeAny>(
+  tool: Omit<IdmcApiTool, 'inputSchema' | 'run'> & { inputSchema: I; run: (input: z.infer<I>, signal?: AbortSignal) => Promise<string> }
+): IdmcApiTool {
+  return { ...tool, run: (input, signal) => tool.run(tool.inputSchema.parse(input), signal) };
+}
+
+const listIdmcObjects = defineIdmcApiTool({
+  name: 'listIdmcObjects',
+  description:
+    'Lists assets in the user\'s IDMC org: mappings (DTEMPLATE), mapping tasks (MTT), synchronization tasks (DSS), taskflows (TASKFLOW), linear taskflows (WORKFLOW), connections (Connection), projects and folders.',
+  inputSchema: z.object({
+    type: z.string().optional().describe('Asset type, e.g. TASKFLOW, MTT, DTEMPLATE, DSS, WORKFLOW, Connection, Project, Folder.'),
+    location: z.string().optional().describe('Project or folder path, e.g. "Default" or "Sales/Daily".'),
+    nameContains: z.string().optional(),
+  }),
+  run: ({ type, location, nameContains }, signal) =>
+    guarded('the asset list', async () => {
+      const wanted = nameContains?.toLowerCase();
+      const objects = (await listObjects({ type, location }, signal)).filter((o) => !wanted || o.path.toLowerCase().includes(wanted));
+      if (!objects.length) return 'No matching assets.';
+      return limitLines(
+        objects.map((o) => `- ${o.path} (${o.type}, id ${o.id})${o.updateTime ? `, updated ${o.updateTime}${o.updatedBy ? ` by ${o.updatedBy}` : ''}` : ''}${o.description ? `: ${o.description}` : ''}`)
+      ).join('\n');
+    }),
+});
+
+const getIdmcActivityLog = defineIdmcApiTool({
+  name: 'getIdmcActivityLog',
+  description:
+    'Reads completed job runs from the IDMC activity log, newest first, with their status, row counts and error messages. Use it for questions like "which taskflows failed last night".',
+  inputSchema: z.object({
+    sinceHours: z.number().optional().describe('Only runs that started in the last N hours. Default 24.'),
+    status: z.enum(['failed', 'warning', 'success', 'all']).optional().describe('Default all.'),
+    taskType: z.string().optional().describe('MTT, DSS, TASKFLOW, WORKFLOW...'),
+    nameContains: z.string().optional(),
+  }),
+  run: ({ sinceHours = 24, status = 'all', taskType, nameContains }, signal) =>
+    guarded('the activity log', async () => {
+      const since = Date.now() - sinceHours * 3600_000;
+      const wanted = nameContains?.toLowerCase();
+      const { entries, truncated } = await getActivityLog({ since }, signal);
+      const runs = entries.filter(
+        (entry) =>
+          Date.parse(entry.startTime) >= since &&
+          (status === 'all' || STATES[entry.state] === status) &&
+          (!taskType || entry.taskType.toLowerCase() === taskType.toLowerCase()) &&
+          (!wanted || entry.taskName.toLowerCase().includes(wanted))
+      );
+      const partial = truncated
+        ? `Only the newest ${entries.length} runs were read; runs before ${entries[entries.length - 1].startTime} are missing.`
+        : undefined;
+      if (!runs.length) return [now(), partial, `No matching runs in the last ${sinceHours} hours.`].filter(Boolean).join('\n');
+      return [now(), partial, `${runs.length} run(s):`, ...limitLines(runs.flatMap((run) => describeRun(run)))].filter(Boolean).join('\n');
+    }),
+});
+
+const getIdmcJobStatus = defineIdmcApiTool({
+  name: 'getIdmcJobStatus',
+  description:
+    'Gets the status of one job: by run id, or the latest run of a task or taskflow by name. Checks running jobs first, then the activity log.',
+  inputSchema: z.object({
+    runId: z.number().optional(),
+    taskName: z.string().optional(),
+  }),
+  run: ({ runId, taskName }, signal) =>
+    guarded('the job status', async () => {
+      if (runId === undefined && !taskName) return 'Give a run id or a task name.';
+      const matches = (entry: { runId: number; taskName: string }) =>
+        runId !== undefined ? entry.runId === runId : entry.taskName.toLowerCase() === taskName!.toLowerCase();
+      const running = (await getActivityMonitor(signal)).find(matches);
+      if (running) {
+        return [
+          now(),
+          `${running.taskName} (${running.taskType}, run ${running.runId}) is ${running.executionState.toLowerCase()}, started ${running.startTime}` +
+            `${running.agentName ? ` on ${running.agentName}` : ''}${running.runtimeEnvironmentName ? ` (${running.runtimeEnvironmentName})` : ''}` +
+            `${running.rowsProcessed !== undefined ? `, ${running.rowsProcessed} rows so far` : ''}.`,
+        ].join('\n');
+      }
+      const completed = (await getActivityLog({ runId }, signal)).entries.find(matches);
+      if (!completed) return `${now()}\nNo running or recent run found for ${runId !== undefined ? `run ${runId}` : taskName}.`;
+      return [now(), ...describeRun(completed)].join('\n');
+    }),
+});
+
+const listIdmcRuntimeEnvironments = defineIdmcApiTool({
+  name: 'listIdmcRuntimeEnvironments',
+  description: 'Lists the org\'s runtime environments (Secure Agent groups) with each agent\'s status.',
+  inputSchema: z.object({}),
+  run: (_input, signal) =>
+    guarded('the runtime environments', async () => {
+      const environments = await listRuntimeEnvironments(signal);
+      if (!environments.length) return 'The org has no runtime environments.';
+      return environments
+        .map((environment) => {
+          const agents = environment.agents.map(
+            (agent) =>
+              `  - ${agent.name}${agent.agentHost ? ` on ${agent.agentHost}` : ''}${agent.platform ? ` (${agent.platform})` : ''}: ${agent.active ? (agent.readyToRun === false ? 'up, not ready to run jobs' : 'up') : 'down'}`
+          );
+          return [`- ${environment.name}${environment.isShared ? ' (shared)' : ''}: ${environment.agents.length} agent(s)`, ...agents].join('\n');
+        })
+        .join('\n');
+    }),
+});
+
+export const IDMC_API_TOOLS: IdmcApiTool[] = [listIdmcObjects, getIdmcActivityLog, getIdmcJobStatus, listIdmcRuntimeEnvironments];
+
+/** Genkit tools bound to one request's abort signal, which Genkit does not pass on to tools itself. */
+export function idmcApiTools(signal?: AbortSignal): ToolAction[] {
+  return IDMC_API_TOOLS.map((tool) =>
+    ai.dynamicTool(
+      { name: tool.name, description: tool.description, inputSchema: tool.inputSchema, outputSchema: z.string() },
+      (input) => tool.run(input, signal)
+    )
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileOverview Unpacks IDMC export bundles into the definition files they contain.
+ *
+ * An export ZIP holds a metadata manifest plus one nested ZIP per asset, named after the
+ * asset and its type (e.g. `Explore/Sales/m_load_orders.DTEMPLATE.zip`). The nested ZIPs
+ * hold the JSON or XML definitions, sometimes with a `.bin` extension. Nested archives are
+ * opened recursively and every entry is tagged with the asset it belongs to.
+ *
+ * - unpackExport - Lists the text entries of an export ZIP, or wraps a single JSON/XML file.
+ */
+
+import JSZip from 'jszip';
+import path from 'node:path';
+
+export interface ExportEntry {
+  /** Path of the file, with nested archives joined by `!/`. */
+  path: string;
+  /** Folder path and name of the asset the file belongs to, from the enclosing asset ZIP. */
+  assetPath?: string;
+  /** Type suffix of the enclosing asset ZIP, e.g. DTEMPLATE, MTT, TASKFLOW, Connection. */
+  assetType?: string;
+  content: string;
+}
+
+/** Asset ZIPs are named `<name>.<TYPE>.zip`. */
+const ASSET_ARCHIVE = /^(.*)\.([A-Za-z_]+)\.zip$/;
+
+const MAX_DEPTH = 3;
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, 512).toString('utf-8').trimStart();
+  return sample.startsWith('{') || sample.startsWith('[') || sample.startsWith('<') || /^[\x09\x0a\x0d\x20-\x7e]*$/.test(sample);
+}
+
+async function walkZip(
+  zip: JSZip,
+  prefix: string,
+  asset: Pick<ExportEntry, 'assetPath' | 'assetType'>,
+  depth: number,
+  entries: ExportEntry[]
+): Promise<void> {
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+    const entryPath = prefix ? `${prefix}!/${file.name}` : file.name;
+    const data = await file.async('nodebuffer');
+    if (data.length > MAX_ENTRY_BYTES) continue;
+
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      if (depth >= MAX_DEPTH) continue;
+      const match = ASSET_ARCHIVE.exec(file.name);
+      const nested = match ? { assetPath: match[1], assetType: match[2] } : asset;
+      await walkZip(await JSZip.loadAsync(data), entryPath, nested, depth + 1, entries);
+      continue;
+    }
+
+    if (!looksLikeText(data)) continue;
+    entries.push({ path: entryPath, ...asset, content: data.toString('utf-8') });
+  }
+}
+
+export async function unpackExport(fileName: string, data: Buffer): Promise<ExportEntry[]> {
+  if (data.subarray(0, 2).toString('latin1') !== 'PK') {
+    // A single exported definition (JSON or XML) rather than a bundle.
+    const ext = path.extname(fileName);
+    return [{ path: fileName, assetPath: path.basename(fileName, ext), content: data.toString('utf-8') }];
+  }
+  const entries: ExportEntry[] = [];
+  await walkZip(await JSZip.loadAsync(data), '', {}, 0, entries);
+  return entries;
+}
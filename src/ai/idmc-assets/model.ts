@@ -0,0 +1,131 @@
+/**
+ * @fileOverview Builds the structured asset model from an unpacked IDMC export.
+ *
+ * - parseAssetExport - Unpacks an export (ZIP or single JSON/XML file) and parses every asset.
+ * - buildAssetModel - Parses already unpacked entries and links the assets to each other.
+ * - isAssetExport - Cheap check for whether an upload looks like an IDMC export.
+ */
+
+import path from 'node:path';
+import { unpackExport, type ExportEntry } from './archive';
+import { detectKind, parseConnection, parseMapping, parseMappingTask, parseTaskflow } from './parsers';
+import type { Asset, AssetDependency, AssetModel } from './types';
+
+/** Bundle-level files that describe the export rather than an asset. */
+const MANIFEST_FILE = /(^|\/)(exportMetadata[^/]*\.json|ContentsofExportPackage[^/]*\.csv)$/i;
+
+function groupByAsset(entries: ExportEntry[]): Map<string, ExportEntry[]> {
+  const groups = new Map<string, ExportEntry[]>();
+  for (const entry of entries) {
+    if (MANIFEST_FILE.test(entry.path)) continue;
+    // Loose JSON/XML files in a plain ZIP are one asset each.
+    const key = entry.assetPath ?? entry.path.replace(/\.(json|xml|bin)$/i, '');
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return groups;
+}
+
+function parseJson(entry: ExportEntry): unknown | undefined {
+  const text = entry.content.trimStart();
+  if (!text.startsWith('{') && !text.startsWith('[')) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseAsset(assetPath: string, entries: ExportEntry[]): Asset | undefined {
+  const assetType = entries[0].assetType;
+  // Prefer the entry that carries the definition over metadata files next to it.
+  const kinds = entries.map((entry) => detectKind(assetType, entry.content));
+  const kind = kinds.find((k) => k !== 'other') ?? 'other';
+  const entry =
+    entries.find((e, i) => kinds[i] === kind && detectKind(undefined, e.content) === kind) ??
+    entries.find((e) => parseJson(e) !== undefined || e.content.trimStart().startsWith('<')) ??
+    entries[0];
+
+  const identity = {
+    id: assetPath,
+    name: path.posix.basename(assetPath),
+    path: path.posix.dirname(assetPath) === '.' ? '' : path.posix.dirname(assetPath),
+    sourceFile: entry.path,
+  };
+  const json = parseJson(entry);
+
+  switch (kind) {
+    case 'mapping':
+      return json === undefined ? undefined : parseMapping(identity, json, entry.content);
+    case 'mappingTask':
+      return json === undefined ? undefined : parseMappingTask(identity, json, entry.content);
+    case 'taskflow':
+      return parseTaskflow(identity, entry.content);
+    case 'connection':
+      return json === undefined ? undefined : parseConnection(identity, json);
+    default:
+      return { ...identity, kind: 'other', assetType: assetType ?? (path.posix.extname(entry.path).slice(1) || 'file') };
+  }
+}
+
+function linkAssets(assets: Asset[]): AssetDependency[] {
+  const byName = new Map<string, Asset>();
+  for (const asset of assets) {
+    byName.set(asset.name.toLowerCase(), asset);
+    byName.set(asset.id.toLowerCase(), asset);
+  }
+  // Unresolved references stay as plain names so the dependency is still visible.
+  const resolve = (reference: string) => byName.get(reference.toLowerCase())?.id ?? reference;
+  const dependencies: AssetDependency[] = [];
+  const add = (from: Asset, to: string | undefined, relation: string) => {
+    if (!to) return;
+    const target = resolve(to);
+    if (!dependencies.some((d) => d.from === from.id && d.to === target && d.relation === relation)) {
+      dependencies.push({ from: from.id, to: target, relation });
+    }
+  };
+
+  for (const asset of assets) {
+    if (asset.kind === 'mappingTask') {
+      add(asset, asset.mapping, 'runs mapping');
+      asset.connections.forEach((connection) => add(asset, connection, 'uses connection'));
+    } else if (asset.kind === 'taskflow') {
+      asset.steps.forEach((step) => add(asset, step.calls, 'calls'));
+    } else if (asset.kind === 'mapping') {
+      for (const transformation of asset.transformations) {
+        if (!transformation.connection) continue;
+        const relation =
+          transformation.type === 'Target' ? 'writes to' : transformation.type === 'Lookup' ? 'looks up' : 'reads from';
+        add(asset, transformation.connection, relation);
+      }
+    }
+  }
+  return dependencies;
+}
+
+export function buildAssetModel(exportName: string, entries: ExportEntry[]): AssetModel {
+  const assets: Asset[] = [];
+  const warnings: string[] = [];
+  for (const [assetPath, group] of groupByAsset(entries)) {
+    try {
+      const asset = parseAsset(assetPath, group);
+      if (asset) assets.push(asset);
+      else warnings.push(`Could not read the definition of ${assetPath}.`);
+    } catch (error) {
+      warnings.push(`Could not parse ${assetPath}: ${(error as Error).message}`);
+    }
+  }
+  if (assets.length === 0) warnings.push('No mappings, tasks, taskflows or connections were found in the export.');
+  return { exportName, assets, dependencies: linkAssets(assets), warnings };
+}
+
+export async function parseAssetExport(fileName: string, data: Buffer): Promise<AssetModel> {
+  return buildAssetModel(fileName, await unpackExport(fileName, data));
+}
+
+/** ZIP bundles are always treated as exports; JSON/XML only when they contain asset markers. */
+export function isAssetExport(fileName: string, mimeType: string, data: Buffer): boolean {
+  if (/zip/i.test(mimeType) || /\.zip$/i.test(fileName)) return true;
+  if (!/json|xml/i.test(mimeType) && !/\.(json|xml)$/i.test(fileName)) return false;
+  const head = data.subarray(0, 64 * 1024).toString('utf-8');
+  return detectKind(undefined, head) !== 'other';
+}
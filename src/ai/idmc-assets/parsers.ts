@@ -0,0 +1,368 @@
+/**
+ * @fileOverview Parsers for the definitions inside an IDMC export.
+ *
+ * Export formats differ between asset types and IDMC releases, so parsing is tolerant rather
+ * than schema-driven: mappings are read from any `transformations`/`links` arrays in the
+ * JSON (resolving `$$IID`/`$$ref` references and `$$classInfo` class names), mapping tasks and
+ * connections from their well-known property names, and taskflows from the step elements
+ * of their XML definition.
+ *
+ * - parseMapping - A mapping (DTEMPLATE) definition.
+ * - parseMappingTask - A mapping task (MTT) definition.
+ * - parseTaskflow - A taskflow definition (XML, or JSON with a steps array).
+ * - parseConnection - A connection definition.
+ * - detectKind - Guesses the asset kind from the asset type suffix or the content.
+ */
+
+import { decodeEntities } from '@/ai/retrieval/loaders';
+import type {
+  AssetKind,
+  AssetParameter,
+  ConnectionAsset,
+  MappingAsset,
+  MappingField,
+  MappingLink,
+  MappingTaskAsset,
+  TaskflowAsset,
+  TaskflowStep,
+  Transformation,
+} from './types';
+
+type Json = Record<string, unknown>;
+type AssetIdentity = { id: string; name: string; path: string; sourceFile: string };
+
+const ASSET_TYPES: Record<string, AssetKind> = {
+  dtemplate: 'mapping',
+  mapping: 'mapping',
+  mtt: 'mappingTask',
+  mappingtask: 'mappingTask',
+  taskflow: 'taskflow',
+  workflow: 'taskflow',
+  connection: 'connection',
+};
+
+const TRANSFORMATION_TYPES: [RegExp, string][] = [
+  [/source/i, 'Source'],
+  [/target/i, 'Target'],
+  [/expr/i, 'Expression'],
+  [/filter/i, 'Filter'],
+  [/joiner|join/i, 'Joiner'],
+  [/lookup/i, 'Lookup'],
+  [/aggregat/i, 'Aggregator'],
+  [/router/i, 'Router'],
+  [/sorter|sort/i, 'Sorter'],
+  [/union/i, 'Union'],
+  [/normalizer/i, 'Normalizer'],
+  [/rank/i, 'Rank'],
+  [/sequence/i, 'Sequence Generator'],
+  [/mapplet/i, 'Mapplet'],
+  [/java/i, 'Java'],
+  [/webservice|rest/i, 'Web Services'],
+  [/hierarch/i, 'Hierarchy'],
+  [/dataquality|cleanse|rule/i, 'Data Quality'],
+];
+
+/** Transformation settings worth reporting (conditions, overrides, grouping). */
+const PROPERTY_KEY = /condition|filter|join|group|sql|sort|override|rule/i;
+
+const PARAMETER_REFERENCE = /\$\$[A-Za-z_][\w]*/g;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+/** Resolves `{"$$ref": id}` placeholders against objects carrying a matching `$$IID`. */
+function referenceResolver(root: unknown): (value: unknown) => unknown {
+  const byId = new Map<string, unknown>();
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!isObject(value)) return;
+    const id = value['$$IID'];
+    if (id !== undefined) byId.set(String(id), value);
+    Object.values(value).forEach(visit);
+  };
+  visit(root);
+  return (value) => (isObject(value) && value['$$ref'] !== undefined ? byId.get(String(value['$$ref'])) ?? value : value);
+}
+
+/** Class name of an export object, via `$$classInfo` when `$$class` is a numeric id. */
+function classResolver(root: unknown): (value: Json) => string {
+  const classInfo = isObject(root) && isObject(root['$$classInfo']) ? (root['$$classInfo'] as Json) : {};
+  return (value) => {
+    const raw = value['$$class'] ?? value['@type'] ?? value['class'] ?? value['transformationType'] ?? value['type'];
+    const name = asString(classInfo[String(raw)]) ?? asString(raw) ?? '';
+    return name.split('.').pop() ?? name;
+  };
+}
+
+/** First string found under any of `keys`, looking one level into nested objects too. */
+function pick(value: Json, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const direct = value[key];
+    if (isObject(direct)) {
+      const nested = asString(direct.name) ?? asString(direct.objectName) ?? asString(direct.id);
+      if (nested) return nested;
+    }
+    const found = asString(direct);
+    if (found) return found;
+  }
+  for (const nested of Object.values(value)) {
+    if (!isObject(nested)) continue;
+    for (const key of keys) {
+      const found = asString(nested[key]);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/** All arrays stored under a key matching `key`, anywhere in the document. */
+function findArrays(root: unknown, key: RegExp): unknown[][] {
+  const found: unknown[][] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!isObject(value)) return;
+    for (const [k, v] of Object.entries(value)) {
+      if (Array.isArray(v) && key.test(k)) found.push(v);
+      visit(v);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+export function normalizeTransformationType(raw: string): string {
+  const match = TRANSFORMATION_TYPES.find(([pattern]) => pattern.test(raw));
+  if (match) return match[1];
+  return raw.replace(/^T(?=[A-Z])/, '') || 'Unknown';
+}
+
+function parseFields(value: Json): MappingField[] {
+  const list = [value.fields, value.fieldList, value.outputFields, value.ports].find(Array.isArray) as unknown[] | undefined;
+  return (list ?? []).filter(isObject).flatMap((field) => {
+    const name = asString(field.name);
+    if (!name) return [];
+    return [
+      {
+        name,
+        datatype: asString(field.datatype) ?? asString(field.dataType) ?? asString(field.type),
+        expression: asString(field.expression) ?? asString(field.expr),
+      },
+    ];
+  });
+}
+
+function parseProperties(value: Json): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const text = asString(raw);
+    if (text && PROPERTY_KEY.test(key) && !key.startsWith('$$')) properties[key] = text;
+  }
+  return properties;
+}
+
+/** Parameters declared in `parameters` arrays, plus any `$$Param` referenced in the text. */
+function parseParameters(root: unknown, rawText: string): AssetParameter[] {
+  // Keyed without the `$$` prefix, which declarations usually omit and references include.
+  const parameters = new Map<string, AssetParameter>();
+  for (const list of findArrays(root, /parameters$/i)) {
+    for (const item of list.filter(isObject)) {
+      const name = asString(item.name);
+      if (!name) continue;
+      parameters.set(name.replace(/^\$\$/, ''), {
+        name,
+        type: asString(item.type) ?? asString(item.datatype),
+        defaultValue: asString(item.defaultValue) ?? asString(item.value) ?? asString(item.text),
+      });
+    }
+  }
+  // `$$IID`, `$$class` and friends are export bookkeeping keys, not parameters.
+  const withoutKeys = rawText.replace(/"\$\$\w+"\s*:/g, ':');
+  for (const reference of withoutKeys.match(PARAMETER_REFERENCE) ?? []) {
+    const key = reference.slice(2);
+    if (!parameters.has(key)) parameters.set(key, { name: reference });
+  }
+  return [...parameters.values()];
+}
+
+export function detectKind(assetType: string | undefined, content: string): AssetKind {
+  const byType = assetType && ASSET_TYPES[assetType.toLowerCase()];
+  if (byType) return byType;
+  const head = content.slice(0, 4000);
+  if (/<(\w+:)?(taskflow|process)\b/i.test(head)) return 'taskflow';
+  if (/"transformations"\s*:/.test(content)) return 'mapping';
+  if (/"@type"\s*:\s*"(mtTask|mappingTask)"|"mappingId"\s*:/i.test(head)) return 'mappingTask';
+  if (/"@type"\s*:\s*"connection"/i.test(head)) return 'connection';
+  return 'other';
+}
+
+export function parseMapping(identity: AssetIdentity, json: unknown, rawText: string): MappingAsset {
+  const deref = referenceResolver(json);
+  const className = classResolver(json);
+  const root = isObject(json) ? json : {};
+
+  const transformations: Transformation[] = [];
+  const nameOf = new Map<unknown, string>();
+  for (const list of findArrays(json, /^transformations$/i)) {
+    for (const item of list.map(deref).filter(isObject)) {
+      const name = asString(item.name);
+      if (!name || transformations.some((t) => t.name === name)) continue;
+      nameOf.set(item, name);
+      transformations.push({
+        name,
+        type: normalizeTransformationType(className(item)),
+        fields: parseFields(item),
+        connection: pick(item, ['connectionName', 'connection', 'connectionId', 'connRef']),
+        object: pick(item, ['objectName', 'object', 'tableName', 'nativeName', 'fileName']),
+        properties: parseProperties(item),
+      });
+    }
+  }
+
+  const endpointName = (value: unknown): string | undefined => {
+    const resolved = deref(value);
+    return nameOf.get(resolved) ?? (isObject(resolved) ? asString(resolved.name) : asString(resolved));
+  };
+  const links: MappingLink[] = [];
+  for (const list of findArrays(json, /^links$/i)) {
+    for (const item of list.map(deref).filter(isObject)) {
+      const from = endpointName(item.fromTransformation ?? item.from ?? item.source);
+      const to = endpointName(item.toTransformation ?? item.to ?? item.target);
+      if (!from || !to) continue;
+      const fieldMap: Record<string, string> = {};
+      for (const pair of [item.fieldMap, item.fieldMappings, item.fields].find(Array.isArray) ?? []) {
+        if (!isObject(pair)) continue;
+        const fromField = asString(pair.from) ?? asString(pair.fromField) ?? asString(pair.source);
+        const toField = asString(pair.to) ?? asString(pair.toField) ?? asString(pair.target);
+        if (fromField && toField && fromField !== toField) fieldMap[fromField] = toField;
+      }
+      links.push({ from, to, fieldMap: Object.keys(fieldMap).length ? fieldMap : undefined });
+    }
+  }
+
+  return {
+    ...identity,
+    kind: 'mapping',
+    name: asString(root.name) ?? identity.name,
+    description: asString(root.description),
+    transformations,
+    links,
+    parameters: parseParameters(json, rawText),
+  };
+}
+
+export function parseMappingTask(identity: AssetIdentity, json: unknown, rawText: string): MappingTaskAsset {
+  const root = isObject(json) ? json : {};
+  const connections = new Set<string>();
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!isObject(value)) return;
+    for (const [key, raw] of Object.entries(value)) {
+      const text = asString(raw);
+      if (text && /connection(name|id)?$/i.test(key)) connections.add(text);
+      visit(raw);
+    }
+  };
+  visit(json);
+
+  return {
+    ...identity,
+    kind: 'mappingTask',
+    name: asString(root.name) ?? identity.name,
+    mapping: pick(root, ['mappingName', 'mapping', 'mappingId', 'mappingPlanName']),
+    runtimeEnvironment: pick(root, ['runtimeEnvironmentName', 'runtimeEnvironment', 'runtimeEnvironmentId', 'agentGroup']),
+    connections: [...connections],
+    parameters: parseParameters(json, rawText),
+    schedule: pick(root, ['scheduleName', 'schedule', 'scheduleId']),
+  };
+}
+
+const STEP_ELEMENTS = ['service', 'subflow', 'assignment', 'decision', 'parallelPaths', 'jump', 'wait', 'notification', 'command', 'throw', 'end'];
+
+function xmlText(body: string, element: string): string | undefined {
+  const match = new RegExp(`<(?:\\w+:)?${element}\\b[^>]*>([^<]*)</(?:\\w+:)?${element}>`, 'i').exec(body);
+  return match ? decodeEntities(match[1]).trim() || undefined : undefined;
+}
+
+/** The asset a taskflow step runs: data task parameters, subflow references or object names. */
+function stepTarget(body: string): string | undefined {
+  const parameter = /<(?:\w+:)?(?:parameter|input)\b[^>]*name="(?:Task Name|taskName|Task)"[^>]*>([^<]+)</i.exec(body);
+  if (parameter) return decodeEntities(parameter[1]).trim();
+  return (
+    xmlText(body, 'taskName') ??
+    xmlText(body, 'subflowName') ??
+    xmlText(body, 'objectName') ??
+    /\b(?:taskName|processName|subflowPath)="([^"]+)"/.exec(body)?.[1]
+  );
+}
+
+export function parseTaskflow(identity: AssetIdentity, rawText: string): TaskflowAsset {
+  const trimmed = rawText.trimStart();
+  if (trimmed.startsWith('{')) {
+    // Some tools export taskflows as JSON with a flat steps array.
+    const json = JSON.parse(trimmed) as Json;
+    const steps = (findArrays(json, /^steps$/i)[0] ?? []).filter(isObject).map((step) => ({
+      name: asString(step.name) ?? asString(step.title) ?? 'step',
+      type: asString(step.type) ?? 'step',
+      calls: pick(step, ['taskName', 'task', 'objectName', 'subflow']),
+    }));
+    return { ...identity, kind: 'taskflow', name: asString(json.name) ?? identity.name, steps, parameters: parseParameters(json, rawText) };
+  }
+
+  const steps: TaskflowStep[] = [];
+  const elements = STEP_ELEMENTS.join('|');
+  const pattern = new RegExp(`<(?:\\w+:)?(${elements})\\b([^>]*)>([\\s\\S]*?)</(?:\\w+:)?\\1>`, 'gi');
+  for (const match of rawText.matchAll(pattern)) {
+    const [, element, attributes, body] = match;
+    const serviceName = xmlText(body, 'serviceName');
+    const type =
+      element.toLowerCase() === 'service'
+        ? serviceName && /DataTask/i.test(serviceName)
+          ? 'data task'
+          : serviceName ?? 'service'
+        : element;
+    steps.push({
+      name: xmlText(body, 'title') ?? /\b(?:title|name)="([^"]+)"/.exec(attributes)?.[1] ?? element,
+      type,
+      calls: stepTarget(body),
+    });
+  }
+
+  const parameters = [...rawText.matchAll(/<(?:\w+:)?(?:input|tempField|field)\b[^>]*name="([^"]+)"[^>]*type="([^"]+)"/gi)].map(
+    ([, name, type]) => ({ name, type })
+  );
+  return {
+    ...identity,
+    kind: 'taskflow',
+    name: xmlText(rawText.slice(0, 2000), 'name') ?? identity.name,
+    steps,
+    parameters,
+  };
+}
+
+/** Secret-looking properties are never copied into the model. */
+const SECRET_KEY = /password|secret|token|key$|credential/i;
+
+export function parseConnection(identity: AssetIdentity, json: unknown): ConnectionAsset {
+  const root = isObject(json) ? json : {};
+  const properties: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(root)) {
+    const text = asString(raw);
+    if (!text || key.startsWith('$$') || key.startsWith('@') || SECRET_KEY.test(key)) continue;
+    if (/host|database|schema|account|warehouse|url|port|user|server|bucket|path|region|codepage/i.test(key)) properties[key] = text;
+  }
+  return {
+    ...identity,
+    kind: 'connection',
+    name: asString(root.name) ?? identity.name,
+    connectionType: pick(root, ['instanceDisplayName', 'type', 'connectionType', 'instanceName']),
+    runtimeEnvironment: pick(root, ['runtimeEnvironmentName', 'runtimeEnvironmentId', 'agentGroupId', 'agentId']),
+    properties,
+  };
+}
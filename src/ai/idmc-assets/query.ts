@@ -0,0 +1,202 @@
+/**
+ * @fileOverview Questions answered directly from the asset model, and text renderings of it
+ * for prompts.
+ *
+ * - findAsset - Looks an asset up by name or id, case-insensitively.
+ * - traceFieldLineage - Walks a mapping backwards from a field to the sources it comes from.
+ * - describeAsset - A readable description of one asset.
+ * - describeAssetModel - A summary of the whole export, bounded in length.
+ */
+
+import type { Asset, AssetModel, MappingAsset, Transformation } from './types';
+
+const MAX_LINEAGE_DEPTH = 25;
+const MAX_FIELDS_LISTED = 40;
+const MAX_SUMMARY_CHARS = Number(process.env.IDMC_ASSET_SUMMARY_CHARS || 60000);
+
+export function findAsset(model: AssetModel, reference: string): Asset | undefined {
+  const wanted = reference.trim().toLowerCase();
+  return (
+    model.assets.find((asset) => asset.id.toLowerCase() === wanted || asset.name.toLowerCase() === wanted) ??
+    model.assets.find((asset) => asset.name.toLowerCase().includes(wanted))
+  );
+}
+
+function byName(mapping: MappingAsset, name: string): Transformation | undefined {
+  return mapping.transformations.find((t) => t.name.toLowerCase() === name.toLowerCase());
+}
+
+function hasField(transformation: Transformation, field: string): boolean {
+  return transformation.fields.some((f) => f.name.toLowerCase() === field.toLowerCase());
+}
+
+/** Identifiers in an expression that are fields of some transformation in the mapping. */
+function referencedFields(expression: string, mapping: MappingAsset): string[] {
+  const known = new Set(mapping.transformations.flatMap((t) => t.fields.map((f) => f.name.toLowerCase())));
+  const identifiers = expression.replace(/'[^']*'/g, ' ').match(/[A-Za-z_][\w]*/g) ?? [];
+  return [...new Set(identifiers.filter((id) => known.has(id.toLowerCase())))];
+}
+
+/** Order transformations so upstream ones come first; cycles and islands keep export order. */
+export function dataFlowOrder(mapping: MappingAsset): Transformation[] {
+  const incoming = new Map(mapping.transformations.map((t) => [t.name, 0]));
+  for (const link of mapping.links) incoming.set(link.to, (incoming.get(link.to) ?? 0) + 1);
+  const queue = mapping.transformations.filter((t) => !incoming.get(t.name));
+  const ordered: Transformation[] = [];
+  while (queue.length) {
+    const next = queue.shift()!;
+    ordered.push(next);
+    for (const link of mapping.links.filter((l) => l.from === next.name)) {
+      const remaining = (incoming.get(link.to) ?? 0) - 1;
+      incoming.set(link.to, remaining);
+      const target = byName(mapping, link.to);
+      if (remaining === 0 && target) queue.push(target);
+    }
+  }
+  return [...ordered, ...mapping.transformations.filter((t) => !ordered.includes(t))];
+}
+
+/**
+ * Lineage of `field` as indented lines, from where it ends up back to its sources. Fields
+ * pass through transformations by name (or by a link's field map) unless an expression
+ * computes them; transformations without a field list are treated as pass-through.
+ */
+export function traceFieldLineage(mapping: MappingAsset, field: string, transformationName?: string): string[] {
+  const lines: string[] = [];
+  const visited = new Set<string>();
+
+  const trace = (transformation: Transformation, fieldName: string, depth: number) => {
+    const key = `${transformation.name}.${fieldName}`.toLowerCase();
+    const indent = '  '.repeat(depth);
+    if (visited.has(key) || depth > MAX_LINEAGE_DEPTH) {
+      lines.push(`${indent}${transformation.name}.${fieldName} (already shown)`);
+      return;
+    }
+    visited.add(key);
+
+    const definition = transformation.fields.find((f) => f.name.toLowerCase() === fieldName.toLowerCase());
+    let line = `${indent}${transformation.name} (${transformation.type}).${fieldName}`;
+    if (definition?.expression) line += ` = ${definition.expression}`;
+    if (transformation.type === 'Source' || transformation.type === 'Lookup') {
+      const origin = [transformation.object, transformation.connection && `connection ${transformation.connection}`]
+        .filter(Boolean)
+        .join(' via ');
+      if (origin) line += ` <- ${origin}`;
+    }
+    lines.push(line);
+    if (transformation.type === 'Source') return;
+
+    const upstreamFields = definition?.expression ? referencedFields(definition.expression, mapping) : [fieldName];
+    const incoming = mapping.links.filter((link) => link.to.toLowerCase() === transformation.name.toLowerCase());
+    for (const upstreamField of upstreamFields) {
+      const candidates = incoming.flatMap((link) => {
+        const upstream = byName(mapping, link.from);
+        if (!upstream) return [];
+        const renamed = Object.entries(link.fieldMap ?? {}).find(([, to]) => to.toLowerCase() === upstreamField.toLowerCase());
+        return [{ upstream, name: renamed?.[0] ?? upstreamField }];
+      });
+      const withField = candidates.filter(({ upstream, name }) => hasField(upstream, name));
+      const next = withField.length ? withField : candidates.filter(({ upstream }) => upstream.fields.length === 0);
+      if (next.length === 0 && definition?.expression === undefined && incoming.length === 0) {
+        lines.push(`${indent}  (no upstream transformation found)`);
+      }
+      next.forEach(({ upstream, name }) => trace(upstream, name, depth + 1));
+    }
+  };
+
+  const starts = transformationName
+    ? [byName(mapping, transformationName)].filter((t): t is Transformation => !!t)
+    : mapping.transformations.filter((t) => t.type === 'Target' && (t.fields.length === 0 || hasField(t, field)));
+  const fallback = mapping.transformations.filter((t) => hasField(t, field) && !mapping.links.some((l) => l.from === t.name));
+  for (const start of starts.length ? starts : fallback) trace(start, field, 0);
+
+  return lines.length ? lines : [`Field ${field} was not found in mapping ${mapping.name}.`];
+}
+
+function describeParameters(asset: { parameters: { name: string; type?: string; defaultValue?: string }[] }): string[] {
+  if (asset.parameters.length === 0) return [];
+  return [
+    'Parameters:',
+    ...asset.parameters.map(
+      (p) => `- ${p.name}${p.type ? ` (${p.type})` : ''}${p.defaultValue ? ` default ${p.defaultValue}` : ''}`
+    ),
+  ];
+}
+
+function describeTransformation(t: Transformation): string[] {
+  const target = [t.object && `object ${t.object}`, t.connection && `connection ${t.connection}`].filter(Boolean).join(', ');
+  const lines = [`- ${t.name} (${t.type})${target ? `: ${target}` : ''}`];
+  for (const [key, value] of Object.entries(t.properties)) lines.push(`    ${key}: ${value}`);
+  const computed = t.fields.filter((f) => f.expression);
+  for (const f of computed) lines.push(`    ${f.name} = ${f.expression}`);
+  const plain = t.fields.filter((f) => !f.expression).map((f) => (f.datatype ? `${f.name}:${f.datatype}` : f.name));
+  if (plain.length) {
+    const listed = plain.slice(0, MAX_FIELDS_LISTED).join(', ');
+    lines.push(`    fields: ${listed}${plain.length > MAX_FIELDS_LISTED ? `, … (${plain.length} in total)` : ''}`);
+  }
+  return lines;
+}
+
+export function describeAsset(asset: Asset, model?: AssetModel): string {
+  const location = asset.path ? ` in ${asset.path}` : '';
+  const lines: string[] = [];
+  switch (asset.kind) {
+    case 'mapping': {
+      lines.push(`Mapping ${asset.name}${location}`);
+      if (asset.description) lines.push(`Description: ${asset.description}`);
+      lines.push('Transformations in data flow order:', ...dataFlowOrder(asset).flatMap(describeTransformation));
+      if (asset.links.length) lines.push(`Links: ${asset.links.map((l) => `${l.from} -> ${l.to}`).join('; ')}`);
+      lines.push(...describeParameters(asset));
+      break;
+    }
+    case 'mappingTask':
+      lines.push(`Mapping task ${asset.name}${location}`);
+      if (asset.mapping) lines.push(`Runs mapping: ${asset.mapping}`);
+      if (asset.runtimeEnvironment) lines.push(`Runtime environment: ${asset.runtimeEnvironment}`);
+      if (asset.connections.length) lines.push(`Connections: ${asset.connections.join(', ')}`);
+      if (asset.schedule) lines.push(`Schedule: ${asset.schedule}`);
+      lines.push(...describeParameters(asset));
+      break;
+    case 'taskflow':
+      lines.push(`Taskflow ${asset.name}${location}`, 'Steps:');
+      asset.steps.forEach((step, i) => lines.push(`${i + 1}. ${step.name} (${step.type})${step.calls ? ` -> ${step.calls}` : ''}`));
+      lines.push(...describeParameters(asset));
+      break;
+    case 'connection':
+      lines.push(`Connection ${asset.name}${location}${asset.connectionType ? ` (${asset.connectionType})` : ''}`);
+      if (asset.runtimeEnvironment) lines.push(`Runtime environment: ${asset.runtimeEnvironment}`);
+      for (const [key, value] of Object.entries(asset.properties)) lines.push(`${key}: ${value}`);
+      break;
+    default:
+      lines.push(`${asset.assetType} ${asset.name}${location} (not analyzed)`);
+  }
+
+  if (model) {
+    const uses = model.dependencies.filter((d) => d.from === asset.id).map((d) => `${d.relation} ${d.to}`);
+    const usedBy = model.dependencies.filter((d) => d.to === asset.id).map((d) => `${d.from} (${d.relation})`);
+    if (uses.length) lines.push(`Depends on: ${uses.join('; ')}`);
+    if (usedBy.length) lines.push(`Used by: ${usedBy.join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+export function describeAssetModel(model: AssetModel): string {
+  const counts = new Map<string, number>();
+  for (const asset of model.assets) counts.set(asset.kind, (counts.get(asset.kind) ?? 0) + 1);
+  const header = [
+    `IDMC export ${model.exportName}: ${[...counts].map(([kind, n]) => `${n} ${kind}`).join(', ') || 'no assets'}.`,
+    ...model.warnings.map((warning) => `Warning: ${warning}`),
+  ].join('\n');
+
+  let text = header;
+  for (const [i, asset] of model.assets.entries()) {
+    const section = `\n\n${describeAsset(asset, model)}`;
+    if (text.length + section.length > MAX_SUMMARY_CHARS) {
+      const rest = model.assets.slice(i).map((a) => a.name).join(', ');
+      text += `\n\n(Summary truncated; not described above: ${rest}. Use the asset tools for details.)`;
+      break;
+    }
+    text += section;
+  }
+  return text;
+}
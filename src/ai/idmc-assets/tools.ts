@@ -0,0 +1,90 @@
+/**
+ * @fileOverview Genkit tools over the asset models of the exports attached to a request.
+ * They are created per request, since each request carries its own exports.
+ *
+ * - assetTools - Tools to describe an asset, trace a mapping field and list dependencies.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import { describeAsset, findAsset, traceFieldLineage } from './query';
+import type { Asset, AssetModel } from './types';
+
+function lookup(models: AssetModel[], name: string): { asset: Asset; model: AssetModel } | undefined {
+  for (const model of models) {
+    const asset = findAsset(model, name);
+    if (asset) return { asset, model };
+  }
+  return undefined;
+}
+
+function notFound(models: AssetModel[], name: string): string {
+  const known = models.flatMap((model) => model.assets.map((asset) => asset.name));
+  return `No asset named "${name}" in the attached exports. Known assets: ${known.join(', ') || 'none'}.`;
+}
+
+export function assetTools(models: AssetModel[]) {
+  const describeIdmcAsset = ai.dynamicTool(
+    {
+      name: 'describeIdmcAsset',
+      description:
+        'Describes one mapping, mapping task, taskflow or connection from the attached IDMC export in full: transformations, fields, expressions, steps, parameters and dependencies.',
+      inputSchema: z.object({ name: z.string().describe('The asset name, e.g. m_load_orders.') }),
+      outputSchema: z.string(),
+    },
+    async ({ name }) => {
+      const found = lookup(models, name);
+      return found ? describeAsset(found.asset, found.model) : notFound(models, name);
+    }
+  );
+
+  const traceIdmcField = ai.dynamicTool(
+    {
+      name: 'traceIdmcField',
+      description:
+        'Traces where a field of a mapping comes from, back through expressions and links to source objects. Use it for "where does field X come from" questions.',
+      inputSchema: z.object({
+        mapping: z.string().describe('The mapping name.'),
+        field: z.string().describe('The field name.'),
+        transformation: z.string().optional().describe('Start at this transformation instead of the targets.'),
+      }),
+      outputSchema: z.string(),
+    },
+    async ({ mapping, field, transformation }) => {
+      const found = lookup(models, mapping);
+      if (!found) return notFound(models, mapping);
+      if (found.asset.kind !== 'mapping') return `${found.asset.name} is a ${found.asset.kind}, not a mapping.`;
+      return traceFieldLineage(found.asset, field, transformation).join('\n');
+    }
+  );
+
+  const listIdmcDependencies = ai.dynamicTool(
+    {
+      name: 'listIdmcDependencies',
+      description:
+        'Lists what an asset depends on (mappings a task runs, tasks a taskflow calls, connections used) and what depends on it, following the chain transitively.',
+      inputSchema: z.object({ name: z.string().describe('The asset name.') }),
+      outputSchema: z.string(),
+    },
+    async ({ name }) => {
+      const found = lookup(models, name);
+      if (!found) return notFound(models, name);
+      const { model, asset } = found;
+      const lines: string[] = [];
+      const walk = (id: string, direction: 'from' | 'to', depth: number, seen: Set<string>) => {
+        for (const dependency of model.dependencies.filter((d) => d[direction] === id)) {
+          const next = direction === 'from' ? dependency.to : dependency.from;
+          lines.push(`${'  '.repeat(depth)}${direction === 'from' ? `${dependency.relation} ${next}` : `${next} ${dependency.relation} it`}`);
+          if (!seen.has(next)) walk(next, direction, depth + 1, new Set(seen).add(next));
+        }
+      };
+      lines.push(`${asset.name} depends on:`);
+      walk(asset.id, 'from', 1, new Set([asset.id]));
+      lines.push(`Used by:`);
+      walk(asset.id, 'to', 1, new Set([asset.id]));
+      return lines.join('\n');
+    }
+  );
+
+  return [describeIdmcAsset, traceIdmcField, listIdmcDependencies];
+}
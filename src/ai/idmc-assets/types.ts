@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Structured model of an IDMC asset export: mappings, mapping tasks, taskflows
+ * and connections, plus the dependencies between them.
+ */
+
+export type AssetKind = 'mapping' | 'mappingTask' | 'taskflow' | 'connection' | 'other';
+
+export interface MappingField {
+  name: string;
+  datatype?: string;
+  /** Expression that computes the field, for expression-like transformations. */
+  expression?: string;
+}
+
+export interface Transformation {
+  name: string;
+  /** Normalized type, e.g. Source, Target, Expression, Filter, Joiner, Lookup. */
+  type: string;
+  fields: MappingField[];
+  /** Source/target/lookup transformations: the connection and object they read or write. */
+  connection?: string;
+  object?: string;
+  /** Filter conditions, join conditions, lookup conditions and similar settings. */
+  properties: Record<string, string>;
+}
+
+export interface MappingLink {
+  from: string;
+  to: string;
+  /** Field renames on the link (from field -> to field), when the export records them. */
+  fieldMap?: Record<string, string>;
+}
+
+export interface AssetParameter {
+  name: string;
+  type?: string;
+  defaultValue?: string;
+}
+
+interface AssetBase {
+  /** Stable id: the export path, or the object id when there is no path. */
+  id: string;
+  name: string;
+  /** Project/folder path inside the export. */
+  path: string;
+  /** File inside the export the asset was read from. */
+  sourceFile: string;
+}
+
+export interface MappingAsset extends AssetBase {
+  kind: 'mapping';
+  description?: string;
+  transformations: Transformation[];
+  links: MappingLink[];
+  parameters: AssetParameter[];
+}
+
+export interface MappingTaskAsset extends AssetBase {
+  kind: 'mappingTask';
+  mapping?: string;
+  runtimeEnvironment?: string;
+  connections: string[];
+  parameters: AssetParameter[];
+  schedule?: string;
+}
+
+export interface TaskflowStep {
+  name: string;
+  /** data task, subtaskflow, command, decision, notification, ... */
+  type: string;
+  /** The asset the step runs, if any. */
+  calls?: string;
+}
+
+export interface TaskflowAsset extends AssetBase {
+  kind: 'taskflow';
+  steps: TaskflowStep[];
+  parameters: AssetParameter[];
+}
+
+export interface ConnectionAsset extends AssetBase {
+  kind: 'connection';
+  connectionType?: string;
+  runtimeEnvironment?: string;
+  properties: Record<string, string>;
+}
+
+export interface OtherAsset extends AssetBase {
+  kind: 'other';
+  assetType: string;
+}
+
+export type Asset = MappingAsset | MappingTaskAsset | TaskflowAsset | ConnectionAsset | OtherAsset;
+
+export interface AssetDependency {
+  from: string;
+  to: string;
+  /** Why `from` depends on `to`, e.g. "runs mapping", "calls task", "uses connection". */
+  relation: string;
+}
+
+export interface AssetModel {
+  /** Name of the uploaded export. */
+  exportName: string;
+  assets: Asset[];
+  dependencies: AssetDependency[];
+  /** Files that could not be understood, and similar notes worth passing on to the user. */
+  warnings: string[];
+}
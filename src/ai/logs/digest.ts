@@ -0,0 +1,99 @@
+/**
+ * @fileOverview Condenses parsed logs into the part a model needs to diagnose them: the
+ * problem events, the known signatures they match, and the lines around the first failure.
+ * Logs run to megabytes; the digest is bounded by `IDMC_LOG_DIGEST_CHARS` (default 30000).
+ *
+ * - ParsedLog - A log file with its events and matched signatures.
+ * - parseLogFile - Parses one log and matches it against the signature library.
+ * - digestLogs - A bounded text digest of several parsed logs for a prompt.
+ * - findEvent - The event of a log that covers a given line.
+ */
+
+import { isProblem, parseLog, type LogEvent } from './parser';
+import { matchSignatures, type SignatureMatch } from './signatures';
+
+export interface ParsedLog {
+  name: string;
+  lineCount: number;
+  events: LogEvent[];
+  matches: SignatureMatch[];
+}
+
+const MAX_DIGEST_CHARS = Number(process.env.IDMC_LOG_DIGEST_CHARS || 30000);
+const MAX_EVENT_CHARS = 600;
+const MAX_PROBLEM_EVENTS = 40;
+const CONTEXT_EVENTS = 5;
+const TAIL_EVENTS = 10;
+
+export function parseLogFile(name: string, text: string): ParsedLog {
+  const events = parseLog(text);
+  return { name, lineCount: text.split(/\r?\n/).length, events, matches: matchSignatures(events) };
+}
+
+function formatEvent(log: ParsedLog, event: LogEvent): string {
+  const text = event.text.length > MAX_EVENT_CHARS ? `${event.text.slice(0, MAX_EVENT_CHARS)} …` : event.text;
+  return `[${log.name}:${event.line}] ${text}`;
+}
+
+function digestLog(log: ParsedLog, budget: number): string {
+  const problems = log.events.filter(isProblem);
+  const timestamps = log.events.map((e) => e.timestamp).filter(Boolean);
+  const lines = [
+    `=== LOG "${log.name}": ${log.lineCount} lines, ${log.events.length} events, ${problems.length} errors${
+      timestamps.length ? `, ${timestamps[0]} to ${timestamps[timestamps.length - 1]}` : ''
+    } ===`,
+  ];
+
+  if (log.matches.length) {
+    lines.push('Known error signatures matched:');
+    for (const { signature, events } of log.matches) {
+      lines.push(`- ${signature.id}: ${signature.title} (lines ${events.map((e) => e.line).join(', ')})`);
+    }
+  } else {
+    lines.push('No known error signature matched.');
+  }
+
+  // Each event is shown once, in the first section it belongs to.
+  const shown = new Set<LogEvent>();
+  const section = (title: string, events: LogEvent[]) => {
+    const fresh = events.filter((event) => !shown.has(event));
+    if (!fresh.length) return;
+    lines.push('', title);
+    for (const event of fresh) {
+      shown.add(event);
+      lines.push(formatEvent(log, event));
+    }
+  };
+
+  // The first failure is usually the cause; what follows it is often fallout.
+  const first = problems[0];
+  if (first) {
+    const index = log.events.indexOf(first);
+    section('Leading up to the first error:', log.events.slice(Math.max(0, index - CONTEXT_EVENTS), index + 1));
+  }
+  section('Errors and warnings:', problems.slice(0, MAX_PROBLEM_EVENTS));
+  if (problems.length > MAX_PROBLEM_EVENTS) lines.push(`(${problems.length - MAX_PROBLEM_EVENTS} more errors not shown)`);
+  section('End of the log:', log.events.slice(-TAIL_EVENTS));
+
+  let text = '';
+  for (const line of lines) {
+    if (text.length + line.length + 1 > budget) return `${text}(digest truncated)\n`;
+    text += `${line}\n`;
+  }
+  return text;
+}
+
+export function digestLogs(logs: ParsedLog[]): string {
+  const budget = Math.floor(MAX_DIGEST_CHARS / Math.max(logs.length, 1));
+  return logs.map((log) => digestLog(log, budget)).join('\n');
+}
+
+export function findEvent(log: ParsedLog, line: number): LogEvent | undefined {
+  let found: LogEvent | undefined;
+  for (const event of log.events) {
+    if (event.line > line) break;
+    found = event;
+  }
+  // Only accept the line if it belongs to the event (its first line or a folded continuation).
+  return found && line < found.line + found.text.split('\n').length ? found : undefined;
+}
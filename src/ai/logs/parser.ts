@@ -0,0 +1,117 @@
+/**
+ * @fileOverview Parses IDMC logs into timestamped events.
+ *
+ * Handles the line shapes seen in Secure Agent logs (agentcore, tomcat, infaagent) and in
+ * mapping task session logs, e.g.
+ *   2024-05-01 10:22:33,123 UTC [pool-3-thread-1] ERROR c.i.s.Foo - message
+ *   2024-05-01 10:22:33.123 <TASK_2-READER_1_1_1> SEVERE: [RR_4035] SQL Error [...]
+ *   READER_1_1_1> RR_4035 [Fri Apr 12 10:10:10 2024] SQL Error [...]
+ * Any other line (stack frames, "Caused by:", wrapped SQL, driver messages at column 0) is
+ * folded into the event before it.
+ *
+ * - parseLog - Splits log text into events with timestamp, level, thread and error codes.
+ * - findCodes - Message codes, database error codes and exception classes in a piece of text.
+ * - isProblem - Whether an event reports an error rather than progress.
+ * - looksLikeLog - Whether a piece of text is mostly log lines.
+ */
+
+export type LogLevel = 'FATAL' | 'ERROR' | 'WARNING' | 'INFO' | 'DEBUG';
+
+export interface LogEvent {
+  /** 1-based line number of the event's first line. */
+  line: number;
+  timestamp?: string;
+  level?: LogLevel;
+  thread?: string;
+  /** Informatica message codes (RR_4035), database codes (ORA-00942) and exception classes. */
+  codes: string[];
+  /** The event's text, including folded continuation lines. */
+  text: string;
+}
+
+const TIMESTAMP = [
+  /\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:[.,]\d{1,6})?(?:\s?(?:Z|UTC|[+-]\d{2}:?\d{2}))?/,
+  /\[?(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun) [A-Z][a-z]{2} +\d{1,2} \d{2}:\d{2}:\d{2}(?: [A-Z]{2,4})? \d{4}\]?/,
+  /\d{2}\/\d{2}\/\d{4} \d{2}:\d{2}:\d{2}(?:[.,]\d{1,6})?/,
+];
+
+const LEVELS: [RegExp, LogLevel][] = [
+  [/\b(FATAL|CRITICAL)\b/, 'FATAL'],
+  [/\b(SEVERE|ERROR|ERR)\b/, 'ERROR'],
+  [/\b(WARNING|WARN)\b/, 'WARNING'],
+  [/\b(INFO|NOTICE)\b/, 'INFO'],
+  [/\b(DEBUG|TRACE|FINE|FINER|FINEST)\b/, 'DEBUG'],
+];
+
+const CODE_PATTERNS = [
+  /\b[A-Z][A-Z0-9]{1,7}_\d{3,5}\b/g, // Informatica message codes: RR_4035, WRT_8229, CMN_1022
+  /\bORA-\d{5}\b/g,
+  /\bSQLSTATE[ =:]*[0-9A-Z]{5}\b/g,
+  /\b(?:java|javax|com|org)\.[\w.$]+(?:Exception|Error)\b/g,
+  /\bHTTP(?:\/\d\.\d)? [45]\d{2}\b/g,
+];
+
+const THREAD = /<([^<>\s]{2,80})>|\[([A-Za-z][\w.-]*(?:-\d+)+|pool-\d+-thread-\d+|main)\]|^([A-Z][A-Z0-9_]+(?:_\d+)*)>/;
+
+function findTimestamp(line: string): string | undefined {
+  for (const pattern of TIMESTAMP) {
+    const match = pattern.exec(line);
+    if (match) return match[0].replace(/^\[|\]$/g, '');
+  }
+  return undefined;
+}
+
+function findLevel(line: string): LogLevel | undefined {
+  return LEVELS.find(([pattern]) => pattern.test(line))?.[1];
+}
+
+export function findCodes(text: string): string[] {
+  const codes = new Set<string>();
+  for (const pattern of CODE_PATTERNS) {
+    for (const match of text.match(pattern) ?? []) codes.add(match.replace(/\s+/g, ' '));
+  }
+  return [...codes];
+}
+
+export function parseLog(text: string): LogEvent[] {
+  const events: LogEvent[] = [];
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.replace(/\s+$/, '');
+    if (!line.trim()) return;
+
+    const timestamp = findTimestamp(line);
+    const threadMatch = THREAD.exec(line);
+    const startsEvent = timestamp || (threadMatch && line.indexOf(threadMatch[0]) < 5) || !events.length;
+    const previous = events[events.length - 1];
+
+    if (!startsEvent && previous) {
+      previous.text += `\n${line}`;
+      for (const code of findCodes(line)) if (!previous.codes.includes(code)) previous.codes.push(code);
+      // A "Caused by" or stack frame under an INFO line still signals a failure.
+      if (!previous.level || previous.level === 'INFO') previous.level = findLevel(line) ?? previous.level;
+      return;
+    }
+
+    events.push({
+      line: i + 1,
+      timestamp,
+      level: findLevel(line.slice(0, 200)),
+      thread: threadMatch ? threadMatch[1] ?? threadMatch[2] ?? threadMatch[3] : undefined,
+      codes: findCodes(line),
+      text: line,
+    });
+  });
+  return events;
+}
+
+export function isProblem(event: LogEvent): boolean {
+  return event.level === 'ERROR' || event.level === 'FATAL' || (event.level !== 'INFO' && event.codes.some((c) => /ORA-|Exception|Error$/.test(c)));
+}
+
+export function looksLikeLog(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim()).slice(0, 200);
+  if (lines.length < 3) return false;
+  const logLike = lines.filter((line) => findTimestamp(line) || findLevel(line) || findCodes(line).length).length;
+  return logLike / lines.length >= 0.5;
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview The library of known IDMC error signatures and matching log events against it.
+ * The built-in signatures live in error-signatures.json; teams can add their own (or override
+ * a built-in one by id) with a JSON file of the same shape at `IDMC_ERROR_SIGNATURES`.
+ *
+ * - ErrorSignature - One known error: how to recognize it, its usual cause and the fix.
+ * - errorSignatures - The built-in and custom signatures.
+ * - matchSignatures - Signatures that match a parsed log, with the events that matched each.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import builtInSignatures from './error-signatures.json';
+import { isProblem, type LogEvent } from './parser';
+
+export interface ErrorSignature {
+  id: string;
+  title: string;
+  category: string;
+  /** Message or database codes that identify the error on their own, e.g. ORA-00942. */
+  codes?: string[];
+  /** Case-insensitive regular expressions over an event's text. */
+  patterns: string[];
+  rootCause: string;
+  remediation: string[];
+  /** Documentation links for the error. */
+  docs?: string[];
+}
+
+export interface SignatureMatch {
+  signature: ErrorSignature;
+  events: LogEvent[];
+}
+
+const MAX_EVENTS_PER_MATCH = 5;
+
+function readCustomSignatures(): ErrorSignature[] {
+  const file = process.env.IDMC_ERROR_SIGNATURES;
+  if (!file) return [];
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read error signatures at ${file}: ${(error as Error).message}`);
+  }
+}
+
+const signatures: ErrorSignature[] = (() => {
+  const byId = new Map<string, ErrorSignature>();
+  for (const signature of [...(builtInSignatures as ErrorSignature[]), ...readCustomSignatures()]) {
+    byId.set(signature.id, signature);
+  }
+  return [...byId.values()];
+})();
+
+const compiled = new Map(signatures.map((s) => [s.id, s.patterns.map((pattern) => new RegExp(pattern, 'i'))]));
+
+export function errorSignatures(): ErrorSignature[] {
+  return signatures;
+}
+
+function matches(signature: ErrorSignature, event: LogEvent): boolean {
+  if (signature.codes?.some((code) => event.codes.includes(code))) return true;
+  return compiled.get(signature.id)!.some((pattern) => pattern.test(event.text));
+}
+
+/**
+ * Signatures found in the log, most specific first: signatures matched by a code outrank
+ * pattern-only ones, then more matching events outrank fewer. Only problem events are
+ * considered, unless the log has none (some agents log failures at INFO).
+ */
+export function matchSignatures(events: LogEvent[]): SignatureMatch[] {
+  const problems = events.filter(isProblem);
+  const candidates = problems.length ? problems : events;
+  const found: (SignatureMatch & { byCode: boolean; count: number })[] = [];
+  for (const signature of signatures) {
+    const matched = candidates.filter((event) => matches(signature, event));
+    if (!matched.length) continue;
+    found.push({
+      signature,
+      events: matched.slice(0, MAX_EVENTS_PER_MATCH),
+      byCode: matched.some((event) => signature.codes?.some((code) => event.codes.includes(code))),
+      count: matched.length,
+    });
+  }
+  return found
+    .sort((a, b) => Number(b.byCode) - Number(a.byCode) || b.count - a.count)
+    .map(({ signature, events }) => ({ signature, events }));
+}
@@ -0,0 +1,188 @@
+/**
+ * @fileOverview Proposed IDMC mapping designs generated from a mapping specification, and the
+ * checks that hold a design against the spec it came from.
+ *
+ * - MappingDesignDraftSchema - What the model is asked to produce: transformations and field expressions.
+ * - MappingDesignSchema - The design returned to the chat, with its validation report.
+ * - buildMappingDesign - Orders the transformations by data flow and validates the design against the spec.
+ */
+
+import { z } from 'genkit';
+import { findSpecIssues, qualified, specLocation, type MappingSpec } from './spec';
+
+export const TRANSFORMATION_TYPES = [
+  'Source',
+  'Filter',
+  'Expression',
+  'Lookup',
+  'Joiner',
+  'Aggregator',
+  'Router',
+  'Sorter',
+  'Union',
+  'Normalizer',
+  'Rank',
+  'Sequence Generator',
+  'Target',
+] as const;
+
+const TransformationSchema = z.object({
+  name: z.string().describe('Transformation name as it would appear in the mapping, e.g. "exp_DeriveCustomer".'),
+  type: z.enum(TRANSFORMATION_TYPES),
+  inputs: z.array(z.string()).describe('Names of the transformations feeding this one; empty for sources.'),
+  description: z.string().describe('What it does and why, in one or two sentences.'),
+  properties: z
+    .array(z.object({ name: z.string(), value: z.string() }))
+    .describe('Key settings: source object, filter condition, lookup condition, join condition, group by, target operation.'),
+});
+
+const FieldMappingSchema = z.object({
+  target: z.string().describe('Target column as TABLE.FIELD.'),
+  transformation: z.string().describe('Name of the transformation that derives it.'),
+  expression: z.string().describe('IDMC expression language for the value, e.g. "LTRIM(RTRIM(in_CUST_NAME))".'),
+  sources: z.array(z.string()).describe('Source columns used, as TABLE.FIELD.'),
+  datatype: z.string().optional(),
+});
+
+export const ValidationIssueSchema = z.object({
+  severity: z.enum(['error', 'warning', 'info']),
+  kind: z.enum(['unmapped', 'ambiguous', 'conflict', 'design']),
+  column: z.string().optional().describe('TABLE.FIELD of the column concerned.'),
+  location: z.string().optional().describe('"Sheet!row" of the spec rows concerned.'),
+  message: z.string(),
+});
+export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+
+export const MappingDesignDraftSchema = z.object({
+  name: z.string().describe('Mapping name, e.g. "m_CRM_to_DW_Customer".'),
+  summary: z.string().describe('What the mapping does, in two or three sentences.'),
+  transformations: z.array(TransformationSchema).describe('In data flow order, from Source to Target.'),
+  fields: z.array(FieldMappingSchema).describe('One entry per target column.'),
+  openQuestions: z
+    .array(z.object({ column: z.string().optional(), question: z.string() }))
+    .describe('Spec rows whose intent is unclear, phrased as questions for the spec author.'),
+});
+export type MappingDesignDraft = z.infer<typeof MappingDesignDraftSchema>;
+
+export const MappingDesignSchema = MappingDesignDraftSchema.omit({ openQuestions: true }).extend({
+  spec: z.object({ file: z.string(), sheets: z.array(z.string()), rows: z.number() }),
+  validation: z.array(ValidationIssueSchema).describe('Unmapped, ambiguous or conflicting columns and design problems.'),
+});
+export type MappingDesign = z.infer<typeof MappingDesignSchema>;
+
+type Transformation = z.infer<typeof TransformationSchema>;
+
+/**
+ * Stable topological order by `inputs`: the model's order is kept where the data flow allows.
+ * Transformations caught in a cycle are appended as given and reported.
+ */
+function orderTransformations(transformations: Transformation[], issues: ValidationIssue[]): Transformation[] {
+  const names = new Set(transformations.map((t) => t.name));
+  const placed = new Set<string>();
+  const ordered: Transformation[] = [];
+  let remaining = transformations;
+  while (remaining.length) {
+    const next = remaining.find((t) => t.inputs.every((input) => placed.has(input) || !names.has(input)));
+    if (!next) {
+      issues.push({
+        severity: 'error',
+        kind: 'design',
+        message: `The data flow between ${remaining.map((t) => t.name).join(', ')} has a cycle.`,
+      });
+      return [...ordered, ...remaining];
+    }
+    ordered.push(next);
+    placed.add(next.name);
+    remaining = remaining.filter((t) => t !== next);
+  }
+  return ordered;
+}
+
+/** Unbalanced parentheses or quotes; the full syntax check is left to the mapping designer. */
+function looksIncomplete(expression: string): boolean {
+  let depth = 0;
+  let quote: string | undefined;
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') quote = char;
+    else if (char === '(') depth++;
+    else if (char === ')' && --depth < 0) return true;
+  }
+  return depth !== 0 || quote !== undefined;
+}
+
+function checkDesign(spec: MappingSpec, draft: MappingDesignDraft, transformations: Transformation[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const names = new Set(transformations.map((t) => t.name));
+  // Targets may be given with or without their table; match on both.
+  const designed = new Set(draft.fields.flatMap((field) => [field.target.toLowerCase(), field.target.split('.').pop()!.toLowerCase()]));
+  const specTargets = new Set(spec.rows.flatMap((row) => (row.targetField ? [qualified(row.targetTable, row.targetField).toLowerCase(), row.targetField.toLowerCase()] : [])));
+
+  if (transformations[0]?.type !== 'Source') {
+    issues.push({ severity: 'error', kind: 'design', message: 'The mapping does not start with a Source transformation.' });
+  }
+  if (!transformations.some((t) => t.type === 'Target')) {
+    issues.push({ severity: 'error', kind: 'design', message: 'The mapping has no Target transformation.' });
+  }
+  for (const t of transformations) {
+    for (const input of t.inputs.filter((input) => !names.has(input))) {
+      issues.push({ severity: 'error', kind: 'design', message: `${t.name} reads from ${input}, which is not in the mapping.` });
+    }
+    if (t.type !== 'Source' && !t.inputs.length) {
+      issues.push({ severity: 'warning', kind: 'design', message: `${t.name} has no input.` });
+    }
+  }
+
+  const reported = new Set<string>();
+  for (const row of spec.rows) {
+    if (!row.targetField || (!row.sourceField && !row.rule)) continue;
+    const target = qualified(row.targetTable, row.targetField);
+    if (reported.has(target.toLowerCase()) || designed.has(target.toLowerCase()) || designed.has(row.targetField.toLowerCase())) continue;
+    reported.add(target.toLowerCase());
+    issues.push({
+      severity: 'error',
+      kind: 'unmapped',
+      column: target,
+      location: specLocation(row),
+      message: `${target} is in the spec but the design does not populate it.`,
+    });
+  }
+
+  for (const field of draft.fields) {
+    if (spec.rows.length && !specTargets.has(field.target.toLowerCase()) && !specTargets.has(field.target.split('.').pop()!.toLowerCase())) {
+      issues.push({ severity: 'info', kind: 'design', column: field.target, message: `${field.target} is not in the spec; the design added it.` });
+    }
+    if (!names.has(field.transformation)) {
+      issues.push({ severity: 'warning', kind: 'design', column: field.target, message: `${field.target} is derived in ${field.transformation}, which is not in the mapping.` });
+    }
+    if (looksIncomplete(field.expression)) {
+      issues.push({ severity: 'warning', kind: 'design', column: field.target, message: `The expression for ${field.target} has unbalanced parentheses or quotes.` });
+    }
+  }
+  return issues;
+}
+
+export function buildMappingDesign(spec: MappingSpec, draft: MappingDesignDraft): MappingDesign {
+  const issues: ValidationIssue[] = [];
+  const transformations = orderTransformations(draft.transformations, issues);
+  const specIssues = findSpecIssues(spec);
+  issues.push(...specIssues, ...checkDesign(spec, draft, transformations));
+
+  // The model's open questions, unless the spec checks already flagged the column.
+  const flagged = new Set(specIssues.filter((i) => i.kind === 'ambiguous').map((i) => i.column?.toLowerCase()));
+  for (const { column, question } of draft.openQuestions) {
+    if (column && flagged.has(column.toLowerCase())) continue;
+    issues.push({ severity: 'warning', kind: 'ambiguous', column, message: question });
+  }
+
+  const order = { error: 0, warning: 1, info: 2 };
+  return {
+    name: draft.name,
+    summary: draft.summary,
+    transformations,
+    fields: draft.fields,
+    spec: { file: spec.file, sheets: spec.sheets.map((sheet) => sheet.name), rows: spec.rows.length },
+    validation: issues.sort((a, b) => order[a.severity] - order[b.severity]),
+  };
+}
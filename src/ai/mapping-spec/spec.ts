@@ -0,0 +1,203 @@
+/**
+ * @fileOverview Reads source-to-target mapping specifications from spreadsheets (.xlsx, .xls, .csv).
+ *
+ * Specs come in many layouts, so columns are recognized by their header text ("Source Table",
+ * "Src Column", "Target Field", "Transformation Rule", ...) and the header row may sit below a
+ * title block. Every sheet with a recognizable header contributes rows; other sheets (cover
+ * pages, change logs) are skipped.
+ *
+ * - parseMappingSpec - Reads the mapping rows of every sheet that looks like a spec.
+ * - findSpecIssues - Unmapped, ambiguous and conflicting rows, found without the model.
+ * - describeMappingSpec - The spec as compact text for a prompt.
+ */
+
+import * as xlsx from 'xlsx';
+import type { ValidationIssue } from './design';
+
+export type SpecField = 'sourceTable' | 'sourceField' | 'targetTable' | 'targetField' | 'targetType' | 'rule' | 'notes';
+
+export interface SpecRow {
+  sheet: string;
+  /** 1-based sheet row number. */
+  row: number;
+  sourceTable?: string;
+  sourceField?: string;
+  targetTable?: string;
+  targetField?: string;
+  targetType?: string;
+  rule?: string;
+  notes?: string;
+}
+
+export interface MappingSpec {
+  file: string;
+  /** Sheets the rows were read from, with the header each column was recognized by. */
+  sheets: { name: string; columns: Partial<Record<SpecField, string>> }[];
+  rows: SpecRow[];
+}
+
+/** Header patterns, tried in order; the first unclaimed match wins. */
+const HEADERS: [SpecField, RegExp][] = [
+  ['sourceTable', /^(source|src)[\s_-]*(table|object|entity|file|system|view)s?(\s*name)?$/i],
+  ['sourceField', /^(source|src)[\s_-]*(field|column|col|attribute|element|port)s?(\s*name)?$/i],
+  ['targetTable', /^(target|tgt|destination)[\s_-]*(table|object|entity|file|view)s?(\s*name)?$/i],
+  ['targetField', /^(target|tgt|destination)[\s_-]*(field|column|col|attribute|element|port)s?(\s*name)?$/i],
+  ['targetType', /^((target|tgt)[\s_-]*)?(data[\s_-]*type|datatype|type|format)(\s*\/\s*length)?$/i],
+  ['rule', /transformation|rule|logic|derivation|business[\s_-]*rule|mapping[\s_-]*(rule|logic)|expression/i],
+  ['notes', /note|comment|remark|description|question/i],
+];
+
+const HEADER_SEARCH_ROWS = 15;
+
+/** Words that mark a rule as undecided. */
+const AMBIGUOUS = /\b(tbd|tbc|to be (confirmed|decided|defined)|check with|confirm with|pending|unclear|unknown|not sure|clarify)\b|\?\s*$|\?\?/i;
+/** Rules that say a target gets no value. */
+const NO_VALUE = /^(n\/?a|none|not mapped|unmapped|no mapping|-+)$/i;
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().replace('T00:00:00.000Z', '');
+  return String(value).trim();
+}
+
+function matchHeader(row: string[]): Map<number, SpecField> {
+  const columns = new Map<number, SpecField>();
+  const claimed = new Set<SpecField>();
+  row.forEach((text, i) => {
+    const name = text.replace(/\s+/g, ' ');
+    if (!name) return;
+    const field = HEADERS.find(([field, pattern]) => !claimed.has(field) && pattern.test(name))?.[0];
+    if (!field) return;
+    columns.set(i, field);
+    claimed.add(field);
+  });
+  return columns;
+}
+
+/** A header names at least a target column and either a source column or a rule. */
+function isSpecHeader(columns: Map<number, SpecField>): boolean {
+  const fields = new Set(columns.values());
+  return fields.has('targetField') && (fields.has('sourceField') || fields.has('rule'));
+}
+
+export function parseMappingSpec(file: string, buffer: Buffer): MappingSpec {
+  const workbook = xlsx.read(buffer, { type: 'buffer', cellDates: true });
+  const spec: MappingSpec = { file, sheets: [], rows: [] };
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    const range = sheet['!ref'] ? xlsx.utils.decode_range(sheet['!ref']) : undefined;
+    const firstRowNumber = (range?.s.r ?? 0) + 1;
+    const rows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, blankrows: true, defval: null });
+
+    const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex((row) => isSpecHeader(matchHeader(row.map(cellText))));
+    if (headerIndex < 0) continue;
+    const header = rows[headerIndex].map(cellText);
+    const columns = matchHeader(header);
+    spec.sheets.push({
+      name: sheetName,
+      columns: Object.fromEntries([...columns].map(([i, field]) => [field, header[i]])),
+    });
+
+    // Specs often name the table once and leave it blank on the rows below.
+    let sourceTable: string | undefined;
+    let targetTable: string | undefined;
+    rows.slice(headerIndex + 1).forEach((cells, i) => {
+      const row: SpecRow = { sheet: sheetName, row: firstRowNumber + headerIndex + 1 + i };
+      for (const [column, field] of columns) {
+        const text = cellText(cells[column]);
+        if (text) row[field] = text;
+      }
+      if (row.sourceTable) sourceTable = row.sourceTable;
+      if (row.targetTable) targetTable = row.targetTable;
+      if (!row.sourceField && !row.targetField && !row.rule) return;
+      if (!row.sourceTable && row.sourceField) row.sourceTable = sourceTable;
+      if (!row.targetTable && row.targetField) row.targetTable = targetTable;
+      spec.rows.push(row);
+    });
+  }
+  return spec;
+}
+
+export function qualified(table: string | undefined, field: string | undefined): string {
+  return [table, field].filter(Boolean).join('.');
+}
+
+export function specLocation(row: SpecRow): string {
+  return `${row.sheet}!${row.row}`;
+}
+
+export function findSpecIssues(spec: MappingSpec): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const byTarget = new Map<string, SpecRow[]>();
+
+  for (const row of spec.rows) {
+    const target = qualified(row.targetTable, row.targetField);
+    const source = qualified(row.sourceTable, row.sourceField);
+    const location = specLocation(row);
+    if (!row.targetField) {
+      issues.push({
+        severity: 'warning',
+        kind: 'unmapped',
+        column: source || undefined,
+        location,
+        message: `${source || 'This row'} has no target column.`,
+      });
+      continue;
+    }
+    const key = target.toLowerCase();
+    byTarget.set(key, [...(byTarget.get(key) ?? []), row]);
+    if (!row.sourceField && (!row.rule || NO_VALUE.test(row.rule))) {
+      issues.push({
+        severity: 'error',
+        kind: 'unmapped',
+        column: target,
+        location,
+        message: `${target} has neither a source column nor a rule.`,
+      });
+    }
+    const undecided = [row.rule, row.notes].find((text) => text && AMBIGUOUS.test(text));
+    if (undecided) {
+      issues.push({
+        severity: 'warning',
+        kind: 'ambiguous',
+        column: target,
+        location,
+        message: `The rule for ${target} is not settled: "${undecided.slice(0, 120)}".`,
+      });
+    }
+  }
+
+  for (const rows of byTarget.values()) {
+    const sources = new Set(rows.map((row) => qualified(row.sourceTable, row.sourceField).toLowerCase()));
+    if (rows.length > 1 && sources.size > 1) {
+      const target = qualified(rows[0].targetTable, rows[0].targetField);
+      issues.push({
+        // Rows that all carry a rule are usually one derivation from several inputs.
+        severity: rows.every((row) => row.rule) ? 'info' : 'warning',
+        kind: 'conflict',
+        column: target,
+        location: rows.map(specLocation).join(', '),
+        message: `${target} is mapped ${rows.length} times, from ${rows.map((row) => qualified(row.sourceTable, row.sourceField) || 'a rule').join(', ')}.`,
+      });
+    }
+  }
+  return issues;
+}
+
+/** One line per spec row: "[Sheet!12] SRC.COL -> TGT.COL (type) | rule: ... | notes: ...". */
+export function describeMappingSpec(spec: MappingSpec, maxRows: number): string {
+  const lines = spec.rows.slice(0, maxRows).map((row) => {
+    const source = qualified(row.sourceTable, row.sourceField) || '(no source)';
+    const target = qualified(row.targetTable, row.targetField) || '(no target)';
+    return [
+      `[${specLocation(row)}] ${source} -> ${target}${row.targetType ? ` (${row.targetType})` : ''}`,
+      row.rule && `rule: ${row.rule}`,
+      row.notes && `notes: ${row.notes}`,
+    ]
+      .filter(Boolean)
+      .join(' | ');
+  });
+  if (spec.rows.length > maxRows) lines.push(`... ${spec.rows.length - maxRows} more rows not shown.`);
+  return lines.join('\n');
+}
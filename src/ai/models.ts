@@ -0,0 +1,215 @@
+/**
+ * @fileOverview Model provider registry. Decides which model serves each prompt role and
+ * which Genkit plugins need to be loaded for that, so the app can run against Gemini, any
+ * OpenAI-compatible endpoint, a local Ollama server or the deterministic fake model.
+ *
+ * Model names carry their provider as a prefix:
+ * - `googleai/<model>` - Gemini via the Google AI plugin (needs GEMINI_API_KEY or GOOGLE_API_KEY).
+ * - `openai-compat/<model>` - An OpenAI-compatible endpoint (IDMC_OPENAI_BASE_URL, IDMC_OPENAI_API_KEY).
+ * - `ollama/<model>` - A local Ollama server (OLLAMA_SERVER_ADDRESS, default http://127.0.0.1:11434).
+ * - `fake/idmc` - Deterministic offline model for tests (see providers/fake.ts).
+ * - `recorded/<model>` - Replays recorded responses of `<model>` for offline evaluation (see providers/recorded.ts).
+ *
+ * Each role resolves, in order: `IDMC_MODEL_<ROLE>` env var, the role in the config file,
+ * `IDMC_MODEL` env var, the config file's `default`, then the built-in default below
+ * (or, for roles without one, whatever the `default` role resolved to).
+ * The config file is `idmc-models.json` in the working directory, or `IDMC_MODELS_CONFIG`.
+ * `IDMC_MODEL_OVERRIDE` trumps all of these and also replaces every panel model, so a whole run
+ * can be pointed at one model (see `npm run eval`).
+ *
+ * The documentation index is embedded with `IDMC_EMBEDDER`, else the config file's `embedder`,
+ * else the embedder of the default role's provider (`none` or an unknown provider: BM25 only).
+ *
+ * Comprehensive mode additionally fans out to a panel of models (see `comprehensivePanel`),
+ * configured with `IDMC_PANEL` (comma-separated model names) or the config file's `panel`.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { GenkitPlugin, GenkitPluginV2 } from 'genkit/plugin';
+import { googleAI } from '@genkit-ai/google-genai';
+import { openAICompatible } from '@genkit-ai/compat-oai';
+import { ollama } from 'genkitx-ollama';
+import { FAKE_EMBEDDER, fakeProvider } from '@/ai/providers/fake';
+import { RECORDED_PREFIX, recordedProvider, recordedTarget } from '@/ai/providers/recorded';
+
+export const MODEL_ROLES = ['default', 'overview', 'detailed', 'synthesis', 'attachment', 'contextual', 'troubleshooting', 'design', 'expression', 'agent'] as const;
+export type ModelRole = (typeof MODEL_ROLES)[number];
+
+/** How a panel member is prompted: a concise overview, or a detailed answer with documentation tools. */
+export type PanelStyle = 'overview' | 'detailed';
+
+/** One model taking part in comprehensive-mode orchestration. */
+export interface PanelMember {
+  id: string;
+  label: string;
+  model: string;
+  style: PanelStyle;
+}
+
+interface ModelsConfigFile {
+  default?: string;
+  roles?: Partial<Record<ModelRole, string>>;
+  panel?: { id?: string; label?: string; model: string; style?: PanelStyle }[];
+  embedder?: string;
+  openai?: { baseURL?: string; apiKey?: string };
+  ollama?: { serverAddress?: string; embedders?: { name: string; dimensions: number }[] };
+}
+
+/**
+ * Built-in choices, used when nothing is configured: a fast model for overviews, a capable
+ * one for depth. Roles without an entry fall back to the default role.
+ */
+const BUILT_IN_DEFAULTS: Partial<Record<ModelRole, string>> = {
+  default: 'googleai/gemini-2.5-flash',
+  overview: 'googleai/gemini-1.5-flash',
+  detailed: 'googleai/gemini-1.5-pro',
+  synthesis: 'googleai/gemini-1.5-pro',
+};
+
+const BUILT_IN_EMBEDDER = 'googleai/gemini-embedding-001';
+
+function readConfigFile(): ModelsConfigFile {
+  const configPath = path.resolve(process.env.IDMC_MODELS_CONFIG || 'idmc-models.json');
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !process.env.IDMC_MODELS_CONFIG) return {};
+    throw new Error(`Could not read model config at ${configPath}: ${(error as Error).message}`);
+  }
+}
+
+const configFile = readConfigFile();
+
+const modelOverride = process.env.IDMC_MODEL_OVERRIDE;
+
+function resolveRole(role: ModelRole): string {
+  return (
+    modelOverride ||
+    process.env[`IDMC_MODEL_${role.toUpperCase()}`] ||
+    configFile.roles?.[role] ||
+    process.env.IDMC_MODEL ||
+    configFile.default ||
+    BUILT_IN_DEFAULTS[role] ||
+    resolveRole('default')
+  );
+}
+
+const roleModels = Object.fromEntries(MODEL_ROLES.map((role) => [role, resolveRole(role)])) as Record<
+  ModelRole,
+  string
+>;
+
+function labelFor(model: string): string {
+  const [provider, ...rest] = model.split('/');
+  return `${rest.join('/') || provider} (${provider})`;
+}
+
+function resolvePanel(): PanelMember[] {
+  let members: { id?: string; label?: string; model: string; style?: PanelStyle }[];
+  if (process.env.IDMC_PANEL) {
+    members = process.env.IDMC_PANEL.split(',')
+      .map((model) => model.trim())
+      .filter(Boolean)
+      .map((model) => ({ model }));
+  } else if (configFile.panel?.length) {
+    members = configFile.panel;
+  } else {
+    // Without explicit configuration the panel is the original overview/detailed pair.
+    members = [
+      { id: 'overview', model: roleModels.overview, style: 'overview' },
+      { id: 'detailed', model: roleModels.detailed, style: 'detailed' },
+    ];
+  }
+
+  const seen = new Map<string, number>();
+  return members.map((member) => {
+    const base = (member.id || member.model.split('/').pop() || 'model').replace(/[^\w.-]+/g, '-');
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return {
+      id: count > 1 ? `${base}-${count}` : base,
+      label: modelOverride ? labelFor(modelOverride) : member.label || labelFor(member.model),
+      model: modelOverride || member.model,
+      style: member.style ?? 'detailed',
+    };
+  });
+}
+
+const panel = resolvePanel();
+
+/** Models consulted in comprehensive mode, in configuration order. */
+export function comprehensivePanel(): PanelMember[] {
+  return panel;
+}
+
+/**
+ * The embedder of the provider serving the default role, so an offline setup stays offline.
+ * Providers without a known embedder get a BM25-only index.
+ */
+function defaultEmbedder(): string | null {
+  const provider = recordedTarget(roleModels.default).split('/')[0];
+  if (provider === 'googleai') return BUILT_IN_EMBEDDER;
+  if (provider === 'fake') return FAKE_EMBEDDER;
+  const ollamaEmbedder = configFile.ollama?.embedders?.[0];
+  if (provider === 'ollama' && ollamaEmbedder) return `ollama/${ollamaEmbedder.name}`;
+  return null;
+}
+
+function resolveEmbedder(): string | null {
+  const configured = process.env.IDMC_EMBEDDER || configFile.embedder;
+  if (configured === 'none') return null;
+  return configured || defaultEmbedder();
+}
+
+/** Embedder used for the documentation index, or null for lexical (BM25) retrieval only. */
+export const embedderName: string | null = resolveEmbedder();
+
+/** The model that serves `role`, as a fully qualified Genkit model name. */
+export function modelFor(role: ModelRole): string {
+  return roleModels[role];
+}
+
+/** Genkit plugins needed for the configured models; providers nobody uses are not loaded. */
+export function modelPlugins(): (GenkitPlugin | GenkitPluginV2)[] {
+  const configured = [...Object.values(roleModels), ...panel.map((member) => member.model)];
+  // A recorded model needs the provider of the model it records from.
+  const chatModels = configured.map(recordedTarget);
+  const names = embedderName ? [...chatModels, embedderName] : chatModels;
+  const uses = (prefix: string) => names.some((name) => name.startsWith(`${prefix}/`));
+  const plugins: (GenkitPlugin | GenkitPluginV2)[] = [fakeProvider()];
+
+  const recorded = [...new Set(configured.filter((name) => name.startsWith(RECORDED_PREFIX)))];
+  if (recorded.length) {
+    plugins.push(recordedProvider(recorded));
+  }
+
+  if (uses('googleai')) {
+    plugins.push(googleAI());
+  }
+
+  if (uses('openai-compat')) {
+    plugins.push(
+      openAICompatible({
+        name: 'openai-compat',
+        baseURL: process.env.IDMC_OPENAI_BASE_URL || configFile.openai?.baseURL || 'http://127.0.0.1:8000/v1',
+        // Local servers usually ignore the key; the client just needs something to send.
+        apiKey: process.env.IDMC_OPENAI_API_KEY || configFile.openai?.apiKey || false,
+      })
+    );
+  }
+
+  if (uses('ollama')) {
+    const ollamaModels = [...new Set(chatModels.filter((name) => name.startsWith('ollama/')))];
+    plugins.push(
+      ollama({
+        serverAddress:
+          process.env.OLLAMA_SERVER_ADDRESS || configFile.ollama?.serverAddress || 'http://127.0.0.1:11434',
+        models: ollamaModels.map((name) => ({ name: name.slice('ollama/'.length), type: 'chat' as const })),
+        embedders: configFile.ollama?.embedders,
+      })
+    );
+  }
+
+  return plugins;
+}
@@ -0,0 +1,293 @@
+/**
+ * @fileOverview Migration assessment of PowerCenter objects for IDMC Cloud Data Integration.
+ *
+ * Every mapping, mapplet, session, workflow and worklet gets findings for what makes it harder
+ * to migrate: transformations CDI has no equivalent for or that need rework, workflow tasks
+ * without a taskflow step, custom SQL, mapplets, parameter files, shell commands, and size.
+ * Findings carry points, and the total decides the object's complexity: any unsupported
+ * transformation makes an object complex.
+ *
+ * - MigrationAssessmentSchema - The assessment report.
+ * - assessMigration - Assesses the objects of one or more exports.
+ * - describeMigrationAssessment - The report as bounded text for prompts.
+ */
+
+import { z } from 'genkit';
+import { SQL_ATTRIBUTES, type PcMapping, type PcSession, type PcWorkflow, type PowerCenterExport } from './repository';
+
+export const OBJECT_KINDS = ['mapping', 'mapplet', 'session', 'workflow', 'worklet'] as const;
+export const COMPLEXITIES = ['simple', 'medium', 'complex'] as const;
+export const FINDING_KINDS = [
+  'unsupported-transformation',
+  'rework-transformation',
+  'rework-task',
+  'custom-sql',
+  'mapplet',
+  'parameters',
+  'command',
+  'size',
+] as const;
+type FindingKind = (typeof FINDING_KINDS)[number];
+type Complexity = (typeof COMPLEXITIES)[number];
+type Support = 'supported' | 'rework' | 'unsupported';
+
+const FindingSchema = z.object({
+  kind: z.enum(FINDING_KINDS),
+  detail: z.string(),
+  /** The transformation or task the finding is about. */
+  subject: z.string().optional(),
+});
+
+const AssessedObjectSchema = z.object({
+  kind: z.enum(OBJECT_KINDS),
+  folder: z.string(),
+  name: z.string(),
+  complexity: z.enum(COMPLEXITIES),
+  score: z.number(),
+  findings: z.array(FindingSchema),
+  /** The mapping a session runs, or the sessions and worklets a workflow runs. */
+  uses: z.array(z.string()),
+});
+
+export const MigrationAssessmentSchema = z.object({
+  files: z.array(z.string()),
+  folders: z.array(z.string()),
+  counts: z.array(
+    z.object({ kind: z.enum(OBJECT_KINDS), total: z.number(), simple: z.number(), medium: z.number(), complex: z.number() })
+  ),
+  findingCounts: z.array(z.object({ kind: z.enum(FINDING_KINDS), objects: z.number() })).describe('Objects with each kind of finding.'),
+  transformations: z.array(
+    z.object({
+      type: z.string(),
+      count: z.number(),
+      support: z.enum(['supported', 'rework', 'unsupported']),
+      idmc: z.string().describe('The CDI equivalent, or what to do instead.'),
+    })
+  ),
+  objects: z.array(AssessedObjectSchema).describe('Every assessed object, most complex first.'),
+  warnings: z.array(z.string()),
+});
+export type MigrationAssessment = z.infer<typeof MigrationAssessmentSchema>;
+type AssessedObject = z.infer<typeof AssessedObjectSchema>;
+type Finding = z.infer<typeof FindingSchema>;
+
+/** PowerCenter transformation types and how they carry over to CDI. Unlisted types need a manual look. */
+const TRANSFORMATION_SUPPORT: Record<string, [Support, string]> = {
+  'source definition': ['supported', 'Source'],
+  'target definition': ['supported', 'Target'],
+  'source qualifier': ['supported', 'Source (query options, filter and sort move to the Source)'],
+  expression: ['supported', 'Expression'],
+  filter: ['supported', 'Filter'],
+  aggregator: ['supported', 'Aggregator'],
+  joiner: ['supported', 'Joiner'],
+  'lookup procedure': ['supported', 'Lookup'],
+  router: ['supported', 'Router'],
+  sorter: ['supported', 'Sorter'],
+  rank: ['supported', 'Rank'],
+  sequence: ['supported', 'Sequence Generator'],
+  'union transformation': ['supported', 'Union'],
+  normalizer: ['supported', 'Normalizer'],
+  java: ['supported', 'Java'],
+  sql: ['supported', 'SQL'],
+  'data masking': ['supported', 'Data Masking'],
+  mapplet: ['supported', 'Mapplet (migrated separately)'],
+  'input transformation': ['supported', 'Mapplet Input'],
+  'output transformation': ['supported', 'Mapplet Output'],
+  'update strategy': ['rework', 'Target operation "Data Driven" with the update strategy expression'],
+  'stored procedure': ['rework', 'SQL transformation calling the procedure'],
+  'xml source qualifier': ['rework', 'Hierarchy Parser or a hierarchical source'],
+  'xml parser': ['rework', 'Hierarchy Parser'],
+  'xml generator': ['rework', 'Hierarchy Builder'],
+  'application source qualifier': ['rework', 'Source on the application connector (SAP, Salesforce...)'],
+  'app multi-group source qualifier': ['rework', 'Source on the application connector'],
+  'mq source qualifier': ['rework', 'Source on the messaging connector'],
+  'web services consumer': ['rework', 'Web Services transformation with a business service'],
+  http: ['rework', 'Web Services transformation or a REST V2 connection'],
+  'unstructured data': ['rework', 'Structure Parser'],
+  'transaction control': ['unsupported', 'No CDI equivalent; move commit logic to the target or a taskflow'],
+  'custom transformation': ['unsupported', 'No CDI equivalent; rewrite as Java, SQL or an Expression'],
+  'external procedure': ['unsupported', 'No CDI equivalent; rewrite as Java or call a service'],
+};
+
+/** Workflow tasks that have no direct taskflow step. */
+const TASK_REWORK: Record<string, string> = {
+  'event wait': 'Event Wait becomes a file listener or a Wait step in the taskflow.',
+  'event raise': 'Event Raise has no taskflow step; signal through a file or a subtaskflow.',
+  control: 'Control tasks become Throw or End steps in the taskflow.',
+};
+
+const POINTS: Record<FindingKind, number> = {
+  'unsupported-transformation': 5,
+  'rework-transformation': 2,
+  'rework-task': 2,
+  'custom-sql': 1,
+  mapplet: 2,
+  parameters: 1,
+  command: 1,
+  size: 1,
+};
+
+/** Custom SQL counts at most this many times towards an object's score. */
+const MAX_SQL_POINTS = 3;
+
+function support(type: string): [Support, string] {
+  return TRANSFORMATION_SUPPORT[type.toLowerCase()] ?? ['rework', `No known CDI equivalent for ${type}; review manually`];
+}
+
+function score(findings: Finding[]): { score: number; complexity: Complexity } {
+  let sql = 0;
+  let total = 0;
+  for (const finding of findings) {
+    if (finding.kind === 'custom-sql') sql += POINTS['custom-sql'];
+    else total += POINTS[finding.kind];
+  }
+  total += Math.min(sql, MAX_SQL_POINTS);
+  const unsupported = findings.some((finding) => finding.kind === 'unsupported-transformation');
+  return { score: total, complexity: unsupported || total >= 5 ? 'complex' : total >= 2 ? 'medium' : 'simple' };
+}
+
+function sqlFinding(subject: string, attribute: string, where = ''): Finding {
+  return { kind: 'custom-sql', subject, detail: `${attribute} on ${subject}${where}; check the SQL against the target database's dialect.` };
+}
+
+function assessMapping(mapping: PcMapping): Finding[] {
+  const findings: Finding[] = [];
+  for (const transformation of mapping.transformations) {
+    const [status, idmc] = support(transformation.type);
+    if (transformation.type.toLowerCase() === 'mapplet') {
+      findings.push({ kind: 'mapplet', subject: transformation.name, detail: `Uses mapplet ${transformation.name}; migrate and validate it first.` });
+    } else if (status === 'unsupported') {
+      findings.push({ kind: 'unsupported-transformation', subject: transformation.name, detail: `${transformation.type} ${transformation.name}: ${idmc}.` });
+    } else if (status === 'rework') {
+      findings.push({ kind: 'rework-transformation', subject: transformation.name, detail: `${transformation.type} ${transformation.name} → ${idmc}.` });
+    }
+    if (transformation.type.toLowerCase() === 'sql' || transformation.type.toLowerCase() === 'stored procedure') {
+      findings.push(sqlFinding(transformation.name, `${transformation.type} transformation`));
+    }
+    for (const [attribute, value] of Object.entries(transformation.attributes)) {
+      if (value.trim() && SQL_ATTRIBUTES.has(attribute.toLowerCase())) findings.push(sqlFinding(transformation.name, attribute));
+    }
+  }
+  if (mapping.parameters.length) {
+    findings.push({
+      kind: 'parameters',
+      detail: `Declares ${mapping.parameters.length} mapping parameter(s) or variable(s): ${mapping.parameters.slice(0, 8).join(', ')}${mapping.parameters.length > 8 ? ', ...' : ''}; they become in-out or input parameters.`,
+    });
+  }
+  const size = mapping.transformations.length;
+  if (size >= 12) {
+    findings.push({ kind: 'size', detail: `${size} transformations; consider splitting it or migrating it in stages.` });
+  }
+  return findings;
+}
+
+function assessSession(session: PcSession): Finding[] {
+  const findings = session.overrides.map((override) => sqlFinding(override.instance, override.attribute, ' (session override)'));
+  if (session.parameterFile) {
+    findings.push({ kind: 'parameters', detail: `Reads parameter file ${session.parameterFile}; convert it to an IDMC parameter file on the Secure Agent.` });
+  }
+  for (const command of session.commands) {
+    findings.push({ kind: 'command', detail: `${command}; move it to a Command step in the taskflow.` });
+  }
+  return findings;
+}
+
+function assessWorkflow(workflow: PcWorkflow): Finding[] {
+  const findings: Finding[] = [];
+  if (workflow.parameterFile) {
+    findings.push({ kind: 'parameters', detail: `Reads parameter file ${workflow.parameterFile}; convert it to an IDMC parameter file on the Secure Agent.` });
+  }
+  for (const task of workflow.tasks) {
+    const type = task.type.toLowerCase();
+    if (type === 'command') {
+      findings.push({ kind: 'command', subject: task.name, detail: `Command task ${task.name}; move its script to a Command step and check it on the Secure Agent host.` });
+    } else if (TASK_REWORK[type]) {
+      findings.push({ kind: 'rework-task', subject: task.name, detail: `${task.name}: ${TASK_REWORK[type]}` });
+    }
+  }
+  const steps = workflow.tasks.filter((task) => task.type.toLowerCase() !== 'start').length;
+  if (steps >= 15) findings.push({ kind: 'size', detail: `${steps} tasks; consider splitting it into subtaskflows.` });
+  return findings;
+}
+
+function assessed(kind: AssessedObject['kind'], folder: string, name: string, findings: Finding[], uses: string[]): AssessedObject {
+  return { kind, folder, name, ...score(findings), findings, uses };
+}
+
+export function assessMigration(exports: PowerCenterExport[]): MigrationAssessment {
+  const objects: AssessedObject[] = [];
+  const typeCounts = new Map<string, number>();
+  for (const exported of exports) {
+    for (const mapping of exported.mappings) {
+      for (const t of mapping.transformations) typeCounts.set(t.type, (typeCounts.get(t.type) ?? 0) + 1);
+      const mapplets = mapping.transformations.filter((t) => t.type.toLowerCase() === 'mapplet').map((t) => t.name);
+      objects.push(assessed(mapping.kind, mapping.folder, mapping.name, assessMapping(mapping), mapplets));
+    }
+    for (const session of exported.sessions) {
+      objects.push(assessed('session', session.folder, session.name, assessSession(session), session.mapping ? [session.mapping] : []));
+    }
+    for (const workflow of exported.workflows) {
+      const runs = workflow.tasks.filter((task) => /^(session|worklet)$/i.test(task.type)).map((task) => task.runs);
+      objects.push(assessed(workflow.kind, workflow.folder, workflow.name, assessWorkflow(workflow), runs));
+    }
+  }
+
+  const rank = (complexity: Complexity) => COMPLEXITIES.indexOf(complexity);
+  objects.sort((a, b) => rank(b.complexity) - rank(a.complexity) || b.score - a.score || a.name.localeCompare(b.name));
+
+  return {
+    files: exports.map((exported) => exported.file),
+    folders: [...new Set(exports.flatMap((exported) => exported.folders))],
+    counts: OBJECT_KINDS.map((kind) => {
+      const ofKind = objects.filter((object) => object.kind === kind);
+      return {
+        kind,
+        total: ofKind.length,
+        simple: ofKind.filter((object) => object.complexity === 'simple').length,
+        medium: ofKind.filter((object) => object.complexity === 'medium').length,
+        complex: ofKind.filter((object) => object.complexity === 'complex').length,
+      };
+    }).filter((count) => count.total > 0),
+    findingCounts: FINDING_KINDS.map((kind) => ({
+      kind,
+      objects: objects.filter((object) => object.findings.some((finding) => finding.kind === kind)).length,
+    })).filter((count) => count.objects > 0),
+    transformations: [...typeCounts]
+      .map(([type, count]) => {
+        const [status, idmc] = support(type);
+        return { type, count, support: status, idmc };
+      })
+      .sort((a, b) => b.count - a.count),
+    objects,
+    warnings: exports.flatMap((exported) => exported.warnings),
+  };
+}
+
+/** Objects described one per line in prompts before the rest is left to the tools. */
+const MAX_DESCRIBED_OBJECTS = Number(process.env.IDMC_MIGRATION_SUMMARY_OBJECTS || 150);
+
+export function describeMigrationAssessment(assessment: MigrationAssessment): string {
+  const lines = [
+    `PowerCenter migration assessment of ${assessment.files.join(', ')} (folders: ${assessment.folders.join(', ') || 'none'}).`,
+    '',
+    'OBJECTS (total: simple / medium / complex):',
+    ...assessment.counts.map((c) => `- ${c.kind}: ${c.total} (${c.simple} / ${c.medium} / ${c.complex})`),
+    '',
+    'OBJECTS WITH EACH KIND OF FINDING:',
+    ...(assessment.findingCounts.length ? assessment.findingCounts.map((c) => `- ${c.kind}: ${c.objects}`) : ['- none']),
+    '',
+    'TRANSFORMATION TYPES (count, CDI support, equivalent):',
+    ...assessment.transformations.map((t) => `- ${t.type}: ${t.count}, ${t.support}, ${t.idmc}`),
+    ...assessment.warnings.map((warning) => `Warning: ${warning}`),
+    '',
+    'PER-OBJECT FINDINGS (most complex first):',
+  ];
+  for (const object of assessment.objects.slice(0, MAX_DESCRIBED_OBJECTS)) {
+    const uses = object.uses.length ? ` uses ${object.uses.join(', ')};` : '';
+    const findings = object.findings.map((finding) => finding.detail).join(' | ') || 'no findings';
+    lines.push(`- [${object.complexity}, score ${object.score}] ${object.kind} ${object.folder}/${object.name}:${uses} ${findings}`);
+  }
+  const rest = assessment.objects.length - MAX_DESCRIBED_OBJECTS;
+  if (rest > 0) lines.push(`(${rest} more objects not listed; use the migration tools to look them up.)`);
+  return lines.join('\n');
+}
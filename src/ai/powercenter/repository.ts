@@ -0,0 +1,219 @@
+/**
+ * @fileOverview Reads PowerCenter repository exports (the XML written by Repository Manager or
+ * `pmrep objectexport`, rooted at POWERMART > REPOSITORY > FOLDER) into the objects a migration
+ * assessment looks at: mappings, mapplets, sessions, and workflows with their worklets.
+ *
+ * Transformations are taken from a mapping's INSTANCE elements, which list every transformation
+ * including reusable ones and mapplets; their attributes come from the matching TRANSFORMATION
+ * definition in the mapping or, for reusable ones, in the folder.
+ *
+ * - PowerCenterExport - The objects found in one export file.
+ * - isPowerCenterExport - Cheap check for whether an upload is a PowerCenter XML export.
+ * - parsePowerCenterExport - Parses an export file.
+ */
+
+import { childElements, descendantElements, parseXml, type XmlElement } from './xml';
+
+export interface PcTransformation {
+  name: string;
+  /** The PowerCenter type as exported, e.g. "Lookup Procedure", "Source Qualifier", "Mapplet". */
+  type: string;
+  reusable: boolean;
+  /** TABLEATTRIBUTE name/value pairs, e.g. "Sql Query", "Lookup Sql Override". */
+  attributes: Record<string, string>;
+}
+
+export interface PcMapping {
+  kind: 'mapping' | 'mapplet';
+  folder: string;
+  name: string;
+  description?: string;
+  transformations: PcTransformation[];
+  /** Mapping parameters and variables ($$Name). */
+  parameters: string[];
+}
+
+export interface PcSessionOverride {
+  /** The transformation instance the session overrides an attribute of. */
+  instance: string;
+  attribute: string;
+  value: string;
+}
+
+export interface PcSession {
+  folder: string;
+  name: string;
+  mapping?: string;
+  parameterFile?: string;
+  /** Session-level overrides of SQL attributes of the mapping's transformations. */
+  overrides: PcSessionOverride[];
+  /** Pre- and post-session shell commands, by component type. */
+  commands: string[];
+}
+
+export interface PcTask {
+  name: string;
+  /** Start, Session, Command, Email, Decision, Assignment, Timer, Event Wait, Event Raise, Control, Worklet. */
+  type: string;
+  /** The task, session or worklet the instance runs. */
+  runs: string;
+}
+
+export interface PcWorkflow {
+  kind: 'workflow' | 'worklet';
+  folder: string;
+  name: string;
+  parameterFile?: string;
+  tasks: PcTask[];
+}
+
+export interface PowerCenterExport {
+  file: string;
+  repository?: string;
+  folders: string[];
+  mappings: PcMapping[];
+  sessions: PcSession[];
+  workflows: PcWorkflow[];
+  warnings: string[];
+}
+
+/** Transformation and session attributes that hold SQL written by a developer. */
+export const SQL_ATTRIBUTES = new Set([
+  'sql query',
+  'user defined join',
+  'pre sql',
+  'post sql',
+  'lookup sql override',
+  'update override',
+  'target update override',
+]);
+
+function attributeMap(element: XmlElement, tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const attribute of childElements(element, tag)) {
+    if (attribute.attributes.NAME) attributes[attribute.attributes.NAME] = attribute.attributes.VALUE ?? '';
+  }
+  return attributes;
+}
+
+function parseMappingElement(
+  element: XmlElement,
+  kind: PcMapping['kind'],
+  folder: string,
+  reusable: Map<string, XmlElement>
+): PcMapping {
+  const local = new Map(childElements(element, 'TRANSFORMATION').map((t) => [t.attributes.NAME, t]));
+  const instances = childElements(element, 'INSTANCE');
+  const transformations: PcTransformation[] = instances.length
+    ? instances.map((instance) => {
+        const definitionName = instance.attributes.TRANSFORMATION_NAME ?? instance.attributes.NAME;
+        const definition = local.get(definitionName) ?? reusable.get(definitionName);
+        return {
+          name: instance.attributes.NAME,
+          type: instance.attributes.TRANSFORMATION_TYPE ?? definition?.attributes.TYPE ?? 'Unknown',
+          reusable: instance.attributes.REUSABLE === 'YES' || (!local.has(definitionName) && reusable.has(definitionName)),
+          attributes: definition ? attributeMap(definition, 'TABLEATTRIBUTE') : {},
+        };
+      })
+    : [...local.values()].map((definition) => ({
+        name: definition.attributes.NAME,
+        type: definition.attributes.TYPE ?? 'Unknown',
+        reusable: definition.attributes.REUSABLE === 'YES',
+        attributes: attributeMap(definition, 'TABLEATTRIBUTE'),
+      }));
+  return {
+    kind,
+    folder,
+    name: element.attributes.NAME,
+    description: element.attributes.DESCRIPTION || undefined,
+    transformations,
+    parameters: childElements(element, 'MAPPINGVARIABLE').map((variable) => variable.attributes.NAME),
+  };
+}
+
+function parseSession(element: XmlElement, folder: string): PcSession {
+  const overrides: PcSessionOverride[] = [];
+  for (const instance of childElements(element, 'SESSTRANSFORMATIONINST')) {
+    for (const [attribute, value] of Object.entries(attributeMap(instance, 'ATTRIBUTE'))) {
+      if (value.trim() && SQL_ATTRIBUTES.has(attribute.toLowerCase())) {
+        overrides.push({ instance: instance.attributes.SINSTANCENAME ?? instance.attributes.TRANSFORMATIONNAME, attribute, value });
+      }
+    }
+  }
+  const commands = childElements(element, 'SESSIONCOMPONENT')
+    .filter((component) => /command/i.test(component.attributes.TYPE ?? ''))
+    .map((component) => component.attributes.TYPE);
+  return {
+    folder,
+    name: element.attributes.NAME,
+    mapping: element.attributes.MAPPINGNAME,
+    parameterFile: attributeMap(element, 'ATTRIBUTE')['Parameter Filename'] || undefined,
+    overrides,
+    commands,
+  };
+}
+
+function parseWorkflow(element: XmlElement, kind: PcWorkflow['kind'], folder: string): PcWorkflow {
+  return {
+    kind,
+    folder,
+    name: element.attributes.NAME,
+    parameterFile: attributeMap(element, 'ATTRIBUTE')['Parameter Filename'] || undefined,
+    tasks: childElements(element, 'TASKINSTANCE').map((task) => ({
+      name: task.attributes.NAME,
+      type: task.attributes.TASKTYPE ?? 'Unknown',
+      runs: task.attributes.TASKNAME ?? task.attributes.NAME,
+    })),
+  };
+}
+
+export function parsePowerCenterExport(fileName: string, text: string): PowerCenterExport {
+  const root = parseXml(text);
+  const repository = root.name === 'POWERMART' ? childElements(root, 'REPOSITORY')[0] : descendantElements(root, 'REPOSITORY')[0];
+  const exported: PowerCenterExport = {
+    file: fileName,
+    repository: repository?.attributes.NAME,
+    folders: [],
+    mappings: [],
+    sessions: [],
+    workflows: [],
+    warnings: [],
+  };
+
+  for (const folder of descendantElements(root, 'FOLDER')) {
+    const folderName = folder.attributes.NAME ?? '';
+    exported.folders.push(folderName);
+    const reusable = new Map(childElements(folder, 'TRANSFORMATION').map((t) => [t.attributes.NAME, t]));
+    for (const mapplet of childElements(folder, 'MAPPLET')) {
+      exported.mappings.push(parseMappingElement(mapplet, 'mapplet', folderName, reusable));
+    }
+    for (const mapping of childElements(folder, 'MAPPING')) {
+      exported.mappings.push(parseMappingElement(mapping, 'mapping', folderName, reusable));
+    }
+    // Non-reusable sessions and worklets are nested inside the workflow that runs them.
+    for (const session of descendantElements(folder, 'SESSION')) exported.sessions.push(parseSession(session, folderName));
+    for (const worklet of descendantElements(folder, 'WORKLET')) exported.workflows.push(parseWorkflow(worklet, 'worklet', folderName));
+    for (const workflow of childElements(folder, 'WORKFLOW')) exported.workflows.push(parseWorkflow(workflow, 'workflow', folderName));
+
+    const shortcuts = childElements(folder, 'SHORTCUT');
+    if (shortcuts.length) {
+      exported.warnings.push(
+        `Folder ${folderName} uses ${shortcuts.length} shortcut(s) to shared objects (${shortcuts
+          .slice(0, 5)
+          .map((s) => s.attributes.REFOBJECTNAME ?? s.attributes.NAME)
+          .join(', ')}${shortcuts.length > 5 ? ', ...' : ''}); export the shared folder too to assess them.`
+      );
+    }
+  }
+  if (!exported.folders.length) exported.warnings.push(`No repository folders were found in ${fileName}.`);
+  else if (!exported.mappings.length && !exported.sessions.length && !exported.workflows.length) {
+    exported.warnings.push(`${fileName} contains no mappings, mapplets, sessions or workflows.`);
+  }
+  return exported;
+}
+
+/** XML files are PowerCenter exports when their root element is POWERMART. */
+export function isPowerCenterExport(fileName: string, mimeType: string, data: Buffer): boolean {
+  if (!/xml/i.test(mimeType) && !/\.xml$/i.test(fileName)) return false;
+  return /<(!DOCTYPE\s+)?POWERMART\b/.test(data.subarray(0, 4096).toString('utf-8'));
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileOverview Genkit tools over the migration assessment of the PowerCenter exports attached
+ * to a request, for questions the prompt's summary does not answer. Created per request.
+ *
+ * - migrationTools - Tools to filter the assessed objects and to describe one object in full.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import { COMPLEXITIES, FINDING_KINDS, OBJECT_KINDS, type MigrationAssessment } from './assessment';
+import type { PowerCenterExport } from './repository';
+
+/** Custom SQL is quoted up to this length. */
+const MAX_SQL_CHARS = 800;
+
+function quoteSql(sql: string): string {
+  const flat = sql.replace(/\s+/g, ' ').trim();
+  return flat.length > MAX_SQL_CHARS ? `${flat.slice(0, MAX_SQL_CHARS)}…` : flat;
+}
+
+function describeObject(name: string, assessment: MigrationAssessment, exports: PowerCenterExport[]): string {
+  const wanted = name.trim().toLowerCase();
+  const matches = assessment.objects.filter((o) => o.name.toLowerCase() === wanted || `${o.folder}/${o.name}`.toLowerCase() === wanted);
+  if (!matches.length) {
+    const similar = assessment.objects.filter((o) => o.name.toLowerCase().includes(wanted)).map((o) => o.name);
+    return `No object named "${name}" in the assessment.${similar.length ? ` Similar: ${similar.slice(0, 20).join(', ')}.` : ''}`;
+  }
+
+  return matches
+    .map((object) => {
+      const lines = [
+        `${object.kind} ${object.folder}/${object.name}: ${object.complexity} (score ${object.score}).`,
+        ...(object.uses.length ? [`Uses: ${object.uses.join(', ')}.`] : []),
+        'Findings:',
+        ...(object.findings.length ? object.findings.map((finding) => `- [${finding.kind}] ${finding.detail}`) : ['- none']),
+      ];
+      for (const exported of exports) {
+        const mapping = exported.mappings.find((m) => m.kind === object.kind && m.folder === object.folder && m.name === object.name);
+        if (mapping) {
+          if (mapping.description) lines.push(`Description: ${mapping.description}`);
+          lines.push('Transformations:', ...mapping.transformations.map((t) => `- ${t.name} (${t.type}${t.reusable ? ', reusable' : ''})`));
+          for (const t of mapping.transformations) {
+            for (const [attribute, value] of Object.entries(t.attributes)) {
+              if (/sql|join|override/i.test(attribute) && value.trim()) lines.push(`${t.name} ${attribute}: ${quoteSql(value)}`);
+            }
+          }
+        }
+        const session = exported.sessions.find((s) => object.kind === 'session' && s.folder === object.folder && s.name === object.name);
+        if (session) {
+          lines.push(...session.overrides.map((o) => `${o.instance} ${o.attribute} (session override): ${quoteSql(o.value)}`));
+        }
+        const workflow = exported.workflows.find((w) => w.kind === object.kind && w.folder === object.folder && w.name === object.name);
+        if (workflow) {
+          lines.push('Tasks:', ...workflow.tasks.map((task) => `- ${task.name} (${task.type}${task.runs !== task.name ? `, runs ${task.runs}` : ''})`));
+        }
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+export function migrationTools(assessment: MigrationAssessment, exports: PowerCenterExport[]) {
+  const listMigrationObjects = ai.dynamicTool(
+    {
+      name: 'listMigrationObjects',
+      description:
+        'Lists assessed PowerCenter objects with their migration complexity and findings, filtered by object kind, complexity, finding kind or folder. Use it for questions such as "which mappings use custom SQL" or "what is complex in folder X".',
+      inputSchema: z.object({
+        kind: z.enum(OBJECT_KINDS).optional(),
+        complexity: z.enum(COMPLEXITIES).optional(),
+        finding: z.enum(FINDING_KINDS).optional(),
+        folder: z.string().optional(),
+      }),
+      outputSchema: z.string(),
+    },
+    async ({ kind, complexity, finding, folder }) => {
+      const objects = assessment.objects.filter(
+        (o) =>
+          (!kind || o.kind === kind) &&
+          (!complexity || o.complexity === complexity) &&
+          (!finding || o.findings.some((f) => f.kind === finding)) &&
+          (!folder || o.folder.toLowerCase() === folder.toLowerCase())
+      );
+      if (!objects.length) return 'No objects match.';
+      return [
+        `${objects.length} object(s):`,
+        ...objects.map((o) => {
+          const details = o.findings.filter((f) => !finding || f.kind === finding).map((f) => f.detail);
+          return `- ${o.kind} ${o.folder}/${o.name} [${o.complexity}]${details.length ? `: ${details.join(' | ')}` : ''}`;
+        }),
+      ].join('\n');
+    }
+  );
+
+  const describePowerCenterObject = ai.dynamicTool(
+    {
+      name: 'describePowerCenterObject',
+      description:
+        'Describes one PowerCenter mapping, mapplet, session, workflow or worklet in full: its findings, transformations or tasks, and custom SQL.',
+      inputSchema: z.object({ name: z.string().describe('The object name, optionally prefixed with its folder, e.g. SALES/m_load_orders.') }),
+      outputSchema: z.string(),
+    },
+    async ({ name }) => describeObject(name, assessment, exports)
+  );
+
+  return [listMigrationObjects, describePowerCenterObject];
+}
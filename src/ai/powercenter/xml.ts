@@ -0,0 +1,66 @@
+/**
+ * @fileOverview A small, tolerant XML reader for PowerCenter repository exports.
+ *
+ * PowerCenter keeps everything in attributes (NAME, TYPE, VALUE...), so only elements and their
+ * attributes are kept; text content, comments, CDATA and the DOCTYPE are skipped. Unbalanced
+ * closing tags are ignored rather than rejected, since hand-edited exports are common.
+ *
+ * - XmlElement - An element with its attributes and child elements.
+ * - parseXml - Reads a document into its root element.
+ * - childElements / descendantElements - Element lookups by tag name.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<(\/?)([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decode(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+    return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+  });
+}
+
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack = [root];
+  for (const [, closing, name, rawAttributes, selfClosing] of text.matchAll(TOKEN)) {
+    if (!name) continue;
+    if (closing) {
+      const open = stack.findLastIndex((element) => element.name === name);
+      if (open > 0) stack.length = open;
+      continue;
+    }
+    const attributes: Record<string, string> = {};
+    for (const [, key, double, single] of rawAttributes.matchAll(ATTRIBUTE)) attributes[key] = decode(double ?? single);
+    const element: XmlElement = { name, attributes, children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+  return root.children.length === 1 ? root.children[0] : root;
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/** Every element with the tag name below `element`, in document order. */
+export function descendantElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const walk = (parent: XmlElement) => {
+    for (const child of parent.children) {
+      if (child.name === name) found.push(child);
+      walk(child);
+    }
+  };
+  walk(element);
+  return found;
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileOverview A deterministic, offline Genkit plugin for tests and air-gapped runs.
+ *
+ * - `fake/idmc` - A model whose reply depends only on the request: JSON output requests get a
+ *   value shaped by the requested schema, text requests get a canned sentence. Replies stream
+ *   in small chunks so streaming code paths are exercised too.
+ * - `fake/embedder` - A hashing-trick embedder producing stable bag-of-words vectors.
+ */
+
+import { genkitPluginV2, model, embedder } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseData, MessageData } from 'genkit/model';
+
+export const FAKE_MODEL = 'fake/idmc';
+export const FAKE_EMBEDDER = 'fake/embedder';
+
+const EMBEDDING_DIMENSIONS = 256;
+const STREAM_CHUNK_SIZE = 24;
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  anyOf?: JsonSchema[];
+};
+
+/** FNV-1a, good enough for stable ids and hashing-trick buckets. */
+export function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function messageText(message: MessageData): string {
+  return message.content.map((part) => part.text ?? '').join('');
+}
+
+/** The question the prompt is about: the last "Question:" line if present, else the tail of the prompt. */
+function extractQuestion(request: GenerateRequest): string {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+  const text = lastUser ? messageText(lastUser) : '';
+  const matches = [...text.matchAll(/Question:\s*(.+)/gi)];
+  const question = matches.length ? matches[matches.length - 1][1] : text.trim().split('\n').pop() ?? '';
+  return question.trim().slice(0, 200);
+}
+
+function fakeValue(schema: JsonSchema | undefined, field: string, question: string, ref: string): unknown {
+  if (!schema) return null;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return fakeValue(schema.anyOf[0], field, question, ref);
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, fakeValue(value, key, question, ref)])
+      );
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 0 }, () => fakeValue(schema.items, field, question, ref));
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      return field === 'answer' || field === ''
+        ? `This is a deterministic answer from the fake model (ref ${ref}) to: ${question}`
+        : `fake ${field} (ref ${ref})`;
+    default:
+      return null;
+  }
+}
+
+export function fakeReply(request: GenerateRequest): string {
+  const fingerprint = request.messages.map(messageText).join('\n');
+  const ref = fnv1a(fingerprint).toString(16).padStart(8, '0');
+  const question = extractQuestion(request);
+  const schema = request.output?.schema as JsonSchema | undefined;
+  if (request.output?.format === 'json' && schema) {
+    return JSON.stringify(fakeValue(schema, '', question, ref));
+  }
+  return `This is a deterministic answer from the fake model (ref ${ref}) to: ${question}`;
+}
+
+export function fakeEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of text.toLowerCase().split(/[^a-z0-9_]+/).filter(Boolean)) {
+    vector[fnv1a(token) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  return vector;
+}
+
+export function fakeProvider() {
+  return genkitPluginV2({
+    name: 'fake',
+    init: async () => [
+      model(
+        {
+          name: FAKE_MODEL,
+          label: 'Fake IDMC model (deterministic)',
+          supports: {
+            multiturn: true,
+            systemRole: true,
+            media: true,
+            tools: true,
+            output: ['text', 'json'],
+            constrained: 'all',
+          },
+        },
+        async (request, { sendChunk }): Promise<GenerateResponseData> => {
+          const text = fakeReply(request);
+          for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            sendChunk({ index: 0, content: [{ text: text.slice(i, i + STREAM_CHUNK_SIZE) }] });
+          }
+          return {
+            message: { role: 'model', content: [{ text }] },
+            finishReason: 'stop',
+          };
+        }
+      ),
+      embedder(
+        { name: FAKE_EMBEDDER, info: { dimensions: EMBEDDING_DIMENSIONS, supports: { input: ['text'] } } },
+        async (request) => ({
+          embeddings: request.input.map((doc) => ({
+            embedding: fakeEmbedding(doc.content.map((part) => part.text ?? '').join(' ')),
+          })),
+        })
+      ),
+    ],
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileOverview A record-and-replay Genkit plugin, so evaluation runs against a real model can be
+ * repeated offline and compared after prompt changes.
+ *
+ * - `recorded/<model>` - Replies from a cassette of earlier responses, keyed by a hash of the
+ *   request. With `IDMC_EVAL_RECORD=1`, requests missing from the cassette are sent to `<model>`
+ *   and its response is saved; otherwise a missing request is an error.
+ *
+ * The cassette is a JSON file, `IDMC_EVAL_CASSETTE` (default `eval/cassette.json`). A changed
+ * prompt changes the request hash, so it has to be recorded again.
+ */
+
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { genkitPluginV2, model } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseData } from 'genkit/model';
+import { readJsonFile, withFileLock, writeJsonFile } from '@/lib/json-file';
+
+export const RECORDED_PREFIX = 'recorded/';
+
+interface Cassette {
+  version: 1;
+  entries: Record<string, { model: string; response: GenerateResponseData }>;
+}
+
+const cassettePath = path.resolve(process.env.IDMC_EVAL_CASSETTE || 'eval/cassette.json');
+const recording = process.env.IDMC_EVAL_RECORD === '1';
+
+let cassette: Promise<Cassette> | null = null;
+
+function loadCassette(): Promise<Cassette> {
+  cassette ??= readJsonFile<Cassette>(cassettePath).then((file) => file ?? { version: 1, entries: {} });
+  return cassette;
+}
+
+/** The model a `recorded/` model name records from, or the name itself for any other model. */
+export function recordedTarget(name: string): string {
+  return name.startsWith(RECORDED_PREFIX) ? name.slice(RECORDED_PREFIX.length) : name;
+}
+
+/** Everything that shapes the reply; the model name is left out so a cassette outlives a model swap. */
+function requestKey(request: GenerateRequest): string {
+  const { messages, output, tools, toolChoice } = request;
+  return createHash('sha256')
+    .update(JSON.stringify({ messages, output, tools: tools?.map((tool) => tool.name), toolChoice }))
+    .digest('hex');
+}
+
+async function record(target: string, request: GenerateRequest): Promise<GenerateResponseData> {
+  // Imported lazily: the Genkit instance is built from the plugins this module contributes to.
+  const { ai } = await import('@/ai/genkit');
+  const action = await ai.registry.lookupAction(`/model/${target}`);
+  if (!action) throw new Error(`Cannot record from ${target}: the model is not registered.`);
+  return (await action(request)) as GenerateResponseData;
+}
+
+export function recordedProvider(models: string[]) {
+  return genkitPluginV2({
+    name: 'recorded',
+    init: async () =>
+      models.map((name) =>
+        model(
+          {
+            name,
+            label: `Recorded ${recordedTarget(name)}`,
+            supports: {
+              multiturn: true,
+              systemRole: true,
+              media: true,
+              tools: true,
+              output: ['text', 'json'],
+              constrained: 'all',
+            },
+          },
+          async (request, { sendChunk }): Promise<GenerateResponseData> => {
+            const target = recordedTarget(name);
+            const key = requestKey(request);
+            let response = (await loadCassette()).entries[key]?.response;
+            if (!response) {
+              if (!recording) {
+                throw new Error(`No recorded response in ${cassettePath} for this ${target} request. Record it with IDMC_EVAL_RECORD=1.`);
+              }
+              response = await record(target, request);
+              const saved = response;
+              await withFileLock(cassettePath, async () => {
+                const current = await loadCassette();
+                current.entries[key] = { model: target, response: saved };
+                await writeJsonFile(cassettePath, current);
+              });
+            }
+            if (response.message) sendChunk({ index: 0, content: response.message.content });
+            return response;
+          }
+        )
+      ),
+  });
+}
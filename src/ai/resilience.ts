@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Helpers for running independent model calls concurrently without letting
+ * one slow or failing call take down the whole answer.
+ *
+ * - runBranch - Runs one named unit of work under its own timeout and captures its outcome.
+ */
+
+export type BranchResult<T> =
+  | { name: string; status: 'fulfilled'; value: T; durationMs: number }
+  | { name: string; status: 'failed'; reason: string; durationMs: number };
+
+/**
+ * Runs `task` with an abort signal that fires when either `timeoutMs` elapses or the
+ * parent signal aborts. Never rejects: failures and timeouts are returned as a
+ * `failed` result so callers can decide how to degrade. A parent abort is rethrown,
+ * since the caller is going away anyway.
+ */
+export async function runBranch<T>(
+  name: string,
+  task: (signal: AbortSignal) => Promise<T>,
+  { timeoutMs, signal }: { timeoutMs: number; signal?: AbortSignal }
+): Promise<BranchResult<T>> {
+  const controller = new AbortController();
+  const started = Date.now();
+  const onParentAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onParentAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    const value = await Promise.race([task(controller.signal), timeout]);
+    return { name, status: 'fulfilled', value, durationMs: Date.now() - started };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Branch "${name}" failed:`, error);
+    return { name, status: 'failed', reason, durationMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onParentAbort);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Okapi BM25 lexical ranking over documentation chunks.
+ */
+
+import type { Bm25Index } from './types';
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by can do does for from how i if in into is it its of on or so such that the their then there these this to was what when where which who why will with you your'.split(' ')
+);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export function buildBm25Index(texts: string[], k1 = 1.2, b = 0.75): Bm25Index {
+  const postings: Record<string, [number, number][]> = {};
+  const docLengths: number[] = [];
+
+  texts.forEach((text, docIndex) => {
+    const tokens = tokenize(text);
+    docLengths.push(tokens.length);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    for (const [term, tf] of frequencies) {
+      (postings[term] ??= []).push([docIndex, tf]);
+    }
+  });
+
+  const total = docLengths.reduce((sum, len) => sum + len, 0);
+  return {
+    k1,
+    b,
+    avgDocLength: docLengths.length ? total / docLengths.length : 0,
+    docLengths,
+    postings,
+  };
+}
+
+/** Scores every chunk containing at least one query term; returns [chunk index, score] pairs, best first. */
+export function searchBm25(index: Bm25Index, query: string, limit: number): [number, number][] {
+  const n = index.docLengths.length;
+  const scores = new Map<number, number>();
+
+  for (const term of new Set(tokenize(query))) {
+    const postings = index.postings[term];
+    if (!postings) continue;
+    const idf = Math.log(1 + (n - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [docIndex, tf] of postings) {
+      const norm = 1 - index.b + index.b * (index.docLengths[docIndex] / (index.avgDocLength || 1));
+      const score = idf * ((tf * (index.k1 + 1)) / (tf + index.k1 * norm));
+      scores.set(docIndex, (scores.get(docIndex) ?? 0) + score);
+    }
+  }
+
+  return [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Splits parsed documents into overlapping, paragraph-aligned chunks
+ * small enough to fit several of them into a prompt.
+ */
+
+import type { DocumentChunk, SourceDocument } from './types';
+
+export interface ChunkOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+/** Breaks text that has no paragraph breaks into sentence-sized pieces. */
+function splitLongParagraph(paragraph: string, chunkSize: number): string[] {
+  if (paragraph.length <= chunkSize) return [paragraph];
+  const sentences = paragraph.match(/[^.!?\n]+[.!?]*\s*/g) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > chunkSize) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    if (sentence.length > chunkSize) {
+      for (let i = 0; i < sentence.length; i += chunkSize) pieces.push(sentence.slice(i, i + chunkSize).trim());
+      continue;
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+export function chunkText(text: string, { chunkSize, chunkOverlap }: ChunkOptions): string[] {
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p) => splitLongParagraph(p, chunkSize));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > chunkSize) {
+      chunks.push(current);
+      // Carry the tail of the previous chunk forward so answers spanning a boundary stay retrievable.
+      const tail = chunkOverlap > 0 ? current.slice(-chunkOverlap) : '';
+      const boundary = tail.search(/\s/);
+      current = boundary >= 0 ? tail.slice(boundary + 1) : '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function chunkDocument(doc: SourceDocument, options: ChunkOptions): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  for (const section of doc.sections) {
+    for (const text of chunkText(section.text, options)) {
+      chunks.push({
+        id: `${doc.id}#${chunks.length}`,
+        docId: doc.id,
+        title: doc.title,
+        url: doc.url,
+        heading: section.heading,
+        text,
+      });
+    }
+  }
+  return chunks;
+}
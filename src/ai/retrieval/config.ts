@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Locations and tuning knobs for the local IDMC documentation index.
+ * Everything can be overridden from the environment so ingestion and serving can
+ * point at the same index without code changes.
+ */
+
+import path from 'node:path';
+import { embedderName } from '@/ai/models';
+
+export const retrievalConfig = {
+  /** Folder of raw IDMC docs (HTML, Markdown, PDF) that `npm run docs:ingest` reads. */
+  docsDir: path.resolve(process.env.IDMC_DOCS_DIR || 'docs/idmc'),
+  /** Where the built index is persisted. */
+  indexPath: path.resolve(process.env.IDMC_INDEX_PATH || '.idmc-index/index.json'),
+  /** Genkit embedder used at ingestion time, if any; queries use whatever embedder built the index. */
+  embedder: embedderName,
+  /** Target chunk size in characters, and how much consecutive chunks overlap. */
+  chunkSize: Number(process.env.IDMC_CHUNK_SIZE || 1200),
+  chunkOverlap: Number(process.env.IDMC_CHUNK_OVERLAP || 200),
+  /** Default number of chunks returned per query. */
+  topK: Number(process.env.IDMC_RETRIEVAL_TOP_K || 5),
+};
@@ -0,0 +1,62 @@
+/**
+ * @fileOverview Curated answers as retrieval results. Answers the IDMC leads approved from
+ * feedback (see lib/curated-store.ts) are matched against a query by the wording of their
+ * question and returned as verified chunks, which searches put ahead of the documentation.
+ *
+ * - VerifiedAnswerSchema - A curated answer that an answer was built from.
+ * - searchCuratedAnswers - Curated answers to questions worded like the query, best first.
+ * - verifiedAnswersIn - The curated answers among some retrieved chunks.
+ */
+
+import { z } from 'genkit';
+import { listCuratedAnswers } from '@/lib/curated-store';
+import { tokenize } from './bm25';
+import type { DocumentChunk, RetrievedChunk } from './types';
+
+export const VerifiedAnswerSchema = z.object({
+  id: z.string(),
+  question: z.string().describe('The question the curated answer was approved for.'),
+});
+export type VerifiedAnswer = z.infer<typeof VerifiedAnswerSchema>;
+
+const CHUNK_PREFIX = 'curated:';
+
+/** How alike a query and a curated question must be worded (Dice coefficient of their terms). */
+const MATCH_THRESHOLD = Number(process.env.IDMC_CURATED_MATCH_THRESHOLD || 0.5);
+
+/** Curated answers returned per query; they come on top of the documentation chunks. */
+const MAX_MATCHES = 2;
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared += 1;
+  return (2 * shared) / (a.size + b.size);
+}
+
+export async function searchCuratedAnswers(query: string): Promise<RetrievedChunk[]> {
+  const terms = new Set(tokenize(query));
+  if (terms.size === 0) return [];
+  const answers = await listCuratedAnswers();
+  return answers
+    .map((answer) => ({ answer, score: dice(terms, new Set(tokenize(answer.question))) }))
+    .filter(({ score }) => score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES)
+    .map(({ answer, score }) => ({
+      id: `${CHUNK_PREFIX}${answer.id}`,
+      docId: 'curated',
+      title: 'Verified answer from the IDMC team',
+      url: `/feedback#curated-${answer.id}`,
+      heading: answer.question,
+      text: answer.answer,
+      verified: true,
+      score,
+    }));
+}
+
+export function verifiedAnswersIn(chunks: Pick<DocumentChunk, 'id' | 'heading' | 'verified'>[]): VerifiedAnswer[] {
+  return chunks
+    .filter((chunk) => chunk.verified)
+    .map((chunk) => ({ id: chunk.id.slice(CHUNK_PREFIX.length), question: chunk.heading ?? '' }));
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileOverview Thin wrapper around the Genkit embedder used for semantic search.
+ */
+
+import { ai } from '@/ai/genkit';
+
+const BATCH_SIZE = 50;
+
+export async function embedTexts(embedder: string, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const batch = await ai.embedMany({ embedder, content: texts.slice(i, i + BATCH_SIZE) });
+    vectors.push(...batch.map((item) => item.embedding));
+  }
+  return vectors;
+}
+
+export async function embedQuery(embedder: string, query: string): Promise<number[]> {
+  const [result] = await ai.embed({ embedder, content: query });
+  return result.embedding;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Command-line ingestion for the local IDMC documentation index.
+ *
+ * Usage: npm run docs:ingest -- [docsDir] [--out <indexPath>] [--no-embeddings]
+ *
+ * Walks the docs folder, parses every HTML/Markdown/PDF file, chunks it, builds the
+ * BM25 postings and (unless disabled) embeds every chunk, then writes the index to disk.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { retrievalConfig } from './config';
+import { buildBm25Index } from './bm25';
+import { chunkDocument } from './chunker';
+import { embedTexts } from './embeddings';
+import { listDocumentFiles, loadDocument, readSourceManifest } from './loaders';
+import { saveIndex } from './store';
+import type { DocumentChunk, DocumentationIndex } from './types';
+import path from 'node:path';
+
+function parseArgs(argv: string[]) {
+  const args = { docsDir: retrievalConfig.docsDir, indexPath: retrievalConfig.indexPath, embeddings: true };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') args.indexPath = path.resolve(argv[++i]);
+    else if (arg === '--no-embeddings') args.embeddings = false;
+    else if (!arg.startsWith('--')) args.docsDir = path.resolve(arg);
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const files = await listDocumentFiles(args.docsDir);
+  if (files.length === 0) {
+    throw new Error(`No HTML, Markdown or PDF files found under ${args.docsDir}.`);
+  }
+
+  const manifest = await readSourceManifest(args.docsDir);
+  const chunks: DocumentChunk[] = [];
+  for (const file of files) {
+    try {
+      const doc = await loadDocument(file, args.docsDir, manifest);
+      if (!doc) continue;
+      const docChunks = chunkDocument(doc, retrievalConfig);
+      chunks.push(...docChunks);
+      console.log(`  ${doc.id}: ${docChunks.length} chunks`);
+    } catch (error) {
+      console.error(`  Skipping ${file}:`, error);
+    }
+  }
+
+  const embedder = args.embeddings ? retrievalConfig.embedder : null;
+  let embeddings: number[][] | null = null;
+  if (embedder && chunks.length > 0) {
+    console.log(`Embedding ${chunks.length} chunks with ${embedder}...`);
+    embeddings = await embedTexts(
+      embedder,
+      chunks.map((chunk) => `${chunk.title}\n${chunk.heading ?? ''}\n${chunk.text}`)
+    );
+  }
+
+  const index: DocumentationIndex = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    docsDir: args.docsDir,
+    embedder: embeddings ? embedder : null,
+    chunks,
+    embeddings,
+    bm25: buildBm25Index(chunks.map((chunk) => `${chunk.title} ${chunk.heading ?? ''} ${chunk.text}`)),
+  };
+
+  await saveIndex(args.indexPath, index);
+  console.log(`Indexed ${chunks.length} chunks from ${files.length} files into ${args.indexPath}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
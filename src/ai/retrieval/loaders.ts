@@ -0,0 +1,200 @@
+/**
+ * @fileOverview Parsers that turn raw IDMC documentation files (HTML, Markdown, PDF)
+ * into `SourceDocument`s with a title, a citable URL and heading-delimited sections.
+ *
+ * Source URLs are resolved in this order:
+ * 1. An explicit entry in `_sources.json` at the root of the docs folder (`{"path/to/file.html": "https://..."}`).
+ * 2. Metadata inside the file itself (Markdown front matter `source_url`/`url`, HTML canonical link or `og:url`).
+ * 3. A `file://` URL pointing at the local copy.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { DocumentSection, SourceDocument } from './types';
+
+export const SUPPORTED_EXTENSIONS = ['.html', '.htm', '.md', '.markdown', '.pdf'];
+
+type SourceManifest = Record<string, string>;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h[1-6]|pre|table|section|article)>/gi, '\n\n')
+      .replace(/<(td|th)[^>]*>/gi, ' | ')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+function parseMarkdown(raw: string): { title?: string; url?: string; sections: DocumentSection[] } {
+  let body = raw;
+  const meta: Record<string, string> = {};
+  const frontMatter = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (frontMatter) {
+    body = raw.slice(frontMatter[0].length);
+    for (const line of frontMatter[1].split(/\r?\n/)) {
+      const kv = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+      if (kv) meta[kv[1].toLowerCase()] = kv[2].trim().replace(/^["']|["']$/g, '');
+    }
+  }
+
+  const sections: DocumentSection[] = [];
+  let heading: string | undefined;
+  let buffer: string[] = [];
+  let title = meta.title;
+  const flush = () => {
+    const text = normalizeWhitespace(buffer.join('\n'));
+    if (text) sections.push({ heading, text });
+    buffer = [];
+  };
+
+  let inFence = false;
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const h = !inFence && line.match(/^(#{1,3})\s+(.*?)\s*#*\s*$/);
+    if (h) {
+      flush();
+      heading = h[2];
+      if (!title && h[1].length === 1) title = h[2];
+      continue;
+    }
+    buffer.push(line);
+  }
+  flush();
+
+  return { title, url: meta.source_url || meta.url, sections };
+}
+
+function parseHtml(raw: string): { title?: string; url?: string; sections: DocumentSection[] } {
+  const canonical =
+    raw.match(/<link[^>]+rel=["']canonical["'][^>]*href=["']([^"']+)["']/i)?.[1] ||
+    raw.match(/<link[^>]+href=["']([^"']+)["'][^>]*rel=["']canonical["']/i)?.[1] ||
+    raw.match(/<meta[^>]+property=["']og:url["'][^>]*content=["']([^"']+)["']/i)?.[1];
+  const titleTag = raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const h1 = raw.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+
+  const body = (raw.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? raw)
+    .replace(/<(script|style|noscript|nav|header|footer|svg)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+
+  const sections: DocumentSection[] = [];
+  const parts = body.split(/(<h[1-3][^>]*>[\s\S]*?<\/h[1-3]>)/i);
+  let heading: string | undefined;
+  for (const part of parts) {
+    const h = part.match(/^<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>$/i);
+    if (h) {
+      heading = normalizeWhitespace(stripTags(h[1])) || undefined;
+      continue;
+    }
+    const text = normalizeWhitespace(stripTags(part));
+    if (text) sections.push({ heading, text });
+  }
+
+  const title = normalizeWhitespace(stripTags(h1 || titleTag || '')) || undefined;
+  return { title, url: canonical ? decodeEntities(canonical) : undefined, sections };
+}
+
+async function parsePdf(buffer: Buffer): Promise<{ sections: DocumentSection[] }> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText();
+    const sections = result.pages
+      .map((page) => ({ heading: `Page ${page.num}`, text: normalizeWhitespace(page.text) }))
+      .filter((section) => section.text);
+    return { sections };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+export async function readSourceManifest(docsDir: string): Promise<SourceManifest> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(docsDir, '_sources.json'), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Loads and parses a single documentation file. Returns null for unsupported
+ * extensions or files with no extractable text.
+ */
+export async function loadDocument(
+  filePath: string,
+  docsDir: string,
+  manifest: SourceManifest = {}
+): Promise<SourceDocument | null> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) return null;
+
+  const id = path.relative(docsDir, filePath).split(path.sep).join('/');
+  let parsed: { title?: string; url?: string; sections: DocumentSection[] };
+
+  if (ext === '.pdf') {
+    parsed = await parsePdf(await fs.readFile(filePath));
+  } else {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    parsed = ext === '.md' || ext === '.markdown' ? parseMarkdown(raw) : parseHtml(raw);
+  }
+
+  if (parsed.sections.length === 0) return null;
+
+  return {
+    id,
+    title: parsed.title || path.basename(filePath, ext).replace(/[-_]+/g, ' '),
+    url: manifest[id] || parsed.url || pathToFileURL(filePath).href,
+    sections: parsed.sections,
+  };
+}
+
+/** Recursively lists every supported documentation file under `dir`. */
+export async function listDocumentFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name.startsWith('_')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listDocumentFiles(full)));
+    } else if (SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(full);
+    }
+  }
+  return files.sort();
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileOverview Hybrid (BM25 + embedding) search over the local IDMC documentation index.
+ * This is the single retrieval entry point shared by every flow that grounds answers in docs.
+ * On request it also serves curated answers approved by the IDMC team, ahead of the docs.
+ *
+ * - searchDocumentation - Returns the best matching chunks for a query.
+ * - formatChunksForPrompt - Renders retrieved chunks as numbered prompt context.
+ */
+
+import { retrievalConfig } from './config';
+import { searchBm25 } from './bm25';
+import { cosineSimilarity, embedQuery } from './embeddings';
+import { loadIndex } from './store';
+import { searchCuratedAnswers } from './curated';
+import type { RetrievedChunk } from './types';
+
+/** Rank constant for reciprocal rank fusion; 60 is the value from the original RRF paper. */
+const RRF_K = 60;
+
+export interface SearchOptions {
+  topK?: number;
+  indexPath?: string;
+  /** Put curated answers to questions worded like the query first; they do not count towards `topK`. */
+  curated?: boolean;
+}
+
+export async function searchDocumentation(query: string, options: SearchOptions = {}): Promise<RetrievedChunk[]> {
+  if (!options.curated) return searchIndex(query, options);
+  const [verified, documentation] = await Promise.all([searchCuratedAnswers(query), searchIndex(query, options)]);
+  return [...verified, ...documentation];
+}
+
+async function searchIndex(query: string, options: SearchOptions): Promise<RetrievedChunk[]> {
+  const topK = options.topK ?? retrievalConfig.topK;
+  const index = await loadIndex(options.indexPath ?? retrievalConfig.indexPath);
+  if (!index || index.chunks.length === 0 || !query.trim()) return [];
+
+  // Over-fetch from each ranker so fusion has candidates to reorder.
+  const candidates = Math.max(topK * 4, 20);
+  const rankings: number[][] = [searchBm25(index.bm25, query, candidates).map(([i]) => i)];
+
+  if (index.embedder && index.embeddings) {
+    try {
+      const queryVector = await embedQuery(index.embedder, query);
+      const semantic = index.embeddings
+        .map((vector, i) => [i, cosineSimilarity(queryVector, vector)] as const)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, candidates)
+        .map(([i]) => i);
+      rankings.push(semantic);
+    } catch (error) {
+      // Lexical results are still useful when the embedder is unreachable.
+      console.error('Embedding search failed, falling back to BM25 only:', error);
+    }
+  }
+
+  const fused = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((chunkIndex, rank) => {
+      fused.set(chunkIndex, (fused.get(chunkIndex) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+
+  return [...fused.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topK)
+    .map(([chunkIndex, score]) => ({ ...index.chunks[chunkIndex], score }));
+}
+
+export function formatChunksForPrompt(chunks: RetrievedChunk[]): string {
+  return chunks
+    .map((chunk, i) => {
+      const heading = chunk.heading ? ` — ${chunk.heading}` : '';
+      return `[${i + 1}] ${chunk.title}${heading}\nSource: ${chunk.url}\n${chunk.text}`;
+    })
+    .join('\n\n');
+}
+
+/** Unique documentation URLs of the given chunks, in rank order; curated answers have none. */
+export function sourceUrls(chunks: RetrievedChunk[]): string[] {
+  return [...new Set(chunks.filter((chunk) => !chunk.verified).map((chunk) => chunk.url))];
+}
@@ -0,0 +1,39 @@
+/**
+ * @fileOverview Reads and writes the persisted documentation index. Loaded indexes are
+ * cached in memory and reloaded automatically when the file on disk changes.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { DocumentationIndex } from './types';
+
+let cached: { path: string; mtimeMs: number; index: DocumentationIndex } | null = null;
+
+export async function saveIndex(indexPath: string, index: DocumentationIndex): Promise<void> {
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+  const tmpPath = `${indexPath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(index));
+  await fs.rename(tmpPath, indexPath);
+  cached = null;
+}
+
+/** Returns the index at `indexPath`, or null when it has not been built yet. */
+export async function loadIndex(indexPath: string): Promise<DocumentationIndex | null> {
+  let stat;
+  try {
+    stat = await fs.stat(indexPath);
+  } catch {
+    return null;
+  }
+
+  if (cached && cached.path === indexPath && cached.mtimeMs === stat.mtimeMs) {
+    return cached.index;
+  }
+
+  const index = JSON.parse(await fs.readFile(indexPath, 'utf-8')) as DocumentationIndex;
+  if (index.version !== 1) {
+    throw new Error(`Unsupported documentation index version ${index.version} at ${indexPath}. Re-run "npm run docs:ingest".`);
+  }
+  cached = { path: indexPath, mtimeMs: stat.mtimeMs, index };
+  return index;
+}
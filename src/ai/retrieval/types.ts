@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Shared types for the IDMC documentation retrieval subsystem.
+ */
+
+/** A section of a source document, before it is split into chunks. */
+export interface DocumentSection {
+  heading?: string;
+  text: string;
+}
+
+/** A parsed source document with the metadata needed to cite it. */
+export interface SourceDocument {
+  /** Path relative to the docs folder, used as a stable document id. */
+  id: string;
+  title: string;
+  url: string;
+  sections: DocumentSection[];
+}
+
+/** A single retrievable unit of documentation. */
+export interface DocumentChunk {
+  id: string;
+  docId: string;
+  title: string;
+  url: string;
+  heading?: string;
+  text: string;
+  /** Set on curated answers approved by the IDMC team; these never come from the index. */
+  verified?: boolean;
+}
+
+/** Inverted index with the statistics BM25 needs, persisted alongside the chunks. */
+export interface Bm25Index {
+  k1: number;
+  b: number;
+  avgDocLength: number;
+  docLengths: number[];
+  /** term -> list of [chunk index, term frequency] */
+  postings: Record<string, [number, number][]>;
+}
+
+/** On-disk representation of the documentation index. */
+export interface DocumentationIndex {
+  version: 1;
+  createdAt: string;
+  docsDir: string;
+  /** Embedder the vectors were produced with, or null when the index is lexical only. */
+  embedder: string | null;
+  chunks: DocumentChunk[];
+  /** One vector per chunk, aligned with `chunks`, when `embedder` is set. */
+  embeddings: number[][] | null;
+  bm25: Bm25Index;
+}
+
+/** A chunk returned from a search, with its fused relevance score. */
+export interface RetrievedChunk extends DocumentChunk {
+  score: number;
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Streaming support shared by the IDMC flows.
+ *
+ * - AgentStepSchema - One tool call of the agent flow, as shown in its trace.
+ * - AnswerStreamChunkSchema - Schema of the chunks every streaming flow emits.
+ * - streamAnswer - Forwards a prompt's streamed `answer` field to the flow's stream as text deltas.
+ * - requireOutput - The final structured output, or an error saying the model returned none.
+ */
+
+import { z } from 'genkit';
+
+export const AnswerStageSchema = z.enum(['reading', 'answering', 'comparing', 'synthesizing', 'validating']);
+export type AnswerStage = z.infer<typeof AnswerStageSchema>;
+
+export const AgentStepSchema = z.object({
+  step: z.number().describe('1-based position in the trace.'),
+  tool: z.string(),
+  label: z.string().describe('What the step did, for people, e.g. "Searched the documentation".'),
+  input: z.string().describe('The tool input as JSON.'),
+  output: z.string().describe('What the tool returned, shortened for display.'),
+  status: z.enum(['ok', 'error']),
+  durationMs: z.number(),
+});
+export type AgentStep = z.infer<typeof AgentStepSchema>;
+
+export const AnswerStreamChunkSchema = z.object({
+  delta: z.string().optional().describe('Newly generated answer text, to be appended to what was sent before.'),
+  reset: z.boolean().optional().describe('Discard the answer text sent so far; the deltas that follow replace it.'),
+  stage: AnswerStageSchema.optional().describe('Pipeline stage that just started, for multi-step flows.'),
+  step: AgentStepSchema.optional().describe('A tool call the agent flow just finished.'),
+});
+export type AnswerStreamChunk = z.infer<typeof AnswerStreamChunkSchema>;
+
+type StreamedPrompt<T> = {
+  /** Chunk outputs are partial parses of the structured output, hence loosely typed. */
+  stream: AsyncIterable<{ output: unknown }>;
+  response: Promise<{ output: T | null }>;
+};
+
+/**
+ * Consumes a `prompt.stream(...)` result whose structured output has a string `answer`
+ * field, emitting each newly generated piece of that field as a `delta` chunk. If the final
+ * answer does not continue the text already sent, a `reset` chunk and the whole answer follow.
+ * Resolves to the final structured output.
+ */
+export async function streamAnswer<T extends { answer: string }>(
+  { stream, response }: StreamedPrompt<T>,
+  sendChunk: (chunk: AnswerStreamChunk) => void
+): Promise<T | null> {
+  let sent = '';
+  for await (const chunk of stream) {
+    const answer = (chunk.output as Partial<T> | null)?.answer ?? '';
+    // Partial JSON can briefly re-parse differently; only forward strictly appended text.
+    if (answer.length > sent.length && answer.startsWith(sent)) {
+      sendChunk({ delta: answer.slice(sent.length) });
+      sent = answer;
+    }
+  }
+  const { output } = await response;
+  const finalAnswer = output?.answer ?? '';
+  if (!finalAnswer.startsWith(sent)) {
+    // A skipped re-parse left the streamed text out of step with the final answer; replace it.
+    sendChunk({ reset: true });
+    if (finalAnswer) sendChunk({ delta: finalAnswer });
+  } else if (finalAnswer.length > sent.length) {
+    sendChunk({ delta: finalAnswer.slice(sent.length) });
+  }
+  return output;
+}
+
+/**
+ * Models sometimes end a stream without output that parses against the schema. Flows without a
+ * fallback answer fail with this error instead of a TypeError on the missing output.
+ */
+export function requireOutput<T>(output: T | null | undefined, what: string): T {
+  if (output == null) throw new Error(`The model returned no ${what}. Please try again.`);
+  return output;
+}
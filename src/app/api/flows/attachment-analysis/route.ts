@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { idmcAttachmentAnalysisFlow } from '@/ai/flows/attachment-analysis';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(idmcAttachmentAnalysisFlow);
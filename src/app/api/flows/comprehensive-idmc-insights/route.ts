@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { comprehensiveIDMCInsightsFlow } from '@/ai/flows/comprehensive-idmc-insights';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(comprehensiveIDMCInsightsFlow);
@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { contextualIDMCAnswersFlow } from '@/ai/flows/contextual-idmc-answers';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(contextualIDMCAnswersFlow);
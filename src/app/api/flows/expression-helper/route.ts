@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { expressionHelperFlow } from '@/ai/flows/expression-helper';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(expressionHelperFlow);
@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { idmcAgentFlow } from '@/ai/flows/idmc-agent';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(idmcAgentFlow);
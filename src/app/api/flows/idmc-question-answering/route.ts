@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { idmcQuestionAnsweringFlow } from '@/ai/flows/idmc-question-answering';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(idmcQuestionAnsweringFlow);
@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { logDiagnosisFlow } from '@/ai/flows/log-diagnosis';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(logDiagnosisFlow);
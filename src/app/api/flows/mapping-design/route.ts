@@ -0,0 +1,6 @@
+import appRoute from '@genkit-ai/next';
+import { mappingDesignFlow } from '@/ai/flows/mapping-design';
+
+export const maxDuration = 60;
+
+export const POST = appRoute(mappingDesignFlow);
@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import { FeedbackDashboard } from "@/components/feedback-dashboard";
+import { buildFeedbackReport } from "@/lib/feedback-report";
+import { listFeedback } from "@/lib/feedback-store";
+import { listCuratedAnswers } from "@/lib/curated-store";
+import { isReviewer, reviewerKeyConfigured } from "@/lib/reviewer-auth";
+
+export const metadata: Metadata = {
+  title: "Answer feedback · IDMC CogniAssistant",
+};
+
+// Feedback arrives all the time; never serve a report built at deploy time.
+export const dynamic = "force-dynamic";
+
+export default async function FeedbackPage() {
+  const [feedback, curated, reviewer] = await Promise.all([listFeedback(), listCuratedAnswers(), isReviewer()]);
+  return (
+    <main className="min-h-screen bg-background">
+      <FeedbackDashboard
+        report={buildFeedbackReport(feedback)}
+        curated={curated}
+        reviewer={reviewer}
+        curationEnabled={reviewerKeyConfigured()}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { ChevronDown, ChevronRight, CircleCheck, CircleX, ListTree } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { AgentStep } from "@/lib/conversation-types";
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function TraceStep({ step }: { step: AgentStep }) {
+  const Icon = step.status === "ok" ? CircleCheck : CircleX;
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="group flex w-full items-center gap-1.5 text-left text-xs">
+        <ChevronRight className="w-3 h-3 shrink-0 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />
+        <span className="w-4 shrink-0 text-[10px] text-muted-foreground">{step.step}.</span>
+        <Icon className={step.status === "ok" ? "w-3 h-3 shrink-0 text-green-600" : "w-3 h-3 shrink-0 text-red-600"} />
+        <span className="font-medium">{step.label}</span>
+        <code className="truncate text-[10px] text-muted-foreground">{step.tool}</code>
+        <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">{formatDuration(step.durationMs)}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1.5 mb-2 ml-[1.125rem] space-y-1.5">
+        <div>
+          <p className="text-[9px] font-bold text-muted-foreground uppercase tracking-widest">Input</p>
+          <pre className="mt-0.5 max-h-32 overflow-auto whitespace-pre-wrap break-all rounded bg-muted/50 p-1.5 text-[10px]">{step.input}</pre>
+        </div>
+        <div>
+          <p className="text-[9px] font-bold text-muted-foreground uppercase tracking-widest">Result</p>
+          <pre className="mt-0.5 max-h-48 overflow-auto whitespace-pre-wrap break-words rounded bg-muted/50 p-1.5 text-[10px]">{step.output}</pre>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+/** The tool calls behind an agent answer; open while the agent is still working. */
+export function AgentTrace({ steps, stepLimitReached, defaultOpen }: { steps: AgentStep[]; stepLimitReached?: boolean; defaultOpen?: boolean }) {
+  return (
+    <Collapsible defaultOpen={defaultOpen} className="mt-4 pt-3 border-t border-border/50">
+      <CollapsibleTrigger className="group flex w-full items-center gap-1.5 text-[10px] font-bold text-muted-foreground uppercase tracking-widest">
+        <ListTree className="w-3 h-3" />
+        Agent trace:
+        <span className="normal-case tracking-normal font-normal">
+          {steps.length === 0 ? "answered without tools" : `${steps.length} tool call${steps.length === 1 ? "" : "s"}`}
+        </span>
+        {stepLimitReached && (
+          <Badge variant="outline" className="text-[9px] py-0 px-1.5 h-4 normal-case tracking-normal font-normal text-amber-700 border-amber-600/40">
+            step limit reached
+          </Badge>
+        )}
+        <ChevronDown className="w-3 h-3 ml-auto transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 space-y-1.5">
+        {steps.map((step) => (
+          <TraceStep key={step.step} step={step} />
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import type { MessageFeedback } from "@/lib/conversation-types";
+import { cn } from "@/lib/utils";
+
+/**
+ * Thumbs up or down on an answer. A thumbs down records the rating right away and then asks
+ * what the right answer would have been; the correction is optional.
+ */
+export function AnswerFeedback({ feedback, onRate, disabled }: { feedback?: MessageFeedback; onRate: (feedback: MessageFeedback) => void; disabled?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const [correction, setCorrection] = useState(feedback?.correction ?? "");
+
+  const rateDown = (nextOpen: boolean) => {
+    if (nextOpen && feedback?.rating !== "down") onRate({ rating: "down" });
+    if (nextOpen) setCorrection(feedback?.correction ?? "");
+    setOpen(nextOpen);
+  };
+
+  const saveCorrection = () => {
+    onRate({ rating: "down", correction: correction.trim() || undefined });
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn("h-6 w-6", feedback?.rating === "up" && "text-green-600")}
+        disabled={disabled}
+        onClick={() => feedback?.rating !== "up" && onRate({ rating: "up" })}
+        aria-label="Good answer"
+        aria-pressed={feedback?.rating === "up"}
+      >
+        <ThumbsUp className={cn("w-3 h-3", feedback?.rating === "up" && "fill-current")} />
+      </Button>
+      <Popover open={open} onOpenChange={rateDown}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-6 w-6", feedback?.rating === "down" && "text-red-600")}
+            disabled={disabled}
+            aria-label="Bad answer"
+            aria-pressed={feedback?.rating === "down"}
+          >
+            <ThumbsDown className={cn("w-3 h-3", feedback?.rating === "down" && "fill-current")} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 p-3 space-y-2">
+          <p className="text-xs font-semibold">What should the answer have said?</p>
+          <Textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            placeholder="Optional: the correct steps, setting or documentation link..."
+            className="min-h-[80px] text-xs"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setOpen(false)}>
+              Skip
+            </Button>
+            <Button size="sm" className="h-7 text-xs" disabled={!correction.trim()} onClick={saveCorrection}>
+              Send correction
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import {
   History,
   MessageSquare,
@@ -9,6 +10,10 @@ import {
   BookOpen,
   LayoutDashboard,
   ExternalLink,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  ThumbsUp,
 } from "lucide-react";
 import {
   Sidebar,
@@ -19,24 +24,115 @@ import {
   SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
+  SidebarMenuAction,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarSeparator,
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useConversations } from "@/hooks/use-conversations";
+import type { ConversationSummary } from "@/lib/conversation-types";
+
+function HistoryItem({ conversation, isActive }: { conversation: ConversationSummary; isActive: boolean }) {
+  const { selectConversation, renameConversation, deleteConversation } = useConversations();
+  const [isRenaming, setIsRenaming] = React.useState(false);
+  const [draft, setDraft] = React.useState(conversation.title);
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    if (draft.trim() && draft.trim() !== conversation.title) {
+      renameConversation(conversation.id, draft.trim());
+    } else {
+      setDraft(conversation.title);
+    }
+  };
+
+  if (isRenaming) {
+    return (
+      <SidebarMenuItem>
+        <Input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") {
+              setDraft(conversation.title);
+              setIsRenaming(false);
+            }
+          }}
+          className="h-8 text-sm"
+        />
+      </SidebarMenuItem>
+    );
+  }
+
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton
+        tooltip={conversation.title}
+        isActive={isActive}
+        onClick={() => selectConversation(conversation.id)}
+      >
+        <MessageSquare className="w-4 h-4" />
+        <span className="truncate">{conversation.title}</span>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover>
+            <MoreHorizontal />
+            <span className="sr-only">More</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem
+            onClick={() => {
+              setDraft(conversation.title);
+              setIsRenaming(true);
+            }}
+          >
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            onClick={() => deleteConversation(conversation.id)}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+}
 
 export function AppSidebar() {
+  const { conversations, activeId, newChat, searchQuery, setSearchQuery } = useConversations();
+
   return (
     <Sidebar variant="inset" collapsible="icon">
       <SidebarHeader className="p-4">
-        <Button className="w-full justify-start gap-2 font-medium" variant="default">
+        <Button className="w-full justify-start gap-2 font-medium" variant="default" onClick={newChat}>
           <Plus className="w-4 h-4" />
           <span className="group-data-[collapsible=icon]:hidden">New Chat</span>
         </Button>
         <div className="relative mt-4 group-data-[collapsible=icon]:hidden">
           <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input placeholder="Search threads..." className="pl-8 bg-background/50 border-none focus-visible:ring-1" />
+          <Input
+            placeholder="Search threads..."
+            className="pl-8 bg-background/50 border-none focus-visible:ring-1"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
         </div>
       </SidebarHeader>
       <SidebarContent>
@@ -44,19 +140,18 @@ export function AppSidebar() {
           <SidebarGroupLabel className="group-data-[collapsible=icon]:hidden">History</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {[
-                "What is IDMC?",
-                "Cloud Data Integration best practices",
-                "How to setup CDGC?",
-                "Informatica CLAIRE features",
-              ].map((item, i) => (
-                <SidebarMenuItem key={i}>
-                  <SidebarMenuButton tooltip={item} isActive={i === 0}>
-                    <MessageSquare className="w-4 h-4" />
-                    <span className="truncate">{item}</span>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
+              {conversations.map((conversation) => (
+                <HistoryItem
+                  key={conversation.id}
+                  conversation={conversation}
+                  isActive={conversation.id === activeId}
+                />
               ))}
+              {conversations.length === 0 && (
+                <p className="px-2 py-1.5 text-xs text-muted-foreground group-data-[collapsible=icon]:hidden">
+                  {searchQuery ? "No matching threads." : "No conversations yet."}
+                </p>
+              )}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -82,6 +177,14 @@ export function AppSidebar() {
                   <span>Architecture Patterns</span>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild tooltip="Answer feedback">
+                  <Link href="/feedback">
+                    <ThumbsUp className="w-4 h-4" />
+                    <span>Answer Feedback</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -0,0 +1,227 @@
+"use client";
+
+import { ChevronDown, Download, Network, TriangleAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { downloadFile, fileStem } from "@/lib/download";
+import type { ArchitectureGraph as ArchitectureGraphData } from "@/lib/conversation-types";
+
+type Node = ArchitectureGraphData["nodes"][number];
+type Gap = ArchitectureGraphData["gaps"][number];
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 46;
+const COLUMN_GAP = 70;
+const ROW_GAP = 18;
+
+const KIND_TONE: Record<Node["kind"], string> = {
+  system: "fill-slate-50 stroke-slate-500",
+  database: "fill-sky-50 stroke-sky-600",
+  application: "fill-indigo-50 stroke-indigo-500",
+  "file-storage": "fill-stone-50 stroke-stone-500",
+  "cloud-storage": "fill-cyan-50 stroke-cyan-600",
+  "idmc-service": "fill-orange-50 stroke-orange-600",
+  "secure-agent-group": "fill-emerald-50 stroke-emerald-600",
+  "runtime-environment": "fill-emerald-50 stroke-emerald-600",
+  connection: "fill-violet-50 stroke-violet-500",
+  user: "fill-zinc-50 stroke-zinc-400",
+  other: "fill-zinc-50 stroke-zinc-400",
+};
+
+const SEVERITY_TONE: Record<Gap["severity"], string> = {
+  high: "text-red-700 border-red-600/40",
+  medium: "text-amber-700 border-amber-600/40",
+  low: "text-muted-foreground",
+};
+
+/**
+ * Columns by longest path along the edges, so data flows left to right. Cycles are cut by
+ * capping the relaxation at one pass per node.
+ */
+function layout(graph: ArchitectureGraphData) {
+  const column = new Map(graph.nodes.map((node) => [node.id, 0]));
+  for (let pass = 0; pass < graph.nodes.length; pass++) {
+    let changed = false;
+    for (const edge of graph.edges) {
+      const next = (column.get(edge.from) ?? 0) + 1;
+      if (edge.from !== edge.to && next > (column.get(edge.to) ?? 0) && next < graph.nodes.length) {
+        column.set(edge.to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  const columns: Node[][] = [];
+  for (const node of graph.nodes) (columns[column.get(node.id)!] ??= []).push(node);
+  const filled = columns.filter(Boolean);
+
+  const position = new Map<string, { x: number; y: number }>();
+  filled.forEach((nodes, c) =>
+    nodes.forEach((node, r) => position.set(node.id, { x: c * (NODE_WIDTH + COLUMN_GAP), y: r * (NODE_HEIGHT + ROW_GAP) }))
+  );
+  const rows = Math.max(...filled.map((nodes) => nodes.length), 1);
+  return {
+    position,
+    width: filled.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP,
+  };
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function Diagram({ graph, flagged }: { graph: ArchitectureGraphData; flagged: Set<string> }) {
+  const { position, width, height } = layout(graph);
+  const pad = 8;
+
+  return (
+    <div className="overflow-x-auto rounded-md border bg-background/60">
+      <svg
+        viewBox={`${-pad} ${-pad} ${Math.max(width, NODE_WIDTH) + pad * 2} ${height + pad * 2}`}
+        width={Math.max(width, NODE_WIDTH) + pad * 2}
+        height={height + pad * 2}
+        className="text-foreground"
+        role="img"
+        aria-label={graph.title ?? "Architecture diagram"}
+      >
+        <defs>
+          <marker id="architecture-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L8,4 L0,8 z" className="fill-muted-foreground" />
+          </marker>
+        </defs>
+        {graph.edges.map((edge, eIdx) => {
+          const from = position.get(edge.from);
+          const to = position.get(edge.to);
+          if (!from || !to) return null;
+          const forward = to.x > from.x;
+          const [x1, y1] = [forward ? from.x + NODE_WIDTH : from.x + NODE_WIDTH / 2, forward ? from.y + NODE_HEIGHT / 2 : from.y + NODE_HEIGHT];
+          const [x2, y2] = [forward ? to.x : to.x + NODE_WIDTH / 2, forward ? to.y + NODE_HEIGHT / 2 : to.y];
+          const label = edge.connector ?? edge.label;
+          return (
+            <g key={eIdx}>
+              <path
+                d={forward ? `M${x1},${y1} C${x1 + COLUMN_GAP / 2},${y1} ${x2 - COLUMN_GAP / 2},${y2} ${x2},${y2}` : `M${x1},${y1} L${x2},${y2}`}
+                className="fill-none stroke-muted-foreground"
+                strokeWidth={1}
+                strokeDasharray={edge.kind === "data-flow" ? undefined : "3 3"}
+                markerEnd="url(#architecture-arrow)"
+              >
+                <title>{`${edge.kind}${edge.label ? `: ${edge.label}` : ""}${edge.connector ? ` (${edge.connector} connector)` : ""}`}</title>
+              </path>
+              {label && forward && (
+                <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 3} textAnchor="middle" fontSize={8} className="fill-muted-foreground">
+                  {truncate(label, 16)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {graph.nodes.map((node) => {
+          const { x, y } = position.get(node.id)!;
+          const detail = node.service ?? node.technology ?? node.kind.replace(/-/g, " ");
+          return (
+            <g key={node.id}>
+              <rect
+                x={x}
+                y={y}
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={6}
+                className={cn(KIND_TONE[node.kind], flagged.has(node.id) && "stroke-red-600")}
+                strokeWidth={flagged.has(node.id) ? 1.5 : 1}
+                strokeDasharray={flagged.has(node.id) ? "4 2" : undefined}
+              >
+                <title>{[node.label, node.kind, node.technology, node.location].filter(Boolean).join(" · ")}</title>
+              </rect>
+              <text x={x + NODE_WIDTH / 2} y={y + 19} textAnchor="middle" fontSize={11} fontWeight={600} className="fill-foreground">
+                {truncate(node.label, 22)}
+              </text>
+              <text x={x + NODE_WIDTH / 2} y={y + 34} textAnchor="middle" fontSize={9} className="fill-muted-foreground">
+                {truncate(detail, 26)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+export function ArchitectureGraph({ graph }: { graph: ArchitectureGraphData }) {
+  const flagged = new Set(graph.gaps.filter((gap) => gap.severity !== "low").flatMap((gap) => gap.nodes ?? []));
+  const labels = new Map(graph.nodes.map((node) => [node.id, node.label]));
+  const services = graph.nodes.filter((node) => node.kind === "idmc-service");
+
+  return (
+    <Collapsible defaultOpen className="mt-4 pt-3 border-t border-border/50">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger className="group flex flex-1 items-center gap-1.5 text-[10px] font-bold text-muted-foreground uppercase tracking-widest">
+          <Network className="w-3 h-3" />
+          {graph.title ?? "Architecture"}
+          <span className="normal-case tracking-normal font-normal">
+            {graph.nodes.length} components, {graph.edges.length} links
+            {graph.gaps.length ? `, ${graph.gaps.length} gaps` : ""}
+          </span>
+          <ChevronDown className="w-3 h-3 ml-auto transition-transform group-data-[state=open]:rotate-180" />
+        </CollapsibleTrigger>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-[10px]"
+          onClick={() => downloadFile(`${fileStem(graph.title ?? "architecture")}.json`, JSON.stringify(graph, null, 2), "application/json")}
+        >
+          <Download className="w-3 h-3 mr-1" />
+          Export JSON
+        </Button>
+      </div>
+      <CollapsibleContent className="mt-3 space-y-3">
+        {services.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {services.map((node) => (
+              <Badge key={node.id} variant="secondary" className="text-[9px] py-0 px-1.5 h-4 font-normal">
+                {node.service ?? node.label}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {graph.nodes.length > 0 && <Diagram graph={graph} flagged={flagged} />}
+        {graph.gaps.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Gaps</p>
+            <ul className="space-y-2 text-xs">
+              {graph.gaps.map((gap, gIdx) => (
+                <li key={gIdx} className="flex items-start gap-2">
+                  <Badge variant="outline" className={cn("text-[9px] py-0 px-1.5 h-4 font-normal shrink-0", SEVERITY_TONE[gap.severity])}>
+                    {gap.severity}
+                  </Badge>
+                  <div className="space-y-0.5">
+                    <p>
+                      {gap.issue}
+                      {gap.nodes && gap.nodes.length > 0 && (
+                        <span className="text-muted-foreground"> ({gap.nodes.map((id) => labels.get(id) ?? id).join(", ")})</span>
+                      )}
+                    </p>
+                    <p className="text-muted-foreground">{gap.recommendation}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {graph.warnings.length > 0 && (
+          <div className="space-y-1 text-[10px] text-muted-foreground">
+            {graph.warnings.map((warning, wIdx) => (
+              <div key={wIdx} className="flex items-start gap-1.5">
+                <TriangleAlert className="w-3 h-3 shrink-0 mt-px" />
+                <span>{warning}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -2,47 +2,99 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Send, Sparkles, User, Database, Globe, Layers, AlertCircle, Paperclip, X, FileText, Image as ImageIcon, FileSpreadsheet, File } from "lucide-react";
+import { Send, Sparkles, User, Database, Globe, Layers, AlertCircle, Paperclip, X, FileText, Image as ImageIcon, FileSpreadsheet, File, Square, Presentation, FileArchive, Stethoscope, ScrollText, Info, Network, Workflow, Braces, Bot, BadgeCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { comprehensiveIDMCInsights } from "@/ai/flows/comprehensive-idmc-insights";
-import { contextualIDMCAnswers } from "@/ai/flows/contextual-idmc-answers";
-import { idmcQuestionAnswering } from "@/ai/flows/idmc-question-answering";
-import { idmcAttachmentAnalysis } from "@/ai/flows/attachment-analysis";
+import type { ComprehensiveIDMCInsightsOutput } from "@/ai/flows/comprehensive-idmc-insights";
+import type { ContextualIDMCAnswersOutput } from "@/ai/flows/contextual-idmc-answers";
+import type { IDMCQuestionAnsweringOutput } from "@/ai/flows/idmc-question-answering";
+import type { IDMCAttachmentAnalysisOutput } from "@/ai/flows/attachment-analysis";
+import type { LogDiagnosisOutput } from "@/ai/flows/log-diagnosis";
+import type { MappingDesignOutput } from "@/ai/flows/mapping-design";
+import type { ExpressionHelperOutput } from "@/ai/flows/expression-helper";
+import type { IDMCAgentOutput } from "@/ai/flows/idmc-agent";
+import type { AgentStep, AnswerStage } from "@/ai/streaming";
+import { looksLikeLog } from "@/ai/logs/parser";
+import { FLOW_ROUTES, STAGE_LABELS, isAbortError, streamAnswerFlow } from "@/lib/flow-client";
+import { ModelAgreement } from "@/components/model-agreement";
+import { CitedAnswer } from "@/components/cited-answer";
+import { MarkdownContent } from "@/components/markdown-content";
+import { DiagnosisCard } from "@/components/diagnosis-card";
+import { DataProfile } from "@/components/data-profile";
+import { ArchitectureGraph } from "@/components/architecture-graph";
+import { MappingDesign } from "@/components/mapping-design";
+import { ExpressionBlocks } from "@/components/expression-blocks";
+import { MigrationAssessment } from "@/components/migration-assessment";
+import { AgentTrace } from "@/components/agent-trace";
+import { MessageActions } from "@/components/message-actions";
+import { MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES } from "@/lib/attachments";
+import { migrationAssessmentDigest } from "@/lib/migration-assessment";
 import { cn } from "@/lib/utils";
 import { toast } from "@/hooks/use-toast";
+import { useConversations, type ConversationHandle } from "@/hooks/use-conversations";
+import type { ChatMessage, ChatMode, MessageAttachment, MessageFeedback } from "@/lib/conversation-types";
 
-type MessageType = {
-  role: "user" | "ai";
+type DraftAnswer = {
   content: string;
-  sources?: string[];
-  mode?: string;
-  attachment?: {
-    url: string;
-    type: string;
-    name: string;
-  };
+  stage?: AnswerStage;
+  /** Agent mode: tool calls finished so far. */
+  steps?: AgentStep[];
 };
 
-type Attachment = {
+type PendingAttachment = {
+  id: string;
   file: File;
   dataUri: string;
   type: string;
 };
 
+const GREETING: ChatMessage = {
+  id: "greeting",
+  role: "ai",
+  content: "Hello! I am your IDMC CogniAssistant. I can help you with Informatica Data Management Cloud (IDMC) documentation, integration patterns, data quality, or governance questions. You can also upload screenshots, architecture diagrams, or even Excel/Word docs for analysis! How can I assist you today?",
+  createdAt: new Date(0).toISOString(),
+};
+
+/** Modes that read attachments themselves instead of switching to attachment analysis. */
+const ATTACHMENT_MODES: ChatMode[] = ["troubleshoot", "architecture", "mapping", "agent"];
+
+function isSpreadsheet(type: string, name: string) {
+  return type.includes("spreadsheet") || type.includes("excel") || type === "text/csv" || /\.(xlsx|xls|csv)$/i.test(name);
+}
+
+function readAsDataUri(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function messageAttachments(message: ChatMessage): MessageAttachment[] {
+  return message.attachments ?? (message.attachment ? [message.attachment] : []);
+}
+
+function createMessage(message: Omit<ChatMessage, "id" | "createdAt">): ChatMessage {
+  return { ...message, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+}
+
 export function ChatInterface() {
-  const [messages, setMessages] = useState<MessageType[]>([
-    {
-      role: "ai",
-      content: "Hello! I am your IDMC CogniAssistant. I can help you with Informatica Data Management Cloud (IDMC) documentation, integration patterns, data quality, or governance questions. You can also upload screenshots, architecture diagrams, or even Excel/Word docs for analysis! How can I assist you today?",
-    },
-  ]);
+  const { messages: storedMessages, addMessage, currentHandle, alternativesOf, switchBranch, rateMessage, isLoadingConversation } = useConversations();
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+  // While a question is answered again, the thread is shown up to it, with the draft below.
+  const answering = storedMessages.findIndex((message) => message.id === answeringId);
+  const messages = [GREETING, ...(answering >= 0 ? storedMessages.slice(0, answering + 1) : storedMessages)];
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [activeMode, setActiveMode] = useState<"standard" | "contextual" | "comprehensive">("comprehensive");
-  const [pendingAttachment, setPendingAttachment] = useState<Attachment | null>(null);
+  const [activeMode, setActiveMode] = useState<ChatMode>("comprehensive");
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [draft, setDraft] = useState<DraftAnswer | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -53,112 +105,335 @@ export function ChatInterface() {
         behavior: "smooth",
       });
     }
-  }, [messages, isLoading]);
+  }, [storedMessages, isLoading, draft]);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset so picking the same file again after removing it still fires onChange.
+    e.target.value = "";
+    if (files.length === 0) return;
 
-    if (file.size > 10 * 1024 * 1024) {
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
       toast({
         variant: "destructive",
         title: "File too large",
-        description: "Please upload a file smaller than 10MB.",
+        description: `${tooLarge.map((file) => file.name).join(", ")}: please upload files smaller than 10MB.`,
       });
-      return;
     }
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setPendingAttachment({
-        file,
-        dataUri: reader.result as string,
-        type: file.type,
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    const accepted = files.filter((file) => file.size <= MAX_ATTACHMENT_BYTES);
+    if (accepted.length > room) {
+      toast({
+        variant: "destructive",
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files per message.`,
       });
-    };
-    reader.readAsDataURL(file);
-  };
+    }
 
-  const removeAttachment = () => {
-    setPendingAttachment(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+    try {
+      const added = await Promise.all(
+        accepted.slice(0, Math.max(room, 0)).map(async (file) => ({
+          id: crypto.randomUUID(),
+          file,
+          dataUri: await readAsDataUri(file),
+          type: file.type,
+        }))
+      );
+      setPendingAttachments((prev) => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Could not read file",
+        description: "One of the selected files could not be read. Please try again.",
+      });
     }
   };
 
+  const removeAttachment = (id: string) => {
+    setPendingAttachments((prev) => prev.filter((attachment) => attachment.id !== id));
+  };
+
   const getFileIcon = (type: string) => {
     if (type.startsWith('image/')) return <ImageIcon className="w-6 h-6 text-blue-500" />;
     if (type === 'application/pdf') return <FileText className="w-6 h-6 text-red-500" />;
-    if (type.includes('spreadsheet') || type.includes('excel')) return <FileSpreadsheet className="w-6 h-6 text-green-600" />;
-    if (type.includes('word') || type.includes('officedocument.wordprocessingml')) return <FileText className="w-6 h-6 text-blue-700" />;
+    if (type.includes('spreadsheet') || type.includes('excel') || type === 'text/csv') return <FileSpreadsheet className="w-6 h-6 text-green-600" />;
+    if (type.includes('word') || type.includes('officedocument.wordprocessingml') || type.includes('rtf')) return <FileText className="w-6 h-6 text-blue-700" />;
+    if (type.includes('zip') || type.endsWith('json') || type.endsWith('/xml')) return <FileArchive className="w-6 h-6 text-amber-600" />;
+    if (type.includes('powerpoint') || type.includes('presentationml')) return <Presentation className="w-6 h-6 text-orange-600" />;
+    if (type === 'text/plain' || type === 'text/x-log') return <ScrollText className="w-6 h-6 text-slate-600" />;
     return <File className="w-6 h-6 text-muted-foreground" />;
   };
 
-  const handleSubmit = async (e?: React.FormEvent) => {
-    e?.preventDefault();
-    if ((!input.trim() && !pendingAttachment) || isLoading) return;
+  /** Modes that need an attachment warn and refuse instead of answering without one. */
+  const missingInput = (mode: ChatMode, attachments: PendingAttachment[]) => {
+    if (mode === "architecture" && attachments.length === 0) {
+      toast({
+        title: "Attach a diagram",
+        description: "Architecture mode reads the components from an attached diagram, screenshot or design document.",
+      });
+      return true;
+    }
+    if (mode === "mapping" && !attachments.some((attachment) => isSpreadsheet(attachment.type, attachment.file.name))) {
+      toast({
+        title: "Attach a mapping spec",
+        description: "Mapping design mode needs a source-to-target specification as an .xlsx, .xls or .csv file.",
+      });
+      return true;
+    }
+    return false;
+  };
+
+  /**
+   * Streams an answer to a question already in the thread and adds it as the question's reply.
+   * Regenerating adds another reply to the same question, kept as a branch next to the first.
+   */
+  const answer = async ({ question, text: userMessage, requestedMode, attachments: currentAttachments, conversation }: {
+    question: ChatMessage;
+    /** What the user typed; empty when they only sent attachments. */
+    text: string;
+    requestedMode: ChatMode;
+    attachments: PendingAttachment[];
+    conversation: ConversationHandle;
+  }) => {
+    const hasAttachments = currentAttachments.length > 0;
+    // Troubleshoot mode takes logs both pasted and attached; elsewhere attachments switch to analysis.
+    const troubleshooting = requestedMode === "troubleshoot";
+    const extractingArchitecture = requestedMode === "architecture";
+    const designingMapping = requestedMode === "mapping";
+    const spec = currentAttachments.find((attachment) => isSpreadsheet(attachment.type, attachment.file.name));
+    // The thread up to the question; assessments travel as a digest so follow-ups can be
+    // answered once the exports are gone.
+    const parentIndex = storedMessages.findIndex((message) => message.id === question.parentId);
+    const history = storedMessages.slice(0, parentIndex + 1).map(({ role, content, migrationAssessment }) => ({
+      role,
+      content: migrationAssessment ? `${content}\n\n${migrationAssessmentDigest(migrationAssessment)}` : content,
+    }));
 
-    const userMessage = input.trim();
-    const currentAttachment = pendingAttachment;
-    
-    setInput("");
-    setPendingAttachment(null);
-    if (fileInputRef.current) fileInputRef.current.value = "";
-
-    setMessages((prev) => [
-      ...prev, 
-      { 
-        role: "user", 
-        content: userMessage || (currentAttachment ? `Analyzing ${currentAttachment.file.name}...` : ""),
-        attachment: currentAttachment ? {
-          url: currentAttachment.dataUri,
-          type: currentAttachment.type,
-          name: currentAttachment.file.name
-        } : undefined
-      }
-    ]);
     setIsLoading(true);
+    setAnsweringId(question.id);
+    setDraft({ content: "" });
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const mode = hasAttachments && !ATTACHMENT_MODES.includes(requestedMode) ? "attachment-analysis" : requestedMode;
+    const parentId = question.id;
+    let streamed = "";
+    let steps: AgentStep[] = [];
+    const callbacks = {
+      signal: controller.signal,
+      onDelta: (delta: string) => {
+        streamed += delta;
+        setDraft((prev) => ({ ...prev, content: streamed }));
+      },
+      onReset: () => {
+        streamed = "";
+        setDraft((prev) => ({ ...prev, content: "" }));
+      },
+      onStage: (stage: AnswerStage) => setDraft((prev) => ({ ...prev, content: prev?.content ?? "", stage })),
+      onStep: (step: AgentStep) => {
+        steps = [...steps, step];
+        setDraft((prev) => ({ ...prev, content: prev?.content ?? "", steps }));
+      },
+    };
 
     try {
       let aiResponse = "";
+      let models: string[] | undefined;
       let sources: string[] | undefined;
+      let grounding: Pick<ChatMessage, "citations" | "unsupportedSentences"> = {};
+      let branches: Pick<ChatMessage, "contributors" | "failedBranches" | "comparison"> = {};
+      let diagnosis: ChatMessage["diagnosis"];
+      let mappingDesign: ChatMessage["mappingDesign"];
+      let expressions: ChatMessage["expressions"];
+      let verifiedAnswers: ChatMessage["verifiedAnswers"];
+      let agentResults: Pick<ChatMessage, "agentTrace" | "stepLimitReached"> = {};
+      let attachmentResults: Pick<ChatMessage, "coverage" | "dataProfiles" | "ruleSuggestions" | "architecture" | "migrationAssessment"> = {};
 
-      if (currentAttachment) {
-        const result = await idmcAttachmentAnalysis({ 
-          question: userMessage || "Analyze this file and explain its relevance to IDMC.",
-          attachmentDataUri: currentAttachment.dataUri,
-          attachmentType: currentAttachment.type
-        });
+      if (troubleshooting) {
+        const result = await streamAnswerFlow<LogDiagnosisOutput>(FLOW_ROUTES.troubleshoot, {
+          // A pasted log is the message itself; a question alone is answered from the attached files.
+          question: looksLikeLog(userMessage) ? "" : userMessage,
+          log: looksLikeLog(userMessage) ? userMessage : undefined,
+          files: currentAttachments.map(({ file, dataUri }) => ({ name: file.name, dataUri })),
+          history,
+        }, callbacks);
+        aiResponse = result.answer;
+        models = result.models;
+        diagnosis = result.diagnosis;
+      } else if (designingMapping && spec) {
+        const result = await streamAnswerFlow<MappingDesignOutput>(FLOW_ROUTES.mapping, {
+          question: userMessage,
+          spec: { name: spec.file.name, dataUri: spec.dataUri },
+          history,
+        }, callbacks);
+        aiResponse = result.answer;
+        models = result.models;
+        mappingDesign = result.design;
+      } else if (requestedMode === "agent") {
+        const result = await streamAnswerFlow<IDMCAgentOutput>(FLOW_ROUTES.agent, {
+          question: userMessage || `Look into ${currentAttachments.map((a) => a.file.name).join(", ")} and explain what you find.`,
+          files: currentAttachments.map(({ file, dataUri, type }) => ({ name: file.name, type, dataUri })),
+          history,
+        }, callbacks);
+        aiResponse = result.answer;
+        models = result.models;
+        sources = result.sources.length ? result.sources : undefined;
+        agentResults = { agentTrace: result.trace, stepLimitReached: result.stepLimitReached || undefined };
+      } else if (hasAttachments) {
+        const result = await streamAnswerFlow<IDMCAttachmentAnalysisOutput>(FLOW_ROUTES.attachment, {
+          question: userMessage || (extractingArchitecture
+            ? "Inventory the components of this architecture and flag what an IDMC deployment of it is missing."
+            : currentAttachments.length > 1
+            ? "Analyze these files, compare them, and explain their relevance to IDMC."
+            : "Analyze this file and explain its relevance to IDMC."),
+          attachments: currentAttachments.map(({ file, dataUri, type }) => ({ name: file.name, dataUri, type })),
+          history,
+          extractArchitecture: extractingArchitecture || undefined,
+        }, callbacks);
         aiResponse = result.answer;
-      } else if (activeMode === "comprehensive") {
-        const result = await comprehensiveIDMCInsights({ question: userMessage });
+        models = result.models;
+        attachmentResults = {
+          coverage: result.coverage,
+          dataProfiles: result.dataProfiles,
+          ruleSuggestions: result.ruleSuggestions,
+          architecture: result.architecture,
+          migrationAssessment: result.migrationAssessment,
+        };
+      } else if (requestedMode === "expression") {
+        const result = await streamAnswerFlow<ExpressionHelperOutput>(FLOW_ROUTES.expression, { question: userMessage, history }, callbacks);
         aiResponse = result.answer;
-      } else if (activeMode === "contextual") {
-        const result = await contextualIDMCAnswers({ question: userMessage });
+        models = result.models;
+        expressions = result.expressions;
+      } else if (requestedMode === "comprehensive") {
+        const result = await streamAnswerFlow<ComprehensiveIDMCInsightsOutput>(FLOW_ROUTES.comprehensive, { question: userMessage, history }, callbacks);
         aiResponse = result.answer;
+        models = result.models;
+        branches = {
+          contributors: result.contributors,
+          failedBranches: result.failedBranches,
+          comparison: result.comparison,
+        };
+        verifiedAnswers = result.verified;
+      } else if (requestedMode === "contextual") {
+        const result = await streamAnswerFlow<ContextualIDMCAnswersOutput>(FLOW_ROUTES.contextual, { question: userMessage, history }, callbacks);
+        aiResponse = result.answer;
+        models = result.models;
         sources = result.sourceLinks;
+        grounding = { citations: result.citations, unsupportedSentences: result.unsupportedSentences };
+        verifiedAnswers = result.verified;
       } else {
-        const result = await idmcQuestionAnswering({ question: userMessage });
+        const result = await streamAnswerFlow<IDMCQuestionAnsweringOutput>(FLOW_ROUTES.standard, { question: userMessage, history }, callbacks);
         aiResponse = result.answer;
+        models = result.models;
       }
 
-      setMessages((prev) => [
-        ...prev,
-        { role: "ai", content: aiResponse, sources, mode: currentAttachment ? "attachment-analysis" : activeMode },
-      ]);
+      addMessage(
+        createMessage({ role: "ai", parentId, content: aiResponse, sources, mode, models, diagnosis, mappingDesign, expressions, verifiedAnswers, ...agentResults, ...attachmentResults, ...branches, ...grounding }),
+        conversation
+      );
     } catch (error) {
-      setMessages((prev) => [
-        ...prev,
-        { 
-          role: "ai", 
-          content: "I encountered an error processing your request. Please try again or check your connection." 
-        },
-      ]);
+      if (isAbortError(error) || controller.signal.aborted) {
+        // Keep whatever was generated before the user pressed stop.
+        if (streamed.trim()) {
+          addMessage(
+            createMessage({ role: "ai", parentId, content: streamed, mode, status: "stopped", agentTrace: steps.length ? steps : undefined }),
+            conversation
+          );
+        }
+      } else {
+        addMessage(
+          createMessage({
+            role: "ai",
+            parentId,
+            content: "I encountered an error processing your request. Please try again or check your connection."
+          }),
+          conversation
+        );
+      }
     } finally {
+      abortRef.current = null;
+      setDraft(null);
+      setAnsweringId(null);
       setIsLoading(false);
     }
   };
 
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if ((!input.trim() && pendingAttachments.length === 0) || isLoading || isLoadingConversation) return;
+
+    const userMessage = input.trim();
+    const currentAttachments = pendingAttachments;
+    const hasAttachments = currentAttachments.length > 0;
+    if (missingInput(activeMode, currentAttachments)) return;
+
+    setInput("");
+    setPendingAttachments([]);
+
+    const question = createMessage({
+      role: "user",
+      parentId: storedMessages[storedMessages.length - 1]?.id ?? null,
+      content: userMessage || (hasAttachments ? `Analyzing ${currentAttachments.map((a) => a.file.name).join(", ")}...` : ""),
+      attachments: hasAttachments ? currentAttachments.map((attachment) => ({
+        // Only image previews are rendered, so only they are worth persisting.
+        url: attachment.type.startsWith("image/") ? attachment.dataUri : undefined,
+        type: attachment.type,
+        name: attachment.file.name,
+        size: attachment.file.size,
+      })) : undefined
+    });
+    const conversation = addMessage(question);
+    await answer({ question, text: userMessage, requestedMode: activeMode, attachments: currentAttachments, conversation });
+  };
+
+  /** Answers a question again, as a new branch next to the answers it already has. */
+  const handleRegenerate = (question: ChatMessage, mode: ChatMode) => {
+    const conversation = currentHandle();
+    if (isLoading || !conversation || missingInput(mode, [])) return;
+    answer({ question, text: question.content, requestedMode: mode, attachments: [], conversation });
+  };
+
+  /** Sends an edited question as a sibling of the original, so the original thread is kept. */
+  const handleResend = (original: ChatMessage, mode: ChatMode) => {
+    const text = editDraft.trim();
+    if (!text || isLoading || missingInput(mode, [])) return;
+    setEditingId(null);
+    if (text === original.content) return;
+    const question = createMessage({ role: "user", parentId: original.parentId ?? null, content: text });
+    const conversation = addMessage(question, currentHandle() ?? undefined);
+    answer({ question, text, requestedMode: mode, attachments: [], conversation });
+  };
+
+  /** The mode of the answer after a message in the thread, to resend an edited question in. */
+  const replyMode = (index: number) => (messages[index + 1]?.mode ?? activeMode) as ChatMode;
+
+  /** The actions a message offers; questions with attachments cannot be sent again without them. */
+  const messageActions = (message: ChatMessage, index: number) => {
+    if (message.role === "user") {
+      if (messageAttachments(message).length > 0) return {};
+      return {
+        onEdit: () => {
+          setEditDraft(message.content);
+          setEditingId(message.id);
+        },
+      };
+    }
+    const onRate = (feedback: MessageFeedback) => rateMessage(message.id, feedback);
+    const question = messages[index - 1];
+    if (question?.role !== "user" || messageAttachments(question).length > 0) return { onRate };
+    return {
+      onRate,
+      onRegenerate: () => handleRegenerate(question, (message.mode ?? activeMode) as ChatMode),
+      onAskInMode: (mode: ChatMode) => handleRegenerate(question, mode),
+    };
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -171,9 +446,9 @@ export function ChatInterface() {
       <div className="flex-1 overflow-hidden relative mt-4">
         <ScrollArea className="h-full pr-4" ref={scrollRef}>
           <div className="flex flex-col gap-6 py-4">
-            {messages.map((message, index) => (
+            {messages.map((message, mIdx) => (
               <div
-                key={index}
+                key={message.id}
                 className={cn(
                   "flex flex-col max-w-[85%] group animate-in fade-in slide-in-from-bottom-2 duration-300",
                   message.role === "user" ? "ml-auto" : "mr-auto"
@@ -200,49 +475,152 @@ export function ChatInterface() {
                       {message.mode}
                     </Badge>
                   )}
+                  {message.verifiedAnswers && message.verifiedAnswers.length > 0 && (
+                    <Badge
+                      variant="outline"
+                      className="text-[8px] py-0 px-1.5 h-4 gap-1 text-green-700 border-green-600/40"
+                      title={`Built on answers verified by the IDMC team for: ${message.verifiedAnswers.map((verified) => verified.question).join("; ")}`}
+                    >
+                      <BadgeCheck className="w-2.5 h-2.5" />
+                      verified by team
+                    </Badge>
+                  )}
+                  {message.status === "stopped" && (
+                    <Badge variant="outline" className="text-[8px] py-0 px-1.5 h-4 bg-muted/30 text-muted-foreground">
+                      stopped
+                    </Badge>
+                  )}
                 </div>
-                <div className={message.role === "user" ? "chat-bubble-user" : "chat-bubble-ai"}>
-                  {message.attachment && (
-                    <div className="mb-3 p-2 bg-background/20 rounded-lg border border-white/10 flex items-center gap-3 overflow-hidden">
-                      {message.attachment.type.startsWith('image/') ? (
-                        <img 
-                          src={message.attachment.url} 
-                          alt="Attachment" 
-                          className="w-12 h-12 object-cover rounded border border-white/20" 
-                        />
-                      ) : (
-                        <div className="w-12 h-12 bg-white/10 rounded flex items-center justify-center">
-                          {getFileIcon(message.attachment.type)}
+                {editingId === message.id ? (
+                  <div className="flex flex-col gap-2 rounded-2xl border bg-background p-3 min-w-[320px]">
+                    <Textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Escape") setEditingId(null);
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          handleResend(message, replyMode(mIdx));
+                        }
+                      }}
+                      className="min-h-[60px] max-h-[200px] text-sm"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" className="h-7 text-xs" disabled={!editDraft.trim() || isLoading} onClick={() => handleResend(message, replyMode(mIdx))}>
+                        Save & resend
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className={message.role === "user" ? "chat-bubble-user" : "chat-bubble-ai"}>
+                    {messageAttachments(message).map((attachment, aIdx) => (
+                      <div key={aIdx} className="mb-3 p-2 bg-background/20 rounded-lg border border-white/10 flex items-center gap-3 overflow-hidden">
+                        {attachment.type.startsWith('image/') && attachment.url ? (
+                          <img 
+                            src={attachment.url} 
+                            alt={attachment.name} 
+                            className="w-12 h-12 object-cover rounded border border-white/20" 
+                          />
+                        ) : (
+                          <div className="w-12 h-12 bg-white/10 rounded flex items-center justify-center">
+                            {getFileIcon(attachment.type)}
+                          </div>
+                        )}
+                        <div className="flex flex-col min-w-0">
+                          <span className="text-[10px] font-bold opacity-70 uppercase">Attachment</span>
+                          <span className="text-xs truncate font-medium">{attachment.name}</span>
                         </div>
-                      )}
-                      <div className="flex flex-col min-w-0">
-                        <span className="text-[10px] font-bold opacity-70 uppercase">Attachment</span>
-                        <span className="text-xs truncate font-medium">{message.attachment.name}</span>
                       </div>
-                    </div>
-                  )}
-                  <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
-                  
-                  {message.sources && message.sources.length > 0 && (
-                    <div className="mt-4 pt-3 border-t border-border/50">
-                      <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-2">Sources:</p>
-                      <ul className="flex flex-wrap gap-2">
-                        {message.sources.map((source, sIdx) => (
-                          <li key={sIdx}>
-                            <a 
-                              href={source} 
-                              target="_blank" 
-                              className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-secondary text-secondary-foreground text-[10px] hover:underline transition-all"
-                            >
-                              <Globe className="w-3 h-3" />
-                              Documentation
-                            </a>
-                          </li>
+                    ))}
+                    {message.citations ? (
+                      <CitedAnswer
+                        content={message.content}
+                        citations={message.citations}
+                        unsupportedSentences={message.unsupportedSentences}
+                      />
+                    ) : message.role === "ai" ? (
+                      <MarkdownContent content={message.content} />
+                    ) : (
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                    )}
+
+                    {message.failedBranches && message.failedBranches.length > 0 && (
+                      <div className="mt-3 flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                        <AlertCircle className="w-3 h-3 shrink-0" />
+                        Partial answer: built from {message.contributors?.join(", ")} only (
+                        {message.failedBranches
+                          .map((failure) => (typeof failure === "string" ? failure : `${failure.branch}: ${failure.reason}`))
+                          .join("; ")}
+                        ).
+                      </div>
+                    )}
+
+                    {message.comparison && <ModelAgreement comparison={message.comparison} />}
+
+                    {message.diagnosis && <DiagnosisCard diagnosis={message.diagnosis} />}
+
+                    {message.dataProfiles && message.dataProfiles.length > 0 && (
+                      <DataProfile profiles={message.dataProfiles} rules={message.ruleSuggestions} />
+                    )}
+
+                    {message.architecture && <ArchitectureGraph graph={message.architecture} />}
+
+                    {message.mappingDesign && <MappingDesign design={message.mappingDesign} />}
+
+                    {message.migrationAssessment && <MigrationAssessment assessment={message.migrationAssessment} />}
+
+                    {message.expressions && message.expressions.length > 0 && <ExpressionBlocks expressions={message.expressions} />}
+
+                    {message.agentTrace && <AgentTrace steps={message.agentTrace} stepLimitReached={message.stepLimitReached} />}
+
+                    {message.coverage && message.coverage.length > 0 && (
+                      <div className="mt-3 space-y-1 text-[10px] text-muted-foreground">
+                        {message.coverage.map((file) => (
+                          <div key={file.file} className="flex items-start gap-1.5">
+                            <Info className="w-3 h-3 shrink-0 mt-px" />
+                            <span>
+                              {file.file} was too large to read in full; {file.method === "summarized" ? "summarized" : "considered"}: {file.considered.join("; ") || "nothing"}
+                              {file.omitted.length > 0 && <> (not read: {file.omitted.join("; ")})</>}
+                            </span>
+                          </div>
                         ))}
-                      </ul>
-                    </div>
-                  )}
-                </div>
+                      </div>
+                    )}
+                  
+                    {!message.citations?.length && message.sources && message.sources.length > 0 && (
+                      <div className="mt-4 pt-3 border-t border-border/50">
+                        <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-2">Sources:</p>
+                        <ul className="flex flex-wrap gap-2">
+                          {message.sources.map((source, sIdx) => (
+                            <li key={sIdx}>
+                              <a 
+                                href={source} 
+                                target="_blank" 
+                                className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-secondary text-secondary-foreground text-[10px] hover:underline transition-all"
+                              >
+                                <Globe className="w-3 h-3" />
+                                Documentation
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {message !== GREETING && editingId !== message.id && (
+                  <MessageActions
+                    message={message}
+                    alternatives={alternativesOf(message)}
+                    onSwitch={switchBranch}
+                    disabled={isLoading}
+                    {...messageActions(message, mIdx)}
+                  />
+                )}
               </div>
             ))}
             {isLoading && (
@@ -251,14 +629,21 @@ export function ChatInterface() {
                   <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center text-white">
                     <Sparkles className="w-3.5 h-3.5" />
                   </div>
-                  <span className="text-[10px] uppercase tracking-wider font-bold text-muted-foreground">Assistant Thinking</span>
+                  <span className="text-[10px] uppercase tracking-wider font-bold text-muted-foreground">
+                    {draft?.stage ? STAGE_LABELS[draft.stage] : "Assistant Thinking"}
+                  </span>
                 </div>
                 <div className="chat-bubble-ai min-w-[60px]">
-                  <div className="flex gap-1 py-1">
-                    <span className="typing-dot"></span>
-                    <span className="typing-dot"></span>
-                    <span className="typing-dot"></span>
-                  </div>
+                  {draft?.content ? (
+                    <MarkdownContent content={draft.content} />
+                  ) : (
+                    <div className="flex gap-1 py-1">
+                      <span className="typing-dot"></span>
+                      <span className="typing-dot"></span>
+                      <span className="typing-dot"></span>
+                    </div>
+                  )}
+                  {draft?.steps && draft.steps.length > 0 && <AgentTrace steps={draft.steps} defaultOpen />}
                 </div>
               </div>
             )}
@@ -267,26 +652,36 @@ export function ChatInterface() {
       </div>
 
       <div className="mt-4 bg-background border rounded-2xl p-4 shadow-lg focus-within:ring-2 ring-primary/20 transition-all">
-        {pendingAttachment && (
-          <div className="mb-3 flex items-center gap-3 p-2 bg-muted/50 rounded-xl border animate-in fade-in slide-in-from-bottom-2 duration-200">
-            {pendingAttachment.type.startsWith('image/') ? (
-              <img 
-                src={pendingAttachment.dataUri} 
-                alt="Pending" 
-                className="w-10 h-10 object-cover rounded border" 
-              />
-            ) : (
-              <div className="w-10 h-10 bg-primary/10 rounded flex items-center justify-center">
-                {getFileIcon(pendingAttachment.type)}
+        {pendingAttachments.length > 0 && (
+          <div className="mb-3 grid gap-2 sm:grid-cols-2">
+            {pendingAttachments.map((attachment) => (
+              <div key={attachment.id} className="flex items-center gap-3 p-2 bg-muted/50 rounded-xl border animate-in fade-in slide-in-from-bottom-2 duration-200">
+                {attachment.type.startsWith('image/') ? (
+                  <img 
+                    src={attachment.dataUri} 
+                    alt={attachment.file.name} 
+                    className="w-10 h-10 object-cover rounded border" 
+                  />
+                ) : (
+                  <div className="w-10 h-10 bg-primary/10 rounded flex items-center justify-center">
+                    {getFileIcon(attachment.type)}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-semibold truncate">{attachment.file.name}</p>
+                  <p className="text-[10px] text-muted-foreground uppercase">Ready to upload</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 rounded-full"
+                  onClick={() => removeAttachment(attachment.id)}
+                  aria-label={`Remove ${attachment.file.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
               </div>
-            )}
-            <div className="flex-1 min-w-0">
-              <p className="text-xs font-semibold truncate">{pendingAttachment.file.name}</p>
-              <p className="text-[10px] text-muted-foreground uppercase">Ready to upload</p>
-            </div>
-            <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" onClick={removeAttachment}>
-              <X className="w-4 h-4" />
-            </Button>
+            ))}
           </div>
         )}
 
@@ -296,7 +691,7 @@ export function ChatInterface() {
             size="sm" 
             className="rounded-full text-xs shrink-0"
             onClick={() => setActiveMode("comprehensive")}
-            disabled={!!pendingAttachment}
+            disabled={pendingAttachments.length > 0 && !ATTACHMENT_MODES.includes(activeMode)}
           >
             <Layers className="w-3 h-3 mr-1.5" />
             Comprehensive Multi-Model
@@ -306,7 +701,7 @@ export function ChatInterface() {
             size="sm" 
             className="rounded-full text-xs shrink-0"
             onClick={() => setActiveMode("contextual")}
-            disabled={!!pendingAttachment}
+            disabled={pendingAttachments.length > 0 && !ATTACHMENT_MODES.includes(activeMode)}
           >
             <Database className="w-3 h-3 mr-1.5" />
             Contextual Knowledge
@@ -316,11 +711,57 @@ export function ChatInterface() {
             size="sm" 
             className="rounded-full text-xs shrink-0"
             onClick={() => setActiveMode("standard")}
-            disabled={!!pendingAttachment}
+            disabled={pendingAttachments.length > 0 && !ATTACHMENT_MODES.includes(activeMode)}
           >
             <Sparkles className="w-3 h-3 mr-1.5" />
             Standard Answer
           </Button>
+          <Button 
+            variant={activeMode === "troubleshoot" ? "default" : "outline"} 
+            size="sm" 
+            className="rounded-full text-xs shrink-0"
+            onClick={() => setActiveMode("troubleshoot")}
+          >
+            <Stethoscope className="w-3 h-3 mr-1.5" />
+            Troubleshoot Logs
+          </Button>
+          <Button 
+            variant={activeMode === "architecture" ? "default" : "outline"} 
+            size="sm" 
+            className="rounded-full text-xs shrink-0"
+            onClick={() => setActiveMode("architecture")}
+          >
+            <Network className="w-3 h-3 mr-1.5" />
+            Architecture Inventory
+          </Button>
+          <Button 
+            variant={activeMode === "mapping" ? "default" : "outline"} 
+            size="sm" 
+            className="rounded-full text-xs shrink-0"
+            onClick={() => setActiveMode("mapping")}
+          >
+            <Workflow className="w-3 h-3 mr-1.5" />
+            Design Mapping
+          </Button>
+          <Button 
+            variant={activeMode === "expression" ? "default" : "outline"} 
+            size="sm" 
+            className="rounded-full text-xs shrink-0"
+            onClick={() => setActiveMode("expression")}
+            disabled={pendingAttachments.length > 0 && !ATTACHMENT_MODES.includes(activeMode)}
+          >
+            <Braces className="w-3 h-3 mr-1.5" />
+            Expression Helper
+          </Button>
+          <Button 
+            variant={activeMode === "agent" ? "default" : "outline"} 
+            size="sm" 
+            className="rounded-full text-xs shrink-0"
+            onClick={() => setActiveMode("agent")}
+          >
+            <Bot className="w-3 h-3 mr-1.5" />
+            Agent
+          </Button>
         </div>
         <div className="flex items-end gap-2">
           <input 
@@ -328,13 +769,15 @@ export function ChatInterface() {
             className="hidden" 
             ref={fileInputRef} 
             onChange={handleFileChange}
-            accept="image/*,.pdf,.txt,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
+            multiple
+            accept="image/*,.pdf,.txt,.rtf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.csv,.zip,.json,.xml,.log"
           />
           <Button 
             variant="ghost" 
             size="icon" 
             className="rounded-xl h-10 w-10 shrink-0 text-muted-foreground"
             onClick={() => fileInputRef.current?.click()}
+            disabled={pendingAttachments.length >= MAX_ATTACHMENTS}
           >
             <Paperclip className="w-4 h-4" />
           </Button>
@@ -342,22 +785,34 @@ export function ChatInterface() {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={pendingAttachment ? "Describe what to analyze in the file..." : "Ask anything about IDMC..."}
+            placeholder={activeMode === "troubleshoot" ? "Paste a session or agent log, or attach log files..." : activeMode === "architecture" ? "Attach an architecture diagram and optionally describe what to check..." : activeMode === "mapping" ? "Attach a source-to-target spec and optionally add naming standards or constraints..." : activeMode === "expression" ? "Describe the expression and its ports, e.g. ORDER_DT: string..." : activeMode === "agent" ? "Ask a question or describe a task; attach logs or spreadsheets for the agent to inspect..." : pendingAttachments.length > 1 ? "Describe what to analyze or compare across the files..." : pendingAttachments.length ? "Describe what to analyze in the file..." : "Ask anything about IDMC..."}
             className="min-h-[60px] max-h-[200px] border-none focus-visible:ring-0 resize-none p-0 bg-transparent"
           />
-          <Button 
-            size="icon" 
-            disabled={(!input.trim() && !pendingAttachment) || isLoading} 
-            onClick={() => handleSubmit()}
-            className="rounded-xl h-10 w-10 shrink-0 shadow-lg shadow-primary/20"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={handleStop}
+              className="rounded-xl h-10 w-10 shrink-0"
+              aria-label="Stop generating"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </Button>
+          ) : (
+            <Button 
+              size="icon" 
+              disabled={(!input.trim() && pendingAttachments.length === 0) || isLoadingConversation} 
+              onClick={() => handleSubmit()}
+              className="rounded-xl h-10 w-10 shrink-0 shadow-lg shadow-primary/20"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
         <div className="mt-2 flex items-center gap-2">
           <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
              <AlertCircle className="w-3 h-3" />
-             {pendingAttachment ? "Multimodal mode enabled." : "AI-generated content can occasionally contain inaccuracies."}
+             {activeMode === "troubleshoot" ? "Logs are matched against known IDMC error signatures." : activeMode === "architecture" ? "Components are extracted into a graph you can export as JSON." : activeMode === "mapping" ? "The design is checked against every row of the spec." : activeMode === "expression" ? "Expressions are parsed and type-checked before they are shown." : activeMode === "agent" ? "Every tool call the agent makes is shown in the answer's trace." : pendingAttachments.length ? "Multimodal mode enabled." : "AI-generated content can occasionally contain inaccuracies."}
           </div>
         </div>
       </div>
@@ -0,0 +1,143 @@
+"use client";
+
+import { Fragment, type ReactNode } from "react";
+import { AlertTriangle, Globe } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { MarkdownContent } from "@/components/markdown-content";
+import type { Citation } from "@/lib/conversation-types";
+
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function CitationCard({ citation }: { citation: Citation }) {
+  return (
+    <div className="flex flex-col gap-1 max-w-xs">
+      <span className="text-xs font-semibold leading-snug">{citation.title}</span>
+      {citation.heading && <span className="text-[10px] text-muted-foreground">{citation.heading}</span>}
+      <p className="text-[11px] leading-relaxed text-muted-foreground">{citation.snippet}</p>
+      <span className="text-[10px] text-primary truncate">{citation.url}</span>
+    </div>
+  );
+}
+
+function CitationMarker({ citation }: { citation: Citation }) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <a
+          href={citation.url}
+          target="_blank"
+          className="inline-flex items-center justify-center min-w-4 h-4 px-1 mx-0.5 align-super rounded bg-secondary text-secondary-foreground text-[9px] font-bold no-underline hover:bg-primary hover:text-primary-foreground transition-colors"
+        >
+          {citation.n}
+        </a>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="py-2">
+        <CitationCard citation={citation} />
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/** Replaces [n] markers with hoverable citations; markers without a matching citation stay as text. */
+function withMarkers(text: string, citations: Map<number, Citation>): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(MARKER)) {
+    const numbers = match[1].split(",").map((n) => Number(n.trim()));
+    if (!numbers.every((n) => citations.has(n))) continue;
+    nodes.push(text.slice(cursor, match.index));
+    numbers.forEach((n) => nodes.push(<CitationMarker key={`${match.index}-${n}`} citation={citations.get(n)!} />));
+    cursor = match.index + match[0].length;
+  }
+  nodes.push(text.slice(cursor));
+  return nodes;
+}
+
+/**
+ * Splits a run of answer text into plain and flagged parts, matching each unsupported sentence in
+ * order. Runs are the text between Markdown formatting, so a sentence with formatting inside is
+ * not underlined; it is still counted below the answer.
+ */
+function segmentUnsupported(content: string, unsupported: string[]) {
+  const segments: { text: string; flagged: boolean }[] = [];
+  let cursor = 0;
+  for (const sentence of unsupported) {
+    const start = content.indexOf(sentence, cursor);
+    if (start < 0) continue;
+    if (start > cursor) segments.push({ text: content.slice(cursor, start), flagged: false });
+    segments.push({ text: sentence, flagged: true });
+    cursor = start + sentence.length;
+  }
+  if (cursor < content.length) segments.push({ text: content.slice(cursor), flagged: false });
+  return segments;
+}
+
+type CitedAnswerProps = {
+  content: string;
+  citations: Citation[];
+  unsupportedSentences?: string[];
+};
+
+export function CitedAnswer({ content, citations, unsupportedSentences = [] }: CitedAnswerProps) {
+  const byNumber = new Map(citations.map((citation) => [citation.n, citation]));
+
+  return (
+    <TooltipProvider delayDuration={150}>
+      <MarkdownContent
+        content={content}
+        renderText={(text) =>
+          segmentUnsupported(text, unsupportedSentences).map((segment, i) =>
+            segment.flagged ? (
+              <span
+                key={i}
+                className="underline decoration-wavy decoration-amber-500/70 underline-offset-4"
+                title="Not supported by the retrieved documentation"
+              >
+                {withMarkers(segment.text, byNumber)}
+              </span>
+            ) : (
+              <Fragment key={i}>{withMarkers(segment.text, byNumber)}</Fragment>
+            )
+          )
+        }
+      />
+
+      {unsupportedSentences.length > 0 && (
+        <div className="mt-3 flex items-center gap-1.5 text-[10px] text-muted-foreground">
+          <AlertTriangle className="w-3 h-3 shrink-0 text-amber-500" />
+          {unsupportedSentences.length === 1
+            ? "1 sentence is not supported by the retrieved documentation."
+            : `${unsupportedSentences.length} sentences are not supported by the retrieved documentation.`}
+        </div>
+      )}
+
+      {citations.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-border/50">
+          <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-2">Sources:</p>
+          <ul className="flex flex-wrap gap-2">
+            {citations.map((citation) => (
+              <li key={citation.n}>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <a
+                      href={citation.url}
+                      target="_blank"
+                      className="inline-flex items-center gap-1.5 px-2 py-1 rounded bg-secondary text-secondary-foreground text-[10px] hover:underline transition-all max-w-[220px]"
+                    >
+                      <Globe className="w-3 h-3 shrink-0" />
+                      <span className="font-bold">[{citation.n}]</span>
+                      <span className="truncate">{citation.title}</span>
+                    </a>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom" className="py-2">
+                    <CitationCard citation={citation} />
+                  </TooltipContent>
+                </Tooltip>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </TooltipProvider>
+  );
+}
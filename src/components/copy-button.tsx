@@ -0,0 +1,23 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+/** Copies `text` to the clipboard, showing a check mark for a moment after. */
+export function CopyButton({ text, label, className }: { text: string; label: string; className?: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Button variant="ghost" size="icon" className={cn("h-6 w-6 shrink-0", className)} onClick={copy} aria-label={label}>
+      {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+    </Button>
+  );
+}
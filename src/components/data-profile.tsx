@@ -0,0 +1,156 @@
+"use client";
+
+import { ChevronDown, TableProperties, ShieldAlert } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { DataProfile as DataProfileData, RuleSuggestion } from "@/lib/conversation-types";
+
+type Sheet = DataProfileData["sheets"][number];
+
+const chartConfig = {
+  nullPercent: { label: "Null %", color: "hsl(var(--chart-1))" },
+  distinctPercent: { label: "Distinct %", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function percent(share: number) {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+function range(column: Sheet["columns"][number]) {
+  if (column.min !== undefined) return `${column.min} – ${column.max}`;
+  if (column.minLength !== undefined) return `len ${column.minLength}–${column.maxLength}`;
+  return "—";
+}
+
+function SheetProfile({ file, sheet }: { file: string; sheet: Sheet }) {
+  const chartData = sheet.columns.map((column) => ({
+    column: column.name,
+    nullPercent: Math.round(column.nullRate * 1000) / 10,
+    distinctPercent: Math.round((column.distinct / Math.max(sheet.rowCount, 1)) * 1000) / 10,
+  }));
+  const piiCount = sheet.columns.filter((column) => column.pii).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <span className="font-semibold">{file}</span>
+        <span className="text-muted-foreground">· {sheet.name} · {sheet.rowCount.toLocaleString()} rows · {sheet.columns.length} columns</span>
+        {piiCount > 0 && (
+          <Badge variant="outline" className="text-[9px] py-0 px-1.5 h-4 gap-0.5 text-red-700 border-red-600/40">
+            <ShieldAlert className="w-2.5 h-2.5" />
+            {piiCount} suspected PII
+          </Badge>
+        )}
+      </div>
+      <ChartContainer config={chartConfig} className="h-40 w-full">
+        <BarChart data={chartData} margin={{ left: -20, right: 4 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="column" tickLine={false} axisLine={false} fontSize={10} interval={0} tickFormatter={(value: string) => (value.length > 10 ? `${value.slice(0, 9)}…` : value)} />
+          <YAxis tickLine={false} axisLine={false} fontSize={10} domain={[0, 100]} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="nullPercent" fill="var(--color-nullPercent)" radius={2} />
+          <Bar dataKey="distinctPercent" fill="var(--color-distinctPercent)" radius={2} />
+        </BarChart>
+      </ChartContainer>
+      <Table className="text-[11px]">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8">Column</TableHead>
+            <TableHead className="h-8">Type</TableHead>
+            <TableHead className="h-8 text-right">Null</TableHead>
+            <TableHead className="h-8 text-right">Distinct</TableHead>
+            <TableHead className="h-8">Range</TableHead>
+            <TableHead className="h-8">Top pattern</TableHead>
+            <TableHead className="h-8">PII</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sheet.columns.map((column) => (
+            <TableRow key={column.name}>
+              <TableCell className="py-1.5 font-medium">{column.name}</TableCell>
+              <TableCell className="py-1.5">{column.type}</TableCell>
+              <TableCell className="py-1.5 text-right">{percent(column.nullRate)}</TableCell>
+              <TableCell className="py-1.5 text-right">
+                {column.distinct.toLocaleString()}
+                {column.distinctCapped && "+"}
+              </TableCell>
+              <TableCell className="py-1.5 whitespace-nowrap">{range(column)}</TableCell>
+              <TableCell className="py-1.5 font-code">
+                {column.patterns[0] ? `${column.patterns[0].pattern} (${percent(column.patterns[0].share)})` : "—"}
+              </TableCell>
+              <TableCell className="py-1.5">
+                {column.pii && (
+                  <Badge variant="outline" className="text-[9px] py-0 px-1.5 h-4 font-normal text-red-700 border-red-600/40">
+                    {column.pii}
+                  </Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function RuleSuggestions({ rules }: { rules: RuleSuggestion[] }) {
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">Proposed CDQ rules</p>
+      <Table className="text-[11px]">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8">Column</TableHead>
+            <TableHead className="h-8">Dimension</TableHead>
+            <TableHead className="h-8">Rule</TableHead>
+            <TableHead className="h-8">CDQ asset</TableHead>
+            <TableHead className="h-8">Logic</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.map((rule, rIdx) => (
+            <TableRow key={rIdx}>
+              <TableCell className="py-1.5 font-medium">{rule.column}</TableCell>
+              <TableCell className="py-1.5">
+                <Badge variant="secondary" className="text-[9px] py-0 px-1.5 h-4 font-normal">
+                  {rule.dimension}
+                </Badge>
+              </TableCell>
+              <TableCell className="py-1.5">{rule.rule}</TableCell>
+              <TableCell className="py-1.5 whitespace-nowrap">{rule.asset}</TableCell>
+              <TableCell className="py-1.5 font-code break-all">{rule.logic}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function DataProfile({ profiles, rules }: { profiles: DataProfileData[]; rules?: RuleSuggestion[] }) {
+  const sheets = profiles.flatMap((profile) => profile.sheets.map((sheet) => ({ file: profile.file, sheet })));
+
+  return (
+    <Collapsible defaultOpen className="mt-4 pt-3 border-t border-border/50">
+      <CollapsibleTrigger className="group flex w-full items-center gap-1.5 text-[10px] font-bold text-muted-foreground uppercase tracking-widest">
+        <TableProperties className="w-3 h-3" />
+        Data profile
+        <span className="normal-case tracking-normal font-normal">
+          {sheets.length} {sheets.length === 1 ? "sheet" : "sheets"}
+          {rules?.length ? `, ${rules.length} proposed rules` : ""}
+        </span>
+        <ChevronDown className="w-3 h-3 ml-auto transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 space-y-5">
+        {sheets.map(({ file, sheet }) => (
+          <SheetProfile key={`${file}/${sheet.name}`} file={file} sheet={sheet} />
+        ))}
+        {rules && rules.length > 0 && <RuleSuggestions rules={rules} />}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { Stethoscope, FileSearch, Wrench, Fingerprint } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { LogDiagnosis } from "@/lib/conversation-types";
+
+const CONFIDENCE_TONE: Record<LogDiagnosis["confidence"], string> = {
+  high: "text-green-700 border-green-600/40",
+  medium: "text-amber-700 border-amber-600/40",
+  low: "text-red-700 border-red-600/40",
+};
+
+function SectionLabel({ icon: Icon, children }: { icon: typeof Wrench; children: React.ReactNode }) {
+  return (
+    <p className="flex items-center gap-1.5 text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-1.5">
+      <Icon className="w-3 h-3" />
+      {children}
+    </p>
+  );
+}
+
+export function DiagnosisCard({ diagnosis }: { diagnosis: LogDiagnosis }) {
+  return (
+    <Card className="mt-4 shadow-none bg-background/60">
+      <CardHeader className="p-3 pb-2 space-y-1">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Stethoscope className="w-3.5 h-3.5 text-primary" />
+          <CardTitle className="text-xs font-bold uppercase tracking-widest">Diagnosis</CardTitle>
+          <Badge variant="secondary" className="text-[9px] py-0 px-1.5 h-4 font-normal">
+            {diagnosis.category}
+          </Badge>
+          <Badge variant="outline" className={cn("text-[9px] py-0 px-1.5 h-4 font-normal", CONFIDENCE_TONE[diagnosis.confidence])}>
+            {diagnosis.confidence} confidence
+          </Badge>
+        </div>
+        <p className="text-xs text-muted-foreground leading-snug">{diagnosis.summary}</p>
+      </CardHeader>
+      <CardContent className="p-3 pt-0 space-y-3 text-xs">
+        <div>
+          <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-1">Root cause</p>
+          <p className="leading-snug">{diagnosis.rootCause}</p>
+        </div>
+
+        {diagnosis.evidence.length > 0 && (
+          <div>
+            <SectionLabel icon={FileSearch}>Evidence</SectionLabel>
+            <ul className="space-y-1.5">
+              {diagnosis.evidence.map((item, eIdx) => (
+                <li key={eIdx}>
+                  <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                    <span className="font-medium">{item.file}:{item.line}</span>
+                    {item.timestamp && <span>{item.timestamp}</span>}
+                  </div>
+                  <pre className="mt-0.5 max-h-32 overflow-auto rounded bg-muted px-2 py-1 font-code text-[10px] leading-snug whitespace-pre-wrap break-all">
+                    {item.text}
+                  </pre>
+                  {item.note && <p className="mt-0.5 text-[10px] text-muted-foreground">{item.note}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {diagnosis.remediation.length > 0 && (
+          <div>
+            <SectionLabel icon={Wrench}>Remediation</SectionLabel>
+            <ol className="list-decimal pl-4 space-y-1 leading-snug">
+              {diagnosis.remediation.map((step, rIdx) => (
+                <li key={rIdx}>{step}</li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {diagnosis.matchedSignatures.length > 0 && (
+          <div>
+            <SectionLabel icon={Fingerprint}>Known errors matched</SectionLabel>
+            <div className="flex flex-wrap gap-1">
+              {diagnosis.matchedSignatures.map((signature) => (
+                <Badge key={signature.id} variant="outline" className="text-[9px] py-0 px-1.5 h-4 font-normal" title={signature.id}>
+                  {signature.title}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
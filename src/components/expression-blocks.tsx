@@ -0,0 +1,104 @@
+"use client";
+
+import { Fragment } from "react";
+import { CircleAlert, CircleCheck, TriangleAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { CopyButton } from "@/components/copy-button";
+import { cn } from "@/lib/utils";
+import type { CheckedExpression } from "@/lib/conversation-types";
+
+type Diagnostic = CheckedExpression["diagnostics"][number];
+
+/**
+ * Splits the code at diagnostic boundaries so each problem's characters can be underlined.
+ * Where an error and a warning overlap, the error wins.
+ */
+function segments(code: string, diagnostics: Diagnostic[]) {
+  const cuts = new Set([0, code.length]);
+  for (const d of diagnostics) {
+    cuts.add(Math.min(d.start, code.length));
+    cuts.add(Math.min(d.end, code.length));
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    const covering = diagnostics.filter((d) => d.start < end && d.end > start);
+    const severity = covering.some((d) => d.severity === "error") ? "error" : covering.length ? "warning" : undefined;
+    return { text: code.slice(start, end), severity, title: covering.map((d) => d.message).join("\n") };
+  });
+}
+
+function ExpressionBlock({ expression }: { expression: CheckedExpression }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-semibold truncate">{expression.title}</span>
+        {expression.outputPort && <span className="text-[10px] text-muted-foreground font-code truncate">→ {expression.outputPort}</span>}
+        <Badge
+          variant="outline"
+          className={cn(
+            "text-[9px] py-0 px-1.5 h-4 font-normal ml-auto shrink-0",
+            expression.valid ? "border-green-600/40 text-green-700" : "border-red-600/40 text-red-700"
+          )}
+        >
+          {expression.valid ? <CircleCheck className="w-2.5 h-2.5 mr-1" /> : <CircleAlert className="w-2.5 h-2.5 mr-1" />}
+          {expression.valid ? "Validated" : "Has errors"}
+          {expression.type && ` · ${expression.type}`}
+        </Badge>
+        {expression.repaired && (
+          <Badge variant="secondary" className="text-[9px] py-0 px-1.5 h-4 font-normal shrink-0">
+            Auto-corrected
+          </Badge>
+        )}
+        <CopyButton text={expression.code} label="Copy expression" />
+      </div>
+      <pre className="rounded-md bg-muted/60 px-3 py-2 text-[11px] font-code whitespace-pre-wrap break-all">
+        {segments(expression.code, expression.diagnostics).map((segment, sIdx) =>
+          segment.severity ? (
+            <span
+              key={sIdx}
+              title={segment.title}
+              className={cn(
+                "underline decoration-wavy underline-offset-2",
+                segment.severity === "error" ? "decoration-red-600 bg-red-500/10" : "decoration-amber-500"
+              )}
+            >
+              {segment.text}
+            </span>
+          ) : (
+            <Fragment key={sIdx}>{segment.text}</Fragment>
+          )
+        )}
+      </pre>
+      {expression.diagnostics.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {expression.diagnostics.map((d, dIdx) => (
+            <li key={dIdx} className="flex items-start gap-1.5">
+              {d.severity === "error" ? (
+                <CircleAlert className="w-3 h-3 shrink-0 mt-0.5 text-red-700" />
+              ) : (
+                <TriangleAlert className="w-3 h-3 shrink-0 mt-0.5 text-amber-700" />
+              )}
+              <span>
+                <span className="text-muted-foreground font-code mr-1.5">
+                  {d.line}:{d.column}
+                </span>
+                {d.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function ExpressionBlocks({ expressions }: { expressions: CheckedExpression[] }) {
+  return (
+    <div className="mt-4 pt-3 border-t border-border/50 space-y-4">
+      {expressions.map((expression, eIdx) => (
+        <ExpressionBlock key={eIdx} expression={expression} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, BadgeCheck, KeyRound, LogOut, MessageSquareWarning, Pencil, ThumbsDown, ThumbsUp, Trash2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { deleteCuratedAnswer, saveCuratedAnswer } from "@/lib/curated-store";
+import { signInAsReviewer, signOutReviewer } from "@/lib/reviewer-session";
+import type { CuratedAnswer, FeedbackReport, FeedbackTally, RatedQuestion } from "@/lib/feedback-types";
+
+/** A curated answer being approved from a correction, or edited. */
+type CuratedDraft = { id?: string; question: string; answer: string; fromMessageId?: string };
+
+const CHART_CONFIG = {
+  up: { label: "Thumbs up", color: "hsl(142 71% 40%)" },
+  down: { label: "Thumbs down", color: "hsl(0 72% 51%)" },
+} satisfies ChartConfig;
+
+function percent(share: number) {
+  return `${Math.round(share * 100)}%`;
+}
+
+function Stat({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <Card>
+      <CardHeader className="p-4 pb-1">
+        <CardDescription className="text-xs">{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {detail && <CardContent className="px-4 pb-4 text-xs text-muted-foreground">{detail}</CardContent>}
+    </Card>
+  );
+}
+
+/** Thumbs up and down per mode or topic, one horizontal bar each, satisfaction in the label. */
+function SatisfactionChart({ title, description, tallies }: { title: string; description: string; tallies: FeedbackTally[] }) {
+  const data = tallies.map((t) => ({ ...t, label: `${t.key} (${percent(t.satisfaction)})` }));
+  return (
+    <Card>
+      <CardHeader className="p-4">
+        <CardTitle className="text-sm">{title}</CardTitle>
+        <CardDescription className="text-xs">{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 pb-4">
+        {data.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No ratings yet.</p>
+        ) : (
+          <ChartContainer config={CHART_CONFIG} className="aspect-auto w-full" style={{ height: Math.max(160, data.length * 36 + 60) }}>
+            <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="label" width={190} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="up" stackId="rating" fill="var(--color-up)" radius={[4, 0, 0, 4]} />
+              <Bar dataKey="down" stackId="rating" fill="var(--color-down)" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Approves a correction as a curated answer, or edits one; the wording can be polished first. */
+function CuratedAnswerDialog({ draft, onClose }: { draft: CuratedDraft; onClose: (saved: boolean) => void }) {
+  const [question, setQuestion] = useState(draft.question);
+  const [answer, setAnswer] = useState(draft.answer);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await saveCuratedAnswer({ id: draft.id, question, answer, fromMessageId: draft.fromMessageId });
+      onClose(true);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Could not save the verified answer", description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose(false)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{draft.id ? "Edit verified answer" : "Approve as verified answer"}</DialogTitle>
+          <DialogDescription>
+            Contextual and comprehensive answers to questions worded like this one will be built on this answer and marked as verified by the team.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <p className="text-xs font-semibold">Question</p>
+            <Input value={question} onChange={(e) => setQuestion(e.target.value)} className="text-sm" />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-semibold">Answer</p>
+            <Textarea value={answer} onChange={(e) => setAnswer(e.target.value)} className="min-h-[200px] text-sm" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onClose(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!question.trim() || !answer.trim() || isSaving} onClick={save}>
+            <BadgeCheck className="w-4 h-4 mr-1.5" />
+            {draft.id ? "Save" : "Approve"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Without `onApprove`, for visitors who are not reviewers, corrections are shown but cannot be approved. */
+function WorstQuestion({ question, onApprove }: { question: RatedQuestion; onApprove?: (draft: CuratedDraft) => void }) {
+  return (
+    <Collapsible className="border-b last:border-b-0 py-2">
+      <CollapsibleTrigger className="flex w-full items-start gap-3 text-left">
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium line-clamp-2">{question.question || "(no question text)"}</p>
+          <div className="mt-1 flex flex-wrap items-center gap-1.5 text-[10px] text-muted-foreground">
+            <Badge variant="outline" className="text-[9px] py-0 px-1.5 h-4">{question.topic}</Badge>
+            {question.modes.map((mode) => (
+              <Badge key={mode} variant="outline" className="text-[9px] py-0 px-1.5 h-4 bg-muted/30">{mode}</Badge>
+            ))}
+            <span>last rated {new Date(question.lastRatedAt).toLocaleDateString()}</span>
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center gap-3 text-xs">
+          <span className="flex items-center gap-1 text-green-600"><ThumbsUp className="w-3 h-3" />{question.up}</span>
+          <span className="flex items-center gap-1 text-red-600"><ThumbsDown className="w-3 h-3" />{question.down}</span>
+          {question.corrections.length > 0 && (
+            <span className="flex items-center gap-1 text-muted-foreground"><MessageSquareWarning className="w-3 h-3" />{question.corrections.length}</span>
+          )}
+        </div>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-2">
+        {question.corrections.length === 0 && <p className="text-xs text-muted-foreground">No corrections suggested.</p>}
+        {question.corrections.map((correction, cIdx) => (
+          <div key={cIdx} className="grid gap-2 rounded-md border p-2 text-xs sm:grid-cols-2">
+            <div>
+              <p className="text-[9px] font-bold text-muted-foreground uppercase tracking-widest">Answer{correction.mode && ` (${correction.mode})`}</p>
+              <p className="mt-0.5 max-h-40 overflow-auto whitespace-pre-wrap">{correction.answer}</p>
+            </div>
+            <div className="flex flex-col">
+              <p className="text-[9px] font-bold text-muted-foreground uppercase tracking-widest">Suggested correction</p>
+              <p className="mt-0.5 whitespace-pre-wrap">{correction.correction}</p>
+              {onApprove && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2 h-7 self-start text-xs"
+                  onClick={() => onApprove({ question: question.question, answer: correction.correction, fromMessageId: correction.messageId })}
+                >
+                  <BadgeCheck className="w-3 h-3 mr-1.5" />
+                  Approve as verified answer
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function CuratedAnswerItem({ curated, onEdit, onDelete }: { curated: CuratedAnswer; onEdit?: () => void; onDelete?: () => void }) {
+  return (
+    <div id={`curated-${curated.id}`} className="border-b last:border-b-0 py-2 scroll-mt-6 target:bg-primary/5">
+      <div className="flex items-start gap-3">
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium">{curated.question}</p>
+          <div className="mt-1 flex items-center gap-1.5 text-[10px] text-muted-foreground">
+            <Badge variant="outline" className="text-[9px] py-0 px-1.5 h-4">{curated.topic}</Badge>
+            <span>approved {new Date(curated.createdAt).toLocaleDateString()}</span>
+            {curated.updatedAt !== curated.createdAt && <span>, edited {new Date(curated.updatedAt).toLocaleDateString()}</span>}
+          </div>
+        </div>
+        {onEdit && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onEdit} aria-label="Edit verified answer">
+            <Pencil className="w-3.5 h-3.5" />
+          </Button>
+        )}
+        {onDelete && (
+          <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={onDelete} aria-label="Withdraw verified answer">
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        )}
+      </div>
+      <p className="mt-1.5 text-xs whitespace-pre-wrap text-muted-foreground">{curated.answer}</p>
+    </div>
+  );
+}
+
+/** Signs reviewers in with the shared reviewer key, or out again; the server keeps the session in a cookie. */
+function ReviewerAccess({ reviewer, enabled }: { reviewer: boolean; enabled: boolean }) {
+  const router = useRouter();
+  const [key, setKey] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      setKey("");
+      router.refresh();
+    } catch (error) {
+      toast({ variant: "destructive", title: failure, description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!enabled) {
+    return <p className="text-xs text-muted-foreground">Set IDMC_REVIEWER_KEY on the server to let reviewers approve answers.</p>;
+  }
+  if (reviewer) {
+    return (
+      <Button variant="ghost" size="sm" className="h-7 text-xs" disabled={isBusy} onClick={() => run(signOutReviewer, "Could not sign out")}>
+        <LogOut className="w-3 h-3 mr-1.5" />
+        Sign out as reviewer
+      </Button>
+    );
+  }
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        run(() => signInAsReviewer(key), "Could not sign in");
+      }}
+    >
+      <Input type="password" value={key} onChange={(e) => setKey(e.target.value)} placeholder="Reviewer key" className="h-7 w-40 text-xs" />
+      <Button type="submit" variant="outline" size="sm" className="h-7 text-xs" disabled={!key || isBusy}>
+        <KeyRound className="w-3 h-3 mr-1.5" />
+        Sign in to review
+      </Button>
+    </form>
+  );
+}
+
+/** The review dashboard: how satisfied users are with answers, which need fixing, and the approved fixes. */
+export function FeedbackDashboard({
+  report,
+  curated,
+  reviewer,
+  curationEnabled,
+}: {
+  report: FeedbackReport;
+  curated: CuratedAnswer[];
+  /** Whether the visitor signed in as a reviewer; only reviewers can change verified answers. */
+  reviewer: boolean;
+  curationEnabled: boolean;
+}) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<CuratedDraft | null>(null);
+
+  const closeDialog = (saved: boolean) => {
+    setDraft(null);
+    if (saved) router.refresh();
+  };
+
+  const withdraw = async (id: string) => {
+    try {
+      await deleteCuratedAnswer(id);
+      router.refresh();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Could not withdraw the verified answer", description: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" aria-label="Back to chat">
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="font-headline font-bold text-xl tracking-tight">Answer feedback</h1>
+          <p className="text-xs text-muted-foreground">Ratings and corrections users left on answers, for review by the IDMC leads.</p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-4">
+        <Stat label="Rated answers" value={report.total} />
+        <Stat label="Satisfaction" value={report.total ? percent(report.up / report.total) : "–"} detail={`${report.up} up, ${report.down} down`} />
+        <Stat label="Corrections" value={report.corrections} />
+        <Stat label="Questions rated down" value={report.worst.length} detail={report.worst.length ? "Worst shown below" : undefined} />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <SatisfactionChart title="By mode" description="Which chat modes users were happy with." tallies={report.byMode} />
+        <SatisfactionChart title="By topic" description="Topics are inferred from the wording of the question." tallies={report.byTopic} />
+      </div>
+
+      <Card>
+        <CardHeader className="p-4">
+          <CardTitle className="text-sm">Worst-rated questions</CardTitle>
+          <CardDescription className="text-xs">Lowest satisfaction first. Expand a question to compare the answers with the corrections users suggested.</CardDescription>
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          {report.worst.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No answers have been rated down.</p>
+          ) : (
+            report.worst.map((question) => <WorstQuestion key={question.question} question={question} onApprove={reviewer ? setDraft : undefined} />)
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="p-4 flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-sm flex items-center gap-1.5">
+              <BadgeCheck className="w-4 h-4 text-green-600" />
+              Verified answers
+            </CardTitle>
+            <CardDescription className="text-xs">Approved corrections. Contextual and comprehensive modes use them ahead of the documentation.</CardDescription>
+          </div>
+          <ReviewerAccess reviewer={reviewer} enabled={curationEnabled} />
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          {curated.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No verified answers yet.{reviewer && " Approve a suggested correction above to add one."}
+            </p>
+          ) : (
+            curated.map((answer) => (
+              <CuratedAnswerItem
+                key={answer.id}
+                curated={answer}
+                onEdit={reviewer ? () => setDraft({ id: answer.id, question: answer.question, answer: answer.answer }) : undefined}
+                onDelete={reviewer ? () => withdraw(answer.id) : undefined}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {draft && <CuratedAnswerDialog draft={draft} onClose={closeDialog} />}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { ArrowRight, ChevronDown, CircleAlert, FileDown, FileJson, Info, TriangleAlert, Workflow } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { downloadFile, fileStem } from "@/lib/download";
+import { mappingDesignMarkdown } from "@/lib/mapping-design";
+import type { MappingDesign as MappingDesignData } from "@/lib/conversation-types";
+
+type Issue = MappingDesignData["validation"][number];
+
+const SEVERITY: Record<Issue["severity"], { icon: typeof Info; tone: string }> = {
+  error: { icon: CircleAlert, tone: "text-red-700" },
+  warning: { icon: TriangleAlert, tone: "text-amber-700" },
+  info: { icon: Info, tone: "text-muted-foreground" },
+};
+
+function Pipeline({ transformations }: { transformations: MappingDesignData["transformations"] }) {
+  return (
+    <TooltipProvider delayDuration={150}>
+      <div className="flex flex-wrap items-center gap-1">
+        {transformations.map((t, tIdx) => (
+          <div key={t.name} className="flex items-center gap-1">
+            {tIdx > 0 && <ArrowRight className="w-3 h-3 text-muted-foreground" />}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant={t.type === "Source" || t.type === "Target" ? "default" : "secondary"} className="text-[10px] py-0 px-2 h-5 font-normal cursor-default">
+                  <span className="font-semibold mr-1">{t.type}</span>
+                  {t.name}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs text-xs space-y-1">
+                {t.inputs.length > 0 && <p className="text-muted-foreground">From {t.inputs.join(", ")}</p>}
+                <p>{t.description}</p>
+                {t.properties.map((property) => (
+                  <p key={property.name}>
+                    <span className="font-semibold">{property.name}:</span> <span className="font-code">{property.value}</span>
+                  </p>
+                ))}
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        ))}
+      </div>
+    </TooltipProvider>
+  );
+}
+
+export function MappingDesign({ design }: { design: MappingDesignData }) {
+  const errors = design.validation.filter((issue) => issue.severity === "error").length;
+  const stem = fileStem(design.name);
+
+  return (
+    <Collapsible defaultOpen className="mt-4 pt-3 border-t border-border/50">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger className="group flex flex-1 min-w-0 items-center gap-1.5 text-[10px] font-bold text-muted-foreground uppercase tracking-widest">
+          <Workflow className="w-3 h-3 shrink-0" />
+          <span className="truncate">{design.name}</span>
+          <span className="normal-case tracking-normal font-normal shrink-0">
+            {design.transformations.length} transformations, {design.fields.length} fields
+            {errors > 0 && `, ${errors} errors`}
+          </span>
+          <ChevronDown className="w-3 h-3 ml-auto shrink-0 transition-transform group-data-[state=open]:rotate-180" />
+        </CollapsibleTrigger>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-[10px]"
+          onClick={() => downloadFile(`${stem}.json`, JSON.stringify(design, null, 2), "application/json")}
+        >
+          <FileJson className="w-3 h-3 mr-1" />
+          JSON
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-[10px]"
+          onClick={() => downloadFile(`${stem}.md`, mappingDesignMarkdown(design), "text/markdown")}
+        >
+          <FileDown className="w-3 h-3 mr-1" />
+          Markdown
+        </Button>
+      </div>
+      <CollapsibleContent className="mt-3 space-y-4">
+        <Pipeline transformations={design.transformations} />
+        {design.fields.length > 0 && (
+          <Table className="text-[11px]">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8">Target</TableHead>
+                <TableHead className="h-8">Transformation</TableHead>
+                <TableHead className="h-8">Expression</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {design.fields.map((field) => (
+                <TableRow key={`${field.target}/${field.transformation}`}>
+                  <TableCell className="py-1.5 font-medium whitespace-nowrap">{field.target}</TableCell>
+                  <TableCell className="py-1.5 whitespace-nowrap">{field.transformation}</TableCell>
+                  <TableCell className="py-1.5 font-code break-all">{field.expression}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest">
+            Validation against {design.spec.file}
+          </p>
+          {design.validation.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Every spec row is mapped and no issues were found.</p>
+          ) : (
+            <ul className="space-y-1 text-xs">
+              {design.validation.map((issue, iIdx) => {
+                const { icon: Icon, tone } = SEVERITY[issue.severity];
+                return (
+                  <li key={iIdx} className="flex items-start gap-1.5">
+                    <Icon className={cn("w-3 h-3 shrink-0 mt-0.5", tone)} />
+                    <span>
+                      <Badge variant="outline" className="text-[9px] py-0 px-1.5 h-4 font-normal mr-1.5">
+                        {issue.kind}
+                      </Badge>
+                      {issue.message}
+                      {issue.location && <span className="text-muted-foreground"> ({issue.location})</span>}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { Fragment, type ReactNode } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CopyButton } from "@/components/copy-button";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown-parse";
+import { highlightCode, highlightLanguage, type TokenKind } from "@/lib/syntax-highlight";
+import { cn } from "@/lib/utils";
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  keyword: "text-purple-700 dark:text-purple-400",
+  string: "text-green-700 dark:text-green-400",
+  number: "text-amber-700 dark:text-amber-400",
+  comment: "text-muted-foreground italic",
+  function: "text-blue-700 dark:text-blue-400",
+  literal: "text-orange-700 dark:text-orange-400",
+  variable: "text-cyan-700 dark:text-cyan-400",
+  tag: "text-rose-700 dark:text-rose-400",
+  attribute: "text-amber-700 dark:text-amber-400",
+  property: "text-sky-700 dark:text-sky-400",
+};
+
+const HEADING_CLASSES = ["text-base font-bold", "text-[15px] font-bold", "text-sm font-bold", "text-sm font-semibold"];
+
+/** Renders the plain text of the answer; lets callers decorate it, e.g. with citation markers. */
+type TextRenderer = (text: string) => ReactNode;
+
+function CodeBlock({ language, text }: { language?: string; text: string }) {
+  const rules = highlightLanguage(language);
+  return (
+    <div className="rounded-md border bg-muted/60 overflow-hidden">
+      <div className="flex items-center justify-between border-b px-3 py-0.5">
+        <span className="text-[10px] uppercase tracking-widest text-muted-foreground">{language || "code"}</span>
+        <CopyButton text={text} label="Copy code" />
+      </div>
+      <pre className="overflow-x-auto px-3 py-2 text-[11px] leading-relaxed font-code">
+        <code>
+          {rules
+            ? highlightCode(text, rules).map((token, tIdx) =>
+                token.kind ? (
+                  <span key={tIdx} className={TOKEN_CLASSES[token.kind]}>
+                    {token.text}
+                  </span>
+                ) : (
+                  <Fragment key={tIdx}>{token.text}</Fragment>
+                )
+              )
+            : text}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+function Inlines({ nodes, renderText }: { nodes: MarkdownInline[]; renderText: TextRenderer }) {
+  return (
+    <>
+      {nodes.map((node, nIdx) => {
+        switch (node.kind) {
+          case "text":
+            return <Fragment key={nIdx}>{renderText(node.text)}</Fragment>;
+          case "code":
+            return (
+              <code key={nIdx} className="rounded bg-muted px-1 py-0.5 font-code text-[0.85em] break-words">
+                {node.text}
+              </code>
+            );
+          case "strong":
+            return (
+              <strong key={nIdx} className="font-semibold">
+                <Inlines nodes={node.children} renderText={renderText} />
+              </strong>
+            );
+          case "emphasis":
+            return (
+              <em key={nIdx}>
+                <Inlines nodes={node.children} renderText={renderText} />
+              </em>
+            );
+          case "strike":
+            return (
+              <s key={nIdx}>
+                <Inlines nodes={node.children} renderText={renderText} />
+              </s>
+            );
+          case "link":
+            return (
+              <a key={nIdx} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2 break-words">
+                <Inlines nodes={node.children} renderText={renderText} />
+              </a>
+            );
+          case "break":
+            return <br key={nIdx} />;
+        }
+      })}
+    </>
+  );
+}
+
+function Blocks({ blocks, renderText }: { blocks: MarkdownBlock[]; renderText: TextRenderer }) {
+  return (
+    <>
+      {blocks.map((block, bIdx) => {
+        switch (block.kind) {
+          case "heading": {
+            const Heading = `h${block.level}` as "h1";
+            return (
+              <Heading key={bIdx} className={cn("leading-snug", HEADING_CLASSES[Math.min(block.level, 4) - 1])}>
+                <Inlines nodes={block.children} renderText={renderText} />
+              </Heading>
+            );
+          }
+          case "paragraph":
+            return (
+              <p key={bIdx} className="leading-relaxed">
+                <Inlines nodes={block.children} renderText={renderText} />
+              </p>
+            );
+          case "code":
+            return <CodeBlock key={bIdx} language={block.language} text={block.text} />;
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={bIdx} start={block.ordered ? block.start : undefined} className={cn("pl-5 space-y-1", block.ordered ? "list-decimal" : "list-disc")}>
+                {block.items.map((item, iIdx) => (
+                  <li key={iIdx} className="pl-0.5 space-y-2">
+                    <Blocks blocks={item} renderText={renderText} />
+                  </li>
+                ))}
+              </List>
+            );
+          }
+          case "quote":
+            return (
+              <blockquote key={bIdx} className="border-l-2 pl-3 text-muted-foreground space-y-2">
+                <Blocks blocks={block.children} renderText={renderText} />
+              </blockquote>
+            );
+          case "table":
+            return (
+              <div key={bIdx} className="rounded-md border overflow-hidden">
+                <Table className="text-xs">
+                  <TableHeader>
+                    <TableRow>
+                      {block.header.map((cell, cIdx) => (
+                        <TableHead key={cIdx} className="h-8 px-2" style={{ textAlign: block.align[cIdx] }}>
+                          <Inlines nodes={cell} renderText={renderText} />
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {block.rows.map((row, rIdx) => (
+                      <TableRow key={rIdx}>
+                        {row.map((cell, cIdx) => (
+                          <TableCell key={cIdx} className="px-2 py-1.5 align-top" style={{ textAlign: block.align[cIdx] }}>
+                            <Inlines nodes={cell} renderText={renderText} />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            );
+          case "rule":
+            return <hr key={bIdx} className="border-border/60" />;
+        }
+      })}
+    </>
+  );
+}
+
+/**
+ * Renders a model answer written in Markdown. The answer is parsed into text nodes and rendered
+ * as React elements, never as HTML, so nothing the model writes can inject markup or scripts.
+ */
+export function MarkdownContent({ content, renderText = (text) => text, className }: { content: string; renderText?: TextRenderer; className?: string }) {
+  return (
+    <div className={cn("text-sm space-y-3 break-words", className)}>
+      <Blocks blocks={parseMarkdown(content)} renderText={renderText} />
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { ChevronLeft, ChevronRight, Pencil, RefreshCw, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CopyButton } from "@/components/copy-button";
+import { AnswerFeedback } from "@/components/answer-feedback";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ChatMessage, ChatMode, MessageFeedback } from "@/lib/conversation-types";
+import { cn } from "@/lib/utils";
+
+/** The modes an answer can be asked again in; they answer from the question text alone. */
+const REASK_MODES: { mode: ChatMode; label: string }[] = [
+  { mode: "standard", label: "Standard Answer" },
+  { mode: "contextual", label: "Contextual Knowledge" },
+  { mode: "comprehensive", label: "Comprehensive Multi-Model" },
+];
+
+type MessageActionsProps = {
+  message: ChatMessage;
+  /** The message and the alternatives to it, oldest first. */
+  alternatives: ChatMessage[];
+  onSwitch: (messageId: string) => void;
+  /** Absent when the message cannot be answered again, e.g. its question had attachments. */
+  onRegenerate?: () => void;
+  onAskInMode?: (mode: ChatMode) => void;
+  onEdit?: () => void;
+  onRate?: (feedback: MessageFeedback) => void;
+  /** Set while an answer is being generated. */
+  disabled?: boolean;
+};
+
+/**
+ * The actions under a message: copy, rate, regenerate or re-ask an answer, edit a question, and
+ * step between alternatives. The actions show on hover; the branch switcher and a rating always show.
+ */
+export function MessageActions({ message, alternatives, onSwitch, onRegenerate, onAskInMode, onEdit, onRate, disabled }: MessageActionsProps) {
+  const position = alternatives.findIndex((alternative) => alternative.id === message.id);
+  const previous = alternatives[position - 1];
+  const next = alternatives[position + 1];
+
+  return (
+    <div className={cn("flex items-center gap-0.5 mt-1 px-1 text-muted-foreground", message.role === "user" ? "flex-row-reverse" : "flex-row")}>
+      {alternatives.length > 1 && (
+        <div className="flex items-center text-[10px]">
+          <Button variant="ghost" size="icon" className="h-6 w-6" disabled={!previous || disabled} onClick={() => onSwitch(previous.id)} aria-label="Previous version">
+            <ChevronLeft className="w-3 h-3" />
+          </Button>
+          <span className="tabular-nums">
+            {position + 1}/{alternatives.length}
+          </span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" disabled={!next || disabled} onClick={() => onSwitch(next.id)} aria-label="Next version">
+            <ChevronRight className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+      {onRate && (
+        <div className={cn(!message.feedback && "opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100")}>
+          <AnswerFeedback feedback={message.feedback} onRate={onRate} />
+        </div>
+      )}
+      <div className="flex items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+        <CopyButton text={message.content} label="Copy message" />
+        {onEdit && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" disabled={disabled} onClick={onEdit} aria-label="Edit and resend">
+            <Pencil className="w-3 h-3" />
+          </Button>
+        )}
+        {onRegenerate && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" disabled={disabled} onClick={onRegenerate} aria-label="Regenerate answer">
+            <RefreshCw className="w-3 h-3" />
+          </Button>
+        )}
+        {onAskInMode && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6" disabled={disabled} aria-label="Ask in another mode">
+                <Repeat className="w-3 h-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuLabel className="text-xs">Ask again in</DropdownMenuLabel>
+              {REASK_MODES.filter(({ mode }) => mode !== message.mode).map(({ mode, label }) => (
+                <DropdownMenuItem key={mode} className="text-xs" onClick={() => onAskInMode(mode)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    </div>
+  );
+}
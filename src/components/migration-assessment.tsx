@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, FileDown, FileJson, Info, PackageCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { downloadFile, fileStem } from "@/lib/download";
+import { migrationAssessmentMarkdown } from "@/lib/migration-assessment";
+import type { MigrationAssessment as MigrationAssessmentData } from "@/lib/conversation-types";
+
+type Complexity = MigrationAssessmentData["objects"][number]["complexity"];
+
+const COMPLEXITY_TONE: Record<Complexity, string> = {
+  simple: "bg-green-600/10 text-green-700 border-green-600/30",
+  medium: "bg-amber-500/10 text-amber-700 border-amber-500/30",
+  complex: "bg-red-600/10 text-red-700 border-red-600/30",
+};
+
+const SUPPORT_TONE: Record<MigrationAssessmentData["transformations"][number]["support"], string> = {
+  supported: "text-muted-foreground",
+  rework: "border-amber-500/40 text-amber-700",
+  unsupported: "border-red-600/40 text-red-700",
+};
+
+/** Objects shown before "Show all", so exports with hundreds of objects stay readable. */
+const INITIAL_ROWS = 25;
+
+export function MigrationAssessment({ assessment }: { assessment: MigrationAssessmentData }) {
+  const [filter, setFilter] = useState<Complexity | "all">("all");
+  const [showAll, setShowAll] = useState(false);
+  const stem = `${fileStem(assessment.files[0] ?? "powercenter")}-migration-assessment`;
+  const objects = assessment.objects.filter((o) => filter === "all" || o.complexity === filter);
+  const total = (complexity: Complexity) => assessment.counts.reduce((sum, c) => sum + c[complexity], 0);
+
+  return (
+    <Collapsible defaultOpen className="mt-4 pt-3 border-t border-border/50">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger className="group flex flex-1 min-w-0 items-center gap-1.5 text-[10px] font-bold text-muted-foreground uppercase tracking-widest">
+          <PackageCheck className="w-3 h-3 shrink-0" />
+          <span className="truncate">Migration assessment</span>
+          <span className="normal-case tracking-normal font-normal shrink-0">
+            {assessment.objects.length} objects, {total("complex")} complex
+          </span>
+          <ChevronDown className="w-3 h-3 ml-auto shrink-0 transition-transform group-data-[state=open]:rotate-180" />
+        </CollapsibleTrigger>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-[10px]"
+          onClick={() => downloadFile(`${stem}.json`, JSON.stringify(assessment, null, 2), "application/json")}
+        >
+          <FileJson className="w-3 h-3 mr-1" />
+          JSON
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-[10px]"
+          onClick={() => downloadFile(`${stem}.md`, migrationAssessmentMarkdown(assessment), "text/markdown")}
+        >
+          <FileDown className="w-3 h-3 mr-1" />
+          Markdown
+        </Button>
+      </div>
+      <CollapsibleContent className="mt-3 space-y-4">
+        <Table className="text-[11px]">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8">Object</TableHead>
+              <TableHead className="h-8 text-right">Total</TableHead>
+              <TableHead className="h-8 text-right">Simple</TableHead>
+              <TableHead className="h-8 text-right">Medium</TableHead>
+              <TableHead className="h-8 text-right">Complex</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {assessment.counts.map((c) => (
+              <TableRow key={c.kind}>
+                <TableCell className="py-1.5 font-medium capitalize">{c.kind}s</TableCell>
+                <TableCell className="py-1.5 text-right">{c.total}</TableCell>
+                <TableCell className="py-1.5 text-right">{c.simple}</TableCell>
+                <TableCell className="py-1.5 text-right">{c.medium}</TableCell>
+                <TableCell className="py-1.5 text-right">{c.complex}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {assessment.findingCounts.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {assessment.findingCounts.map((c) => (
+              <Badge key={c.kind} variant="secondary" className="text-[10px] py-0 px-2 h-5 font-normal">
+                {c.kind}: {c.objects}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          {assessment.transformations.map((t) => (
+            <Badge key={t.type} variant="outline" title={t.idmc} className={cn("text-[10px] py-0 px-2 h-5 font-normal", SUPPORT_TONE[t.support])}>
+              {t.type} × {t.count}
+              {t.support !== "supported" && <span className="ml-1 font-semibold">{t.support}</span>}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-1">
+            {(["all", "complex", "medium", "simple"] as const).map((option) => (
+              <Button
+                key={option}
+                variant={filter === option ? "default" : "ghost"}
+                size="sm"
+                className="h-6 px-2 text-[10px] capitalize"
+                onClick={() => setFilter(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <Table className="text-[11px]">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8">Object</TableHead>
+                <TableHead className="h-8">Complexity</TableHead>
+                <TableHead className="h-8">Findings</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(showAll ? objects : objects.slice(0, INITIAL_ROWS)).map((o) => (
+                <TableRow key={`${o.kind}/${o.folder}/${o.name}`}>
+                  <TableCell className="py-1.5 align-top">
+                    <div className="font-medium break-all">{o.name}</div>
+                    <div className="text-muted-foreground">
+                      {o.kind} · {o.folder}
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-1.5 align-top">
+                    <Badge variant="outline" className={cn("text-[9px] py-0 px-1.5 h-4 font-normal capitalize", COMPLEXITY_TONE[o.complexity])}>
+                      {o.complexity} · {o.score}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="py-1.5 align-top">
+                    {o.findings.length === 0 ? (
+                      <span className="text-muted-foreground">None</span>
+                    ) : (
+                      <ul className="space-y-0.5">
+                        {o.findings.map((finding, fIdx) => (
+                          <li key={fIdx}>{finding.detail}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {!showAll && objects.length > INITIAL_ROWS && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={() => setShowAll(true)}>
+              Show all {objects.length} objects
+            </Button>
+          )}
+        </div>
+
+        {assessment.warnings.length > 0 && (
+          <div className="space-y-1 text-[10px] text-muted-foreground">
+            {assessment.warnings.map((warning, wIdx) => (
+              <div key={wIdx} className="flex items-start gap-1.5">
+                <Info className="w-3 h-3 shrink-0 mt-px" />
+                <span>{warning}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
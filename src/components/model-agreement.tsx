@@ -0,0 +1,70 @@
+"use client";
+
+import { ChevronDown, Check, X as Cross, Scale } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import type { ModelAgreement as ModelAgreementData } from "@/lib/conversation-types";
+
+function agreementTone(score: number) {
+  if (score >= 0.75) return "text-green-600";
+  if (score >= 0.5) return "text-amber-600";
+  return "text-red-600";
+}
+
+export function ModelAgreement({ comparison }: { comparison: ModelAgreementData }) {
+  const labelOf = (id: string) => comparison.panel.find((member) => member.id === id)?.label ?? id;
+  const percent = Math.round(comparison.agreementScore * 100);
+
+  return (
+    <Collapsible className="mt-4 pt-3 border-t border-border/50">
+      <CollapsibleTrigger className="group flex w-full items-center gap-1.5 text-[10px] font-bold text-muted-foreground uppercase tracking-widest">
+        <Scale className="w-3 h-3" />
+        Model agreement:
+        <span className={cn("normal-case tracking-normal", agreementTone(comparison.agreementScore))}>{percent}%</span>
+        <span className="normal-case tracking-normal font-normal">across {comparison.panel.length} models</span>
+        <ChevronDown className="w-3 h-3 ml-auto transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 space-y-3">
+        <div className="flex flex-wrap gap-1.5">
+          {comparison.panel.map((member) => (
+            <Badge key={member.id} variant="secondary" className="text-[10px] font-normal" title={member.model}>
+              {member.label}
+            </Badge>
+          ))}
+        </div>
+        {comparison.claims.length > 0 ? (
+          <ul className="space-y-2">
+            {comparison.claims.map((claim, cIdx) => (
+              <li key={cIdx} className="text-xs">
+                <p className="leading-snug">{claim.claim}</p>
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {claim.supportedBy.map((id) => (
+                    <Badge key={`s-${id}`} variant="outline" className="text-[9px] py-0 px-1.5 h-4 gap-0.5 text-green-700 border-green-600/40">
+                      <Check className="w-2.5 h-2.5" />
+                      {labelOf(id)}
+                    </Badge>
+                  ))}
+                  {claim.contradictedBy.map((id) => (
+                    <Badge key={`c-${id}`} variant="outline" className="text-[9px] py-0 px-1.5 h-4 gap-0.5 text-red-700 border-red-600/40">
+                      <Cross className="w-2.5 h-2.5" />
+                      {labelOf(id)}
+                    </Badge>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <ul className="space-y-1 text-[10px] text-muted-foreground">
+            {comparison.pairwise.map((pair) => (
+              <li key={`${pair.a}-${pair.b}`}>
+                {labelOf(pair.a)} vs {labelOf(pair.b)}: {Math.round(pair.similarity * 100)}% overlap
+              </li>
+            ))}
+          </ul>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
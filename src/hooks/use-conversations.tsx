@@ -0,0 +1,238 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  appendMessage,
+  deleteConversation as deleteStoredConversation,
+  listConversations,
+  loadConversation,
+  renameConversation as renameStoredConversation,
+  createConversation,
+  setActiveLeaf,
+} from "@/lib/conversation-store"
+import { submitFeedback } from "@/lib/feedback-store"
+import { latestLeaf, siblingsOf, threadTo, withParents } from "@/lib/conversation-tree"
+import type { ChatMessage, ConversationSummary, MessageFeedback } from "@/lib/conversation-types"
+import { toast } from "@/hooks/use-toast"
+
+const SEARCH_DEBOUNCE_MS = 250
+
+/** Resolves to the id of the conversation a message belongs to, creating it on first use. */
+export type ConversationHandle = Promise<string>
+
+type ConversationsContextValue = {
+  conversations: ConversationSummary[]
+  activeId: string | null
+  /** The thread shown: the active branch, from the first message to its last. */
+  messages: ChatMessage[]
+  isLoadingConversation: boolean
+  searchQuery: string
+  setSearchQuery: (query: string) => void
+  newChat: () => void
+  selectConversation: (id: string) => Promise<void>
+  renameConversation: (id: string, title: string) => Promise<void>
+  deleteConversation: (id: string) => Promise<void>
+  /**
+   * Shows a message in the active thread and persists it. Pass the handle returned by
+   * an earlier call to keep a reply in the same thread even if the user switched away.
+   * A message without `parentId` follows the last message of the thread shown.
+   */
+  addMessage: (message: ChatMessage, handle?: ConversationHandle) => ConversationHandle
+  /** The handle of the conversation shown, or null for a new chat with no messages yet. */
+  currentHandle: () => ConversationHandle | null
+  /** A message of the active conversation and its alternatives, oldest first. */
+  alternativesOf: (message: ChatMessage) => ChatMessage[]
+  /** Shows the newest thread that goes through a message. */
+  switchBranch: (messageId: string) => void
+  /** Rates an answer in the conversation shown and sends the rating to the feedback store. */
+  rateMessage: (messageId: string, feedback: MessageFeedback) => void
+}
+
+const ConversationsContext = React.createContext<ConversationsContextValue | null>(null)
+
+export function useConversations() {
+  const context = React.useContext(ConversationsContext)
+  if (!context) {
+    throw new Error("useConversations must be used within a ConversationsProvider.")
+  }
+  return context
+}
+
+function reportError(title: string, error: unknown) {
+  console.error(title, error)
+  toast({
+    variant: "destructive",
+    title,
+    description: error instanceof Error ? error.message : undefined,
+  })
+}
+
+export function ConversationsProvider({ children }: { children: React.ReactNode }) {
+  const [conversations, setConversations] = React.useState<ConversationSummary[]>([])
+  const [activeId, setActiveId] = React.useState<string | null>(null)
+  const [allMessages, setAllMessages] = React.useState<ChatMessage[]>([])
+  const [activeLeafId, setActiveLeafId] = React.useState<string | null>(null)
+  const [isLoadingConversation, setIsLoadingConversation] = React.useState(false)
+  const [searchQuery, setSearchQuery] = React.useState("")
+  const activeHandle = React.useRef<ConversationHandle | null>(null)
+  // Read by addMessage, which must see the leaf of a message added just before it.
+  const leafRef = React.useRef<string | null>(null)
+
+  const showLeaf = React.useCallback((leafId: string | null) => {
+    leafRef.current = leafId
+    setActiveLeafId(leafId)
+  }, [])
+
+  const messages = React.useMemo(() => threadTo(allMessages, activeLeafId), [allMessages, activeLeafId])
+
+  const refresh = React.useCallback(async (query: string) => {
+    try {
+      setConversations(await listConversations(query))
+    } catch (error) {
+      reportError("Could not load chat history", error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => refresh(searchQuery), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchQuery, refresh])
+
+  const upsertSummary = React.useCallback((summary: ConversationSummary) => {
+    setConversations((prev) => [summary, ...prev.filter((c) => c.id !== summary.id)])
+  }, [])
+
+  const newChat = React.useCallback(() => {
+    activeHandle.current = null
+    setActiveId(null)
+    setAllMessages([])
+    showLeaf(null)
+  }, [showLeaf])
+
+  const selectConversation = React.useCallback(async (id: string) => {
+    setIsLoadingConversation(true)
+    try {
+      const conversation = await loadConversation(id)
+      if (!conversation) {
+        setConversations((prev) => prev.filter((c) => c.id !== id))
+        throw new Error("This conversation no longer exists.")
+      }
+      const loaded = withParents(conversation.messages)
+      activeHandle.current = Promise.resolve(conversation.id)
+      setActiveId(conversation.id)
+      setAllMessages(loaded)
+      showLeaf(conversation.activeLeafId ?? loaded[loaded.length - 1]?.id ?? null)
+    } catch (error) {
+      reportError("Could not open conversation", error)
+    } finally {
+      setIsLoadingConversation(false)
+    }
+  }, [showLeaf])
+
+  const renameConversation = React.useCallback(async (id: string, title: string) => {
+    try {
+      const summary = await renameStoredConversation(id, title)
+      setConversations((prev) => prev.map((c) => (c.id === id ? summary : c)))
+    } catch (error) {
+      reportError("Could not rename conversation", error)
+    }
+  }, [])
+
+  const deleteConversation = React.useCallback(async (id: string) => {
+    try {
+      await deleteStoredConversation(id)
+      setConversations((prev) => prev.filter((c) => c.id !== id))
+      if (id === activeId) newChat()
+    } catch (error) {
+      reportError("Could not delete conversation", error)
+    }
+  }, [activeId, newChat])
+
+  const addMessage = React.useCallback((message: ChatMessage, handle?: ConversationHandle) => {
+    if (!handle) {
+      if (!activeHandle.current) {
+        const created = createConversation().then((summary) => {
+          if (activeHandle.current === created) setActiveId(summary.id)
+          upsertSummary(summary)
+          return summary.id
+        })
+        activeHandle.current = created
+      }
+      handle = activeHandle.current
+    }
+
+    if (handle === activeHandle.current) {
+      if (message.parentId === undefined) message = { ...message, parentId: leafRef.current }
+      const added = message
+      setAllMessages((prev) => [...prev, added])
+      showLeaf(added.id)
+    }
+
+    handle
+      .then((id) => appendMessage(id, message))
+      .then(upsertSummary)
+      .catch((error) => reportError("Could not save message", error))
+
+    return handle
+  }, [upsertSummary, showLeaf])
+
+  const currentHandle = React.useCallback(() => activeHandle.current, [])
+
+  const alternativesOf = React.useCallback((message: ChatMessage) => siblingsOf(allMessages, message), [allMessages])
+
+  const switchBranch = React.useCallback((messageId: string) => {
+    const leaf = latestLeaf(allMessages, messageId)
+    showLeaf(leaf)
+    if (activeId) {
+      setActiveLeaf(activeId, leaf).catch((error) => reportError("Could not save the branch shown", error))
+    }
+  }, [allMessages, activeId, showLeaf])
+
+  const rateMessage = React.useCallback((messageId: string, feedback: MessageFeedback) => {
+    const handle = activeHandle.current
+    if (!handle) return
+    setAllMessages((prev) => prev.map((message) => (message.id === messageId ? { ...message, feedback } : message)))
+    handle
+      .then((id) => submitFeedback(id, messageId, feedback))
+      .catch((error) => reportError("Could not save feedback", error))
+  }, [])
+
+  const value = React.useMemo<ConversationsContextValue>(
+    () => ({
+      conversations,
+      activeId,
+      messages,
+      isLoadingConversation,
+      searchQuery,
+      setSearchQuery,
+      newChat,
+      selectConversation,
+      renameConversation,
+      deleteConversation,
+      addMessage,
+      currentHandle,
+      alternativesOf,
+      switchBranch,
+      rateMessage,
+    }),
+    [
+      conversations,
+      activeId,
+      messages,
+      isLoadingConversation,
+      searchQuery,
+      newChat,
+      selectConversation,
+      renameConversation,
+      deleteConversation,
+      addMessage,
+      currentHandle,
+      alternativesOf,
+      switchBranch,
+      rateMessage,
+    ]
+  )
+
+  return <ConversationsContext.Provider value={value}>{children}</ConversationsContext.Provider>
+}
@@ -0,0 +1,9 @@
+/**
+ * @fileOverview Attachment limits shared by the chat UI and the attachment analysis flow.
+ */
+
+/** Upper bound on files per message; each file adds extracted text or media to the prompt. */
+export const MAX_ATTACHMENTS = 5;
+
+/** Per-file size limit. */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
@@ -0,0 +1,90 @@
+/**
+ * @fileOverview Validation of chat messages sent to the conversation store, which any client can
+ * call. The schema is typed against `ChatMessage` (conversation-types.ts), so the two cannot drift,
+ * and bounds what a message may hold. Answer parts reuse the schemas of the modules that produce
+ * them; parts whose schemas live in server-action flow modules are only checked to be objects.
+ *
+ * - MAX_MESSAGE_LENGTH - Longest message text the store accepts.
+ * - ChatMessageSchema - Parses a message before it is stored.
+ */
+
+import { z } from 'genkit';
+import { ModelComparisonSchema } from '@/ai/agreement';
+import { ArchitectureGraphSchema } from '@/ai/architecture';
+import { CitationSchema } from '@/ai/citations';
+import { DataProfileSchema, RuleSuggestionSchema } from '@/ai/extractors/data-quality';
+import { MappingDesignSchema } from '@/ai/mapping-spec/design';
+import { MigrationAssessmentSchema } from '@/ai/powercenter/assessment';
+import { VerifiedAnswerSchema } from '@/ai/retrieval/curated';
+import { AgentStepSchema } from '@/ai/streaming';
+import { MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS } from '@/lib/attachments';
+import type { ChatMessage, CheckedExpression, FailedBranch, FileCoverage, LogDiagnosis } from '@/lib/conversation-types';
+
+/** Room for a long pasted log; answers are far shorter. */
+export const MAX_MESSAGE_LENGTH = 200_000;
+
+/** Image thumbnails are kept as data URIs of at most one attachment. */
+const MAX_DATA_URI_LENGTH = Math.ceil((MAX_ATTACHMENT_BYTES * 4) / 3) + 256;
+
+const MAX_LIST_LENGTH = 200;
+
+/** Everything but the text and attachments: citations, diagnoses, designs, traces and the like. */
+const MAX_ANSWER_PARTS_LENGTH = 2_000_000;
+
+const IdSchema = z.string().regex(/^[\w-]{1,100}$/, 'Message ids may only contain letters, digits, "_" and "-".');
+
+const ShortTextSchema = z.string().max(2000);
+
+/** An answer part checked by the flow that produced it; here only its shape as an object. */
+function flowPart<T>() {
+  return z.custom<T>((value) => typeof value === 'object' && value !== null && !Array.isArray(value));
+}
+
+const MessageFeedbackSchema = z.object({
+  rating: z.enum(['up', 'down']),
+  correction: z.string().max(20_000).optional(),
+});
+
+const MessageAttachmentSchema = z.object({
+  name: z.string().max(500),
+  type: z.string().max(200),
+  size: z.number().nonnegative().optional(),
+  url: z.string().startsWith('data:').max(MAX_DATA_URI_LENGTH).optional(),
+});
+
+// Unknown keys are stripped when parsing, so every ChatMessage field needs an entry here.
+const chatMessageFields = {
+  id: IdSchema,
+  role: z.enum(['user', 'ai']),
+  content: z.string().max(MAX_MESSAGE_LENGTH),
+  createdAt: z.string().datetime(),
+  parentId: IdSchema.nullable().optional(),
+  sources: z.array(z.string().max(2000)).max(MAX_LIST_LENGTH).optional(),
+  citations: z.array(CitationSchema).max(MAX_LIST_LENGTH).optional(),
+  unsupportedSentences: z.array(ShortTextSchema).max(MAX_LIST_LENGTH).optional(),
+  mode: z.string().max(50).optional(),
+  models: z.array(z.string().max(200)).max(MAX_LIST_LENGTH).optional(),
+  contributors: z.array(z.string().max(200)).max(MAX_LIST_LENGTH).optional(),
+  failedBranches: z.array(z.union([z.string().max(200), flowPart<FailedBranch>()])).max(MAX_LIST_LENGTH).optional(),
+  comparison: ModelComparisonSchema.optional(),
+  diagnosis: flowPart<LogDiagnosis>().optional(),
+  status: z.literal('stopped').optional(),
+  attachments: z.array(MessageAttachmentSchema).max(MAX_ATTACHMENTS).optional(),
+  coverage: z.array(flowPart<FileCoverage>()).max(MAX_LIST_LENGTH).optional(),
+  dataProfiles: z.array(DataProfileSchema).max(MAX_LIST_LENGTH).optional(),
+  ruleSuggestions: z.array(RuleSuggestionSchema).max(MAX_LIST_LENGTH).optional(),
+  architecture: ArchitectureGraphSchema.optional(),
+  mappingDesign: MappingDesignSchema.optional(),
+  migrationAssessment: MigrationAssessmentSchema.optional(),
+  expressions: z.array(flowPart<CheckedExpression>()).max(MAX_LIST_LENGTH).optional(),
+  agentTrace: z.array(AgentStepSchema).max(MAX_LIST_LENGTH).optional(),
+  stepLimitReached: z.boolean().optional(),
+  verifiedAnswers: z.array(VerifiedAnswerSchema).max(MAX_LIST_LENGTH).optional(),
+  feedback: MessageFeedbackSchema.optional(),
+  attachment: MessageAttachmentSchema.optional(),
+} satisfies Record<keyof ChatMessage, z.ZodTypeAny>;
+
+export const ChatMessageSchema: z.ZodType<ChatMessage, z.ZodTypeDef, unknown> = z.object(chatMessageFields).refine(
+  ({ content, attachments, attachment, ...parts }) => JSON.stringify(parts).length <= MAX_ANSWER_PARTS_LENGTH,
+  'The message\'s answer parts are too large to store.'
+);
@@ -0,0 +1,157 @@
+'use server';
+/**
+ * @fileOverview Server-side conversation store backing the chat history sidebar.
+ * Each conversation is one JSON file under `<data dir>/conversations`.
+ *
+ * - createConversation - Starts a new, empty conversation.
+ * - listConversations - Lists conversations, newest first, optionally filtered by a search query.
+ * - loadConversation - Loads a conversation with all of its messages.
+ * - appendMessage - Checks a message and adds it to a conversation, showing the thread it ends.
+ * - setActiveLeaf - Chooses which branch of a conversation is shown.
+ * - setMessageFeedback - Records the user's rating on an answer.
+ * - renameConversation - Changes a conversation's title.
+ * - deleteConversation - Removes a conversation.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { dataDir, readJsonFile, withFileLock, writeJsonFile } from '@/lib/json-file';
+import { ChatMessageSchema } from '@/lib/conversation-schema';
+import type { ChatMessage, Conversation, ConversationSummary, MessageFeedback } from '@/lib/conversation-types';
+
+const conversationsDir = path.join(dataDir, 'conversations');
+const DEFAULT_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 80;
+
+function conversationPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid conversation id: ${id}`);
+  }
+  return path.join(conversationsDir, `${id}.json`);
+}
+
+function titleFrom(text: string): string {
+  const line = text.trim().split('\n')[0] ?? '';
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line || DEFAULT_TITLE;
+}
+
+function summarize(conversation: Conversation): ConversationSummary {
+  const { messages, activeLeafId, ...rest } = conversation;
+  const lastMessage = messages.find((m) => m.id === activeLeafId) ?? messages[messages.length - 1];
+  return {
+    ...rest,
+    messageCount: messages.length,
+    preview: lastMessage?.content.slice(0, 120),
+  };
+}
+
+/** `touch: false` keeps the conversation's place in the history, for changes that are not new activity. */
+async function updateConversation(
+  id: string,
+  update: (conversation: Conversation) => void,
+  { touch = true }: { touch?: boolean } = {}
+): Promise<Conversation> {
+  const file = conversationPath(id);
+  return withFileLock(file, async () => {
+    const conversation = await readJsonFile<Conversation>(file);
+    if (!conversation) throw new Error(`Conversation ${id} not found.`);
+    update(conversation);
+    if (touch) conversation.updatedAt = new Date().toISOString();
+    await writeJsonFile(file, conversation);
+    return conversation;
+  });
+}
+
+export async function createConversation(title?: string): Promise<ConversationSummary> {
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    id: randomUUID(),
+    title: title ? titleFrom(title) : DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+  await writeJsonFile(conversationPath(conversation.id), conversation);
+  return summarize(conversation);
+}
+
+export async function listConversations(query?: string): Promise<ConversationSummary[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(conversationsDir)).filter((name) => name.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const needle = query?.trim().toLowerCase();
+  const conversations = await Promise.all(
+    files.map((name) => readJsonFile<Conversation>(path.join(conversationsDir, name)))
+  );
+
+  return conversations
+    .filter((c): c is Conversation => !!c)
+    .filter(
+      (c) =>
+        !needle ||
+        c.title.toLowerCase().includes(needle) ||
+        c.messages.some((m) => m.content.toLowerCase().includes(needle))
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(summarize);
+}
+
+export async function loadConversation(id: string): Promise<Conversation | null> {
+  return readJsonFile<Conversation>(conversationPath(id));
+}
+
+export async function appendMessage(id: string, input: ChatMessage): Promise<ConversationSummary> {
+  const parsed = ChatMessageSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(`Invalid message: ${parsed.error.issues.map((i) => `${i.path.join('.') || 'message'}: ${i.message}`).join('; ')}`);
+  }
+  const message = parsed.data;
+  const conversation = await updateConversation(id, (c) => {
+    if (c.messages.some((m) => m.id === message.id)) throw new Error(`Message ${message.id} is already part of conversation ${id}.`);
+    if (message.parentId && !c.messages.some((m) => m.id === message.parentId)) {
+      throw new Error(`Message ${message.parentId} is not part of conversation ${id}.`);
+    }
+    // The first user message names an untitled conversation.
+    if (c.title === DEFAULT_TITLE && message.role === 'user' && message.content.trim()) {
+      c.title = titleFrom(message.content);
+    }
+    c.messages.push(message);
+    c.activeLeafId = message.id;
+  });
+  return summarize(conversation);
+}
+
+export async function setActiveLeaf(id: string, leafId: string): Promise<void> {
+  await updateConversation(id, (c) => {
+    if (!c.messages.some((m) => m.id === leafId)) throw new Error(`Message ${leafId} is not part of conversation ${id}.`);
+    c.activeLeafId = leafId;
+  }, { touch: false });
+}
+
+export async function setMessageFeedback(id: string, messageId: string, feedback: MessageFeedback): Promise<void> {
+  await updateConversation(id, (c) => {
+    const message = c.messages.find((m) => m.id === messageId);
+    if (!message) throw new Error(`Message ${messageId} is not part of conversation ${id}.`);
+    message.feedback = feedback;
+  }, { touch: false });
+}
+
+export async function renameConversation(id: string, title: string): Promise<ConversationSummary> {
+  const conversation = await updateConversation(id, (c) => {
+    c.title = titleFrom(title);
+  });
+  return summarize(conversation);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const file = conversationPath(id);
+  await withFileLock(file, async () => {
+    await fs.rm(file, { force: true });
+  });
+}
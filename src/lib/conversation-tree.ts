@@ -0,0 +1,46 @@
+/**
+ * @fileOverview Conversations as trees of branches. Each message points at the message it follows
+ * (`parentId`); regenerated answers and edited questions are siblings of the message they replace.
+ * The chat shows one thread at a time, from the first message down to the conversation's active leaf.
+ *
+ * Messages are stored in the order they were written, so among siblings the last is the newest.
+ * Messages saved before branching existed have no `parentId` and follow the message before them.
+ *
+ * - withParents - Fills in the parent of messages saved before branching existed.
+ * - threadTo - The thread from the first message down to a message.
+ * - latestLeaf - The newest message at the end of the branches below a message.
+ * - siblingsOf - A message and the alternatives to it, oldest first.
+ */
+
+import type { ChatMessage } from "@/lib/conversation-types";
+
+export function withParents(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message, i) =>
+    message.parentId === undefined ? { ...message, parentId: i > 0 ? messages[i - 1].id : null } : message
+  );
+}
+
+/** Falls back to the newest message when `leafId` is absent or unknown. */
+export function threadTo(messages: ChatMessage[], leafId?: string | null): ChatMessage[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const thread: ChatMessage[] = [];
+  let current: ChatMessage | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+  while (current && thread.length < messages.length) {
+    thread.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return thread;
+}
+
+export function latestLeaf(messages: ChatMessage[], id: string): string {
+  let leaf = id;
+  for (;;) {
+    const children = messages.filter((message) => message.parentId === leaf);
+    if (!children.length) return leaf;
+    leaf = children[children.length - 1].id;
+  }
+}
+
+export function siblingsOf(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  return messages.filter((other) => (other.parentId ?? null) === (message.parentId ?? null));
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileOverview Types shared by the conversation store and the chat UI.
+ * Structured answer parts are the flows' own output types, so stored messages cannot drift from them.
+ */
+
+import type { ModelComparison } from "@/ai/agreement";
+import type { ArchitectureGraph } from "@/ai/architecture";
+import type { Citation } from "@/ai/citations";
+import type { DataProfile, RuleSuggestion } from "@/ai/extractors/data-quality";
+import type { FileCoverage } from "@/ai/flows/attachment-analysis";
+import type { FailedBranch } from "@/ai/flows/comprehensive-idmc-insights";
+import type { CheckedExpression } from "@/ai/flows/expression-helper";
+import type { LogDiagnosis } from "@/ai/flows/log-diagnosis";
+import type { MappingDesign } from "@/ai/mapping-spec/design";
+import type { MigrationAssessment } from "@/ai/powercenter/assessment";
+import type { VerifiedAnswer } from "@/ai/retrieval/curated";
+import type { AgentStep } from "@/ai/streaming";
+
+export type {
+  AgentStep,
+  ArchitectureGraph,
+  CheckedExpression,
+  Citation,
+  DataProfile,
+  FailedBranch,
+  FileCoverage,
+  LogDiagnosis,
+  MappingDesign,
+  MigrationAssessment,
+  RuleSuggestion,
+  VerifiedAnswer,
+};
+
+/** Comprehensive mode: how the panel models agreed on the key claims of an answer. */
+export type ModelAgreement = ModelComparison;
+
+export type ChatMode = "standard" | "contextual" | "comprehensive" | "troubleshoot" | "architecture" | "mapping" | "expression" | "agent";
+
+export type MessageAttachment = {
+  name: string;
+  type: string;
+  size?: number;
+  /** Data URI, kept for images only so thumbnails can be restored. */
+  url?: string;
+};
+
+/** A user's rating of an answer, with an optional correction in their own words. */
+export type MessageFeedback = {
+  rating: "up" | "down";
+  correction?: string;
+};
+
+export type ChatMessage = {
+  id: string;
+  role: "user" | "ai";
+  content: string;
+  createdAt: string;
+  /**
+   * The message this one follows; null for the first. Alternatives (regenerated answers,
+   * edited questions) share a parent. Absent on messages saved before branching existed.
+   */
+  parentId?: string | null;
+  sources?: string[];
+  /** Contextual mode: chunks cited inline as [n], and sentences no retrieved chunk supports. */
+  citations?: Citation[];
+  unsupportedSentences?: string[];
+  mode?: string;
+  /** The models that wrote an answer, as reported by its flow. Absent on stopped answers. */
+  models?: string[];
+  /** Comprehensive mode: model branches that contributed to, or dropped out of, the answer. */
+  contributors?: string[];
+  /** Plain branch ids on messages saved before failure reasons were kept. */
+  failedBranches?: (FailedBranch | string)[];
+  comparison?: ModelAgreement;
+  diagnosis?: LogDiagnosis;
+  /** Set when the user stopped generation; `content` then holds the partial answer. */
+  status?: "stopped";
+  attachments?: MessageAttachment[];
+  coverage?: FileCoverage[];
+  dataProfiles?: DataProfile[];
+  ruleSuggestions?: RuleSuggestion[];
+  architecture?: ArchitectureGraph;
+  mappingDesign?: MappingDesign;
+  migrationAssessment?: MigrationAssessment;
+  expressions?: CheckedExpression[];
+  /** Agent mode: the tool calls behind the answer, and whether the step budget cut them short. */
+  agentTrace?: AgentStep[];
+  stepLimitReached?: boolean;
+  /** Contextual and comprehensive modes: curated answers from the IDMC team the answer used. */
+  verifiedAnswers?: VerifiedAnswer[];
+  /** The user's rating of an answer; the full record is kept by the feedback store. */
+  feedback?: MessageFeedback;
+  /** Single attachment of messages saved before multi-file support; read via `attachments` when set. */
+  attachment?: MessageAttachment;
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Every message of every branch, in the order they were written. */
+  messages: ChatMessage[];
+  /** The last message of the thread shown; the newest message when absent. */
+  activeLeafId?: string;
+};
+
+export type ConversationSummary = Omit<Conversation, "messages" | "activeLeafId"> & {
+  messageCount: number;
+  preview?: string;
+};
@@ -0,0 +1,75 @@
+'use server';
+/**
+ * @fileOverview Server-side store of curated answers: corrections the IDMC leads approved from
+ * answer feedback. Retrieval serves them ahead of the documentation (see ai/retrieval/curated.ts).
+ * All curated answers live in one JSON file, `<data dir>/curated-answers.json`. Because every prompt
+ * trusts them, only signed-in reviewers can change them (see reviewer-auth.ts).
+ *
+ * - listCuratedAnswers - Lists curated answers, newest first.
+ * - saveCuratedAnswer - Approves a new curated answer, or edits an existing one.
+ * - deleteCuratedAnswer - Withdraws a curated answer.
+ */
+
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { dataDir, readJsonFile, withFileLock, writeJsonFile } from '@/lib/json-file';
+import { topicOf } from '@/lib/feedback-report';
+import { requireReviewer } from '@/lib/reviewer-auth';
+import type { CuratedAnswer } from '@/lib/feedback-types';
+
+const curatedPath = path.join(dataDir, 'curated-answers.json');
+
+async function updateCuratedAnswers<T>(update: (answers: CuratedAnswer[]) => T): Promise<T> {
+  return withFileLock(curatedPath, async () => {
+    const answers = (await readJsonFile<CuratedAnswer[]>(curatedPath)) ?? [];
+    const result = update(answers);
+    await writeJsonFile(curatedPath, answers);
+    return result;
+  });
+}
+
+export async function listCuratedAnswers(): Promise<CuratedAnswer[]> {
+  const answers = (await readJsonFile<CuratedAnswer[]>(curatedPath)) ?? [];
+  return answers.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function saveCuratedAnswer(input: {
+  id?: string;
+  question: string;
+  answer: string;
+  fromMessageId?: string;
+}): Promise<CuratedAnswer> {
+  await requireReviewer();
+  const question = input.question.trim();
+  const answer = input.answer.trim();
+  if (!question || !answer) throw new Error('A curated answer needs both a question and an answer.');
+
+  return updateCuratedAnswers((answers) => {
+    const now = new Date().toISOString();
+    const existing = input.id ? answers.find((a) => a.id === input.id) : undefined;
+    if (input.id && !existing) throw new Error(`Curated answer ${input.id} not found.`);
+    if (existing) {
+      Object.assign(existing, { question, answer, topic: topicOf(question), updatedAt: now });
+      return existing;
+    }
+    const curated: CuratedAnswer = {
+      id: randomUUID(),
+      question,
+      answer,
+      topic: topicOf(question),
+      fromMessageId: input.fromMessageId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    answers.push(curated);
+    return curated;
+  });
+}
+
+export async function deleteCuratedAnswer(id: string): Promise<void> {
+  await requireReviewer();
+  await updateCuratedAnswers((answers) => {
+    const index = answers.findIndex((a) => a.id === id);
+    if (index >= 0) answers.splice(index, 1);
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Saves generated content (exports of graphs, designs and reports) as a file in the browser.
+ */
+
+/** Lowercase, dash-separated file name stem, e.g. "m-crm-to-dw-customer". */
+export function fileStem(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "export";
+}
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
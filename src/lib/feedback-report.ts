@@ -0,0 +1,76 @@
+/**
+ * @fileOverview Turns answer feedback into the numbers on the review dashboard.
+ *
+ * - topicOf - The IDMC area a question is about, from its wording.
+ * - buildFeedbackReport - Satisfaction by mode and topic, and the worst-rated questions.
+ */
+
+import type { AnswerFeedback, FeedbackReport, FeedbackTally, RatedQuestion } from "@/lib/feedback-types";
+
+const OTHER_TOPIC = "Other";
+
+/** Topics in priority order: a question about migrating a mapping counts as migration. */
+const TOPICS: [string, RegExp][] = [
+  ["PowerCenter migration", /\b(power ?center|pcto?cdi|migrat\w*|modernization)\b/i],
+  ["Data quality", /\b(data quality|cdq|profil\w*|cleans\w*|dedup\w*|rule specifications?|dictionar(y|ies)|verifier|parse transformation)\b/i],
+  ["Governance & catalog", /\b(cdgc|catalog\w*|lineage|governance|glossary|data marketplace|scanner)\b/i],
+  ["Application integration", /\b(cai|application integration|process designer|service connectors?|process objects?|api gateway)\b/i],
+  ["Secure Agent & runtime", /\b(secure agents?|runtime environments?|agent groups?|serverless|dtm|elastic|advanced cluster)\b/i],
+  ["Taskflows & scheduling", /\b(taskflows?|schedul\w*|mapping tasks?|linear taskflows?|job monitor\w*|monitor)\b/i],
+  ["Connectors & connections", /\b(connectors?|connections?|jdbc|odbc|snowflake|salesforce|s3|azure|bigquery|redshift|databricks|oracle|sql server)\b/i],
+  ["Mappings & expressions", /\b(mappings?|mapplets?|transformations?|expressions?|lookups?|joiner|aggregator|router|filter|iif|decode|parameters?)\b/i],
+  ["Administration & security", /\b(users?|roles?|permissions?|privileges?|saml|sso|licen[cs]es?|administrator|org(anization)?s?|sub-?orgs?|ip whitelist\w*)\b/i],
+  ["Errors & performance", /\b(errors?|fail\w*|exceptions?|timeouts?|slow|performance|tuning|logs?)\b/i],
+];
+
+export function topicOf(question: string): string {
+  return TOPICS.find(([, pattern]) => pattern.test(question))?.[0] ?? OTHER_TOPIC;
+}
+
+function tally(entries: AnswerFeedback[], keyOf: (entry: AnswerFeedback) => string): FeedbackTally[] {
+  const tallies = new Map<string, FeedbackTally>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const current = tallies.get(key) ?? { key, up: 0, down: 0, satisfaction: 0 };
+    current[entry.rating] += 1;
+    tallies.set(key, current);
+  }
+  return [...tallies.values()]
+    .map((t) => ({ ...t, satisfaction: t.up / (t.up + t.down) }))
+    .sort((a, b) => b.up + b.down - (a.up + a.down) || a.key.localeCompare(b.key));
+}
+
+/** Questions asked the same way, give or take case and spacing, are counted together. */
+function questionKey(question: string): string {
+  return question.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function buildFeedbackReport(entries: AnswerFeedback[], worstCount = 10): FeedbackReport {
+  const questions = new Map<string, RatedQuestion>();
+  for (const entry of [...entries].sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))) {
+    const key = questionKey(entry.question);
+    const rated = questions.get(key) ?? { question: entry.question, topic: entry.topic, up: 0, down: 0, modes: [], corrections: [], lastRatedAt: entry.updatedAt };
+    rated[entry.rating] += 1;
+    rated.lastRatedAt = entry.updatedAt;
+    if (entry.mode && !rated.modes.includes(entry.mode)) rated.modes.push(entry.mode);
+    if (entry.correction) rated.corrections.push({ messageId: entry.messageId, mode: entry.mode, answer: entry.answer, correction: entry.correction });
+    questions.set(key, rated);
+  }
+
+  const satisfaction = (q: RatedQuestion) => q.up / (q.up + q.down);
+  const worst = [...questions.values()]
+    .filter((q) => q.down > 0)
+    .sort((a, b) => satisfaction(a) - satisfaction(b) || b.down - a.down || b.lastRatedAt.localeCompare(a.lastRatedAt))
+    .slice(0, worstCount);
+
+  const up = entries.filter((entry) => entry.rating === "up").length;
+  return {
+    total: entries.length,
+    up,
+    down: entries.length - up,
+    corrections: entries.filter((entry) => entry.correction).length,
+    byMode: tally(entries, (entry) => entry.mode ?? "unknown"),
+    byTopic: tally(entries, (entry) => entry.topic),
+    worst,
+  };
+}
@@ -0,0 +1,86 @@
+'use server';
+/**
+ * @fileOverview Server-side store for ratings and corrections of answers, read by the review
+ * dashboard. Each rated answer is one JSON file under `<data dir>/feedback`, named after the
+ * message, so rating an answer again replaces the earlier record.
+ *
+ * - submitFeedback - Rates an answer, recording its question, mode, sources, models and attachments.
+ * - listFeedback - Lists all feedback, newest first.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { dataDir, readJsonFile, withFileLock, writeJsonFile } from '@/lib/json-file';
+import { loadConversation, setMessageFeedback } from '@/lib/conversation-store';
+import { topicOf } from '@/lib/feedback-report';
+import type { MessageFeedback } from '@/lib/conversation-types';
+import type { AnswerFeedback } from '@/lib/feedback-types';
+
+const feedbackDir = path.join(dataDir, 'feedback');
+const MAX_CORRECTION_LENGTH = 4000;
+
+function feedbackPath(messageId: string): string {
+  if (!/^[\w-]+$/.test(messageId)) {
+    throw new Error(`Invalid message id: ${messageId}`);
+  }
+  return path.join(feedbackDir, `${messageId}.json`);
+}
+
+export async function submitFeedback(conversationId: string, messageId: string, feedback: MessageFeedback): Promise<AnswerFeedback> {
+  if (feedback.rating !== 'up' && feedback.rating !== 'down') {
+    throw new Error(`Invalid rating: ${feedback.rating}`);
+  }
+  const correction = feedback.correction?.trim().slice(0, MAX_CORRECTION_LENGTH) || undefined;
+
+  const conversation = await loadConversation(conversationId);
+  const index = conversation?.messages.findIndex((m) => m.id === messageId) ?? -1;
+  const answer = conversation?.messages[index];
+  if (!conversation || !answer || answer.role !== 'ai') {
+    throw new Error(`Answer ${messageId} not found in conversation ${conversationId}.`);
+  }
+  // Messages saved before branching existed follow the message stored before them.
+  const parentId = answer.parentId === undefined ? conversation.messages[index - 1]?.id : answer.parentId;
+  const question = conversation.messages.find((m) => m.id === parentId);
+  const attachments = question?.attachments ?? (question?.attachment ? [question.attachment] : []);
+
+  const file = feedbackPath(messageId);
+  const entry = await withFileLock(file, async () => {
+    const previous = await readJsonFile<AnswerFeedback>(file);
+    const now = new Date().toISOString();
+    const entry: AnswerFeedback = {
+      messageId,
+      conversationId,
+      rating: feedback.rating,
+      correction,
+      question: question?.content ?? '',
+      answer: answer.content,
+      mode: answer.mode,
+      sources: answer.sources ?? [],
+      // As recorded when the answer arrived; answers saved before that are not attributed.
+      models: answer.models ?? [],
+      attachmentTypes: attachments.map((attachment) => attachment.type),
+      topic: topicOf(question?.content ?? ''),
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await writeJsonFile(file, entry);
+    return entry;
+  });
+  await setMessageFeedback(conversationId, messageId, { rating: entry.rating, correction });
+  return entry;
+}
+
+export async function listFeedback(): Promise<AnswerFeedback[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(feedbackDir)).filter((name) => name.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries = await Promise.all(files.map((name) => readJsonFile<AnswerFeedback>(path.join(feedbackDir, name))));
+  return entries
+    .filter((entry): entry is AnswerFeedback => !!entry)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileOverview Types shared by the answer feedback and curated answer stores and the review dashboard.
+ */
+
+import type { MessageFeedback } from "@/lib/conversation-types";
+
+/** A rated answer, with what is needed to review it without opening the conversation. */
+export type AnswerFeedback = MessageFeedback & {
+  /** The id of the rated message; one record per answer, replaced when the user rates again. */
+  messageId: string;
+  conversationId: string;
+  question: string;
+  answer: string;
+  mode?: string;
+  sources: string[];
+  /** The models that wrote the answer. */
+  models: string[];
+  /** MIME types of the files attached to the question. */
+  attachmentTypes: string[];
+  topic: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Ratings for one mode or topic. */
+export type FeedbackTally = {
+  key: string;
+  up: number;
+  down: number;
+  /** Share of thumbs up, from 0 to 1. */
+  satisfaction: number;
+};
+
+/** A question whose answers were rated down, with the corrections users suggested. */
+export type RatedQuestion = {
+  question: string;
+  topic: string;
+  up: number;
+  down: number;
+  modes: string[];
+  corrections: { messageId: string; mode?: string; answer: string; correction: string }[];
+  lastRatedAt: string;
+};
+
+export type FeedbackReport = {
+  total: number;
+  up: number;
+  down: number;
+  corrections: number;
+  byMode: FeedbackTally[];
+  byTopic: FeedbackTally[];
+  /** Questions with the lowest satisfaction, most thumbs down first among ties. */
+  worst: RatedQuestion[];
+};
+
+/** An expert answer approved by the IDMC leads, served ahead of the documentation for matching questions. */
+export type CuratedAnswer = {
+  id: string;
+  question: string;
+  answer: string;
+  topic: string;
+  /** The rated answer whose correction this was approved from, if any. */
+  fromMessageId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
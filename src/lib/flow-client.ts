@@ -0,0 +1,54 @@
+import { streamFlow } from "@genkit-ai/next/client";
+import type { AgentStep, AnswerStage, AnswerStreamChunk } from "@/ai/streaming";
+
+/** Route handlers serving each streaming flow (see src/app/api/flows). */
+export const FLOW_ROUTES = {
+  standard: "/api/flows/idmc-question-answering",
+  contextual: "/api/flows/contextual-idmc-answers",
+  comprehensive: "/api/flows/comprehensive-idmc-insights",
+  attachment: "/api/flows/attachment-analysis",
+  troubleshoot: "/api/flows/log-diagnosis",
+  mapping: "/api/flows/mapping-design",
+  expression: "/api/flows/expression-helper",
+  agent: "/api/flows/idmc-agent",
+} as const;
+
+export const STAGE_LABELS: Record<AnswerStage, string> = {
+  reading: "Reading large files",
+  answering: "Asking the model panel",
+  comparing: "Comparing model answers",
+  synthesizing: "Synthesizing answer",
+  validating: "Checking expressions",
+};
+
+type StreamCallbacks = {
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void;
+  /** The answer streamed so far is abandoned; later deltas start a new one. */
+  onReset?: () => void;
+  onStage?: (stage: AnswerStage) => void;
+  onStep?: (step: AgentStep) => void;
+};
+
+/**
+ * Calls a streaming answer flow, forwarding text deltas, resets, stage changes and agent steps as they arrive.
+ * Resolves to the flow's final output; rejects with an AbortError when `signal` fires.
+ */
+export async function streamAnswerFlow<O>(
+  url: string,
+  input: unknown,
+  { signal, onDelta, onReset, onStage, onStep }: StreamCallbacks = {}
+): Promise<O> {
+  const response = streamFlow({ url, input, abortSignal: signal });
+  for await (const chunk of response.stream as AsyncIterable<AnswerStreamChunk>) {
+    if (chunk.stage) onStage?.(chunk.stage);
+    if (chunk.step) onStep?.(chunk.step);
+    if (chunk.reset) onReset?.();
+    if (chunk.delta) onDelta?.(chunk.delta);
+  }
+  return (await response.output) as O;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
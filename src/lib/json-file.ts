@@ -0,0 +1,43 @@
+/**
+ * @fileOverview Small helpers for the JSON files the app persists under its data directory.
+ * Server-only: imported from server actions, never from client components.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/** Root folder for everything the app stores server-side. */
+export const dataDir = path.resolve(process.env.IDMC_DATA_DIR || '.data');
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Serializes async work per key so read-modify-write cycles on the same file
+ * never interleave within this process.
+ */
+export function withFileLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(key, next);
+  next.finally(() => {
+    if (writeQueues.get(key) === next) writeQueues.delete(key);
+  }).catch(() => undefined);
+  return next;
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/** Writes via a temp file and rename so readers never observe a half-written file. */
+export async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(value, null, 2));
+  await fs.rename(tmpPath, filePath);
+}
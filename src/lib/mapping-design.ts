@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Renders a proposed mapping design as a Markdown document, for download.
+ */
+
+import { markdownTable } from "@/lib/markdown";
+import type { MappingDesign } from "@/lib/conversation-types";
+
+export function mappingDesignMarkdown(design: MappingDesign): string {
+  const lines = [
+    `# ${design.name}`,
+    "",
+    design.summary,
+    "",
+    `Generated from \`${design.spec.file}\` (${design.spec.sheets.join(", ")}; ${design.spec.rows} spec rows).`,
+    "",
+    "## Transformations",
+    "",
+  ];
+  design.transformations.forEach((t, i) => {
+    lines.push(`### ${i + 1}. ${t.name} (${t.type})`, "");
+    if (t.inputs.length) lines.push(`Input: ${t.inputs.join(", ")}`, "");
+    if (t.description) lines.push(t.description, "");
+    if (t.properties.length) lines.push(...t.properties.map((p) => `- **${p.name}:** \`${p.value}\``), "");
+  });
+
+  lines.push(
+    "## Field derivations",
+    "",
+    ...markdownTable(
+      ["Target", "Transformation", "Expression", "Sources", "Type"],
+      design.fields.map((f) => [f.target, f.transformation, `\`${f.expression}\``, f.sources.join(", "), f.datatype ?? ""])
+    ),
+    ""
+  );
+
+  lines.push("## Validation", "");
+  if (design.validation.length) {
+    lines.push(
+      ...markdownTable(
+        ["Severity", "Kind", "Column", "Spec rows", "Issue"],
+        design.validation.map((v) => [v.severity, v.kind, v.column ?? "", v.location ?? "", v.message])
+      )
+    );
+  } else {
+    lines.push("No issues found.");
+  }
+  return `${lines.join("\n")}\n`;
+}
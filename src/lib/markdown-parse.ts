@@ -0,0 +1,382 @@
+/**
+ * @fileOverview Parses the Markdown models write into a small syntax tree for the chat to render:
+ * headings, paragraphs, lists, block quotes, fenced code, GitHub-style tables, rules, and inline
+ * code, emphasis, strikethrough and links.
+ *
+ * The tree holds text, never HTML, so rendering it cannot inject markup. HTML the model emits is
+ * sanitized here: `<br>` becomes a line break, other tags are dropped while their text is kept,
+ * and `<script>` / `<style>` elements and comments are removed with their content. Links keep
+ * only http(s), mailto and relative URLs; images become links to the image.
+ *
+ * - MarkdownBlock / MarkdownInline - Nodes of the tree.
+ * - parseMarkdown - Parses Markdown text into blocks. Unclosed constructs (such as a code fence
+ *   still being streamed) extend to the end of the text.
+ */
+
+export type MarkdownInline =
+  | { kind: "text"; text: string }
+  | { kind: "code"; text: string }
+  | { kind: "strong" | "emphasis" | "strike"; children: MarkdownInline[] }
+  | { kind: "link"; href: string; children: MarkdownInline[] }
+  | { kind: "break" };
+
+export type TableAlignment = "left" | "center" | "right" | undefined;
+
+export type MarkdownBlock =
+  | { kind: "heading"; level: number; children: MarkdownInline[] }
+  | { kind: "paragraph"; children: MarkdownInline[] }
+  | { kind: "code"; language?: string; text: string }
+  | { kind: "list"; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { kind: "quote"; children: MarkdownBlock[] }
+  | { kind: "table"; align: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { kind: "rule" };
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SETEXT = /^ {0,3}(=+|-+)\s*$/;
+
+const SAFE_URL = /^(https?:|mailto:|\/|#)/i;
+const DROPPED_ELEMENTS = /^<(script|style)\b[^>]*>[\s\S]*?(<\/\1\s*>|$)/i;
+const HTML_TAG = /^<\/?([a-z][\w-]*)(?:\s[^<>]*)?\/?>/i;
+const HTML_COMMENT = /^<!--[\s\S]*?(-->|$)/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i;
+const BARE_URL = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"*_~]/;
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].replace(/\t/g, "    ").length;
+}
+
+function stripIndent(line: string, columns: number): string {
+  let i = 0;
+  let width = 0;
+  while (i < line.length && width < columns && (line[i] === " " || line[i] === "\t")) {
+    width += line[i] === "\t" ? 4 : 1;
+    i++;
+  }
+  return line.slice(i);
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes("|") && i + 1 < lines.length && lines[i + 1].includes("-") && TABLE_SEPARATOR.test(lines[i + 1]);
+}
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  const cells: string[] = [];
+  let cell = "";
+  let inCode = false;
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === "\\" && trimmed[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (char === "`") {
+      inCode = !inCode;
+      cell += char;
+    } else if (char === "|" && !inCode) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/** Whether a line starts a block that ends the paragraph before it. */
+function interruptsParagraph(lines: string[], i: number): boolean {
+  const line = lines[i];
+  if (FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || isTableStart(lines, i)) return true;
+  const item = line.match(LIST_ITEM);
+  // As in CommonMark, only a list starting at 1 may interrupt a paragraph, so "in 2024. We" stays text.
+  return Boolean(item && item[4].trim() && (/^[-*+]$/.test(item[2]) || /^1[.)]$/.test(item[2])));
+}
+
+function parseList(lines: string[], start: number): { block: MarkdownBlock; next: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownBlock[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = lines[i].match(LIST_ITEM);
+    if (!marker || indentOf(marker[1]) !== baseIndent || /\d/.test(marker[2]) !== ordered) break;
+    const contentIndent = baseIndent + marker[2].length + Math.max(marker[3].length, 1);
+    const content = [marker[4]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        // A blank line continues the item only if indented content follows it.
+        let j = i + 1;
+        while (j < lines.length && !lines[j].trim()) j++;
+        if (j < lines.length && indentOf(lines[j]) > baseIndent) {
+          content.push(...lines.slice(i, j).map(() => ""));
+          i = j;
+          continue;
+        }
+        break;
+      }
+      const indent = indentOf(line);
+      if (indent > baseIndent) {
+        content.push(stripIndent(line, Math.min(indent, contentIndent)));
+      } else if (!LIST_ITEM.test(line) && !interruptsParagraph(lines, i) && content[content.length - 1].trim()) {
+        content.push(line); // a lazy continuation of the item's paragraph
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push(parseBlocks(content));
+    // Items separated by blank lines still belong to one list.
+    let j = i;
+    while (j < lines.length && !lines[j].trim()) j++;
+    const following = lines[j]?.match(LIST_ITEM);
+    if (j > i && following && indentOf(following[1]) === baseIndent && /\d/.test(following[2]) === ordered) i = j;
+  }
+
+  return { block: { kind: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, indent, marker, language] = fence;
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(stripIndent(lines[i], indent.length));
+        i++;
+      }
+      i++; // the closing fence
+      // An unclosed fence runs to the end of the text, including the blank lines it ends with.
+      while (i > lines.length && code.length && !code[code.length - 1].trim()) code.pop();
+      blocks.push({ kind: "code", language: language.toLowerCase() || undefined, text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ kind: "heading", level: heading[1].length, children: parseInline(heading[2] ?? "") });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ kind: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && (QUOTE.test(lines[i]) || (lines[i].trim() && quoted.length && !interruptsParagraph(lines, i)))) {
+        quoted.push(lines[i].replace(QUOTE, ""));
+        i++;
+      }
+      blocks.push({ kind: "quote", children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlignment => {
+        const left = cell.startsWith(":");
+        const right = cell.endsWith(":");
+        return left && right ? "center" : right ? "right" : left ? "left" : undefined;
+      });
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes("|")) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? "")));
+        i++;
+      }
+      blocks.push({ kind: "table", align: header.map((_, c) => align[c]), header: header.map((cell) => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line) && line.match(LIST_ITEM)![4].trim()) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    let level = 0;
+    while (i < lines.length && lines[i].trim()) {
+      const setext = lines[i].match(SETEXT);
+      if (setext) {
+        level = setext[1][0] === "=" ? 1 : 2;
+        i++;
+        break;
+      }
+      if (interruptsParagraph(lines, i)) break;
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    const children = parseInline(paragraph.join("\n"));
+    blocks.push(level ? { kind: "heading", level, children } : { kind: "paragraph", children });
+  }
+
+  return blocks;
+}
+
+/** Finds the delimiter closing one opened at `from`, for `*`/`_` emphasis and the like. */
+function findCloser(text: string, delimiter: string, from: number): number {
+  for (let j = text.indexOf(delimiter, from); j >= 0; j = text.indexOf(delimiter, j + 1)) {
+    if (/\s/.test(text[j - 1] ?? " ")) continue;
+    if (text[j - 1] === "\\") continue;
+    // Underscores only close at a word boundary, so snake_case names stay intact.
+    if (delimiter[0] === "_" && /\w/.test(text[j + delimiter.length] ?? "")) continue;
+    // A single delimiter must not be half of a double one.
+    if (delimiter.length === 1 && text[j + 1] === delimiter) {
+      j++;
+      continue;
+    }
+    return j;
+  }
+  return -1;
+}
+
+/** The end of the bracketed text starting at `open`, allowing nested brackets. */
+function closingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let j = open; j < text.length; j++) {
+    if (text[j] === "\\") j++;
+    else if (text[j] === "[") depth++;
+    else if (text[j] === "]" && --depth === 0) return j;
+  }
+  return -1;
+}
+
+function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let plain = "";
+  const flush = () => {
+    if (plain) nodes.push({ kind: "text", text: plain });
+    plain = "";
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text[i];
+
+    if (char === "\\" && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? "")) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      push({ kind: "break" });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const ticks = rest.match(/^`+/)![0];
+      const close = text.indexOf(ticks, i + ticks.length);
+      if (close >= 0 && text[close + ticks.length] !== "`") {
+        const code = text.slice(i + ticks.length, close).replace(/\n/g, " ");
+        push({ kind: "code", text: /^ .* $/.test(code) && code.trim() ? code.slice(1, -1) : code });
+        i = close + ticks.length;
+        continue;
+      }
+      plain += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    if (char === "<") {
+      const autolink = rest.match(AUTOLINK);
+      if (autolink) {
+        push({ kind: "link", href: autolink[1], children: [{ kind: "text", text: autolink[1] }] });
+        i += autolink[0].length;
+        continue;
+      }
+      const dropped = rest.match(DROPPED_ELEMENTS) ?? rest.match(HTML_COMMENT);
+      if (dropped) {
+        i += dropped[0].length;
+        continue;
+      }
+      const tag = rest.match(HTML_TAG);
+      if (tag) {
+        if (tag[1].toLowerCase() === "br") push({ kind: "break" });
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    if (char === "[" || (char === "!" && text[i + 1] === "[")) {
+      const open = char === "!" ? i + 1 : i;
+      const close = closingBracket(text, open);
+      const target = close >= 0 ? text.slice(close + 1).match(/^\(\s*<?([^\s()<>]*)>?(?:\s+["'][^"']*["'])?\s*\)/) : null;
+      if (target) {
+        const label = text.slice(open + 1, close);
+        const children = char === "!" ? [{ kind: "text" as const, text: label || target[1] }] : parseInline(label);
+        if (SAFE_URL.test(target[1])) {
+          push({ kind: "link", href: target[1], children });
+        } else {
+          flush();
+          nodes.push(...children);
+        }
+        i = close + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    if (char === "h") {
+      const url = /\w/.test(text[i - 1] ?? "") ? null : rest.match(BARE_URL);
+      if (url) {
+        push({ kind: "link", href: url[0], children: [{ kind: "text", text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    const delimiter = rest.match(/^(\*\*|__|~~|\*|_)/)?.[0];
+    if (delimiter && !/\s/.test(text[i + delimiter.length] ?? " ") && !(delimiter[0] === "_" && /\w/.test(text[i - 1] ?? ""))) {
+      const close = findCloser(text, delimiter, i + delimiter.length);
+      if (close > i + delimiter.length) {
+        const kind = delimiter === "~~" ? "strike" : delimiter.length === 2 ? "strong" : "emphasis";
+        push({ kind, children: parseInline(text.slice(i + delimiter.length, close)) });
+        i = close + delimiter.length;
+        continue;
+      }
+    }
+
+    plain += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, "\n").split("\n"));
+}
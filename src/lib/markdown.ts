@@ -0,0 +1,16 @@
+/**
+ * @fileOverview Helpers for the Markdown reports offered as downloads.
+ */
+
+/** Escapes table cell content: pipes would split the cell, newlines would end the row. */
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>") || " ";
+}
+
+export function markdownTable(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ];
+}
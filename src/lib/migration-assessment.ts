@@ -0,0 +1,67 @@
+/**
+ * @fileOverview Renders a PowerCenter migration assessment as a Markdown report for download, and
+ * as a short digest that travels with the conversation history so follow-up questions about the
+ * report can be answered after the exports are no longer attached.
+ */
+
+import { markdownTable } from "@/lib/markdown";
+import type { MigrationAssessment } from "@/lib/conversation-types";
+
+/** Objects listed in the history digest; the rest are only counted. */
+const DIGEST_OBJECTS = 40;
+
+export function migrationAssessmentMarkdown(assessment: MigrationAssessment): string {
+  const lines = [
+    "# PowerCenter to IDMC migration assessment",
+    "",
+    `Exports: ${assessment.files.map((file) => `\`${file}\``).join(", ")}. Folders: ${assessment.folders.join(", ") || "none"}.`,
+    "",
+    "## Summary",
+    "",
+    ...markdownTable(
+      ["Object", "Total", "Simple", "Medium", "Complex"],
+      assessment.counts.map((c) => [c.kind, String(c.total), String(c.simple), String(c.medium), String(c.complex)])
+    ),
+    "",
+    ...markdownTable(
+      ["Finding", "Objects"],
+      assessment.findingCounts.map((c) => [c.kind, String(c.objects)])
+    ),
+    "",
+    "## Transformations",
+    "",
+    ...markdownTable(
+      ["PowerCenter type", "Count", "CDI support", "Equivalent"],
+      assessment.transformations.map((t) => [t.type, String(t.count), t.support, t.idmc])
+    ),
+    "",
+    "## Objects",
+    "",
+    ...markdownTable(
+      ["Object", "Kind", "Complexity", "Score", "Findings"],
+      assessment.objects.map((o) => [
+        `${o.folder}/${o.name}`,
+        o.kind,
+        o.complexity,
+        String(o.score),
+        o.findings.map((f) => `${f.kind}: ${f.detail}`).join("\n"),
+      ])
+    ),
+  ];
+  if (assessment.warnings.length) lines.push("", "## Warnings", "", ...assessment.warnings.map((warning) => `- ${warning}`));
+  return `${lines.join("\n")}\n`;
+}
+
+export function migrationAssessmentDigest(assessment: MigrationAssessment): string {
+  const notable = assessment.objects.filter((o) => o.complexity !== "simple");
+  const lines = [
+    `[Migration assessment of ${assessment.files.join(", ")}]`,
+    ...assessment.counts.map((c) => `${c.kind}: ${c.total} (${c.simple} simple, ${c.medium} medium, ${c.complex} complex)`),
+    `Findings: ${assessment.findingCounts.map((c) => `${c.kind} in ${c.objects}`).join(", ") || "none"}`,
+    ...notable
+      .slice(0, DIGEST_OBJECTS)
+      .map((o) => `${o.kind} ${o.folder}/${o.name} [${o.complexity}]: ${[...new Set(o.findings.map((f) => f.kind))].join(", ")}`),
+  ];
+  if (notable.length > DIGEST_OBJECTS) lines.push(`(${notable.length - DIGEST_OBJECTS} more medium or complex objects)`);
+  return lines.join("\n");
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Reviewer check for changes that reach every user, like approving verified answers.
+ * Reviewers sign in on the feedback dashboard with the shared key in `IDMC_REVIEWER_KEY` and get an
+ * HttpOnly cookie derived from it. Without the variable nobody is a reviewer and curation is off.
+ * Server-only: imported from server actions and server components, never from client components.
+ *
+ * - REVIEWER_COOKIE - Name of the reviewer session cookie.
+ * - reviewerKeyConfigured - Whether reviewers can sign in at all.
+ * - matchesReviewerKey - Checks a key typed at sign-in.
+ * - reviewerToken - The cookie value that marks a reviewer.
+ * - isReviewer - Whether the current request comes from a signed-in reviewer.
+ * - requireReviewer - Throws unless it does.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { cookies } from 'next/headers';
+
+export const REVIEWER_COOKIE = 'idmc-reviewer';
+
+export function reviewerKeyConfigured(): boolean {
+  return !!process.env.IDMC_REVIEWER_KEY;
+}
+
+function sameSecret(a: string, b: string): boolean {
+  // Hashed first so both sides have the same length and the comparison takes the same time.
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+export function matchesReviewerKey(candidate: string): boolean {
+  const key = process.env.IDMC_REVIEWER_KEY;
+  return !!key && sameSecret(candidate, key);
+}
+
+/** Derived from the key rather than the key itself; changing the key signs every reviewer out. */
+export function reviewerToken(): string | null {
+  const key = process.env.IDMC_REVIEWER_KEY;
+  return key ? createHmac('sha256', key).update(REVIEWER_COOKIE).digest('hex') : null;
+}
+
+export async function isReviewer(): Promise<boolean> {
+  const token = reviewerToken();
+  const presented = (await cookies()).get(REVIEWER_COOKIE)?.value;
+  return !!token && !!presented && sameSecret(presented, token);
+}
+
+export async function requireReviewer(): Promise<void> {
+  if (!(await isReviewer())) {
+    throw new Error('Only signed-in reviewers can change verified answers.');
+  }
+}
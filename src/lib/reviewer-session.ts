@@ -0,0 +1,32 @@
+'use server';
+/**
+ * @fileOverview Sign-in and sign-out for reviewers on the feedback dashboard (see reviewer-auth.ts).
+ *
+ * - signInAsReviewer - Checks the reviewer key and sets the reviewer cookie.
+ * - signOutReviewer - Clears the reviewer cookie.
+ */
+
+import { cookies } from 'next/headers';
+import { REVIEWER_COOKIE, matchesReviewerKey, reviewerKeyConfigured, reviewerToken } from '@/lib/reviewer-auth';
+
+const SESSION_SECONDS = 12 * 60 * 60;
+
+export async function signInAsReviewer(key: string): Promise<void> {
+  if (!reviewerKeyConfigured()) {
+    throw new Error('Reviewer sign-in is off: IDMC_REVIEWER_KEY is not set on the server.');
+  }
+  if (!matchesReviewerKey(key)) {
+    throw new Error('That reviewer key is not correct.');
+  }
+  (await cookies()).set(REVIEWER_COOKIE, reviewerToken()!, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_SECONDS,
+  });
+}
+
+export async function signOutReviewer(): Promise<void> {
+  (await cookies()).delete(REVIEWER_COOKIE);
+}
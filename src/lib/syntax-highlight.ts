@@ -0,0 +1,128 @@
+/**
+ * @fileOverview Splits code into tokens for syntax highlighting in the chat, for the languages IDMC
+ * answers use: SQL, JSON, XML, Python and IDMC transformation language expressions. Each language
+ * is a list of patterns tried in order at every position; text no pattern claims stays plain.
+ *
+ * - TokenKind - What a highlighted token is, e.g. a keyword or a string.
+ * - highlightLanguage - The highlighter for a code fence's language tag, if one is supported.
+ * - highlightCode - Splits code into plain and highlighted tokens.
+ */
+
+import { BUILT_IN_VARIABLES, FUNCTIONS } from "@/ai/expressions/catalog";
+
+export type TokenKind = "keyword" | "string" | "number" | "comment" | "function" | "literal" | "variable" | "tag" | "attribute" | "property";
+
+export type HighlightToken = { text: string; kind?: TokenKind };
+
+type Rule = [TokenKind, RegExp];
+
+function words(list: string, flags = "i"): RegExp {
+  return new RegExp(`\\b(?:${list.trim().split(/\s+/).join("|")})\\b`, flags);
+}
+
+const NUMBER: Rule = ["number", /\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/i];
+
+const SQL: Rule[] = [
+  ["comment", /--.*|\/\*[\s\S]*?(?:\*\/|$)/],
+  ["string", /'(?:[^']|'')*'?/],
+  ["property", /"[^"]*"?|\[[^\]\n]*\]/],
+  ["keyword", words(`
+    select from where and or not in is null like between exists join inner left right full outer cross on using as
+    group by order having limit offset top distinct union all intersect except case when then else end
+    insert into values update set delete merge matched create alter drop table view index sequence procedure
+    function trigger begin commit rollback with recursive over partition asc desc primary key foreign references
+    default constraint unique check grant revoke truncate declare return returns cast varchar char integer int
+    bigint decimal numeric number date timestamp boolean`)],
+  ["literal", words("true false null")],
+  ["variable", /[@:]\w+|\$\$?\w+/],
+  NUMBER,
+  ["function", /\b[a-z_]\w*(?=\s*\()/i],
+];
+
+const JSON_RULES: Rule[] = [
+  ["property", /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+  ["string", /"(?:[^"\\\n]|\\.)*"?/],
+  ["literal", words("true false null", "")],
+  ["number", /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/i],
+];
+
+const XML: Rule[] = [
+  ["comment", /<!--[\s\S]*?(?:-->|$)/],
+  ["string", /<!\[CDATA\[[\s\S]*?(?:\]\]>|$)/],
+  ["tag", /<\/?[\w:.-]+|\/?>|<\?[\w:.-]+|\?>/],
+  ["attribute", /[\w:.-]+(?=\s*=\s*["'])/],
+  ["string", /"[^"]*"?|'[^']*'?/],
+  ["literal", /&#?\w+;/],
+];
+
+const PYTHON: Rule[] = [
+  ["comment", /#.*/],
+  ["string", /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/i],
+  ["keyword", words(`
+    and as assert async await break class continue def del elif else except finally for from global if import
+    in is lambda nonlocal not or pass raise return try while with yield match case`, "")],
+  ["literal", words("True False None", "")],
+  ["variable", /@[\w.]+/],
+  NUMBER,
+  ["function", /\b[a-z_]\w*(?=\s*\()/i],
+];
+
+const IDMC_EXPRESSION: Rule[] = [
+  ["comment", /(?:--|\/\/).*/],
+  ["string", /'[^']*'?/],
+  ["keyword", words("AND OR NOT")],
+  ["literal", words("TRUE FALSE NULL")],
+  ["variable", /\$\$?\w+|:LKP\.\w+|:MCR\.\w+/i],
+  ["variable", words(Object.keys(BUILT_IN_VARIABLES).join(" "))],
+  ["function", words([...FUNCTIONS.keys()].join(" "))],
+  NUMBER,
+];
+
+const LANGUAGES: [string[], Rule[]][] = [
+  [["sql", "plsql", "tsql", "mysql", "postgresql", "postgres", "snowflake", "oracle"], SQL],
+  [["json", "jsonc", "json5"], JSON_RULES],
+  [["xml", "html", "xsd", "wsdl", "svg"], XML],
+  [["python", "py", "python3"], PYTHON],
+  [["idmc", "expression", "expressions", "infa", "informatica"], IDMC_EXPRESSION],
+];
+
+export function highlightLanguage(language: string | undefined): Rule[] | undefined {
+  if (!language) return undefined;
+  return LANGUAGES.find(([names]) => names.includes(language.toLowerCase()))?.[1];
+}
+
+/** Sticky copies of each language's patterns, so matching is anchored at the scan position. */
+const stickyRules = new WeakMap<Rule[], Rule[]>();
+
+export function highlightCode(code: string, rules: Rule[]): HighlightToken[] {
+  let sticky = stickyRules.get(rules);
+  if (!sticky) {
+    sticky = rules.map(([kind, pattern]) => [kind, new RegExp(pattern.source, `${pattern.flags.replace("g", "")}y`)]);
+    stickyRules.set(rules, sticky);
+  }
+
+  const tokens: HighlightToken[] = [];
+  let plain = "";
+  let i = 0;
+  while (i < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of sticky) {
+      pattern.lastIndex = i;
+      const match = pattern.exec(code);
+      if (!match || !match[0]) continue;
+      if (plain) tokens.push({ text: plain });
+      plain = "";
+      tokens.push({ text: match[0], kind });
+      i += match[0].length;
+      matched = true;
+      break;
+    }
+    if (matched) continue;
+    // Consume a whole word at a time, so patterns never match from the middle of one.
+    const word = /^\w+/.exec(code.slice(i, i + 64))?.[0] ?? code[i];
+    plain += word;
+    i += word.length;
+  }
+  if (plain) tokens.push({ text: plain });
+  return tokens;
+}